@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  IconButton,
+  CircularProgress,
+  Divider
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import Rotate90DegreesCwIcon from '@mui/icons-material/Rotate90DegreesCw';
+import RotateLeftIcon from '@mui/icons-material/RotateLeft';
+import RotateRightIcon from '@mui/icons-material/RotateRight';
+import { useMapStore } from '../../stores/mapStore';
+import { ImageTransformService } from '../../services/imageTransformService';
+
+interface BackgroundRotationDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Turns the background image, with everything drawn on it, and manages the
+ * lot axis the grid and new items follow
+ */
+const BackgroundRotationDialog: React.FC<BackgroundRotationDialogProps> = ({ open, onClose }) => {
+  const { imageUrl, pixelsPerFoot, lotAxis, setLotAxis } = useMapStore();
+  const [angle, setAngle] = useState('');
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState('');
+
+  const degrees = parseFloat(angle);
+  const validAngle = !isNaN(degrees) && degrees % 360 !== 0;
+
+  const handleClose = () => {
+    if (applying) return;
+    setAngle('');
+    setError('');
+    onClose();
+  };
+
+  const handleApply = async () => {
+    if (!imageUrl || !validAngle) return;
+
+    setApplying(true);
+    setError('');
+    try {
+      const rotated = await ImageTransformService.rotateImage(imageUrl, degrees, pixelsPerFoot);
+      ImageTransformService.applyRotation(rotated, degrees);
+      setApplying(false);
+      setAngle('');
+      onClose();
+    } catch (applyFailure) {
+      setApplying(false);
+      setError(applyFailure instanceof Error ? applyFailure.message : 'Failed to rotate the image');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <Rotate90DegreesCwIcon sx={{ mr: 1 }} />
+          Rotate Background
+        </Box>
+        <IconButton onClick={handleClose} size="small" disabled={applying}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent>
+        {!imageUrl ? (
+          <Alert severity="info" sx={{ mb: 2 }}>Import a background image first.</Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Turn the image so the midway runs straight across the screen. Equipment, measurements,
+              calibration lines, the perimeter, fire lanes and site plan layers turn with it and keep
+              their real-world sizes.
+            </Typography>
+
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start', mb: 2 }}>
+              <TextField
+                label="Angle (°)"
+                type="number"
+                size="small"
+                value={angle}
+                onChange={(e) => {
+                  setAngle(e.target.value);
+                  setError('');
+                }}
+                helperText="Clockwise; negative turns counter-clockwise"
+                sx={{ flex: 1 }}
+              />
+              <IconButton onClick={() => setAngle('-90')} title="90° counter-clockwise">
+                <RotateLeftIcon />
+              </IconButton>
+              <IconButton onClick={() => setAngle('90')} title="90° clockwise">
+                <RotateRightIcon />
+              </IconButton>
+            </Box>
+
+            <Button
+              variant="outlined"
+              size="small"
+              disabled={!lotAxis || Math.abs(lotAxis.angle) < 0.05}
+              onClick={() => lotAxis && setAngle((-lotAxis.angle).toFixed(2))}
+              sx={{ mb: 2 }}
+            >
+              Square to Lot Axis
+            </Button>
+
+            <Box
+              sx={{
+                height: 180,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                overflow: 'hidden',
+                bgcolor: '#0a0a0a',
+                borderRadius: 1
+              }}
+            >
+              <Box
+                component="img"
+                src={imageUrl}
+                alt="Background preview"
+                sx={{
+                  maxWidth: '60%',
+                  maxHeight: '60%',
+                  transform: `rotate(${isNaN(degrees) ? 0 : degrees}deg)`
+                }}
+              />
+            </Box>
+
+            {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+          </>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle2" gutterBottom>
+          Lot Axis
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="body2" color="text.secondary">
+            {lotAxis
+              ? `${lotAxis.angle.toFixed(1)}° from horizontal. The grid, rotation snapping and new items follow it.`
+              : 'Not set. Use the Lot Axis tool and click two points along the midway.'}
+          </Typography>
+          <Button size="small" disabled={!lotAxis} onClick={() => setLotAxis(null)} sx={{ ml: 2, flexShrink: 0 }}>
+            Clear
+          </Button>
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={applying}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleApply}
+          variant="contained"
+          disabled={!imageUrl || !validAngle || applying}
+          startIcon={applying ? <CircularProgress size={16} /> : undefined}
+        >
+          Rotate Image
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BackgroundRotationDialog;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -9,26 +9,70 @@ import {
   Box,
   Typography,
   Alert,
-  IconButton
+  IconButton,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  FormControlLabel,
+  Checkbox,
+  Tooltip
 } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
 import SquareFootIcon from '@mui/icons-material/SquareFoot';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { CalibrationConfidence, CalibrationLine, CalibrationService } from '../../services/calibrationService';
 
 interface CalibrationDialogProps {
   open: boolean;
   onClose: () => void;
-  onConfirm: (distance: number) => void;
+  onConfirm: (distance: number, replaceExisting: boolean) => void;
   pixelDistance?: number;
+  calibrationLines?: CalibrationLine[];
+  onRemoveLine?: (id: string) => void;
 }
 
+const CONFIDENCE_LABELS: Record<CalibrationConfidence, { label: string; color: 'error' | 'warning' | 'success' }> = {
+  low: { label: 'Low confidence', color: 'error' },
+  medium: { label: 'Medium confidence', color: 'warning' },
+  high: { label: 'High confidence', color: 'success' }
+};
+
+const PENDING_LINE_ID = 'pending';
+
+const formatDeviation = (percent: number): string =>
+  `${percent >= 0 ? '+' : '−'}${Math.abs(percent).toFixed(1)}%`;
+
 const CalibrationDialog: React.FC<CalibrationDialogProps> = ({
   open,
   onClose,
   onConfirm,
-  pixelDistance = 0
+  pixelDistance = 0,
+  calibrationLines = [],
+  onRemoveLine
 }) => {
   const [distance, setDistance] = useState<string>('');
   const [error, setError] = useState<string>('');
+  const [replaceExisting, setReplaceExisting] = useState(false);
+
+  // The reference set as it will be once the new line is added
+  const previewLines = useMemo(() => {
+    const lines = replaceExisting ? [] : calibrationLines;
+    const numDistance = parseFloat(distance);
+    if (isNaN(numDistance) || numDistance <= 0 || pixelDistance <= 0) return lines;
+
+    const pendingLine: CalibrationLine = {
+      id: PENDING_LINE_ID,
+      startPoint: { id: 'pending-start', x: 0, y: 0 },
+      endPoint: { id: 'pending-end', x: pixelDistance, y: 0 },
+      pixelDistance,
+      realWorldDistance: numDistance,
+      pixelsPerFoot: pixelDistance / numDistance
+    };
+    return [...lines, pendingLine];
+  }, [calibrationLines, distance, pixelDistance, replaceExisting]);
+  const report = CalibrationService.getCalibrationReport(previewLines);
+  const validation = CalibrationService.validateCalibration(previewLines);
 
   const handleConfirm = () => {
     const numDistance = parseFloat(distance);
@@ -39,13 +83,14 @@ const CalibrationDialog: React.FC<CalibrationDialogProps> = ({
     }
 
     // Distance is already in feet
-    onConfirm(numDistance);
+    onConfirm(numDistance, replaceExisting);
     handleClose();
   };
 
   const handleClose = () => {
     setDistance('');
     setError('');
+    setReplaceExisting(false);
     onClose();
   };
 
@@ -96,6 +141,59 @@ const CalibrationDialog: React.FC<CalibrationDialogProps> = ({
           sx={{ mb: 2 }}
         />
 
+        {calibrationLines.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2">
+              Reference lines
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              The new line is averaged with the lines already drawn. Deviation is each line's difference from the averaged scale.
+            </Typography>
+            <List dense disablePadding>
+              {report?.lines.map((lineReport, index) => {
+                const line = previewLines.find(l => l.id === lineReport.lineId);
+                if (!line) return null;
+                const isPending = line.id === PENDING_LINE_ID;
+
+                return (
+                  <ListItem
+                    key={line.id}
+                    disableGutters
+                    secondaryAction={
+                      !isPending && onRemoveLine && (
+                        <Tooltip title="Remove reference line">
+                          <IconButton edge="end" size="small" onClick={() => onRemoveLine(line.id)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )
+                    }
+                  >
+                    <ListItemText
+                      primary={`${isPending ? 'New line' : `Line ${index + 1}`}: ${CalibrationService.formatDistance(line.realWorldDistance)} (${Math.round(line.pixelDistance)} px)`}
+                      secondary={`${line.pixelsPerFoot.toFixed(2)} px/ft · ${formatDeviation(lineReport.deviationPercent)}`}
+                      primaryTypographyProps={{ variant: 'body2', fontWeight: isPending ? 'bold' : 'normal' }}
+                      secondaryTypographyProps={{
+                        color: Math.abs(lineReport.deviationPercent) > 20 ? 'error' : 'text.secondary'
+                      }}
+                    />
+                  </ListItem>
+                );
+              })}
+            </List>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={replaceExisting}
+                  onChange={(e) => setReplaceExisting(e.target.checked)}
+                />
+              }
+              label={<Typography variant="body2">Replace existing reference lines</Typography>}
+            />
+          </Box>
+        )}
+
         <Alert severity="info" sx={{ mb: 2 }}>
           <Typography variant="body2">
             <strong>Tip:</strong> For best accuracy, measure a known distance like:
@@ -119,6 +217,31 @@ const CalibrationDialog: React.FC<CalibrationDialogProps> = ({
             <Typography variant="body2" color="text.secondary">
               Scale: {(pixelDistance / parseFloat(distance || '1')).toFixed(2)} pixels per foot
             </Typography>
+            {report && previewLines.length > 1 && (
+              <Typography variant="body2" color="text.secondary">
+                Averaged over {previewLines.length} lines: {report.pixelsPerFoot.toFixed(2)} pixels per foot
+                {report.uncertaintyPercent !== null && ` (±${report.uncertaintyPercent.toFixed(1)}%)`}
+              </Typography>
+            )}
+            {report && (
+              <Chip
+                size="small"
+                label={CONFIDENCE_LABELS[report.confidence].label}
+                color={CONFIDENCE_LABELS[report.confidence].color}
+                variant="outlined"
+                sx={{ mt: 1 }}
+              />
+            )}
+            {report?.confidence === 'low' && previewLines.length === 1 && (
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                A single reference line can't be checked. Draw two or more lines across the lot for a more reliable scale.
+              </Typography>
+            )}
+            {validation.warnings.map(warning => (
+              <Typography key={warning} variant="caption" color="warning.main" display="block" sx={{ mt: 0.5 }}>
+                {warning}
+              </Typography>
+            ))}
           </Box>
         )}
       </DialogContent>
@@ -132,7 +255,7 @@ const CalibrationDialog: React.FC<CalibrationDialogProps> = ({
           variant="contained"
           disabled={!distance || !!error}
         >
-          Set Distance
+          {calibrationLines.length > 0 && !replaceExisting ? 'Add Reference Line' : 'Set Distance'}
         </Button>
       </DialogActions>
     </Dialog>
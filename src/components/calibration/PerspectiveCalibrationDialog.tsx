@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  IconButton,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  CircularProgress
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import DeleteIcon from '@mui/icons-material/Delete';
+import TransformIcon from '@mui/icons-material/Transform';
+import { useMapStore } from '../../stores/mapStore';
+import {
+  ControlPoint,
+  ImageTransformService,
+  MIN_CONTROL_POINTS,
+  TransformFit,
+  TransformModel
+} from '../../services/imageTransformService';
+
+interface PerspectiveCalibrationDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Ground coordinates are edited as text until they parse
+interface DraftControlPoint {
+  id: string;
+  imageX: number;
+  imageY: number;
+  worldX: string;
+  worldY: string;
+}
+
+const PerspectiveCalibrationDialog: React.FC<PerspectiveCalibrationDialogProps> = ({ open, onClose }) => {
+  const imageUrl = useMapStore(state => state.imageUrl);
+  const isGeoreferenced = useMapStore(state => state.geoTransform !== null);
+  const [points, setPoints] = useState<DraftControlPoint[]>([]);
+  const [model, setModel] = useState<TransformModel>('projective');
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [outputScale, setOutputScale] = useState<string>('');
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const controlPoints = useMemo((): ControlPoint[] => points
+    .map(point => ({ ...point, worldX: parseFloat(point.worldX), worldY: parseFloat(point.worldY) }))
+    .filter(point => !isNaN(point.worldX) && !isNaN(point.worldY)), [points]);
+
+  const { fit, fitError } = useMemo((): { fit: TransformFit | null; fitError: string } => {
+    // Wait until every clicked point has its ground position
+    if (!imageSize || controlPoints.length < points.length || controlPoints.length < MIN_CONTROL_POINTS[model]) {
+      return { fit: null, fitError: '' };
+    }
+    try {
+      return { fit: ImageTransformService.fit(controlPoints, model, imageSize.width, imageSize.height), fitError: '' };
+    } catch (fitFailure) {
+      return { fit: null, fitError: fitFailure instanceof Error ? fitFailure.message : 'The reference points could not be fitted' };
+    }
+  }, [controlPoints, points.length, model, imageSize]);
+
+  // Default to the finer of the two scales so no detail is lost
+  const suggestedScale = fit ? Math.max(fit.pixelsPerFootX, fit.pixelsPerFootY) : 0;
+  const pixelsPerFoot = parseFloat(outputScale) || suggestedScale;
+
+  const handleImageClick = (event: React.MouseEvent<HTMLImageElement>) => {
+    const image = event.currentTarget;
+    const rect = image.getBoundingClientRect();
+    const imageX = ((event.clientX - rect.left) / rect.width) * image.naturalWidth;
+    const imageY = ((event.clientY - rect.top) / rect.height) * image.naturalHeight;
+
+    setPoints(current => [
+      ...current,
+      { id: `control-${Date.now()}`, imageX, imageY, worldX: '', worldY: '' }
+    ]);
+    setError('');
+  };
+
+  const handlePointChange = (id: string, field: 'worldX' | 'worldY', value: string) => {
+    setPoints(current => current.map(point => point.id === id ? { ...point, [field]: value } : point));
+    setError('');
+  };
+
+  const handleRemovePoint = (id: string) => {
+    setPoints(current => current.filter(point => point.id !== id));
+  };
+
+  const handleClose = () => {
+    if (applying) return;
+    setPoints([]);
+    setOutputScale('');
+    setError('');
+    onClose();
+  };
+
+  const handleApply = async () => {
+    if (!fit || !imageUrl || pixelsPerFoot <= 0) return;
+
+    setApplying(true);
+    try {
+      const rectified = await ImageTransformService.rectifyImage(imageUrl, fit, pixelsPerFoot);
+      ImageTransformService.applyToLayout(rectified);
+      setApplying(false);
+      handleClose();
+    } catch (applyFailure) {
+      setApplying(false);
+      setError(applyFailure instanceof Error ? applyFailure.message : 'Failed to rectify the image');
+    }
+  };
+
+  const minimum = MIN_CONTROL_POINTS[model];
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <TransformIcon sx={{ mr: 1 }} />
+          Perspective Calibration
+        </Box>
+        <IconButton onClick={handleClose} size="small" disabled={applying}>
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent>
+        {!imageUrl ? (
+          <Alert severity="info">Import a background image first.</Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              For drone photos and oblique captures whose scale changes across the image. Click reference points
+              spread across the lot, then enter each point's ground position in feet (for example from a survey or
+              tape measurements from one corner). The image is then resampled so one foot has the same length
+              everywhere, and equipment, measurements, the perimeter and fire lanes are moved onto it.
+            </Typography>
+
+            <ToggleButtonGroup
+              value={model}
+              exclusive
+              size="small"
+              onChange={(_, value: TransformModel | null) => value && setModel(value)}
+              sx={{ my: 1 }}
+            >
+              <ToggleButton value="affine">Separate X/Y scale (3+ points)</ToggleButton>
+              <ToggleButton value="projective">Perspective (4+ points)</ToggleButton>
+            </ToggleButtonGroup>
+
+            <Box sx={{ mt: 1, textAlign: 'center', bgcolor: 'background.default' }}>
+              <Box sx={{ position: 'relative', display: 'inline-block', lineHeight: 0 }}>
+                <Box
+                  component="img"
+                  src={imageUrl}
+                  alt="Background"
+                  onClick={handleImageClick}
+                  onLoad={(event: React.SyntheticEvent<HTMLImageElement>) => setImageSize({
+                    width: event.currentTarget.naturalWidth,
+                    height: event.currentTarget.naturalHeight
+                  })}
+                  sx={{ display: 'block', maxWidth: '100%', maxHeight: 360, cursor: 'crosshair' }}
+                />
+                {imageSize && points.map((point, index) => (
+                  <Box
+                    key={point.id}
+                    sx={{
+                      position: 'absolute',
+                      left: `${(point.imageX / imageSize.width) * 100}%`,
+                      top: `${(point.imageY / imageSize.height) * 100}%`,
+                      transform: 'translate(-50%, -50%)',
+                      width: 18,
+                      height: 18,
+                      borderRadius: '50%',
+                      bgcolor: 'warning.main',
+                      color: 'common.black',
+                      fontSize: '0.7rem',
+                      fontWeight: 'bold',
+                      lineHeight: '18px',
+                      textAlign: 'center',
+                      pointerEvents: 'none'
+                    }}
+                  >
+                    {index + 1}
+                  </Box>
+                ))}
+              </Box>
+            </Box>
+
+            {points.length > 0 && (
+              <Table size="small" sx={{ mt: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>#</TableCell>
+                    <TableCell>Image (px)</TableCell>
+                    <TableCell>Ground X (ft)</TableCell>
+                    <TableCell>Ground Y (ft)</TableCell>
+                    <TableCell>Error</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {points.map((point, index) => (
+                    <TableRow key={point.id}>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell>{Math.round(point.imageX)}, {Math.round(point.imageY)}</TableCell>
+                      <TableCell>
+                        <TextField
+                          value={point.worldX}
+                          onChange={(e) => handlePointChange(point.id, 'worldX', e.target.value)}
+                          type="number"
+                          size="small"
+                          variant="standard"
+                          inputProps={{ step: 0.1 }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField
+                          value={point.worldY}
+                          onChange={(e) => handlePointChange(point.id, 'worldY', e.target.value)}
+                          type="number"
+                          size="small"
+                          variant="standard"
+                          inputProps={{ step: 0.1 }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {fit ? `${fit.residuals[index].toFixed(2)} ft` : '—'}
+                      </TableCell>
+                      <TableCell padding="checkbox">
+                        <Tooltip title="Remove point">
+                          <IconButton size="small" onClick={() => handleRemovePoint(point.id)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {points.length < minimum && (
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                Click {minimum - points.length} more point{minimum - points.length === 1 ? '' : 's'} on the image.
+                Extra points are averaged and show how consistent the measurements are.
+              </Typography>
+            )}
+
+            {fitError && <Alert severity="warning" sx={{ mt: 2 }}>{fitError}</Alert>}
+
+            {fit && (
+              <Box sx={{ mt: 2, p: 2, bgcolor: 'background.default', borderRadius: 1 }}>
+                <Typography variant="body2">
+                  Scale at image center: {fit.pixelsPerFootX.toFixed(2)} px/ft horizontally,
+                  {' '}{fit.pixelsPerFootY.toFixed(2)} px/ft vertically
+                </Typography>
+                <Typography variant="body2" color={fit.rmsError > 2 ? 'warning.main' : 'text.secondary'}>
+                  {controlPoints.length > minimum
+                    ? `Average fit error: ${fit.rmsError.toFixed(2)} ft`
+                    : 'Add another point to check the fit error'}
+                </Typography>
+                <TextField
+                  label="Output resolution (px/ft)"
+                  value={outputScale}
+                  placeholder={suggestedScale.toFixed(2)}
+                  onChange={(e) => setOutputScale(e.target.value)}
+                  type="number"
+                  size="small"
+                  inputProps={{ min: 0.1, step: 0.1 }}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ mt: 2 }}
+                />
+              </Box>
+            )}
+
+            {isGeoreferenced && model === 'projective' && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                This image has GPS coordinates. A perspective correction bends them, so they will be removed.
+                Use the affine model to keep them.
+              </Alert>
+            )}
+
+            {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose} disabled={applying}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleApply}
+          variant="contained"
+          disabled={!fit || applying || pixelsPerFoot <= 0}
+          startIcon={applying ? <CircularProgress size={16} /> : undefined}
+        >
+          Rectify Image
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PerspectiveCalibrationDialog;
@@ -0,0 +1,107 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  FormControlLabel,
+  Switch,
+  Divider
+} from '@mui/material';
+import RadioButtonCheckedIcon from '@mui/icons-material/RadioButtonChecked';
+import RadioButtonUncheckedIcon from '@mui/icons-material/RadioButtonUnchecked';
+import { useUndoRedoStore, UndoRedoAction } from '../../stores/undoRedoStore';
+import { useEquipmentStore } from '../../stores/equipmentStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+
+/**
+ * Lists the undo history as a timeline; clicking an entry undoes or redoes
+ * everything up to and including it
+ */
+const HistoryPanel: React.FC = () => {
+  const undoStack = useUndoRedoStore(state => state.undoStack);
+  const redoStack = useUndoRedoStore(state => state.redoStack);
+  const maxHistorySize = useUndoRedoStore(state => state.maxHistorySize);
+  const jumpToHistory = useEquipmentStore(state => state.jumpToHistory);
+  const persistHistory = useSettingsStore(state => state.persistHistory);
+  const setPersistHistory = useSettingsStore(state => state.setPersistHistory);
+
+  // Oldest first: applied actions, then undone actions in the order they would be redone
+  const timeline: UndoRedoAction[] = [...undoStack, ...[...redoStack].reverse()];
+  const appliedCount = undoStack.length;
+
+  const renderEntry = (label: string, secondary: string | undefined, count: number) => {
+    const isCurrent = count === appliedCount;
+    const isUndone = count > appliedCount;
+
+    return (
+      <ListItem key={count} disablePadding>
+        <ListItemButton selected={isCurrent} onClick={() => jumpToHistory(count)} dense>
+          <ListItemIcon sx={{ minWidth: 32 }}>
+            {isCurrent ? (
+              <RadioButtonCheckedIcon fontSize="small" color="primary" />
+            ) : (
+              <RadioButtonUncheckedIcon fontSize="small" color={isUndone ? 'disabled' : 'action'} />
+            )}
+          </ListItemIcon>
+          <ListItemText
+            primary={label}
+            secondary={secondary}
+            primaryTypographyProps={{
+              variant: 'body2',
+              noWrap: true,
+              color: isUndone ? 'text.disabled' : 'text.primary',
+              fontStyle: isUndone ? 'italic' : 'normal'
+            }}
+            secondaryTypographyProps={{ variant: 'caption', color: isUndone ? 'text.disabled' : 'text.secondary' }}
+          />
+        </ListItemButton>
+      </ListItem>
+    );
+  };
+
+  return (
+    <Box sx={{ overflow: 'auto' }}>
+      <Box sx={{ p: 2, pb: 1 }}>
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={persistHistory}
+              onChange={(e) => setPersistHistory(e.target.checked)}
+            />
+          }
+          label={<Typography variant="body2">Save history with project</Typography>}
+        />
+        <Typography variant="caption" color="text.secondary" display="block">
+          Keeps the last {maxHistorySize} steps. History before a background image change is not saved.
+        </Typography>
+      </Box>
+
+      <Divider />
+
+      {timeline.length === 0 ? (
+        <Box sx={{ p: 2, textAlign: 'center' }}>
+          <Typography variant="body2" color="text.secondary">
+            No changes yet
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Each edit to the layout will be listed here. Click a step to return to it.
+          </Typography>
+        </Box>
+      ) : (
+        <List dense disablePadding>
+          {renderEntry('Start', undefined, 0)}
+          {timeline.map((action, index) =>
+            renderEntry(action.description, new Date(action.timestamp).toLocaleTimeString(), index + 1)
+          )}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default HistoryPanel;
@@ -13,7 +13,8 @@ import {
   Paper,
   LinearProgress,
   styled,
-  TextField
+  TextField,
+  MenuItem
 } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
 import CloudUploadIcon from '@mui/icons-material/CloudUpload';
@@ -28,7 +29,13 @@ import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import ArrowForwardIcon from '@mui/icons-material/ArrowForward';
 import { useMapStore } from '../../stores/mapStore';
+import { useEquipmentStore } from '../../stores/equipmentStore';
+import { useUndoRedoStore } from '../../stores/undoRedoStore';
 import { GoogleMapsService, GoogleMapsLocation, GoogleMapsOptions } from '../../services/googleMapsService';
+import { GeoService, GeoTransform, LatLng } from '../../services/geoService';
+import { MapStitchService, LatLngBounds, StitchPlan } from '../../services/mapStitchService';
+import { ImageService, ImageData } from '../../services/imageService';
+import { GeoreferenceService, LINEAR_UNITS } from '../../services/georeferenceService';
 
 interface ImageImportDrawerProps {
   open: boolean;
@@ -86,6 +93,7 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [importedImage, setImportedImage] = useState<ImageData | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -102,9 +110,17 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
   });
   const [mapUrl, setMapUrl] = useState<string | null>(null);
   const [isSearching, setIsSearching] = useState(false);
+  const [stitchMode, setStitchMode] = useState(false);
+  const [stitchBounds, setStitchBounds] = useState<LatLngBounds | null>(null);
+  const [stitchDragStart, setStitchDragStart] = useState<LatLng | null>(null);
+  const [stitchZoom, setStitchZoom] = useState(19);
+  const [stitchProgress, setStitchProgress] = useState<number | null>(null);
+  const mapGroundSize = GoogleMapsService.getGroundSize(mapLocation, mapOptions);
+  const previewTransform = GeoService.fromStaticMap(mapLocation, mapOptions);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const { setImageUrl, setPixelsPerFoot } = useMapStore();
+  const { setImageUrl, setPixelsPerFoot, clearCalibration } = useMapStore();
+  const updateItemDimensions = useEquipmentStore(state => state.updateItemDimensions);
   
   // Initialize Google Maps API with the API key
   useEffect(() => {
@@ -118,9 +134,21 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
     setTabValue(newValue);
   };
 
+  // Plan the stitched import as the box or zoom changes so the tile count is shown up front
+  let stitchPlan: StitchPlan | null = null;
+  let stitchPlanError: string | null = null;
+  if (stitchMode && stitchBounds) {
+    try {
+      stitchPlan = MapStitchService.planTiles(stitchBounds, stitchZoom, { mapType: mapOptions.mapType, scale: mapOptions.scale });
+    } catch (planError) {
+      stitchPlanError = planError instanceof Error ? planError.message : 'This area cannot be stitched';
+    }
+  }
+
   const handleClose = () => {
     setSelectedFile(null);
     setPreviewUrl(null);
+    setImportedImage(null);
     setError(null);
     setIsUploading(false);
     onClose();
@@ -142,27 +170,51 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
     setDragActive(false);
     
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+      handleFiles(Array.from(e.dataTransfer.files));
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+      handleFiles(Array.from(e.target.files));
     }
   };
 
-  const handleFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      setError('Please select a valid image file.');
+  // The image may come with a world file and .prj file selected or dropped alongside it
+  const handleFiles = async (files: File[]) => {
+    const isSidecar = (file: File) => GeoreferenceService.isWorldFile(file.name) || GeoreferenceService.isProjectionFile(file.name);
+    const file = files.find(candidate => !isSidecar(candidate));
+    if (!file) {
+      setError('Select the image together with its world file.');
       return;
     }
-    
+
+    const validation = ImageService.validateImageFile(file);
+    if (!validation.valid) {
+      setError(validation.error || 'Please select a valid image file.');
+      return;
+    }
+
     setError(null);
-    setSelectedFile(file);
-    
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
+    setIsUploading(true);
+    try {
+      const imageData = await ImageService.importImage(file, files.filter(isSidecar));
+      setSelectedFile(file);
+      setImportedImage(imageData);
+      setPreviewUrl(imageData.url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the image. Please try again.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleUnitsChange = (metersPerUnit: number) => {
+    if (!importedImage?.georeference) return;
+    setImportedImage({
+      ...importedImage,
+      georeference: GeoreferenceService.withUnits(importedImage.georeference, metersPerUnit, importedImage.width, importedImage.height)
+    });
   };
 
   const handleImport = async () => {
@@ -172,32 +224,57 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
       
       setIsUploading(true);
       try {
-        setImageUrl(previewUrl);
+        const georeference = importedImage?.georeference;
+        if (georeference) {
+          applyMapImage('Import georeferenced image', previewUrl, georeference.geoTransform, georeference.pixelsPerFoot);
+        } else {
+          setImageUrl(previewUrl);
+        }
         handleClose();
       } catch (err) {
         setError('Failed to import image. Please try again.');
       } finally {
         setIsUploading(false);
       }
+    } else if (stitchMode) {
+      // Stitched Google Maps import
+      if (!stitchPlan) return;
+
+      setIsUploading(true);
+      setStitchProgress(0);
+      try {
+        const stitched = await MapStitchService.stitch(
+          stitchPlan,
+          MapStitchService.fetchTile,
+          (fetched, total) => setStitchProgress((fetched / total) * 100)
+        );
+        applyMapImage('Import stitched map', stitched.url, stitched.geoTransform, stitched.pixelsPerFoot);
+        handleClose();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to stitch the map. Please try again.');
+      } finally {
+        setIsUploading(false);
+        setStitchProgress(null);
+      }
     } else {
       // Google Maps tab
       if (!mapUrl) return;
       
       setIsUploading(true);
       try {
-        // Fetch the map image and calculate pixels per meter
-        const { blob, pixelsPerMeter } = await GoogleMapsService.fetchStaticMapImage(
+        // Fetch the map image and calculate its scale
+        const { blob, pixelsPerFoot } = await GoogleMapsService.fetchStaticMapImage(
           mapUrl,
           mapLocation.lat,
-          mapLocation.zoom
+          mapLocation.zoom,
+          mapOptions.scale
         );
         
         // Convert blob to data URL
         const reader = new FileReader();
         reader.onloadend = () => {
           const dataUrl = reader.result as string;
-          setImageUrl(dataUrl);
-          setPixelsPerFoot(pixelsPerMeter);
+          applyMapImage('Import map image', dataUrl, GeoService.fromStaticMap(mapLocation, mapOptions), pixelsPerFoot);
           handleClose();
         };
         reader.readAsDataURL(blob);
@@ -209,6 +286,18 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
     }
   };
 
+  const applyMapImage = (description: string, url: string, geoTransform: GeoTransform | null, pixelsPerFoot: number) => {
+    const { beginBatch, endBatch } = useUndoRedoStore.getState();
+    beginBatch(description);
+    // Keep the map's center and zoom so canvas points can be converted to GPS coordinates
+    setImageUrl(url, geoTransform);
+    // The map's own scale replaces reference lines drawn on the previous image
+    clearCalibration();
+    setPixelsPerFoot(pixelsPerFoot);
+    updateItemDimensions(pixelsPerFoot);
+    endBatch();
+  };
+
   const handleBrowseFiles = () => {
     fileInputRef.current?.click();
   };
@@ -284,6 +373,45 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
     updateMapPreview();
   };
   
+  const handleStitchModeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setStitchMode(event.target.checked);
+    setStitchBounds(null);
+    setStitchZoom(Math.min(20, mapLocation.zoom + 1));
+  };
+
+  // Preview pixels to latitude and longitude, for drawing the stitch area
+  const getPreviewLatLng = (event: React.MouseEvent<HTMLElement>): LatLng => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return GeoService.canvasToLatLng(
+      previewTransform,
+      ((event.clientX - rect.left) / rect.width) * previewTransform.imageWidth,
+      ((event.clientY - rect.top) / rect.height) * previewTransform.imageHeight
+    );
+  };
+
+  const handlePreviewMouseDown = (event: React.MouseEvent<HTMLElement>) => {
+    if (!stitchMode) return;
+    event.preventDefault();
+    setStitchDragStart(getPreviewLatLng(event));
+    setStitchBounds(null);
+  };
+
+  const handlePreviewMouseMove = (event: React.MouseEvent<HTMLElement>) => {
+    if (!stitchDragStart) return;
+    const current = getPreviewLatLng(event);
+    setStitchBounds({
+      north: Math.max(stitchDragStart.lat, current.lat),
+      south: Math.min(stitchDragStart.lat, current.lat),
+      east: Math.max(stitchDragStart.lng, current.lng),
+      west: Math.min(stitchDragStart.lng, current.lng)
+    });
+  };
+
+  const stitchBox = stitchMode && stitchBounds ? {
+    northWest: GeoService.latLngToCanvas(previewTransform, stitchBounds.north, stitchBounds.west),
+    southEast: GeoService.latLngToCanvas(previewTransform, stitchBounds.south, stitchBounds.east)
+  } : null;
+
   const handleZoomChange = (delta: number) => {
     const newZoom = Math.max(1, Math.min(20, mapLocation.zoom + delta));
     const newLocation = { ...mapLocation, zoom: newZoom };
@@ -346,7 +474,8 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
                   Upload Satellite Image
                 </Typography>
                 <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-                  Import a satellite or aerial image of your carnival lot
+                  Import a satellite or aerial image of your carnival lot. Drone orthomosaics are calibrated
+                  automatically from a GeoTIFF, or from a world file (.tfw, .pgw, .jgw) selected with the image.
                 </Typography>
 
                 {error && (
@@ -383,7 +512,8 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="image/*"
+                    accept="image/*,.tif,.tiff,.tfw,.tifw,.pgw,.pngw,.jgw,.jpgw,.wld,.prj"
+                    multiple
                     onChange={handleFileInput}
                     style={{ display: 'none' }}
                   />
@@ -410,6 +540,30 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
                         {selectedFile.name} ({Math.round(selectedFile.size / 1024)} KB)
                       </Typography>
                     )}
+                    {importedImage?.georeference && (
+                      <Alert severity={importedImage.georeference.coordinateSystem.unitsAssumed ? 'warning' : 'success'} sx={{ mt: 1, textAlign: 'left' }}>
+                        {GeoreferenceService.describe(importedImage.georeference)}
+                        {!importedImage.georeference.geoTransform && '. GPS coordinates are unavailable without a known coordinate system; include the .prj file to enable them.'}
+                      </Alert>
+                    )}
+                    {importedImage?.georeference?.coordinateSystem.unitsAssumed && (
+                      <TextField
+                        select
+                        label="World file units"
+                        value={importedImage.georeference.coordinateSystem.metersPerUnit}
+                        onChange={(e) => handleUnitsChange(Number(e.target.value))}
+                        size="small"
+                        fullWidth
+                        sx={{ mt: 2, textAlign: 'left' }}
+                        helperText="The world file doesn't say which units it uses"
+                      >
+                        {LINEAR_UNITS.map(unit => (
+                          <MenuItem key={unit.name} value={unit.metersPerUnit}>
+                            {unit.name}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
                   </Paper>
                 )}
 
@@ -478,18 +632,39 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
                 <Paper variant="outlined" sx={{ mb: 2, p: 1 }}>
                   {/* Map Preview */}
                   {mapUrl ? (
-                    <Box 
-                      component="img" 
-                      src={mapUrl} 
-                      alt="Map Preview"
-                      sx={{
-                        width: '100%',
-                        height: 'auto',
-                        maxHeight: '350px',
-                        objectFit: 'contain',
-                        borderRadius: 1,
-                      }}
-                    />
+                    <Box sx={{ position: 'relative', overflow: 'hidden', borderRadius: 1, lineHeight: 0 }}>
+                      <Box 
+                        component="img" 
+                        src={mapUrl} 
+                        alt="Map Preview"
+                        onMouseDown={handlePreviewMouseDown}
+                        onMouseMove={handlePreviewMouseMove}
+                        onMouseUp={() => setStitchDragStart(null)}
+                        onMouseLeave={() => setStitchDragStart(null)}
+                        sx={{
+                          width: '100%',
+                          height: 'auto',
+                          maxHeight: '350px',
+                          objectFit: 'contain',
+                          cursor: stitchMode ? 'crosshair' : 'default'
+                        }}
+                      />
+                      {stitchBox && (
+                        <Box
+                          sx={{
+                            position: 'absolute',
+                            left: `${(stitchBox.northWest.x / previewTransform.imageWidth) * 100}%`,
+                            top: `${(stitchBox.northWest.y / previewTransform.imageHeight) * 100}%`,
+                            width: `${((stitchBox.southEast.x - stitchBox.northWest.x) / previewTransform.imageWidth) * 100}%`,
+                            height: `${((stitchBox.southEast.y - stitchBox.northWest.y) / previewTransform.imageHeight) * 100}%`,
+                            border: '2px dashed',
+                            borderColor: 'warning.main',
+                            bgcolor: 'rgba(255, 152, 0, 0.15)',
+                            pointerEvents: 'none'
+                          }}
+                        />
+                      )}
+                    </Box>
                   ) : (
                     <Box 
                       sx={{ 
@@ -512,6 +687,12 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
                       {mapLocation.address}
                     </Typography>
                   )}
+
+                  {mapUrl && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                      Covers about {Math.round(mapGroundSize.width)} × {Math.round(mapGroundSize.height)} ft, calibrated automatically
+                    </Typography>
+                  )}
                   
                   {/* Navigation Controls */}
                   <Box sx={{ 
@@ -602,17 +783,72 @@ const ImageImportDrawer: React.FC<ImageImportDrawerProps> = ({ open, onClose })
                       label="Show roads and labels"
                     />
                   </Box>
+
+                  {/* Stitched import for areas larger than one map */}
+                  <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+                    <FormControlLabel
+                      control={
+                        <Switch 
+                          checked={stitchMode}
+                          onChange={handleStitchModeChange}
+                          disabled={!mapUrl}
+                        />
+                      }
+                      label="Stitch a larger area"
+                    />
+                  </Box>
+
+                  {stitchMode && (
+                    <Box sx={{ mt: 1, textAlign: 'center' }}>
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {stitchBounds
+                          ? 'Drag on the map again to redraw the area.'
+                          : 'Drag on the map to draw the area to import. Zoom out first to fit the whole site.'}
+                      </Typography>
+                      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', mt: 1 }}>
+                        <IconButton onClick={() => setStitchZoom(Math.max(1, stitchZoom - 1))} size="small">
+                          <RemoveIcon />
+                        </IconButton>
+                        <Typography component="span" sx={{ mx: 2 }}>
+                          Detail zoom: {stitchZoom}
+                        </Typography>
+                        <IconButton onClick={() => setStitchZoom(Math.min(20, stitchZoom + 1))} size="small">
+                          <AddIcon />
+                        </IconButton>
+                      </Box>
+                      {stitchPlan && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {stitchPlan.tiles.length} map tiles ({stitchPlan.cols} × {stitchPlan.rows}),
+                          {' '}{Math.round(stitchPlan.imageWidth / stitchPlan.pixelsPerFoot)} × {Math.round(stitchPlan.imageHeight / stitchPlan.pixelsPerFoot)} ft
+                          at {stitchPlan.pixelsPerFoot.toFixed(1)} px/ft
+                        </Typography>
+                      )}
+                      {stitchPlanError && (
+                        <Alert severity="warning" sx={{ mt: 1, textAlign: 'left' }}>
+                          {stitchPlanError}
+                        </Alert>
+                      )}
+                    </Box>
+                  )}
                 </Paper>
 
+                {stitchProgress !== null && (
+                  <LinearProgress variant="determinate" value={stitchProgress} sx={{ mb: 1 }} />
+                )}
+
                 <Button
                   variant="contained"
                   color="primary"
                   onClick={handleImport}
-                  disabled={!mapUrl || isUploading}
+                  disabled={(stitchMode ? !stitchPlan : !mapUrl) || isUploading}
                   startIcon={isUploading ? <CircularProgress size={20} /> : <MapIcon />}
                   fullWidth
                 >
-                  {isUploading ? 'Importing...' : 'Import Satellite Image'}
+                  {isUploading
+                    ? 'Importing...'
+                    : stitchMode && stitchPlan
+                      ? `Import ${stitchPlan.tiles.length} Stitched Tiles`
+                      : 'Import Satellite Image'}
                 </Button>
               </Box>
             </TabPanel>
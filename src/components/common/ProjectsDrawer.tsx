@@ -31,9 +31,12 @@ import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
 import FolderIcon from '@mui/icons-material/Folder';
 import CreateNewFolderIcon from '@mui/icons-material/CreateNewFolder';
 import { ProjectService, Project } from '../../services/projectService';
+import { ProjectStorageService, StorageQuotaError } from '../../services/projectStorageService';
+import { ProjectSchemaError } from '../../services/projectMigrationService';
 import { PDFExportDialog } from '../export/PDFExportDialog';
 import { useMapStore } from '../../stores/mapStore';
 import { useEquipmentStore } from '../../stores/equipmentStore';
+import { CollisionService } from '../../services/collisionService';
 
 interface ProjectsDrawerProps {
   open: boolean;
@@ -51,11 +54,14 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [snackbarSeverity, setSnackbarSeverity] = useState<AlertColor>('success');
   const [pdfExportDialogOpen, setPdfExportDialogOpen] = useState(false);
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   // Get stores for PDF export
-  const { scale, activeCalibrationLine } = useMapStore();
+  const { scale, activeCalibrationLine, activePerimeter, pixelsPerFoot } = useMapStore();
   const { items: equipmentItems } = useEquipmentStore();
   
   // Define showSnackbar function first since it's used by loadProjects
@@ -65,24 +71,36 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
     setSnackbarOpen(true);
   }, []);
   
+  // Report storage failures, keeping quota and version errors on screen until dismissed
+  const showStorageError = useCallback((error: unknown, fallbackMessage: string) => {
+    if (error instanceof StorageQuotaError || error instanceof ProjectSchemaError) {
+      setStorageError(error.message);
+    } else {
+      showSnackbar(fallbackMessage, 'error');
+    }
+  }, [showSnackbar]);
+  
   // Define loadProjects with useCallback to prevent dependency changes on every render
-  const loadProjects = useCallback(() => {
+  const loadProjects = useCallback(async () => {
     try {
-      const allProjects = ProjectService.getAllProjects();
+      const allProjects = await ProjectService.getAllProjects();
       setProjects(allProjects);
       
-      const recent = ProjectService.getRecentProjects();
+      const recent = await ProjectService.getRecentProjects();
       setRecentProjects(recent);
       
-      const current = ProjectService.getCurrentProject();
+      const current = await ProjectService.getCurrentProject();
+      setCurrentProject(current);
       if (current) {
         setProjectName(current.name);
       }
+
+      setStorageUsage(await ProjectStorageService.getUsage());
     } catch (error) {
       console.error('Error loading projects:', error);
-      showSnackbar('Failed to load projects', 'error');
+      showStorageError(error, 'Failed to load projects');
     }
-  }, [showSnackbar]);
+  }, [showStorageError]);
   
   // Load projects on initial render
   useEffect(() => {
@@ -104,9 +122,9 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
     setDialogOpen(true);
   };
   
-  const handleSaveProject = () => {
+  const handleSaveProject = async () => {
     try {
-      const currentProject = ProjectService.getCurrentProject();
+      const currentProject = await ProjectService.getCurrentProject();
       
       if (!currentProject) {
         // If no project exists, open the save dialog
@@ -117,19 +135,18 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
       }
       
       // Save current project
-      const savedProject = ProjectService.saveCurrentState();
+      const savedProject = await ProjectService.saveCurrentState();
       showSnackbar(`Project "${savedProject.name}" saved successfully`);
       loadProjects(); // Reload projects
     } catch (error) {
       console.error('Error saving project:', error);
-      showSnackbar('Failed to save project', 'error');
+      showStorageError(error, 'Failed to save project');
     }
   };
   
   const handleSaveAsProject = () => {
     setDialogType('save');
 
-    const currentProject = ProjectService.getCurrentProject();
     if (currentProject) {
       setProjectName(`${currentProject.name} - Copy`);
     } else {
@@ -154,7 +171,7 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
       const project = await ProjectService.openProjectFromFile();
       if (project) {
         // Load the project
-        const loaded = ProjectService.loadProject(project.id);
+        const loaded = await ProjectService.loadProject(project.id);
         if (loaded) {
           showSnackbar(`Project "${project.name}" opened successfully`);
           loadProjects(); // Refresh the projects list
@@ -165,20 +182,20 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
       }
     } catch (error) {
       console.error('Error opening from file system:', error);
-      showSnackbar('Failed to open project from file system', 'error');
+      showStorageError(error, 'Failed to open project from file system');
     }
   };
   
-  const handleExportProject = () => {
+  const handleExportProject = async () => {
     try {
-      const currentProject = ProjectService.getCurrentProject();
+      const currentProject = await ProjectService.getCurrentProject();
       
       if (!currentProject) {
         showSnackbar('No project to export', 'warning');
         return;
       }
       
-      const dataUri = ProjectService.exportProject(currentProject.id);
+      const dataUri = await ProjectService.exportProject(currentProject.id);
       
       // Create a download link
       const link = document.createElement('a');
@@ -207,18 +224,18 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
     if (!file) return;
     
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const content = e.target?.result as string;
 
         // Import the project (pass the raw string, not parsed JSON)
-        const importedProject = ProjectService.importProject(content);
+        const importedProject = await ProjectService.importProject(content);
         showSnackbar(`Project "${importedProject.name}" imported successfully`);
         loadProjects();
         onClose();
       } catch (error) {
         console.error('Error importing project:', error);
-        showSnackbar('Failed to import project', 'error');
+        showStorageError(error, 'Failed to import project');
       }
     };
     reader.readAsText(file);
@@ -246,13 +263,13 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
   };
 
   // Handle dialog confirm
-  const handleDialogConfirm = () => {
+  const handleDialogConfirm = async () => {
     try {
       if (dialogType === 'new') {
         // Create new project
         const newProject = ProjectService.createNewProject(projectName);
+        await ProjectService.saveProject(newProject);
         ProjectService.setCurrentProject(newProject.id);
-        ProjectService.saveProject(newProject);
         
         // Reset map and equipment stores to blank slate
         const { useMapStore } = require('../../stores/mapStore');
@@ -264,15 +281,19 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
         useMapStore.getState().setImageUrl(null);
         useMapStore.getState().setPixelsPerMeter(1);
         useMapStore.getState().clearCalibration();
+        useMapStore.getState().clearMeasurementLines();
+        useMapStore.setState({ activePerimeter: null, currentPerimeter: [] });
+        useMapStore.getState().setCorridors([]);
 
         // Reset equipment store
         useEquipmentStore.getState().clearAll();
+        useEquipmentStore.getState().setSpacingRules([]);
         
         showSnackbar(`New project "${projectName}" created`);
       } 
       else if (dialogType === 'save') {
         // Save as new project
-        ProjectService.saveCurrentState(projectName);
+        await ProjectService.saveCurrentState(projectName);
         showSnackbar(`Project "${projectName}" saved successfully`);
       }
       else if (dialogType === 'open') {
@@ -282,9 +303,9 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
           return;
         }
         
-        const loaded = ProjectService.loadProject(selectedProjectId);
+        const loaded = await ProjectService.loadProject(selectedProjectId);
         if (loaded) {
-          const project = ProjectService.getProject(selectedProjectId);
+          const project = projects.find(p => p.id === selectedProjectId);
           if (project) {
             showSnackbar(`Project "${project.name}" opened successfully`);
             onClose(); // Close drawer after successful open
@@ -298,7 +319,7 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
       setDialogOpen(false);
     } catch (error) {
       console.error('Error in dialog action:', error);
-      showSnackbar(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+      showStorageError(error, `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -344,6 +365,12 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
 
           {/* Content */}
           <Box sx={{ flex: 1, overflow: 'auto' }}>
+            {storageError && (
+              <Alert severity="error" onClose={() => setStorageError(null)} sx={{ m: 2, mb: 0 }}>
+                {storageError}
+              </Alert>
+            )}
+
             {/* Project Actions */}
             <Box sx={{ p: 2 }}>
               <Typography variant="subtitle2" sx={{ mb: 2, color: 'text.secondary' }}>
@@ -480,11 +507,16 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
                 <List disablePadding>
                   {recentProjects.map((project) => (
                     <ListItem key={project.id} disablePadding>
-                      <ListItemButton onClick={() => {
+                      <ListItemButton onClick={async () => {
                         setSelectedProjectId(project.id);
-                        ProjectService.loadProject(project.id);
-                        showSnackbar(`Project "${project.name}" opened`);
-                        onClose();
+                        try {
+                          await ProjectService.loadProject(project.id);
+                          showSnackbar(`Project "${project.name}" opened`);
+                          onClose();
+                        } catch (error) {
+                          console.error('Error opening project:', error);
+                          showStorageError(error, 'Failed to open project');
+                        }
                       }}>
                         <ListItemText 
                           primary={project.name} 
@@ -506,6 +538,15 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
               )}
             </Box>
           </Box>
+
+          {/* Storage usage */}
+          {storageUsage && storageUsage.quota > 0 && (
+            <Box sx={{ px: 2, py: 1, borderTop: 1, borderColor: 'divider' }}>
+              <Typography variant="caption" color="text.secondary">
+                Storage used: {(storageUsage.usage / (1024 * 1024)).toFixed(1)} MB of {(storageUsage.quota / (1024 * 1024)).toFixed(0)} MB
+              </Typography>
+            </Box>
+          )}
         </Box>
         
         {/* Dialogs */}
@@ -589,7 +630,7 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
             onClose={() => setPdfExportDialogOpen(false)}
             canvasRef={canvasRef}
             projectMetadata={{
-              projectName: ProjectService.getCurrentProject()?.name || 'Untitled Project',
+              projectName: currentProject?.name || 'Untitled Project',
               exportDate: new Date().toLocaleString(),
               itemCount: equipmentItems.length,
               calibrationInfo: activeCalibrationLine ? `${activeCalibrationLine.realWorldDistance} ft` : undefined,
@@ -612,7 +653,10 @@ const ProjectsDrawer: React.FC<ProjectsDrawerProps> = ({ open, onClose }) => {
                 powerLoad: item.powerLoad,
                 powerGen: item.powerGen,
                 ticketCount: item.ticketCount,
-                color: item.color
+                color: item.color,
+                perimeterStatus: activePerimeter?.closed
+                  ? CollisionService.getPerimeterStatus(item, activePerimeter.points, pixelsPerFoot)
+                  : undefined
               }))
             }}
           />
@@ -0,0 +1,51 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Typography
+} from '@mui/material';
+import RestoreIcon from '@mui/icons-material/Restore';
+import { RecoverySnapshot } from '../../services/projectStorageService';
+
+interface RecoveryDialogProps {
+  snapshot: RecoverySnapshot | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Offers to bring back work from a session that closed before it was saved
+ */
+const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ snapshot, onRestore, onDiscard }) => {
+  const itemCount = snapshot?.project.equipmentState.items.length || 0;
+
+  return (
+    <Dialog open={!!snapshot} maxWidth="xs" fullWidth>
+      <DialogTitle>Restore unsaved changes?</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          LotLizard closed before your last changes to "{snapshot?.project.name}" were saved.
+        </DialogContentText>
+        {snapshot && (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            Last change: {new Date(snapshot.savedAt).toLocaleString()} · {itemCount} equipment item{itemCount === 1 ? '' : 's'}
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onDiscard} color="inherit">
+          Discard
+        </Button>
+        <Button onClick={onRestore} variant="contained" startIcon={<RestoreIcon />}>
+          Restore unsaved changes
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RecoveryDialog;
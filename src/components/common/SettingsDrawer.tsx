@@ -26,6 +26,7 @@ import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import SchoolIcon from '@mui/icons-material/School';
 import { useMapStore } from '../../stores/mapStore';
 import { useOnboardingStore } from '../../stores/onboardingStore';
+import { useSettingsStore } from '../../stores/settingsStore';
 import { OnboardingService } from '../../services/onboardingService';
 
 interface SettingsDrawerProps {
@@ -34,10 +35,20 @@ interface SettingsDrawerProps {
 }
 
 const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ open, onClose }) => {
-  const [snapToGrid, setSnapToGrid] = useState(true);
-  const [showCoordinates, setShowCoordinates] = useState(false);
-  const [autoSave, setAutoSave] = useState(true);
-  const [autoSaveInterval, setAutoSaveInterval] = useState(5);
+  const {
+    autoSave,
+    autoSaveInterval,
+    setAutoSave,
+    setAutoSaveInterval,
+    showCoordinates,
+    setShowCoordinates,
+    showFrameTimes,
+    setShowFrameTimes,
+    snapToGrid,
+    setSnapToGrid,
+    snapToItems,
+    setSnapToItems
+  } = useSettingsStore();
   const [theme, setTheme] = useState('dark');
   const [language, setLanguage] = useState('english');
   
@@ -292,25 +303,51 @@ const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ open, onClose }) => {
                   }
                   label="Show Coordinates"
                 />
+
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={showFrameTimes}
+                      onChange={(e) => setShowFrameTimes(e.target.checked)}
+                    />
+                  }
+                  label="Show Frame Times"
+                />
               </Box>
             </AccordionDetails>
           </Accordion>
 
-          {/* Snap to Grid */}
+          {/* Snapping */}
           <Accordion>
             <AccordionSummary expandIcon={<ExpandMoreIcon />}>
               <Typography variant="subtitle1">Grid Behavior</Typography>
             </AccordionSummary>
             <AccordionDetails>
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={snapToGrid}
-                    onChange={(e) => setSnapToGrid(e.target.checked)}
-                  />
-                }
-                label="Snap to Grid"
-              />
+              <Box sx={{ display: 'flex', flexDirection: 'column' }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={snapToGrid}
+                      onChange={(e) => setSnapToGrid(e.target.checked)}
+                    />
+                  }
+                  label="Snap to Grid"
+                />
+
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={snapToItems}
+                      onChange={(e) => setSnapToItems(e.target.checked)}
+                    />
+                  }
+                  label="Snap to Items"
+                />
+
+                <Typography variant="caption" color="text.secondary">
+                  Hold Ctrl (⌘ on a Mac) while dragging to place items freely
+                </Typography>
+              </Box>
             </AccordionDetails>
           </Accordion>
 
@@ -389,6 +426,7 @@ const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ open, onClose }) => {
                     value={autoSaveInterval}
                     onChange={(e) => setAutoSaveInterval(Number(e.target.value))}
                     inputProps={{ min: 1, max: 60 }}
+                    helperText="Also saves shortly after major changes. Unsaved work is kept for recovery if the tab closes."
                   />
                 )}
               </Box>
@@ -0,0 +1,545 @@
+import React, { useState, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Button,
+  Switch,
+  FormControlLabel,
+  Alert,
+  CircularProgress,
+  Paper,
+  TextField,
+  MenuItem,
+  Slider,
+  Tooltip,
+  List,
+  ListItemButton,
+  ListItemText,
+  Divider
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import LayersIcon from '@mui/icons-material/Layers';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import CenterFocusStrongIcon from '@mui/icons-material/CenterFocusStrong';
+import DeleteIcon from '@mui/icons-material/Delete';
+import OpenWithIcon from '@mui/icons-material/OpenWith';
+import StraightenIcon from '@mui/icons-material/Straighten';
+import { useMapStore, Underlay } from '../../stores/mapStore';
+import { UnderlayService } from '../../services/underlayService';
+
+interface SitePlanLayersDrawerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Imports PDF and SVG site plans as layers over the background, and lines
+ * them up with the lot by position, rotation and scale
+ */
+const SitePlanLayersDrawer: React.FC<SitePlanLayersDrawerProps> = ({ open, onClose }) => {
+  const [dragActive, setDragActive] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [pageCount, setPageCount] = useState(1);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [transparent, setTransparent] = useState(true);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [drawingScale, setDrawingScale] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const {
+    underlays,
+    pixelsPerFoot,
+    position,
+    scale,
+    movingUnderlayId,
+    addUnderlay,
+    updateUnderlay,
+    removeUnderlay,
+    reorderUnderlay,
+    startUnderlayCalibration,
+    setMovingUnderlay,
+    zoomToBounds
+  } = useMapStore();
+  const selectedLayer = underlays.find(u => u.id === selectedLayerId);
+  const feetPerInch = drawingScale.trim() === '' ? null : UnderlayService.parseDrawingScale(drawingScale);
+
+  const resetFile = () => {
+    setSelectedFile(null);
+    setPageCount(1);
+    setPageNumber(1);
+  };
+
+  const handleClose = () => {
+    resetFile();
+    setError(null);
+    setMovingUnderlay(null);
+    onClose();
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.type === 'dragenter' || e.type === 'dragover') {
+      setDragActive(true);
+    } else if (e.type === 'dragleave') {
+      setDragActive(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+
+    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
+      handleFile(e.dataTransfer.files[0]);
+    }
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      handleFile(e.target.files[0]);
+    }
+    // Reset the input value so the same file can be selected again
+    e.target.value = '';
+  };
+
+  const handleFile = async (file: File) => {
+    if (!UnderlayService.isPdf(file) && !UnderlayService.isSvg(file)) {
+      setError('Select a PDF or SVG site plan.');
+      return;
+    }
+
+    setError(null);
+    setPageNumber(1);
+    setPageCount(1);
+    setSelectedFile(file);
+    if (UnderlayService.isPdf(file)) {
+      setIsRendering(true);
+      try {
+        setPageCount(await UnderlayService.getPdfPageCount(file));
+      } catch (pdfError) {
+        setError(pdfError instanceof Error ? pdfError.message : 'The PDF could not be opened.');
+        resetFile();
+      } finally {
+        setIsRendering(false);
+      }
+    }
+  };
+
+  // New layers go in the middle of what's on screen
+  const getViewCenter = () => {
+    const canvas = document.querySelector('canvas');
+    const canvasWidth = canvas ? canvas.width : 800;
+    const canvasHeight = canvas ? canvas.height : 600;
+    return {
+      x: (canvasWidth / 2 - position.x) / scale,
+      y: (canvasHeight / 2 - position.y) / scale
+    };
+  };
+
+  const handleAddLayer = async () => {
+    if (!selectedFile) return;
+
+    setError(null);
+    setIsRendering(true);
+    try {
+      const isPdf = UnderlayService.isPdf(selectedFile);
+      const plan = isPdf
+        ? await UnderlayService.renderPdfPage(selectedFile, pageNumber, { transparent })
+        : await UnderlayService.renderSvg(selectedFile, { transparent });
+      const baseName = selectedFile.name.replace(/\.[^.]+$/, '');
+      const name = pageCount > 1 ? `${baseName} (page ${pageNumber})` : baseName;
+      const underlay = UnderlayService.createUnderlay(name, isPdf ? 'pdf' : 'svg', plan, getViewCenter());
+
+      addUnderlay(underlay);
+      setSelectedLayerId(underlay.id);
+      resetFile();
+    } catch (renderError) {
+      setError(renderError instanceof Error ? renderError.message : 'The site plan could not be rendered.');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleApplyDrawingScale = (layer: Underlay) => {
+    if (!feetPerInch) return;
+    try {
+      UnderlayService.applyCalibration(
+        layer.id,
+        UnderlayService.calibrationFromDrawingScale(layer, feetPerInch),
+        `Set ${layer.name} scale to ${drawingScale.trim()}`
+      );
+      setDrawingScale('');
+      setError(null);
+    } catch (scaleError) {
+      setError(scaleError instanceof Error ? scaleError.message : 'The drawing scale could not be applied.');
+    }
+  };
+
+  // Keep the layer the size it is on screen when its calibration is removed
+  const handleClearCalibration = (layer: Underlay) => {
+    updateUnderlay(
+      layer.id,
+      { pixelsPerFoot: null, calibrationLines: [], scale: UnderlayService.getDisplayScale(layer, pixelsPerFoot) },
+      `Clear ${layer.name} calibration`
+    );
+  };
+
+  const handleDrawReferenceLine = (layer: Underlay) => {
+    startUnderlayCalibration(layer.id);
+    handleClose();
+  };
+
+  const handleNumberChange = (layer: Underlay, field: 'rotation' | 'x' | 'y' | 'scale', value: string, factor = 1) => {
+    const number = parseFloat(value);
+    if (isNaN(number)) return;
+    if (field === 'scale' && number <= 0) return;
+    updateUnderlay(layer.id, { [field]: number * factor });
+  };
+
+  const renderLayerSettings = (layer: Underlay) => (
+    <Box sx={{ p: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        {layer.name}
+      </Typography>
+
+      <Typography variant="caption" color="text.secondary">
+        Opacity: {Math.round(layer.opacity * 100)}%
+      </Typography>
+      <Slider
+        value={layer.opacity * 100}
+        min={5}
+        max={100}
+        size="small"
+        onChange={(_, value) => updateUnderlay(layer.id, { opacity: (value as number) / 100 })}
+      />
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+        <TextField
+          label="X (ft)"
+          type="number"
+          size="small"
+          value={Number((layer.x / pixelsPerFoot).toFixed(1))}
+          onChange={(e) => handleNumberChange(layer, 'x', e.target.value, pixelsPerFoot)}
+        />
+        <TextField
+          label="Y (ft)"
+          type="number"
+          size="small"
+          value={Number((layer.y / pixelsPerFoot).toFixed(1))}
+          onChange={(e) => handleNumberChange(layer, 'y', e.target.value, pixelsPerFoot)}
+        />
+        <TextField
+          label="Rotation (°)"
+          type="number"
+          size="small"
+          value={Number(layer.rotation.toFixed(2))}
+          onChange={(e) => handleNumberChange(layer, 'rotation', e.target.value)}
+        />
+      </Box>
+
+      <FormControlLabel
+        control={
+          <Switch
+            checked={movingUnderlayId === layer.id}
+            onChange={(e) => setMovingUnderlay(e.target.checked ? layer.id : null)}
+          />
+        }
+        label={
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <OpenWithIcon fontSize="small" sx={{ mr: 0.5 }} />
+            Drag on the map to move
+          </Box>
+        }
+        sx={{ mt: 1 }}
+      />
+
+      <Divider sx={{ my: 2 }} />
+
+      <Typography variant="subtitle2" gutterBottom>
+        Scale
+      </Typography>
+      {layer.pixelsPerFoot ? (
+        <Alert
+          severity="success"
+          sx={{ mb: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={() => handleClearCalibration(layer)}>
+              Clear
+            </Button>
+          }
+        >
+          Calibrated at {layer.pixelsPerFoot.toFixed(2)} drawing px/ft
+          {layer.calibrationLines.length > 0 && ` from ${layer.calibrationLines.length} reference line${layer.calibrationLines.length === 1 ? '' : 's'}`}
+        </Alert>
+      ) : (
+        <TextField
+          label="Display scale (%)"
+          type="number"
+          size="small"
+          fullWidth
+          value={Number((layer.scale * 100).toFixed(1))}
+          onChange={(e) => handleNumberChange(layer, 'scale', e.target.value, 0.01)}
+          helperText="Uncalibrated layers can be sized by eye"
+          sx={{ mb: 2 }}
+        />
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+        <TextField
+          label="Drawing scale"
+          size="small"
+          fullWidth
+          value={drawingScale}
+          onChange={(e) => setDrawingScale(e.target.value)}
+          placeholder={'1" = 40\' or 1:500'}
+          disabled={!layer.pixelsPerInch}
+          error={drawingScale.trim() !== '' && !feetPerInch}
+          helperText={
+            !layer.pixelsPerInch
+              ? 'This drawing has no paper size; use a reference line'
+              : drawingScale.trim() !== '' && !feetPerInch
+                ? 'Enter a scale like 1" = 40\', 1/8" = 1\'-0" or 1:500'
+                : 'As printed in the title block'
+          }
+        />
+        <Button
+          variant="outlined"
+          onClick={() => handleApplyDrawingScale(layer)}
+          disabled={!feetPerInch || !layer.pixelsPerInch}
+        >
+          Apply
+        </Button>
+      </Box>
+
+      <Button
+        variant="outlined"
+        startIcon={<StraightenIcon />}
+        onClick={() => handleDrawReferenceLine(layer)}
+        fullWidth
+        sx={{ mt: 2 }}
+      >
+        Draw Reference Line
+      </Button>
+    </Box>
+  );
+
+  return (
+    <Box
+      sx={{
+        position: 'fixed',
+        top: '64px',
+        left: '60px',
+        width: '400px',
+        height: 'calc(100vh - 64px)',
+        bgcolor: 'background.paper',
+        boxShadow: 3,
+        zIndex: 100,
+        borderRight: '1px solid rgba(255, 255, 255, 0.12)',
+        transform: open ? 'translateX(0)' : 'translateX(-100%)',
+        transition: 'transform 0.3s ease-in-out',
+        visibility: open ? 'visible' : 'hidden',
+      }}
+    >
+      <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+        <Box sx={{ p: 2, borderBottom: 1, borderColor: 'divider' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Typography variant="h6" sx={{ display: 'flex', alignItems: 'center' }}>
+              <LayersIcon sx={{ mr: 1 }} />
+              Site Plan Layers
+            </Typography>
+            <IconButton onClick={handleClose} size="small">
+              <CloseIcon />
+            </IconButton>
+          </Box>
+        </Box>
+
+        <Box sx={{ flex: 1, overflow: 'auto' }}>
+          <Box sx={{ p: 2 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Lay CAD site plans exported as PDF or SVG over the lot. Each layer keeps its own
+              position, rotation, transparency and scale.
+            </Typography>
+
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+
+            <Paper
+              variant="outlined"
+              sx={{
+                p: 3,
+                textAlign: 'center',
+                border: dragActive ? '2px dashed #1976d2' : '2px dashed #ccc',
+                bgcolor: dragActive ? 'action.hover' : 'background.paper',
+                cursor: 'pointer',
+                mb: 2,
+                '&:hover': {
+                  bgcolor: 'action.hover',
+                },
+              }}
+              onDragEnter={handleDrag}
+              onDragLeave={handleDrag}
+              onDragOver={handleDrag}
+              onDrop={handleDrop}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <CloudUploadIcon sx={{ fontSize: 40, color: 'text.secondary', mb: 1 }} />
+              <Typography variant="body1">
+                {selectedFile ? selectedFile.name : 'Drop a PDF or SVG here, or click to browse'}
+              </Typography>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,.svg,application/pdf,image/svg+xml"
+                onChange={handleFileInput}
+                style={{ display: 'none' }}
+              />
+            </Paper>
+
+            {selectedFile && (
+              <Box sx={{ mb: 2 }}>
+                {pageCount > 1 && (
+                  <TextField
+                    select
+                    label="Page"
+                    value={pageNumber}
+                    onChange={(e) => setPageNumber(Number(e.target.value))}
+                    size="small"
+                    fullWidth
+                    sx={{ mb: 1 }}
+                  >
+                    {Array.from({ length: pageCount }, (_, index) => (
+                      <MenuItem key={index + 1} value={index + 1}>
+                        Page {index + 1}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                )}
+                <FormControlLabel
+                  control={<Switch checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />}
+                  label="Transparent background"
+                />
+                <Button
+                  variant="contained"
+                  onClick={handleAddLayer}
+                  disabled={isRendering}
+                  startIcon={isRendering ? <CircularProgress size={16} /> : <LayersIcon />}
+                  fullWidth
+                  sx={{ mt: 1 }}
+                >
+                  {isRendering ? 'Rendering...' : 'Add Layer'}
+                </Button>
+              </Box>
+            )}
+          </Box>
+
+          <Divider />
+
+          {underlays.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+              No site plan layers yet.
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {/* Topmost layer first */}
+              {underlays.slice().reverse().map((layer, index) => (
+                <ListItemButton
+                  key={layer.id}
+                  selected={layer.id === selectedLayerId}
+                  onClick={() => setSelectedLayerId(layer.id)}
+                >
+                  <ListItemText
+                    primary={layer.name}
+                    secondary={`${layer.source.toUpperCase()} · ${layer.pixelsPerFoot ? 'calibrated' : 'not calibrated'}`}
+                    primaryTypographyProps={{ noWrap: true }}
+                  />
+                  <Tooltip title={layer.visible ? 'Hide' : 'Show'}>
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        updateUnderlay(layer.id, { visible: !layer.visible }, `${layer.visible ? 'Hide' : 'Show'} ${layer.name}`);
+                      }}
+                    >
+                      {layer.visible ? <VisibilityIcon fontSize="small" /> : <VisibilityOffIcon fontSize="small" />}
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Bring forward">
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={index === 0}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          reorderUnderlay(layer.id, 1);
+                        }}
+                      >
+                        <ArrowUpwardIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Send backward">
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={index === underlays.length - 1}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          reorderUnderlay(layer.id, -1);
+                        }}
+                      >
+                        <ArrowDownwardIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Zoom to layer">
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        zoomToBounds(UnderlayService.getBounds(layer, pixelsPerFoot));
+                      }}
+                    >
+                      <CenterFocusStrongIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Remove layer">
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeUnderlay(layer.id);
+                      }}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+
+          {selectedLayer && (
+            <>
+              <Divider />
+              {renderLayerSettings(selectedLayer)}
+            </>
+          )}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default SitePlanLayersDrawer;
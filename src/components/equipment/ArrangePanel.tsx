@@ -0,0 +1,105 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Tooltip,
+  IconButton,
+  TextField,
+  InputAdornment
+} from '@mui/material';
+import AlignHorizontalLeftIcon from '@mui/icons-material/AlignHorizontalLeft';
+import AlignHorizontalCenterIcon from '@mui/icons-material/AlignHorizontalCenter';
+import AlignHorizontalRightIcon from '@mui/icons-material/AlignHorizontalRight';
+import AlignVerticalTopIcon from '@mui/icons-material/AlignVerticalTop';
+import AlignVerticalCenterIcon from '@mui/icons-material/AlignVerticalCenter';
+import AlignVerticalBottomIcon from '@mui/icons-material/AlignVerticalBottom';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import SwapVertIcon from '@mui/icons-material/SwapVert';
+import WidthNormalIcon from '@mui/icons-material/WidthNormal';
+import HeightIcon from '@mui/icons-material/Height';
+import { useEquipmentStore } from '../../stores/equipmentStore';
+import { useMapStore } from '../../stores/mapStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { ArrangeService, ArrangeCommandTemplate } from '../../services/arrangeService';
+
+const ALIGN_BUTTONS: { label: string; icon: React.ReactNode; command: ArrangeCommandTemplate }[] = [
+  { label: 'Align left', icon: <AlignHorizontalLeftIcon fontSize="small" />, command: { kind: 'align', edge: 'left' } },
+  { label: 'Align centers', icon: <AlignHorizontalCenterIcon fontSize="small" />, command: { kind: 'align', edge: 'center' } },
+  { label: 'Align right', icon: <AlignHorizontalRightIcon fontSize="small" />, command: { kind: 'align', edge: 'right' } },
+  { label: 'Align top', icon: <AlignVerticalTopIcon fontSize="small" />, command: { kind: 'align', edge: 'top' } },
+  { label: 'Align middles', icon: <AlignVerticalCenterIcon fontSize="small" />, command: { kind: 'align', edge: 'middle' } },
+  { label: 'Align bottom', icon: <AlignVerticalBottomIcon fontSize="small" />, command: { kind: 'align', edge: 'bottom' } }
+];
+
+const SPACING_BUTTONS: { label: string; icon: React.ReactNode; command: ArrangeCommandTemplate }[] = [
+  { label: 'Distribute horizontally', icon: <SwapHorizIcon fontSize="small" />, command: { kind: 'distribute', direction: 'horizontal' } },
+  { label: 'Distribute vertically', icon: <SwapVertIcon fontSize="small" />, command: { kind: 'distribute', direction: 'vertical' } },
+  { label: 'Space horizontally', icon: <WidthNormalIcon fontSize="small" />, command: { kind: 'space', direction: 'horizontal' } },
+  { label: 'Space vertically', icon: <HeightIcon fontSize="small" />, command: { kind: 'space', direction: 'vertical' } }
+];
+
+/**
+ * Align, distribute and space commands for a multi-item selection
+ */
+const ArrangePanel: React.FC = () => {
+  const selectedCount = useEquipmentStore(state => state.selectedIds.length);
+  const arrangeSelected = useEquipmentStore(state => state.arrangeSelected);
+  const pixelsPerFoot = useMapStore(state => state.pixelsPerFoot);
+  const spacingFeet = useSettingsStore(state => state.arrangeSpacingFeet);
+  const setSpacingFeet = useSettingsStore(state => state.setArrangeSpacingFeet);
+
+  const renderButton = ({ label, icon, command }: { label: string; icon: React.ReactNode; command: ArrangeCommandTemplate }) => {
+    const minimum = ArrangeService.getMinimumItems(command);
+    const title = command.kind === 'space' ? `${label} ${spacingFeet} ft apart` : label;
+
+    return (
+      <Tooltip key={label} title={`${title} (${ArrangeService.getShortcutLabel(command)})`}>
+        <span>
+          <IconButton
+            size="small"
+            aria-label={title}
+            disabled={selectedCount < minimum}
+            onClick={() => arrangeSelected(ArrangeService.withSpacing(command, spacingFeet), pixelsPerFoot)}
+          >
+            {icon}
+          </IconButton>
+        </span>
+      </Tooltip>
+    );
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        Arrange {selectedCount} items
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap' }}>
+        {ALIGN_BUTTONS.map(renderButton)}
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', mt: 1 }}>
+        {SPACING_BUTTONS.map(renderButton)}
+        <TextField
+          size="small"
+          type="number"
+          label="Gap"
+          value={spacingFeet}
+          onChange={(e) => setSpacingFeet(parseFloat(e.target.value))}
+          inputProps={{ min: 0, step: 1 }}
+          InputProps={{ endAdornment: <InputAdornment position="end">ft</InputAdornment> }}
+          sx={{ width: 100, ml: 1 }}
+        />
+      </Box>
+
+      {pixelsPerFoot === 1 && (
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+          Calibrate the map for gaps in real feet
+        </Typography>
+      )}
+    </Paper>
+  );
+};
+
+export default ArrangePanel;
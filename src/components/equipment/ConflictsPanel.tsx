@@ -0,0 +1,251 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Chip,
+  Tooltip,
+  Button,
+  IconButton
+} from '@mui/material';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import StraightenIcon from '@mui/icons-material/Straighten';
+import RuleIcon from '@mui/icons-material/Rule';
+import AddRoadIcon from '@mui/icons-material/AddRoad';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useEquipmentStore } from '../../stores/equipmentStore';
+import { useMapStore, Corridor } from '../../stores/mapStore';
+import { CollisionService, PlacementConflictType } from '../../services/collisionService';
+import { SpacingRuleService } from '../../services/spacingRuleService';
+import { CorridorService } from '../../services/corridorService';
+import SpacingRulesDialog from './SpacingRulesDialog';
+
+const CONFLICT_LABELS: Record<PlacementConflictType, string> = {
+  overlap: 'Overlap',
+  clearance: 'Clearance',
+  spacing: 'Spacing'
+};
+
+const ConflictsPanel: React.FC = () => {
+  const items = useEquipmentStore(state => state.items);
+  const spacingRules = useEquipmentStore(state => state.spacingRules);
+  const selectItem = useEquipmentStore(state => state.selectItem);
+  const selectMultiple = useEquipmentStore(state => state.selectMultiple);
+  const pixelsPerFoot = useMapStore(state => state.pixelsPerFoot);
+  const zoomToBounds = useMapStore(state => state.zoomToBounds);
+  const corridors = useMapStore(state => state.corridors);
+  const removeCorridor = useMapStore(state => state.removeCorridor);
+
+  const conflicts = useMemo(
+    () => CollisionService.findAllConflicts(items, pixelsPerFoot),
+    [items, pixelsPerFoot]
+  );
+  const ruleViolations = useMemo(
+    () => SpacingRuleService.findAllViolations(items, spacingRules, pixelsPerFoot),
+    [items, spacingRules, pixelsPerFoot]
+  );
+  const corridorChecks = useMemo(
+    () => CorridorService.checkAll(corridors, items, pixelsPerFoot),
+    [corridors, items, pixelsPerFoot]
+  );
+  const corridorIntrusionCount = corridorChecks.reduce((count, check) => count + check.intrusions.length, 0);
+  const [rulesDialogOpen, setRulesDialogOpen] = useState(false);
+
+  const handleConflictClick = (conflict: { itemId: string; otherItemId: string }) => {
+    const conflictItems = items.filter(item => item.id === conflict.itemId || item.id === conflict.otherItemId);
+    if (conflictItems.length === 0) return;
+
+    // Select both items and bring them into view
+    selectItem(conflict.itemId);
+    selectMultiple(conflict.otherItemId, true);
+    zoomToBounds(CollisionService.getBounds(conflictItems, pixelsPerFoot));
+  };
+
+  const handleCorridorClick = (corridor: Corridor) => {
+    const halfWidth = corridor.width * pixelsPerFoot / 2;
+    zoomToBounds({
+      minX: Math.min(...corridor.points.map(point => point.x)) - halfWidth,
+      minY: Math.min(...corridor.points.map(point => point.y)) - halfWidth,
+      maxX: Math.max(...corridor.points.map(point => point.x)) + halfWidth,
+      maxY: Math.max(...corridor.points.map(point => point.y)) + halfWidth
+    });
+  };
+
+  const handleIntrusionClick = (itemId: string) => {
+    const item = items.find(i => i.id === itemId);
+    if (!item) return;
+
+    selectItem(item.id);
+    zoomToBounds(CollisionService.getBounds([item], pixelsPerFoot));
+  };
+
+  // Fire lanes are listed whether or not anything blocks them
+  const corridorSection = corridors.length > 0 && (
+    <Box sx={{ px: 1, pb: 1 }}>
+      <Typography variant="subtitle2" sx={{ px: 1, py: 0.5, fontWeight: 'bold' }}>
+        Fire Lanes ({corridors.length})
+      </Typography>
+      <List dense disablePadding>
+        {corridorChecks.map(check => {
+          const corridor = corridors.find(c => c.id === check.corridorId);
+          if (!corridor) return null;
+
+          return (
+            <React.Fragment key={check.corridorId}>
+              <ListItem
+                disablePadding
+                secondaryAction={
+                  <Tooltip title="Delete fire lane">
+                    <IconButton edge="end" size="small" onClick={() => removeCorridor(corridor.id)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                }
+              >
+                <ListItemButton onClick={() => handleCorridorClick(corridor)}>
+                  <ListItemIcon sx={{ minWidth: 36 }}>
+                    <AddRoadIcon color={check.intrusions.length > 0 ? 'error' : 'success'} />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={`${check.corridorName} (${check.widthFeet} ft)`}
+                    secondary={CorridorService.describeCheck(check)}
+                    primaryTypographyProps={{ variant: 'body2', noWrap: true }}
+                  />
+                </ListItemButton>
+              </ListItem>
+              {check.intrusions.map(intrusion => (
+                <ListItem key={`${check.corridorId}-${intrusion.itemId}`} disablePadding>
+                  <ListItemButton sx={{ pl: 6 }} onClick={() => handleIntrusionClick(intrusion.itemId)}>
+                    <ListItemText
+                      secondary={CorridorService.describeIntrusion(intrusion)}
+                      secondaryTypographyProps={{ color: intrusion.type === 'footprint' ? 'error' : 'warning.main' }}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </React.Fragment>
+          );
+        })}
+      </List>
+    </Box>
+  );
+
+  const enabledRuleCount = spacingRules.filter(rule => rule.enabled).length;
+  const rulesButton = (
+    <Box sx={{ px: 1, pb: 1 }}>
+      <Button
+        size="small"
+        variant="outlined"
+        fullWidth
+        startIcon={<RuleIcon />}
+        onClick={() => setRulesDialogOpen(true)}
+      >
+        Spacing Rules ({enabledRuleCount})
+      </Button>
+      <SpacingRulesDialog open={rulesDialogOpen} onClose={() => setRulesDialogOpen(false)} />
+    </Box>
+  );
+
+  if (conflicts.length === 0 && ruleViolations.length === 0 && corridorIntrusionCount === 0) {
+    return (
+      <Box>
+        <Box sx={{ p: 2, textAlign: 'center' }}>
+          <CheckCircleOutlineIcon color="success" sx={{ fontSize: 40, mb: 1 }} />
+          <Typography variant="body2" color="text.secondary">
+            No placement conflicts
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Overlapping items, clearance intrusions, spacing rule violations and blocked fire lanes will be listed here
+          </Typography>
+        </Box>
+        {rulesButton}
+        {corridorSection}
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ overflow: 'auto' }}>
+      <Box sx={{ p: 1 }}>
+        {rulesButton}
+        {corridorSection}
+
+        {conflicts.length > 0 && (
+          <Typography variant="subtitle2" sx={{ px: 1, py: 0.5, fontWeight: 'bold' }}>
+            Conflicts ({conflicts.length})
+          </Typography>
+        )}
+
+        <List dense disablePadding>
+          {conflicts.map(conflict => (
+            <ListItem key={`${conflict.itemId}-${conflict.otherItemId}`} disablePadding>
+              <Tooltip title="Click to zoom to conflict" placement="left">
+                <ListItemButton onClick={() => handleConflictClick(conflict)}>
+                  <ListItemIcon sx={{ minWidth: 36 }}>
+                    {conflict.type === 'overlap' ? (
+                      <ErrorOutlineIcon color="error" />
+                    ) : (
+                      <WarningAmberIcon color="warning" />
+                    )}
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={`${conflict.itemName} ↔ ${conflict.otherItemName}`}
+                    secondary={CollisionService.describeConflict({ ...conflict, itemName: conflict.otherItemName })}
+                    primaryTypographyProps={{ variant: 'body2', noWrap: true }}
+                  />
+                  <Chip
+                    label={CONFLICT_LABELS[conflict.type]}
+                    size="small"
+                    color={conflict.type === 'overlap' ? 'error' : 'warning'}
+                    variant="outlined"
+                    sx={{ ml: 1 }}
+                  />
+                </ListItemButton>
+              </Tooltip>
+            </ListItem>
+          ))}
+        </List>
+
+        {ruleViolations.length > 0 && (
+          <Typography variant="subtitle2" sx={{ px: 1, py: 0.5, mt: 1, fontWeight: 'bold' }}>
+            Spacing Rule Violations ({ruleViolations.length})
+          </Typography>
+        )}
+
+        <List dense disablePadding>
+          {ruleViolations.map(violation => (
+            <ListItem key={`${violation.ruleId}-${violation.itemId}-${violation.otherItemId}`} disablePadding>
+              <Tooltip title="Click to zoom to violation" placement="left">
+                <ListItemButton onClick={() => handleConflictClick(violation)}>
+                  <ListItemIcon sx={{ minWidth: 36 }}>
+                    <StraightenIcon color="secondary" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={`${violation.itemName} ↔ ${violation.otherItemName}`}
+                    secondary={SpacingRuleService.describeViolation(violation)}
+                    primaryTypographyProps={{ variant: 'body2', noWrap: true }}
+                  />
+                  <Chip
+                    label="Rule"
+                    size="small"
+                    color="secondary"
+                    variant="outlined"
+                    sx={{ ml: 1 }}
+                  />
+                </ListItemButton>
+              </Tooltip>
+            </ListItem>
+          ))}
+        </List>
+      </Box>
+    </Box>
+  );
+};
+
+export default ConflictsPanel;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -16,7 +16,10 @@ import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import EditIcon from '@mui/icons-material/Edit';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
+import FenceIcon from '@mui/icons-material/Fence';
 import { useEquipmentStore } from '../../stores/equipmentStore';
+import { useMapStore } from '../../stores/mapStore';
+import { CollisionService, PerimeterViolation } from '../../services/collisionService';
 import EquipmentEditor from './EquipmentEditor';
 
 const EquipmentList: React.FC = () => {
@@ -24,6 +27,18 @@ const EquipmentList: React.FC = () => {
   const selectedIds = useEquipmentStore(state => state.selectedIds);
   const selectItem = useEquipmentStore(state => state.selectItem);
   const toggleItemVisibility = useEquipmentStore(state => state.toggleItemVisibility);
+  const activePerimeter = useMapStore(state => state.activePerimeter);
+  const pixelsPerFoot = useMapStore(state => state.pixelsPerFoot);
+
+  // Flag items that sit outside or across the lot boundary
+  const perimeterViolations = useMemo(() => {
+    const violations = new Map<string, PerimeterViolation>();
+    if (activePerimeter?.closed) {
+      CollisionService.findPerimeterViolations(items, activePerimeter.points, pixelsPerFoot)
+        .forEach(violation => violations.set(violation.itemId, violation));
+    }
+    return violations;
+  }, [items, activePerimeter, pixelsPerFoot]);
   
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set(['All Items']));
@@ -204,7 +219,12 @@ const EquipmentList: React.FC = () => {
                           </Typography>
                         </Box>
                         
-                        <Box sx={{ display: 'flex', gap: 0.5 }}>
+                        <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
+                          {perimeterViolations.has(item.id) && (
+                            <Tooltip title={CollisionService.describePerimeterViolation(perimeterViolations.get(item.id)!)}>
+                              <FenceIcon fontSize="small" color="warning" />
+                            </Tooltip>
+                          )}
                           <Tooltip title={item.visible !== false ? "Hide item" : "Show item"}>
                             <IconButton
                               size="small"
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  IconButton,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import AddLocationAltIcon from '@mui/icons-material/AddLocationAlt';
+import { useMapStore } from '../../stores/mapStore';
+import { useEquipmentStore } from '../../stores/equipmentStore';
+import { useUndoRedoStore } from '../../stores/undoRedoStore';
+import { GeoService } from '../../services/geoService';
+import { EquipmentService } from '../../services/equipmentService';
+import { CollisionService } from '../../services/collisionService';
+
+interface GpsPlacementDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type PlacementMode = 'new' | 'move';
+
+/**
+ * Places a new item, or moves the selected one, so its center sits on
+ * coordinates from a site survey
+ */
+const GpsPlacementDialog: React.FC<GpsPlacementDialogProps> = ({ open, onClose }) => {
+  const { geoTransform, pixelsPerFoot, zoomToBounds } = useMapStore();
+  const {
+    items,
+    selectedIds,
+    equipmentLibrary,
+    addItemFromTemplate,
+    moveItem,
+    rotateItem,
+    selectItem
+  } = useEquipmentStore();
+  const selectedItem = selectedIds.length === 1 ? items.find(item => item.id === selectedIds[0]) : undefined;
+
+  const [mode, setMode] = useState<PlacementMode>('new');
+  const [coordinates, setCoordinates] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [rotation, setRotation] = useState('');
+  const [error, setError] = useState('');
+
+  const activeMode: PlacementMode = mode === 'move' && selectedItem ? 'move' : 'new';
+  const position = GeoService.parseLatLng(coordinates);
+  const canvasPoint = geoTransform && position
+    ? GeoService.latLngToCanvas(geoTransform, position.lat, position.lng)
+    : null;
+  const outsideImage = !!geoTransform && !!canvasPoint && (
+    canvasPoint.x < 0 || canvasPoint.y < 0 ||
+    canvasPoint.x > geoTransform.imageWidth || canvasPoint.y > geoTransform.imageHeight
+  );
+  const rotationDegrees = rotation.trim() === '' ? null : parseFloat(rotation);
+
+  const handleClose = () => {
+    setCoordinates('');
+    setRotation('');
+    setError('');
+    onClose();
+  };
+
+  const handlePlace = () => {
+    if (!canvasPoint) return;
+    if (rotationDegrees !== null && isNaN(rotationDegrees)) {
+      setError('Rotation must be a number of degrees');
+      return;
+    }
+
+    const { beginBatch, endBatch } = useUndoRedoStore.getState();
+    let placedId: string | null = null;
+
+    if (activeMode === 'move' && selectedItem) {
+      beginBatch(`Move ${selectedItem.name} to GPS position`);
+      moveItem(selectedItem.id, canvasPoint.x - selectedItem.width / 2, canvasPoint.y - selectedItem.height / 2);
+      placedId = selectedItem.id;
+    } else {
+      const template = equipmentLibrary.find(t => t.id === templateId);
+      if (!template) {
+        setError('Choose the equipment to place');
+        return;
+      }
+      const { width, height } = EquipmentService.getPixelDimensions(template, pixelsPerFoot);
+      beginBatch(`Place ${template.name} by GPS`);
+      placedId = addItemFromTemplate(template.id, canvasPoint.x - width / 2, canvasPoint.y - height / 2, pixelsPerFoot);
+    }
+
+    if (placedId && rotationDegrees !== null) {
+      rotateItem(placedId, ((rotationDegrees % 360) + 360) % 360);
+    }
+    endBatch();
+
+    if (!placedId) {
+      setError('The item could not be placed at this position');
+      return;
+    }
+
+    const placed = useEquipmentStore.getState().items.find(item => item.id === placedId);
+    selectItem(placedId);
+    if (placed) {
+      zoomToBounds(CollisionService.getBounds([placed], pixelsPerFoot), 200);
+    }
+    handleClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <AddLocationAltIcon sx={{ mr: 1 }} />
+          Place by GPS Coordinates
+        </Box>
+        <IconButton onClick={handleClose} size="small">
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent>
+        {!geoTransform ? (
+          <Alert severity="info">
+            Import the lot from Google Maps, or a GeoTIFF or world file from a drone survey, to place equipment by latitude and longitude.
+          </Alert>
+        ) : (
+          <>
+            <ToggleButtonGroup
+              value={activeMode}
+              exclusive
+              size="small"
+              onChange={(_, value: PlacementMode | null) => value && setMode(value)}
+              sx={{ mb: 2 }}
+            >
+              <ToggleButton value="new">New item</ToggleButton>
+              <ToggleButton value="move" disabled={!selectedItem}>
+                {selectedItem ? `Move ${selectedItem.name}` : 'Move selected item'}
+              </ToggleButton>
+            </ToggleButtonGroup>
+
+            {activeMode === 'new' && (
+              <TextField
+                select
+                label="Equipment"
+                value={templateId}
+                onChange={(e) => {
+                  setTemplateId(e.target.value);
+                  setError('');
+                }}
+                fullWidth
+                size="small"
+                sx={{ mb: 2 }}
+              >
+                {equipmentLibrary.map(template => (
+                  <MenuItem key={template.id} value={template.id}>
+                    {template.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+
+            <TextField
+              label="Coordinates"
+              value={coordinates}
+              onChange={(e) => {
+                setCoordinates(e.target.value);
+                setError('');
+              }}
+              placeholder={'37.774900, -122.419400 or 37°46\'29.6"N 122°25\'9.8"W'}
+              fullWidth
+              size="small"
+              autoFocus
+              error={coordinates.trim() !== '' && !position}
+              helperText={
+                coordinates.trim() === ''
+                  ? 'Latitude and longitude of the item\'s center'
+                  : position
+                    ? GeoService.formatLatLngHemisphere(position)
+                    : 'Enter latitude then longitude, in decimal degrees or degrees, minutes and seconds'
+              }
+              sx={{ mb: 2 }}
+            />
+
+            <TextField
+              label="Rotation (°)"
+              value={rotation}
+              onChange={(e) => setRotation(e.target.value)}
+              type="number"
+              size="small"
+              placeholder={activeMode === 'move' && selectedItem ? String(selectedItem.rotation) : '0'}
+              InputLabelProps={{ shrink: true }}
+              helperText="Optional, clockwise from north"
+            />
+
+            {outsideImage && (
+              <Alert severity="warning" sx={{ mt: 2 }}>
+                This position is outside the imported map. Check the coordinates before placing.
+              </Alert>
+            )}
+
+            {canvasPoint && !outsideImage && (
+              <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 2 }}>
+                {(canvasPoint.x / pixelsPerFoot).toFixed(1)} ft, {(canvasPoint.y / pixelsPerFoot).toFixed(1)} ft from the
+                top-left corner of the map
+              </Typography>
+            )}
+
+            {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={handleClose}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handlePlace}
+          variant="contained"
+          disabled={!canvasPoint || (activeMode === 'new' && !templateId)}
+        >
+          {activeMode === 'move' ? 'Move' : 'Place'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default GpsPlacementDialog;
@@ -0,0 +1,165 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Typography,
+  Paper,
+  Stack,
+  Switch,
+  IconButton,
+  Tooltip,
+  Autocomplete,
+  InputAdornment
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useEquipmentStore } from '../../stores/equipmentStore';
+import { EquipmentCategory } from '../../services/equipmentService';
+import { SpacingRule, SpacingRuleService, SpacingRuleTarget } from '../../services/spacingRuleService';
+
+interface SpacingRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface TargetOption {
+  kind: 'category' | 'template';
+  value: string;
+  label: string;
+}
+
+const CATEGORY_OPTIONS: TargetOption[] = [
+  { kind: 'category', value: 'mega-rides', label: 'Mega Rides' },
+  { kind: 'category', value: 'rides', label: 'Rides' },
+  { kind: 'category', value: 'kiddy-rides', label: 'Kiddy Rides' },
+  { kind: 'category', value: 'food', label: 'Food' },
+  { kind: 'category', value: 'games', label: 'Games' },
+  { kind: 'category', value: 'equipment', label: 'Equipment' },
+  { kind: 'category', value: 'office', label: 'Office' },
+  { kind: 'category', value: 'home', label: 'Home' },
+  { kind: 'category', value: 'bunks', label: 'Bunks' },
+  { kind: 'category', value: 'utility', label: 'Utility' },
+  { kind: 'category', value: 'custom', label: 'Custom' }
+];
+
+const SpacingRulesDialog: React.FC<SpacingRulesDialogProps> = ({ open, onClose }) => {
+  const spacingRules = useEquipmentStore(state => state.spacingRules);
+  const equipmentLibrary = useEquipmentStore(state => state.equipmentLibrary);
+  const addSpacingRule = useEquipmentStore(state => state.addSpacingRule);
+  const updateSpacingRule = useEquipmentStore(state => state.updateSpacingRule);
+  const removeSpacingRule = useEquipmentStore(state => state.removeSpacingRule);
+
+  // Rules can target whole categories or individual templates
+  const targetOptions = useMemo<TargetOption[]>(() => [
+    ...CATEGORY_OPTIONS,
+    ...equipmentLibrary.map(template => ({ kind: 'template' as const, value: template.id, label: template.name }))
+  ], [equipmentLibrary]);
+
+  const toOptions = (target: SpacingRuleTarget): TargetOption[] =>
+    targetOptions.filter(option => option.kind === 'category'
+      ? target.categories.includes(option.value as EquipmentCategory)
+      : target.templateIds.includes(option.value)
+    );
+
+  const toTarget = (options: TargetOption[]): SpacingRuleTarget => ({
+    categories: options.filter(option => option.kind === 'category').map(option => option.value as EquipmentCategory),
+    templateIds: options.filter(option => option.kind === 'template').map(option => option.value)
+  });
+
+  const renderTargetField = (rule: SpacingRule, side: 'from' | 'to', label: string) => (
+    <Autocomplete
+      multiple
+      size="small"
+      options={targetOptions}
+      groupBy={option => option.kind === 'category' ? 'Categories' : 'Equipment'}
+      getOptionLabel={option => option.label}
+      isOptionEqualToValue={(option, value) => option.kind === value.kind && option.value === value.value}
+      value={toOptions(rule[side])}
+      onChange={(_, options) => updateSpacingRule(rule.id, { [side]: toTarget(options) })}
+      renderInput={params => (
+        <TextField {...params} label={label} placeholder={rule[side].categories.length + rule[side].templateIds.length === 0 ? 'Any equipment' : ''} />
+      )}
+      sx={{ flex: 1 }}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Spacing Rules</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Minimum edge-to-edge distances between equipment categories or specific equipment, such as
+          venue or fire marshal requirements. Rules are saved with the project.
+        </Typography>
+
+        {spacingRules.length === 0 && (
+          <Box sx={{ p: 3, textAlign: 'center' }}>
+            <Typography variant="body2" color="text.secondary">
+              No spacing rules for this project
+            </Typography>
+          </Box>
+        )}
+
+        <Stack spacing={1.5}>
+          {spacingRules.map(rule => (
+            <Paper key={rule.id} variant="outlined" sx={{ p: 1.5, opacity: rule.enabled ? 1 : 0.6 }}>
+              <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1.5 }}>
+                <Tooltip title={rule.enabled ? 'Disable rule' : 'Enable rule'}>
+                  <Switch
+                    size="small"
+                    checked={rule.enabled}
+                    onChange={(e) => updateSpacingRule(rule.id, { enabled: e.target.checked })}
+                  />
+                </Tooltip>
+                <TextField
+                  size="small"
+                  label="Rule Name"
+                  value={rule.name}
+                  onChange={(e) => updateSpacingRule(rule.id, { name: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  label="Minimum Distance"
+                  type="number"
+                  value={rule.minDistance}
+                  onChange={(e) => updateSpacingRule(rule.id, { minDistance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  inputProps={{ min: 0, step: 1 }}
+                  InputProps={{ endAdornment: <InputAdornment position="end">ft</InputAdornment> }}
+                  sx={{ width: 170 }}
+                />
+                <Tooltip title="Delete rule">
+                  <IconButton size="small" onClick={() => removeSpacingRule(rule.id)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Stack>
+              <Stack direction="row" spacing={1} alignItems="center">
+                {renderTargetField(rule, 'from', 'Keep')}
+                <Typography variant="body2" color="text.secondary">away from</Typography>
+                {renderTargetField(rule, 'to', 'These')}
+              </Stack>
+            </Paper>
+          ))}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() => addSpacingRule(SpacingRuleService.createRule())}
+        >
+          Add Rule
+        </Button>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onClose} variant="contained">Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SpacingRulesDialog;
@@ -6,11 +6,18 @@ import RightSidebar from './RightSidebar';
 import MapCanvas from '../map/MapCanvas';
 import ProjectsDrawer from '../common/ProjectsDrawer';
 import ImageImportDrawer from '../common/ImageImportDrawer';
+import SitePlanLayersDrawer from '../common/SitePlanLayersDrawer';
 import SettingsDrawer from '../common/SettingsDrawer';
+import RecoveryDialog from '../common/RecoveryDialog';
+import PerspectiveCalibrationDialog from '../calibration/PerspectiveCalibrationDialog';
+import BackgroundRotationDialog from '../calibration/BackgroundRotationDialog';
 import { WelcomeDialog } from '../onboarding/WelcomeDialog';
 import { OnboardingOverlay } from '../onboarding/OnboardingOverlay';
 import { useOnboardingStore } from '../../stores/onboardingStore';
 import { OnboardingService } from '../../services/onboardingService';
+import { ProjectService } from '../../services/projectService';
+import { AutoSaveService } from '../../services/autoSaveService';
+import { RecoverySnapshot } from '../../services/projectStorageService';
 
 // Create a dark theme based on the UI examples
 const darkTheme = createTheme({
@@ -40,8 +47,14 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   // Drawer state management moved from LeftSidebar to here
   const [projectsDrawerOpen, setProjectsDrawerOpen] = useState(false);
   const [imageImportDrawerOpen, setImageImportDrawerOpen] = useState(false);
+  const [sitePlanLayersDrawerOpen, setSitePlanLayersDrawerOpen] = useState(false);
   const [settingsDrawerOpen, setSettingsDrawerOpen] = useState(false);
+  const [perspectiveCalibrationOpen, setPerspectiveCalibrationOpen] = useState(false);
+  const [backgroundRotationOpen, setBackgroundRotationOpen] = useState(false);
   
+  // Unsaved work left by the previous session
+  const [recoverySnapshot, setRecoverySnapshot] = useState<RecoverySnapshot | null>(null);
+
   // Onboarding state
   const [showWelcomeDialog, setShowWelcomeDialog] = useState(false);
   const {
@@ -59,12 +72,53 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
     }
   }, []);
 
+  // Offer to restore unsaved work, then start auto-saving
+  useEffect(() => {
+    let cancelled = false;
+
+    ProjectService.getRecoverySnapshot()
+      .then(snapshot => {
+        if (cancelled) return;
+        if (snapshot) {
+          setRecoverySnapshot(snapshot);
+        } else {
+          AutoSaveService.start();
+        }
+      })
+      .catch(error => {
+        console.error('Failed to check for unsaved changes:', error);
+        if (!cancelled) AutoSaveService.start();
+      });
+
+    return () => {
+      cancelled = true;
+      AutoSaveService.stop();
+    };
+  }, []);
+
+  const handleRestoreUnsavedChanges = async () => {
+    setRecoverySnapshot(null);
+    try {
+      await ProjectService.restoreRecoverySnapshot();
+    } catch (error) {
+      console.error('Failed to restore unsaved changes:', error);
+    }
+    AutoSaveService.start();
+  };
+
+  const handleDiscardUnsavedChanges = async () => {
+    setRecoverySnapshot(null);
+    await ProjectService.discardRecoverySnapshot();
+    AutoSaveService.start();
+  };
+
   // Handlers for drawer state
   const handleProjectsDrawerToggle = () => {
     setProjectsDrawerOpen(!projectsDrawerOpen);
     if (!projectsDrawerOpen) {
       // Close other drawers when opening this one
       setImageImportDrawerOpen(false);
+      setSitePlanLayersDrawerOpen(false);
       setSettingsDrawerOpen(false);
     }
   };
@@ -74,6 +128,17 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
     if (!imageImportDrawerOpen) {
       // Close other drawers when opening this one
       setProjectsDrawerOpen(false);
+      setSitePlanLayersDrawerOpen(false);
+      setSettingsDrawerOpen(false);
+    }
+  };
+
+  const handleSitePlanLayersDrawerToggle = () => {
+    setSitePlanLayersDrawerOpen(!sitePlanLayersDrawerOpen);
+    if (!sitePlanLayersDrawerOpen) {
+      // Close other drawers when opening this one
+      setProjectsDrawerOpen(false);
+      setImageImportDrawerOpen(false);
       setSettingsDrawerOpen(false);
     }
   };
@@ -84,6 +149,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       // Close other drawers when opening this one
       setProjectsDrawerOpen(false);
       setImageImportDrawerOpen(false);
+      setSitePlanLayersDrawerOpen(false);
     }
   };
 
@@ -105,9 +171,13 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
         <LeftSidebar 
           onProjectsClick={handleProjectsDrawerToggle}
           onImageImportClick={handleImageImportDrawerToggle}
+          onSitePlanLayersClick={handleSitePlanLayersDrawerToggle}
           onSettingsClick={handleSettingsDrawerToggle}
+          onPerspectiveCalibrationClick={() => setPerspectiveCalibrationOpen(true)}
+          onBackgroundRotationClick={() => setBackgroundRotationOpen(true)}
           projectsDrawerOpen={projectsDrawerOpen}
           imageImportDrawerOpen={imageImportDrawerOpen}
+          sitePlanLayersDrawerOpen={sitePlanLayersDrawerOpen}
           settingsDrawerOpen={settingsDrawerOpen}
         />
         
@@ -122,6 +192,11 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
           onClose={() => setImageImportDrawerOpen(false)}
         />
         
+        <SitePlanLayersDrawer 
+          open={sitePlanLayersDrawerOpen}
+          onClose={() => setSitePlanLayersDrawerOpen(false)}
+        />
+        
         <SettingsDrawer 
           open={settingsDrawerOpen}
           onClose={() => setSettingsDrawerOpen(false)}
@@ -153,6 +228,22 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
         {/* Right Sidebar with equipment library and properties */}
         <RightSidebar />
         
+        <PerspectiveCalibrationDialog
+          open={perspectiveCalibrationOpen}
+          onClose={() => setPerspectiveCalibrationOpen(false)}
+        />
+
+        <BackgroundRotationDialog
+          open={backgroundRotationOpen}
+          onClose={() => setBackgroundRotationOpen(false)}
+        />
+
+        <RecoveryDialog
+          snapshot={recoverySnapshot}
+          onRestore={handleRestoreUnsavedChanges}
+          onDiscard={handleDiscardUnsavedChanges}
+        />
+
         {/* Onboarding Components */}
         <WelcomeDialog
           open={showWelcomeDialog}
@@ -20,9 +20,14 @@ import GridOffIcon from '@mui/icons-material/GridOff';
 import DeleteIcon from '@mui/icons-material/Delete';
 
 import SquareFootIcon from '@mui/icons-material/SquareFoot';
+import TransformIcon from '@mui/icons-material/Transform';
+import Rotate90DegreesCwIcon from '@mui/icons-material/Rotate90DegreesCw';
+import ExploreIcon from '@mui/icons-material/Explore';
 import TimelineIcon from '@mui/icons-material/Timeline';
+import AddRoadIcon from '@mui/icons-material/AddRoad';
 import FolderOpenIcon from '@mui/icons-material/FolderOpen';
 import ImageSearchIcon from '@mui/icons-material/ImageSearch';
+import LayersIcon from '@mui/icons-material/Layers';
 import SettingsIcon from '@mui/icons-material/Settings';
 import { useMapStore } from '../../stores/mapStore';
 import { useEquipmentStore } from '../../stores/equipmentStore';
@@ -34,18 +39,26 @@ const DRAWER_WIDTH = 60;
 interface LeftSidebarProps {
   onProjectsClick: () => void;
   onImageImportClick: () => void;
+  onSitePlanLayersClick: () => void;
   onSettingsClick: () => void;
+  onPerspectiveCalibrationClick: () => void;
+  onBackgroundRotationClick: () => void;
   projectsDrawerOpen: boolean;
   imageImportDrawerOpen: boolean;
+  sitePlanLayersDrawerOpen: boolean;
   settingsDrawerOpen: boolean;
 }
 
 const LeftSidebar: React.FC<LeftSidebarProps> = ({
   onProjectsClick,
   onImageImportClick,
+  onSitePlanLayersClick,
   onSettingsClick,
+  onPerspectiveCalibrationClick,
+  onBackgroundRotationClick,
   projectsDrawerOpen,
   imageImportDrawerOpen,
+  sitePlanLayersDrawerOpen,
   settingsDrawerOpen
 }) => {
   const [selectedTool, setSelectedTool] = React.useState<string>('select');
@@ -63,7 +76,11 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
     setIsPanningMode,
     isPanningMode,
     isPerimeterMode,
-    togglePerimeterMode
+    togglePerimeterMode,
+    isCorridorMode,
+    toggleCorridorMode,
+    isLotAxisMode,
+    toggleLotAxisMode
   } = useMapStore();
   
   const { 
@@ -94,6 +111,12 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
       if (isPerimeterMode) {
         togglePerimeterMode();
       }
+      if (isCorridorMode) {
+        toggleCorridorMode();
+      }
+      if (isLotAxisMode) {
+        toggleLotAxisMode();
+      }
       if (tool === 'pan') {
         setIsPanningMode(false);
         setIsPanningModeActive(false);
@@ -101,6 +124,9 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
     } else {
       // Select the new tool and deselect others
       setSelectedTool(tool);
+      if (isLotAxisMode && tool !== 'lotAxis') {
+        toggleLotAxisMode();
+      }
       
       // Handle calibration tool
       if (tool === 'calibrate') {
@@ -113,6 +139,9 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
         if (isPerimeterMode) {
           togglePerimeterMode();
         }
+        if (isCorridorMode) {
+          toggleCorridorMode();
+        }
       }
       // Handle perimeter tool
       else if (tool === 'perimeter') {
@@ -125,6 +154,42 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
         if (isCalibrationMode) {
           toggleCalibrationMode();
         }
+        if (isCorridorMode) {
+          toggleCorridorMode();
+        }
+      }
+      // Handle fire lane corridor tool
+      else if (tool === 'corridor') {
+        if (!isCorridorMode) {
+          toggleCorridorMode();
+        }
+        // Ensure other modes are off when drawing a corridor
+        setIsPanningMode(false);
+        setIsPanningModeActive(false);
+        if (isCalibrationMode) {
+          toggleCalibrationMode();
+        }
+        if (isPerimeterMode) {
+          togglePerimeterMode();
+        }
+      }
+      // Handle lot axis tool
+      else if (tool === 'lotAxis') {
+        if (!isLotAxisMode) {
+          toggleLotAxisMode();
+        }
+        // Ensure other modes are off when picking the lot axis
+        setIsPanningMode(false);
+        setIsPanningModeActive(false);
+        if (isCalibrationMode) {
+          toggleCalibrationMode();
+        }
+        if (isPerimeterMode) {
+          togglePerimeterMode();
+        }
+        if (isCorridorMode) {
+          toggleCorridorMode();
+        }
       }
       // Handle pan/move tool
       else if (tool === 'pan') {
@@ -138,7 +203,10 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
         if (isPerimeterMode) {
           togglePerimeterMode();
         }
-      } 
+        if (isCorridorMode) {
+          toggleCorridorMode();
+        }
+      }
       else {
         // If switching to another tool, exit all modes
         if (isCalibrationMode) {
@@ -147,6 +215,9 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
         if (isPerimeterMode) {
           togglePerimeterMode();
         }
+        if (isCorridorMode) {
+          toggleCorridorMode();
+        }
         if (isPanningModeActive) {
           setIsPanningMode(false);
           setIsPanningModeActive(false);
@@ -179,6 +250,18 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
     onImageImportClick();
   };
 
+  const handleSitePlanLayersClick = () => {
+    // Deselect any active tool when opening site plan layers drawer
+    if (selectedTool) {
+      setSelectedTool('');
+      if (isCalibrationMode) {
+        toggleCalibrationMode();
+      }
+    }
+    // Call the parent handler
+    onSitePlanLayersClick();
+  };
+
   const handleSettingsClick = () => {
     // Deselect any active tool when opening settings drawer
     if (selectedTool) {
@@ -263,6 +346,23 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
             </ListItem>
           </Tooltip>
           
+          <Tooltip title="Site Plan Layers" placement="right" arrow>
+            <ListItem disablePadding>
+              <ListItemButton 
+                onClick={handleSitePlanLayersClick}
+                sx={{ 
+                  justifyContent: 'center',
+                  minHeight: 48,
+                  px: 1
+                }}
+              >
+                <ListItemIcon sx={{ minWidth: 0 }}>
+                  <LayersIcon />
+                </ListItemIcon>
+              </ListItemButton>
+            </ListItem>
+          </Tooltip>
+          
           <Tooltip title="Settings" placement="right" arrow>
             <ListItem disablePadding>
               <ListItemButton 
@@ -341,6 +441,58 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
             </ListItem>
           </Tooltip>
 
+          <Tooltip title="Perspective Calibration" placement="right" arrow>
+            <ListItem disablePadding>
+              <ListItemButton
+                onClick={onPerspectiveCalibrationClick}
+                sx={{
+                  justifyContent: 'center',
+                  minHeight: 48,
+                  px: 1
+                }}
+              >
+                <ListItemIcon sx={{ minWidth: 0 }}>
+                  <TransformIcon />
+                </ListItemIcon>
+              </ListItemButton>
+            </ListItem>
+          </Tooltip>
+
+          <Tooltip title="Rotate Background" placement="right" arrow>
+            <ListItem disablePadding>
+              <ListItemButton
+                onClick={onBackgroundRotationClick}
+                sx={{
+                  justifyContent: 'center',
+                  minHeight: 48,
+                  px: 1
+                }}
+              >
+                <ListItemIcon sx={{ minWidth: 0 }}>
+                  <Rotate90DegreesCwIcon />
+                </ListItemIcon>
+              </ListItemButton>
+            </ListItem>
+          </Tooltip>
+
+          <Tooltip title="Lot Axis" placement="right" arrow>
+            <ListItem disablePadding>
+              <ListItemButton
+                selected={selectedTool === 'lotAxis'}
+                onClick={() => handleToolSelect('lotAxis')}
+                sx={{
+                  justifyContent: 'center',
+                  minHeight: 48,
+                  px: 1
+                }}
+              >
+                <ListItemIcon sx={{ minWidth: 0 }}>
+                  <ExploreIcon />
+                </ListItemIcon>
+              </ListItemButton>
+            </ListItem>
+          </Tooltip>
+
           <Tooltip title="Draw Perimeter" placement="right" arrow>
             <ListItem disablePadding>
               <ListItemButton
@@ -359,6 +511,25 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
               </ListItemButton>
             </ListItem>
           </Tooltip>
+
+          <Tooltip title="Draw Fire Lane" placement="right" arrow>
+            <ListItem disablePadding>
+              <ListItemButton
+                selected={selectedTool === 'corridor'}
+                onClick={() => handleToolSelect('corridor')}
+                sx={{
+                  justifyContent: 'center',
+                  minHeight: 48,
+                  px: 1,
+                  bgcolor: isCorridorMode ? 'rgba(244, 67, 54, 0.2)' : 'transparent'
+                }}
+              >
+                <ListItemIcon sx={{ minWidth: 0 }}>
+                  <AddRoadIcon color={isCorridorMode ? 'error' : 'inherit'} />
+                </ListItemIcon>
+              </ListItemButton>
+            </ListItem>
+          </Tooltip>
         </List>
         
         <Box sx={{ flexGrow: 1 }} />
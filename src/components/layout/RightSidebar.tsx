@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   Box, 
   Drawer, 
@@ -13,27 +13,44 @@ import {
   Paper,
   Accordion,
   AccordionSummary,
-  AccordionDetails
+  AccordionDetails,
+  Badge
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { useEquipmentStore } from '../../stores/equipmentStore';
 import { EquipmentTemplate } from '../../services/equipmentService';
+import { CollisionService } from '../../services/collisionService';
+import { SpacingRuleService } from '../../services/spacingRuleService';
+import { CorridorService } from '../../services/corridorService';
+import { useMapStore } from '../../stores/mapStore';
 import EquipmentList from '../equipment/EquipmentList';
+import ConflictsPanel from '../equipment/ConflictsPanel';
+import ArrangePanel from '../equipment/ArrangePanel';
+import HistoryPanel from '../common/HistoryPanel';
 import { EquipmentLibraryManager } from '../equipment/EquipmentLibraryManager';
 
 // Width of the right sidebar
 const DRAWER_WIDTH = 372;
 
 const RightSidebar: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'equipment' | 'list' | 'properties'>('equipment');
+  const [activeTab, setActiveTab] = useState<'equipment' | 'list' | 'properties' | 'conflicts' | 'history'>('equipment');
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set(['utility', 'mega-rides', 'rides']));
   const equipmentLibrary = useEquipmentStore(state => state.equipmentLibrary);
   const selectedIds = useEquipmentStore(state => state.selectedIds);
   const items = useEquipmentStore(state => state.items);
+  const spacingRules = useEquipmentStore(state => state.spacingRules);
+  const pixelsPerFoot = useMapStore(state => state.pixelsPerFoot);
+  const corridors = useMapStore(state => state.corridors);
+  const conflictCount = useMemo(
+    () => CollisionService.findAllConflicts(items, pixelsPerFoot).length +
+      SpacingRuleService.findAllViolations(items, spacingRules, pixelsPerFoot).length +
+      CorridorService.checkAll(corridors, items, pixelsPerFoot).reduce((count, check) => count + check.intrusions.length, 0),
+    [items, spacingRules, corridors, pixelsPerFoot]
+  );
   // Get the first selected item for properties display
   const selectedItem = selectedIds.length > 0 ? items.find(item => item.id === selectedIds[0]) : undefined;
 
-  const handleTabChange = (event: React.SyntheticEvent, newValue: 'equipment' | 'list' | 'properties') => {
+  const handleTabChange = (event: React.SyntheticEvent, newValue: 'equipment' | 'list' | 'properties' | 'conflicts' | 'history') => {
     setActiveTab(newValue);
   };
 
@@ -97,16 +114,34 @@ const RightSidebar: React.FC = () => {
           textColor="primary"
           indicatorColor="primary"
           variant="fullWidth"
+          sx={{ '& .MuiTab-root': { minWidth: 0, px: 1 } }}
         >
           <Tab value="equipment" label="Library" />
           <Tab value="list" label="Items" />
           <Tab value="properties" label="Properties" />
+          <Tab
+            value="conflicts"
+            label={
+              <Badge badgeContent={conflictCount} color="error" max={99}>
+                Conflicts
+              </Badge>
+            }
+          />
+          <Tab value="history" label="History" />
         </Tabs>
       </Box>
       
       {activeTab === 'list' && (
         <EquipmentList />
       )}
+
+      {activeTab === 'conflicts' && (
+        <ConflictsPanel />
+      )}
+
+      {activeTab === 'history' && (
+        <HistoryPanel />
+      )}
       
       {activeTab === 'equipment' && (
         <Box sx={{ overflow: 'auto' }}>
@@ -247,6 +282,7 @@ const RightSidebar: React.FC = () => {
       
       {activeTab === 'properties' && (
         <Box sx={{ overflow: 'auto', p: 2 }}>
+          {selectedIds.length > 1 && <ArrangePanel />}
           {!selectedItem ? (
             <Typography variant="body2" color="text.secondary" align="center" sx={{ mt: 2 }}>
               Select an item to view and edit its properties
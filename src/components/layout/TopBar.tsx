@@ -1,19 +1,22 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { AppBar, Toolbar, Typography, IconButton, Box, Tooltip } from '@mui/material';
 import ZoomInIcon from '@mui/icons-material/ZoomIn';
 import ZoomOutIcon from '@mui/icons-material/ZoomOut';
 import StraightenIcon from '@mui/icons-material/Straighten';
 import UndoIcon from '@mui/icons-material/Undo';
 import RedoIcon from '@mui/icons-material/Redo';
+import AddLocationAltIcon from '@mui/icons-material/AddLocationAlt';
 import { useMapStore } from '../../stores/mapStore';
 import { useEquipmentStore } from '../../stores/equipmentStore';
 import { useUndoRedoStore } from '../../stores/undoRedoStore';
+import GpsPlacementDialog from '../equipment/GpsPlacementDialog';
 import lizardLogo from '../../assets/lizard-logo.png';
 
 const TopBar: React.FC = () => {
-  const { scale, setScale, isRulerMode, toggleRulerMode } = useMapStore();
+  const { scale, setScale, isRulerMode, toggleRulerMode, geoTransform } = useMapStore();
   const { undoLastAction, redoLastAction } = useEquipmentStore();
   const { canUndo, canRedo, getUndoDescription, getRedoDescription } = useUndoRedoStore();
+  const [gpsPlacementOpen, setGpsPlacementOpen] = useState(false);
 
   const handleZoomIn = () => {
     setScale(scale * 1.2);
@@ -88,6 +91,19 @@ const TopBar: React.FC = () => {
             <StraightenIcon />
           </IconButton>
 
+          <Tooltip title={geoTransform ? 'Place by GPS coordinates' : 'Import a georeferenced map to place by GPS'}>
+            <span>
+              <IconButton
+                onClick={() => setGpsPlacementOpen(true)}
+                size="small"
+                disabled={!geoTransform}
+                sx={{ mr: 2 }}
+              >
+                <AddLocationAltIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+
           <Typography variant="body2" sx={{ mr: 1 }}>
             Zoom: {Math.round(scale * 100)}%
           </Typography>
@@ -102,6 +118,7 @@ const TopBar: React.FC = () => {
         </Box>
       </Toolbar>
 
+      <GpsPlacementDialog open={gpsPlacementOpen} onClose={() => setGpsPlacementOpen(false)} />
     </AppBar>
   );
 };
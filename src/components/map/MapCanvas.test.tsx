@@ -0,0 +1,109 @@
+import React from 'react';
+import { render, fireEvent, screen } from '@testing-library/react';
+import MapCanvas from './MapCanvas';
+import { useEquipmentStore, EquipmentItem } from '../../stores/equipmentStore';
+import { useMapStore } from '../../stores/mapStore';
+import { useUndoRedoStore } from '../../stores/undoRedoStore';
+
+// jsdom has no canvas, and reports the canvas at the page origin, so client and canvas coordinates match
+const stand: EquipmentItem = {
+  id: 'stand',
+  name: 'Corn Dogs',
+  x: 100,
+  y: 100,
+  width: 40,
+  height: 40,
+  rotation: 0,
+  color: '#f00',
+  type: 'food',
+  templateId: 'corn-dogs',
+  shape: 'rectangle'
+};
+
+const getCanvas = () => {
+  render(<MapCanvas />);
+  return screen.getByLabelText('Lot layout');
+};
+
+describe('MapCanvas drags', () => {
+  beforeEach(() => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    useMapStore.setState({ scale: 1, position: { x: 0, y: 0 }, pixelsPerFoot: 1 });
+    useEquipmentStore.setState({ items: [stand], selectedIds: [] });
+    useUndoRedoStore.getState().clearHistory();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('ends an item drag released outside the canvas as one undo step', () => {
+    const canvas = getCanvas();
+
+    fireEvent.mouseDown(canvas, { button: 0, clientX: 120, clientY: 120 });
+    fireEvent.mouseMove(canvas, { clientX: 150, clientY: 130 });
+    fireEvent.mouseLeave(canvas);
+    fireEvent.mouseUp(document.body, { button: 0 });
+
+    const undoRedo = useUndoRedoStore.getState();
+    expect(undoRedo.openBatch).toBeNull();
+    expect(undoRedo.getUndoDescription()).toBe('Move Corn Dogs');
+
+    // The drag is over, so moving back over the canvas leaves the item where it was dropped
+    fireEvent.mouseMove(canvas, { clientX: 300, clientY: 300 });
+    expect(useEquipmentStore.getState().items[0]).toMatchObject({ x: 130, y: 110 });
+  });
+
+  test('starts the next drag normally after one released outside the canvas', () => {
+    const canvas = getCanvas();
+
+    fireEvent.mouseDown(canvas, { button: 0, clientX: 120, clientY: 120 });
+    fireEvent.mouseUp(window, { button: 0 });
+    fireEvent.mouseDown(canvas, { button: 0, clientX: 120, clientY: 120 });
+    fireEvent.mouseMove(canvas, { clientX: 100, clientY: 120 });
+    fireEvent.mouseUp(canvas, { button: 0, clientX: 100, clientY: 120 });
+
+    const undoRedo = useUndoRedoStore.getState();
+    expect(undoRedo.openBatch).toBeNull();
+    expect(undoRedo.getUndoDescription()).toBe('Move Corn Dogs');
+  });
+
+  test('does not start a drag inside a batch that is still open', () => {
+    const canvas = getCanvas();
+    useUndoRedoStore.getState().beginBatch('Place by GPS');
+
+    fireEvent.mouseDown(canvas, { button: 0, clientX: 120, clientY: 120 });
+    fireEvent.mouseMove(canvas, { clientX: 150, clientY: 130 });
+
+    expect(useEquipmentStore.getState().items[0]).toMatchObject({ x: 100, y: 100 });
+    expect(useUndoRedoStore.getState().openBatch).toMatchObject({ description: 'Place by GPS', depth: 1 });
+  });
+
+  test('keeps a selection box dragged past the canvas edge, stopping it at the edge', () => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getBoundingClientRect').mockReturnValue(
+      { left: 0, top: 0, right: 400, bottom: 300, width: 400, height: 300, x: 0, y: 0, toJSON: () => ({}) }
+    );
+    // Straddles the right edge, so a box stopped at the edge doesn't hold all of it
+    useEquipmentStore.setState({ items: [stand, { ...stand, id: 'booth', name: 'Ticket Booth', x: 390 }] });
+    const canvas = getCanvas();
+
+    fireEvent.mouseDown(canvas, { button: 0, clientX: 50, clientY: 50 });
+    fireEvent.mouseMove(canvas, { clientX: 390, clientY: 200 });
+    fireEvent.mouseLeave(canvas);
+    fireEvent.mouseMove(document.body, { clientX: 450, clientY: 350 });
+    fireEvent.mouseUp(document.body, { button: 0, clientX: 450, clientY: 350 });
+
+    expect(useEquipmentStore.getState().selectedIds).toEqual(['stand']);
+  });
+
+  test('tells the user about conflicts left by a drop', async () => {
+    useEquipmentStore.setState({ items: [stand, { ...stand, id: 'booth', name: 'Ticket Booth', x: 200 }] });
+    const canvas = getCanvas();
+
+    fireEvent.mouseDown(canvas, { button: 0, clientX: 120, clientY: 120 });
+    fireEvent.mouseMove(canvas, { clientX: 200, clientY: 120 });
+    fireEvent.mouseUp(canvas, { button: 0, clientX: 200, clientY: 120 });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Corn Dogs: Overlaps Ticket Booth by 20 ft');
+  });
+});
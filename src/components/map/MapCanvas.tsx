@@ -1,10 +1,27 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { Box, Typography, Button } from '@mui/material';
-import { useMapStore, MeasurementLine, PerimeterPoint } from '../../stores/mapStore';
-import { useEquipmentStore } from '../../stores/equipmentStore';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { Box, Typography, Button, TextField, InputAdornment, Snackbar, Alert } from '@mui/material';
+import { useMapStore, MeasurementLine, MeasurementPoint, PerimeterPoint } from '../../stores/mapStore';
+import { useEquipmentStore, EquipmentItem } from '../../stores/equipmentStore';
+import { useUndoRedoStore } from '../../stores/undoRedoStore';
+import { useSettingsStore } from '../../stores/settingsStore';
 import { CalibrationService } from '../../services/calibrationService';
+import { GeoService } from '../../services/geoService';
+import { CollisionService, Point2D, Shape2D } from '../../services/collisionService';
+import { SpacingRuleService } from '../../services/spacingRuleService';
+import { CorridorService } from '../../services/corridorService';
+import { UnderlayService } from '../../services/underlayService';
+import { LotAxisService } from '../../services/lotAxisService';
+import { CanvasLayerService } from '../../services/canvasLayerService';
+import { SpatialIndexService } from '../../services/spatialIndexService';
+import { SelectionService } from '../../services/selectionService';
+import { ArrangeService } from '../../services/arrangeService';
+import { SnapService, SnapGuide } from '../../services/snapService';
+import { TilePyramidService } from '../../services/tilePyramidService';
 import CalibrationDialog from '../calibration/CalibrationDialog';
 
+// Screen distance within which a dragged item snaps
+const SNAP_THRESHOLD_PX = 8;
+
 const MapCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -20,7 +37,9 @@ const MapCanvas: React.FC = () => {
     isPanningMode,
     isRulerMode,
     isPerimeterMode,
-    activeCalibrationLine,
+    isCorridorMode,
+    calibrationLines,
+    removeCalibrationLine,
     currentCalibrationLine,
     startCalibrationLine,
     completeCalibrationLine,
@@ -51,18 +70,41 @@ const MapCanvas: React.FC = () => {
     showPerimeter,
     perimeterColor,
     addPerimeterPoint,
-    closePerimeter
+    closePerimeter,
+    currentCorridor,
+    corridors,
+    corridorWidth,
+    showCorridors,
+    addCorridorPoint,
+    completeCorridor,
+    setCorridorWidth,
+    geoTransform,
+    underlays,
+    calibrationUnderlayId,
+    movingUnderlayId,
+    updateUnderlay,
+    lotAxis,
+    isLotAxisMode,
+    setLotAxis,
+    getMeasurementLinesInRect
   } = useMapStore();
+  const showCoordinates = useSettingsStore(state => state.showCoordinates);
+  const showFrameTimes = useSettingsStore(state => state.showFrameTimes);
+  const snapToGrid = useSettingsStore(state => state.snapToGrid);
+  const snapToItems = useSettingsStore(state => state.snapToItems);
   
   const { 
     addItemFromTemplate, 
     items: equipmentItems, 
+    selectedIds,
     selectItem, 
     selectMultiple,
+    selectItems,
     selectAll,
     deselectAll,
     moveItem,
     moveSelectedItems,
+    arrangeSelected,
     removeSelectedItems,
     updateItemDimensions,
     copySelectedItems,
@@ -70,6 +112,10 @@ const MapCanvas: React.FC = () => {
     isSelected,
     getSelectedItems,
     rotateItem,
+    getPlacementConflicts,
+    getItemsInRect,
+    getRuleViolations,
+    spacingRules,
     undoLastAction,
     redoLastAction
   } = useEquipmentStore();
@@ -88,6 +134,30 @@ const MapCanvas: React.FC = () => {
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [panStartPosition, setPanStartPosition] = useState({ x: 0, y: 0 });
   const [loadedImage, setLoadedImage] = useState<HTMLImageElement | null>(null);
+  const [loadedUnderlays, setLoadedUnderlays] = useState<Record<string, HTMLImageElement>>({});
+  const [underlayDrag, setUnderlayDrag] = useState<{ id: string; offsetX: number; offsetY: number } | null>(null);
+  const [cursorPoint, setCursorPoint] = useState<Point2D | null>(null);
+  const [lotAxisStart, setLotAxisStart] = useState<Point2D | null>(null);
+  const [marquee, setMarquee] = useState<{ start: Point2D; end: Point2D } | null>(null);
+  // Alignment guides for what the dragged selection snapped to
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
+  // Conflicts and spacing rule violations left by the last drop
+  const [dropWarning, setDropWarning] = useState<string | null>(null);
+  // The click that ends a marquee or item drag must not change what it picked
+  const suppressClickRef = useRef(false);
+  const equipmentDragMovedRef = useRef(false);
+  const canvasLayersRef = useRef({
+    background: CanvasLayerService.createLayer('background'),
+    layout: CanvasLayerService.createLayer('layout'),
+    grid: CanvasLayerService.createLayer('grid')
+  });
+  const frameStatsRef = useRef(CanvasLayerService.createFrameStats());
+  const frameTimesRef = useRef<HTMLDivElement>(null);
+
+  // A half-drawn lot axis is dropped when the tool is switched off
+  useEffect(() => {
+    if (!isLotAxisMode) setLotAxisStart(null);
+  }, [isLotAxisMode]);
 
   // Handle window resize
   useEffect(() => {
@@ -123,8 +193,41 @@ const MapCanvas: React.FC = () => {
     img.src = imageUrl;
   }, [imageUrl]);
 
+  // Large backgrounds are drawn from a tile pyramid, only where they are on screen
+  const backgroundPyramid = useMemo(() => {
+    if (!loadedImage || !TilePyramidService.needsTiling(loadedImage.naturalWidth, loadedImage.naturalHeight)) {
+      return null;
+    }
+    return TilePyramidService.create(loadedImage, loadedImage.naturalWidth, loadedImage.naturalHeight);
+  }, [loadedImage]);
+
+  useEffect(() => {
+    return () => {
+      if (backgroundPyramid) TilePyramidService.release(backgroundPyramid);
+    };
+  }, [backgroundPyramid]);
+
+  // Load underlay images as underlays are added; keep those already loaded
+  useEffect(() => {
+    underlays.forEach(underlay => {
+      if (loadedUnderlays[underlay.imageUrl]) return;
+
+      const img = new Image();
+      img.onload = () => {
+        setLoadedUnderlays(loaded => ({ ...loaded, [underlay.imageUrl]: img }));
+      };
+      img.onerror = () => {
+        console.error('Failed to load site plan layer:', underlay.name);
+      };
+      img.src = underlay.imageUrl;
+    });
+  }, [underlays, loadedUnderlays]);
+
+  // The underlay that calibration mode measures, when it isn't the background
+  const calibrationUnderlay = calibrationUnderlayId ? underlays.find(u => u.id === calibrationUnderlayId) || null : null;
+
   // Helper functions
-  const getCanvasCoordinates = (event: React.MouseEvent<HTMLCanvasElement>) => {
+  const getCanvasCoordinates = (event: { clientX: number; clientY: number }) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     
@@ -138,9 +241,27 @@ const MapCanvas: React.FC = () => {
     return { x: canvasX, y: canvasY };
   };
 
+  // Canvas coordinates of the nearest point on the visible canvas, for a pointer past its edge
+  const getClampedCanvasCoordinates = (event: { clientX: number; clientY: number }) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return { x: 0, y: 0 };
+
+    const rect = canvas.getBoundingClientRect();
+    return getCanvasCoordinates({
+      clientX: Math.min(Math.max(event.clientX, rect.left), rect.right),
+      clientY: Math.min(Math.max(event.clientY, rect.top), rect.bottom)
+    });
+  };
+
+  const updateMarquee = (event: { clientX: number; clientY: number }) => {
+    const end = getClampedCanvasCoordinates(event);
+    setMarquee(current => current && { start: current.start, end });
+  };
+
   const getEquipmentAtPoint = (x: number, y: number) => {
-    for (let i = equipmentItems.length - 1; i >= 0; i--) {
-      const item = equipmentItems[i];
+    const candidates = getItemsInRect({ minX: x, minY: y, maxX: x, maxY: y }, pixelsPerFoot);
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const item = candidates[i];
       
       // Transform coordinates to account for rotation
       const centerX = item.x + item.width / 2;
@@ -176,8 +297,11 @@ const MapCanvas: React.FC = () => {
   
   // Check if a point is on a rotation handle
   const getRotationHandleAtPoint = (x: number, y: number) => {
-    for (let i = equipmentItems.length - 1; i >= 0; i--) {
-      const item = equipmentItems[i];
+    // Handles sit 20px beyond the item's top edge with an 8px radius
+    const reach = 28;
+    const candidates = getItemsInRect({ minX: x - reach, minY: y - reach, maxX: x + reach, maxY: y + reach }, pixelsPerFoot);
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const item = candidates[i];
       
       // Only selected items have rotation handles
       if (!isSelected(item.id)) continue;
@@ -219,8 +343,9 @@ const MapCanvas: React.FC = () => {
   // Helper function to detect measurement line clicks
   const getMeasurementLineAtPoint = (x: number, y: number): MeasurementLine | null => {
     const tolerance = 10; // Click tolerance in pixels
+    const reach = tolerance / scale;
 
-    for (const line of measurementLines) {
+    for (const line of getMeasurementLinesInRect({ minX: x - reach, minY: y - reach, maxX: x + reach, maxY: y + reach })) {
       // Check if click is near the line
       const lineLength = Math.sqrt(
         Math.pow(line.endPoint.x - line.startPoint.x, 2) +
@@ -297,6 +422,11 @@ const MapCanvas: React.FC = () => {
 
   // Event handlers
   const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+
     const { x, y } = getCanvasCoordinates(event);
     
     if (isCalibrationMode) {
@@ -305,10 +435,24 @@ const MapCanvas: React.FC = () => {
       if (!currentCalibrationLine?.startPoint) {
         startCalibrationLine(point);
       } else {
-        const pixelDistance = CalibrationService.calculatePixelDistance(currentCalibrationLine.startPoint, point);
+        // Reference lines on an underlay are measured in drawing pixels
+        const pixelDistance = calibrationUnderlay
+          ? CalibrationService.calculatePixelDistance(
+              { ...UnderlayService.canvasToDrawing(calibrationUnderlay, pixelsPerFoot, currentCalibrationLine.startPoint), id: currentCalibrationLine.startPoint.id },
+              { ...UnderlayService.canvasToDrawing(calibrationUnderlay, pixelsPerFoot, point), id: point.id }
+            )
+          : CalibrationService.calculatePixelDistance(currentCalibrationLine.startPoint, point);
         setPendingCalibrationData({ endPoint: point, pixelDistance });
         setCalibrationDialogOpen(true);
       }
+    } else if (isLotAxisMode) {
+      if (!lotAxisStart) {
+        setLotAxisStart({ x, y });
+      } else if (Math.hypot(x - lotAxisStart.x, y - lotAxisStart.y) * scale >= 10) {
+        // Ignore a second click on the first point, which has no direction
+        setLotAxis(LotAxisService.fromPoints(lotAxisStart, { x, y }));
+        setLotAxisStart(null);
+      }
     } else if (isRulerMode) {
       const point = { id: `point-${Date.now()}`, x, y };
 
@@ -337,112 +481,21 @@ const MapCanvas: React.FC = () => {
         // If Ctrl key is pressed, add/remove from selection
         if (event.ctrlKey) {
           selectMultiple(clickedEquipment.id, true);
-          
-          // Force canvas redraw after selection change
-          const canvas = canvasRef.current;
-          if (canvas) {
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-              // Trigger a re-render by clearing and redrawing
-              setTimeout(() => {
-                if (canvas && ctx) {
-                  ctx.clearRect(0, 0, canvas.width, canvas.height);
-                  ctx.save();
-                  ctx.translate(position.x, position.y);
-                  ctx.scale(scale, scale);
-                  
-                  if (loadedImage) {
-                    ctx.drawImage(loadedImage, 0, 0);
-                  }
-                  
-                  drawActiveCalibrationLine(ctx);
-                  drawCurrentCalibrationLine(ctx);
-                  drawMeasurementLines(ctx);
-                  drawCurrentMeasurementLine(ctx);
-                  drawPerimeter(ctx);
-                  drawCurrentPerimeter(ctx);
-                  drawEquipmentItems(ctx);
-                  
-                  ctx.restore();
-                  drawGrid(ctx);
-                }
-              }, 0);
-            }
-          }
         } else {
           // Otherwise replace selection
           selectItem(clickedEquipment.id);
-          
-          // Force canvas redraw after selection
-          const canvas = canvasRef.current;
-          if (canvas) {
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-              // Trigger a re-render by clearing and redrawing
-              setTimeout(() => {
-                if (canvas && ctx) {
-                  ctx.clearRect(0, 0, canvas.width, canvas.height);
-                  ctx.save();
-                  ctx.translate(position.x, position.y);
-                  ctx.scale(scale, scale);
-                  
-                  if (loadedImage) {
-                    ctx.drawImage(loadedImage, 0, 0);
-                  }
-                  
-                  drawActiveCalibrationLine(ctx);
-                  drawCurrentCalibrationLine(ctx);
-                  drawMeasurementLines(ctx);
-                  drawCurrentMeasurementLine(ctx);
-                  drawPerimeter(ctx);
-                  drawCurrentPerimeter(ctx);
-                  drawEquipmentItems(ctx);
-                  
-                  ctx.restore();
-                  drawGrid(ctx);
-                }
-              }, 0);
-            }
-          }
         }
       } else {
         // Always deselect when clicking on empty canvas area
         // This is important for UX, especially after using Ctrl+A
         deselectAll();
-        
-        // Force canvas redraw after deselection
-        const canvas = canvasRef.current;
-        if (canvas) {
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            // Trigger a re-render by clearing and redrawing
-            setTimeout(() => {
-              if (canvas && ctx) {
-                ctx.clearRect(0, 0, canvas.width, canvas.height);
-                ctx.save();
-                ctx.translate(position.x, position.y);
-                ctx.scale(scale, scale);
-                
-                if (loadedImage) {
-                  ctx.drawImage(loadedImage, 0, 0);
-                }
-                
-                drawActiveCalibrationLine(ctx);
-                drawCurrentCalibrationLine(ctx);
-                drawEquipmentItems(ctx);
-                
-                ctx.restore();
-                drawGrid(ctx);
-              }
-            }, 0);
-          }
-        }
       }
     }
   };
 
   const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (isCalibrationMode) return;
+    suppressClickRef.current = false;
+    if (isCalibrationMode || isLotAxisMode) return;
     
     const { x, y } = getCanvasCoordinates(event);
     
@@ -462,10 +515,21 @@ const MapCanvas: React.FC = () => {
       setPanStartPosition({ x: position.x, y: position.y });
       return;
     }
+
+    // While an underlay is being positioned, dragging anywhere moves it as one undo step
+    const movingUnderlay = movingUnderlayId ? underlays.find(u => u.id === movingUnderlayId) : undefined;
+    if (movingUnderlay && event.button === 0) {
+      if (!useUndoRedoStore.getState().beginBatch(`Move ${movingUnderlay.name}`, true)) return;
+      setUnderlayDrag({ id: movingUnderlay.id, offsetX: x - movingUnderlay.x, offsetY: y - movingUnderlay.y });
+      return;
+    }
     
     // Check if clicked on a rotation handle first
     const rotationHandleId = getRotationHandleAtPoint(x, y);
     if (rotationHandleId) {
+      // The whole rotation drag is one undo step
+      const rotatedItem = equipmentItems.find(item => item.id === rotationHandleId);
+      if (!useUndoRedoStore.getState().beginBatch(`Rotate ${rotatedItem?.name || 'item'}`, true)) return;
       setIsRotatingEquipment(true);
       setRotationItem(rotationHandleId);
       return;
@@ -486,6 +550,10 @@ const MapCanvas: React.FC = () => {
         }
       }
       
+      // The whole drag is one undo step
+      const selectedCount = useEquipmentStore.getState().selectedIds.length;
+      if (!useUndoRedoStore.getState().beginBatch(selectedCount > 1 ? `Move ${selectedCount} items` : `Move ${clickedItem.name}`, true)) return;
+      equipmentDragMovedRef.current = false;
       setIsDraggingEquipment(true);
       setDragOffset({
         x: x - clickedItem.x,
@@ -519,6 +587,17 @@ const MapCanvas: React.FC = () => {
         return;
       }
 
+      // Handle corridor mode - add points to the corridor centerline
+      if (isCorridorMode) {
+        const corridorPoint: MeasurementPoint = {
+          id: `corridor-point-${Date.now()}`,
+          x,
+          y
+        };
+        addCorridorPoint(corridorPoint);
+        return;
+      }
+
       // Check if clicked on measurement line for selection (but not in ruler mode)
       if (!isRulerMode) {
         const measurementLine = getMeasurementLineAtPoint(x, y);
@@ -528,40 +607,18 @@ const MapCanvas: React.FC = () => {
         }
       }
 
+      // Dragging from empty space in Select mode draws a selection marquee
+      if (!isRulerMode && event.button === 0) {
+        setMarquee({ start: { x, y }, end: { x, y } });
+        return;
+      }
+
       // If clicked empty space, deselect all
       deselectAll();
-      
-      // Force canvas redraw after deselection
-      const canvas = canvasRef.current;
-      if (canvas) {
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          // Trigger a re-render by clearing and redrawing
-          setTimeout(() => {
-            if (canvas && ctx) {
-              ctx.clearRect(0, 0, canvas.width, canvas.height);
-              ctx.save();
-              ctx.translate(position.x, position.y);
-              ctx.scale(scale, scale);
-              
-              if (loadedImage) {
-                ctx.drawImage(loadedImage, 0, 0);
-              }
-              
-              drawActiveCalibrationLine(ctx);
-              drawCurrentCalibrationLine(ctx);
-              drawEquipmentItems(ctx);
-              
-              ctx.restore();
-              drawGrid(ctx);
-            }
-          }, 0);
-        }
-      }
     }
   };
 
-  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement> | MouseEvent) => {
     if (isCalibrationMode) {
       // Handle calibration point creation here...
       // We're already handling this with click events, so we can leave this empty
@@ -573,8 +630,8 @@ const MapCanvas: React.FC = () => {
         if (canvas) {
           if (isPanningMode) {
             canvas.style.cursor = 'grab'; // Show grab cursor when in pan mode
-          } else if (isCalibrationMode || isRulerMode) {
-            canvas.style.cursor = 'crosshair'; // Show crosshair for calibration/ruler mode
+          } else if (isCalibrationMode || isRulerMode || isLotAxisMode) {
+            canvas.style.cursor = 'crosshair'; // Show crosshair for calibration/ruler/lot axis mode
           } else {
             canvas.style.cursor = 'default'; // Reset to default when not in any special mode
           }
@@ -582,18 +639,57 @@ const MapCanvas: React.FC = () => {
       }
       if (isDraggingEquipment) {
         setIsDraggingEquipment(false);
+        setSnapGuides([]);
+        useUndoRedoStore.getState().endBatch();
+        // A Ctrl/⌘ drag would otherwise end in a Ctrl+click that deselects the item
+        suppressClickRef.current = equipmentDragMovedRef.current;
+
+        // Report any collisions, clearance intrusions or spacing rule violations caused by the move
+        if (equipmentDragMovedRef.current) {
+          const problems = getSelectedItems().flatMap(item => [
+            ...getPlacementConflicts(item.id, pixelsPerFoot).map(conflict => `${item.name}: ${CollisionService.describeConflict(conflict)}`),
+            ...getRuleViolations(item.id, pixelsPerFoot).map(violation => `${item.name}: ${SpacingRuleService.describeViolation(violation)}`)
+          ]);
+          setDropWarning(problems.length > 0 ? problems.join('; ') : null);
+        }
       }
       if (isRotatingEquipment) {
         setIsRotatingEquipment(false);
         setRotationItem(null);
+        useUndoRedoStore.getState().endBatch();
       }
       if (isDragging) {
         stopDragging();
       }
+      if (underlayDrag) {
+        setUnderlayDrag(null);
+        useUndoRedoStore.getState().endBatch();
+      }
+      if (marquee) {
+        setMarquee(null);
+
+        // Shorter drags are clicks, which deselect as before
+        const end = getClampedCanvasCoordinates(event);
+        if (Math.hypot(end.x - marquee.start.x, end.y - marquee.start.y) * scale >= 4) {
+          const bounds = SpatialIndexService.fromCorners(marquee.start, end);
+          const picked = SelectionService.getItemsInMarquee(
+            getItemsInRect(bounds, pixelsPerFoot),
+            bounds,
+            SelectionService.getMarqueeMode(marquee.start, end),
+            pixelsPerFoot
+          );
+          selectItems(picked.map(item => item.id), SelectionService.getCombine(event));
+          suppressClickRef.current = true;
+        }
+      }
     }
   };
 
   const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (showCoordinates) {
+      setCursorPoint(getCanvasCoordinates(event));
+    }
+
     if (isCalibrationMode) return;
 
     const { x, y } = getCanvasCoordinates(event);
@@ -604,6 +700,16 @@ const MapCanvas: React.FC = () => {
       return; // Don't process other mouse move events while dragging
     }
 
+    if (underlayDrag) {
+      updateUnderlay(underlayDrag.id, { x: x - underlayDrag.offsetX, y: y - underlayDrag.offsetY });
+      return;
+    }
+
+    if (marquee) {
+      updateMarquee(event);
+      return;
+    }
+
     // Update cursor for pan mode when not actively panning
     if (isPanningMode && !isPanning) {
       const canvas = canvasRef.current;
@@ -661,8 +767,10 @@ const MapCanvas: React.FC = () => {
       if (canvas) {
         if (isPanningMode) {
           canvas.style.cursor = 'grab';
-        } else if (isCalibrationMode || isRulerMode) {
+        } else if (isCalibrationMode || isRulerMode || isLotAxisMode) {
           canvas.style.cursor = 'crosshair';
+        } else if (movingUnderlayId) {
+          canvas.style.cursor = 'move';
         } else {
           canvas.style.cursor = 'default';
         }
@@ -708,16 +816,8 @@ const MapCanvas: React.FC = () => {
           angleDegrees
         });
         
-        // Apply snapping to common angles (0°, 45°, 90°, etc.)
-        const snapAngles = [0, 45, 90, 135, 180, 225, 270, 315, 360];
-        const snapThreshold = 10; // Degrees
-        
-        for (const snapAngle of snapAngles) {
-          if (Math.abs(angleDegrees - snapAngle) < snapThreshold) {
-            angleDegrees = snapAngle;
-            break;
-          }
-        }
+        // Apply snapping to common angles (0°, 45°, 90°, etc.) from the lot axis
+        angleDegrees = LotAxisService.snapRotation(angleDegrees, lotAxis, 10);
         
         // Update rotation in the store
         rotateItem(item.id, angleDegrees);
@@ -733,19 +833,83 @@ const MapCanvas: React.FC = () => {
     
     if (isDraggingEquipment) {
       const selectedItems = getSelectedItems();
+      if (selectedItems.length === 0) return;
+      equipmentDragMovedRef.current = true;
+
+      // Calculate movement delta based on first selected item
+      const firstItem = selectedItems[0];
+      let deltaX = x - dragOffset.x - firstItem.x;
+      let deltaY = y - dragOffset.y - firstItem.y;
+
+      // Snap to the grid and nearby items unless Ctrl (⌘ on a Mac) is held.
+      // Alt is taken by panning and the arrange shortcuts.
+      if (!event.ctrlKey && !event.metaKey && (snapToGrid || snapToItems)) {
+        const moved = selectedItems.map(item => ({ ...item, x: item.x + deltaX, y: item.y + deltaY }));
+        const neighbours = snapToItems
+          ? getItemsInRect(SnapService.getSearchBounds(moved, pixelsPerFoot), pixelsPerFoot)
+            .filter(item => !isSelected(item.id) && item.visible !== false)
+          : [];
+        const snap = SnapService.snapMove(moved, neighbours, {
+          pixelsPerFoot,
+          axis: lotAxis,
+          gridSpacing: snapToGrid ? gridSpacing : null,
+          snapToItems,
+          threshold: SNAP_THRESHOLD_PX / scale
+        });
+        deltaX += snap.x;
+        deltaY += snap.y;
+        setSnapGuides(snap.guides);
+      } else {
+        setSnapGuides(guides => guides.length === 0 ? guides : []);
+      }
+
       if (selectedItems.length === 1) {
         // Single item movement
-        moveItem(selectedItems[0].id, x - dragOffset.x, y - dragOffset.y);
-      } else if (selectedItems.length > 1) {
-        // Calculate movement delta based on first selected item
-        const firstItem = selectedItems[0];
-        const deltaX = x - dragOffset.x - firstItem.x;
-        const deltaY = y - dragOffset.y - firstItem.y;
+        moveItem(firstItem.id, firstItem.x + deltaX, firstItem.y + deltaY);
+      } else {
         moveSelectedItems(deltaX, deltaY);
       }
     }
   };
 
+  // A drag released outside the canvas must still end, or its undo batch stays open
+  const handleMouseUpRef = useRef(handleMouseUp);
+  handleMouseUpRef.current = handleMouseUp;
+  const updateMarqueeRef = useRef(updateMarquee);
+  updateMarqueeRef.current = updateMarquee;
+  const isMarqueeActive = marquee !== null;
+  const isGestureActive = isPanning || isDraggingEquipment || isRotatingEquipment || isDragging || underlayDrag !== null || isMarqueeActive;
+
+  useEffect(() => {
+    if (!isGestureActive) return;
+
+    const handleWindowMouseUp = (event: MouseEvent) => {
+      // Releases over the canvas are handled by its own mouseup
+      if (event.target === canvasRef.current) return;
+      handleMouseUpRef.current(event);
+    };
+
+    window.addEventListener('mouseup', handleWindowMouseUp);
+    return () => {
+      window.removeEventListener('mouseup', handleWindowMouseUp);
+    };
+  }, [isGestureActive]);
+
+  // A selection box dragged past the canvas edge stops at the edge and is kept until the release
+  useEffect(() => {
+    if (!isMarqueeActive) return;
+
+    const handleWindowMouseMove = (event: MouseEvent) => {
+      if (event.target === canvasRef.current) return;
+      updateMarqueeRef.current(event);
+    };
+
+    window.addEventListener('mousemove', handleWindowMouseMove);
+    return () => {
+      window.removeEventListener('mousemove', handleWindowMouseMove);
+    };
+  }, [isMarqueeActive]);
+
   const handleDragOver = (event: React.DragEvent<HTMLCanvasElement>) => {
     event.preventDefault();
     event.dataTransfer.dropEffect = 'copy';
@@ -778,73 +942,184 @@ const MapCanvas: React.FC = () => {
     }
   };
 
-  const handleCalibrationConfirm = (distance: number) => {
+  const handleCalibrationConfirm = (distance: number, replaceExisting: boolean) => {
     if (!pendingCalibrationData || !currentCalibrationLine?.startPoint) return;
     
     const endPointWithId = {
       ...pendingCalibrationData.endPoint,
       id: `point-${Date.now()}`
     };
+
+    // A reference line on an underlay calibrates that drawing, in its own pixels
+    if (calibrationUnderlay) {
+      const startPoint = currentCalibrationLine.startPoint;
+      const calibrationLine = CalibrationService.createCalibrationLine(
+        { ...UnderlayService.canvasToDrawing(calibrationUnderlay, pixelsPerFoot, startPoint), id: startPoint.id },
+        { ...UnderlayService.canvasToDrawing(calibrationUnderlay, pixelsPerFoot, endPointWithId), id: endPointWithId.id },
+        distance
+      );
+      const lines = replaceExisting ? [calibrationLine] : [...calibrationUnderlay.calibrationLines, calibrationLine];
+      UnderlayService.applyCalibration(
+        calibrationUnderlay.id,
+        { pixelsPerFoot: CalibrationService.calculateImageScale(lines), calibrationLines: lines },
+        `Calibrate ${calibrationUnderlay.name}`
+      );
+
+      useMapStore.setState({ currentCalibrationLine: null });
+      setPendingCalibrationData(null);
+      setCalibrationDialogOpen(false);
+      return;
+    }
     
-    // Calculate the new pixelsPerFoot BEFORE updating equipment
-    const pixelDistance = CalibrationService.calculatePixelDistance(
-      currentCalibrationLine.startPoint,
-      endPointWithId
-    );
-    const newPixelsPerFoot = pixelDistance / distance;
+    // Calibrating and rescaling the equipment it affects undo together
+    const { beginBatch, endBatch } = useUndoRedoStore.getState();
+    beginBatch('Calibrate scale');
 
-    // Complete the calibration line
-    completeCalibrationLine(endPointWithId, distance);
+    // Complete the calibration line; the store averages it with the other reference lines
+    completeCalibrationLine(endPointWithId, distance, replaceExisting);
 
-    // Update equipment dimensions with the NEW pixelsPerFoot value
-    updateItemDimensions(newPixelsPerFoot);
+    // Update equipment dimensions with the NEW averaged pixelsPerFoot value
+    updateItemDimensions(useMapStore.getState().pixelsPerFoot);
+
+    endBatch();
     
     setPendingCalibrationData(null);
     setCalibrationDialogOpen(false);
   };
 
+  const handleRemoveCalibrationLine = (id: string) => {
+    if (calibrationUnderlay) {
+      // Without reference lines, the drawing keeps its current scale
+      const lines = calibrationUnderlay.calibrationLines.filter(line => line.id !== id);
+      UnderlayService.applyCalibration(
+        calibrationUnderlay.id,
+        {
+          pixelsPerFoot: lines.length > 0 ? CalibrationService.calculateImageScale(lines) : calibrationUnderlay.pixelsPerFoot,
+          calibrationLines: lines
+        },
+        `Remove ${calibrationUnderlay.name} calibration line`
+      );
+      return;
+    }
+
+    // Removing a reference line changes the averaged scale, so equipment is rescaled with it
+    const { beginBatch, endBatch } = useUndoRedoStore.getState();
+    beginBatch('Remove calibration line');
+    removeCalibrationLine(id);
+    updateItemDimensions(useMapStore.getState().pixelsPerFoot);
+    endBatch();
+  };
+
   const handleCalibrationDialogClose = () => {
     setPendingCalibrationData(null);
     setCalibrationDialogOpen(false);
   };
 
   // Drawing functions
-  const drawActiveCalibrationLine = React.useCallback((ctx: CanvasRenderingContext2D) => {
-    if (!activeCalibrationLine || !showCalibrationLine) return;
-    
-    ctx.strokeStyle = '#00ff00';
-    ctx.lineWidth = 0.75;
-    ctx.setLineDash([10, 5]);
-    ctx.beginPath();
-    ctx.moveTo(activeCalibrationLine.startPoint.x, activeCalibrationLine.startPoint.y);
-    ctx.lineTo(activeCalibrationLine.endPoint.x, activeCalibrationLine.endPoint.y);
-    ctx.stroke();
-    
-    ctx.fillStyle = '#00ff00';
-    ctx.beginPath();
-    ctx.arc(activeCalibrationLine.startPoint.x, activeCalibrationLine.startPoint.y, 2, 0, 2 * Math.PI);
-    ctx.fill();
+  const drawBackground = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (backgroundPyramid) {
+      const viewport = {
+        x: -position.x / scale,
+        y: -position.y / scale,
+        width: canvasSize.width / scale,
+        height: canvasSize.height / scale
+      };
+      TilePyramidService.draw(ctx, backgroundPyramid, viewport, scale);
+    } else if (loadedImage) {
+      ctx.drawImage(loadedImage, 0, 0);
+    }
 
-    ctx.beginPath();
-    ctx.arc(activeCalibrationLine.endPoint.x, activeCalibrationLine.endPoint.y, 2, 0, 2 * Math.PI);
-    ctx.fill();
-    
-    const midX = (activeCalibrationLine.startPoint.x + activeCalibrationLine.endPoint.x) / 2;
-    const midY = (activeCalibrationLine.startPoint.y + activeCalibrationLine.endPoint.y) / 2;
+    // Site plan underlays, turned and scaled about their centers
+    underlays.forEach(underlay => {
+      const image = loadedUnderlays[underlay.imageUrl];
+      if (!underlay.visible || !image) return;
 
-    // Background for text
-    ctx.fillStyle = 'rgba(0, 255, 0, 0.8)'; // Green background to match calibration color
-    ctx.fillRect(midX - 12, midY - 14, 24, 8);
+      const displayScale = UnderlayService.getDisplayScale(underlay, pixelsPerFoot);
+      ctx.save();
+      ctx.globalAlpha = underlay.opacity;
+      ctx.translate(underlay.x, underlay.y);
+      ctx.rotate((underlay.rotation * Math.PI) / 180);
+      ctx.scale(displayScale, displayScale);
+      ctx.drawImage(image, -underlay.imageWidth / 2, -underlay.imageHeight / 2, underlay.imageWidth, underlay.imageHeight);
+      ctx.restore();
 
-    ctx.fillStyle = '#ffffff';
-    ctx.font = '6px Arial';
-    ctx.textAlign = 'center';
-    ctx.fillText(
-      CalibrationService.formatDistance(activeCalibrationLine.realWorldDistance),
-      midX,
-      midY - 10
-    );
-  }, [activeCalibrationLine, showCalibrationLine]);
+      if (underlay.id === movingUnderlayId) {
+        const bounds = [
+          { x: 0, y: 0 },
+          { x: underlay.imageWidth, y: 0 },
+          { x: underlay.imageWidth, y: underlay.imageHeight },
+          { x: 0, y: underlay.imageHeight }
+        ].map(corner => UnderlayService.drawingToCanvas(underlay, pixelsPerFoot, corner));
+        ctx.save();
+        ctx.strokeStyle = '#ff9800';
+        ctx.lineWidth = 2 / scale;
+        ctx.setLineDash([8 / scale, 4 / scale]);
+        ctx.beginPath();
+        bounds.forEach((corner, index) => index === 0 ? ctx.moveTo(corner.x, corner.y) : ctx.lineTo(corner.x, corner.y));
+        ctx.closePath();
+        ctx.stroke();
+        ctx.restore();
+      }
+    });
+  }, [loadedImage, backgroundPyramid, loadedUnderlays, underlays, pixelsPerFoot, movingUnderlayId, scale, position, canvasSize]);
+
+  // Reference lines of the underlay being calibrated, placed on the canvas
+  const drawUnderlayCalibrationLines = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (!calibrationUnderlay || !isCalibrationMode) return;
+
+    ctx.save();
+    ctx.strokeStyle = '#ff9800';
+    ctx.lineWidth = 2 / scale;
+    calibrationUnderlay.calibrationLines.forEach(line => {
+      const start = UnderlayService.drawingToCanvas(calibrationUnderlay, pixelsPerFoot, line.startPoint);
+      const end = UnderlayService.drawingToCanvas(calibrationUnderlay, pixelsPerFoot, line.endPoint);
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+    });
+    ctx.restore();
+  }, [calibrationUnderlay, isCalibrationMode, pixelsPerFoot, scale]);
+
+  const drawCalibrationLines = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (calibrationLines.length === 0 || !showCalibrationLine) return;
+
+    calibrationLines.forEach(line => {
+      ctx.strokeStyle = '#00ff00';
+      ctx.lineWidth = 0.75;
+      ctx.setLineDash([10, 5]);
+      ctx.beginPath();
+      ctx.moveTo(line.startPoint.x, line.startPoint.y);
+      ctx.lineTo(line.endPoint.x, line.endPoint.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.fillStyle = '#00ff00';
+      ctx.beginPath();
+      ctx.arc(line.startPoint.x, line.startPoint.y, 2, 0, 2 * Math.PI);
+      ctx.fill();
+
+      ctx.beginPath();
+      ctx.arc(line.endPoint.x, line.endPoint.y, 2, 0, 2 * Math.PI);
+      ctx.fill();
+
+      const midX = (line.startPoint.x + line.endPoint.x) / 2;
+      const midY = (line.startPoint.y + line.endPoint.y) / 2;
+
+      // Background for text
+      ctx.fillStyle = 'rgba(0, 255, 0, 0.8)'; // Green background to match calibration color
+      ctx.fillRect(midX - 12, midY - 14, 24, 8);
+
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '6px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(
+        CalibrationService.formatDistance(line.realWorldDistance),
+        midX,
+        midY - 10
+      );
+    });
+  }, [calibrationLines, showCalibrationLine]);
 
   const drawCurrentCalibrationLine = React.useCallback((ctx: CanvasRenderingContext2D) => {
     if (!currentCalibrationLine?.startPoint) return;
@@ -1039,14 +1314,98 @@ const MapCanvas: React.FC = () => {
     }
   }, [isPerimeterMode, currentPerimeter, perimeterColor]);
 
+  // Fire lane corridor drawing functions
+  const traceCorridor = (ctx: CanvasRenderingContext2D, points: Point2D[]) => {
+    ctx.beginPath();
+    points.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+  };
+
+  const drawCorridors = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (!showCorridors || pixelsPerFoot <= 0) return;
+
+    corridors.forEach(corridor => {
+      if (corridor.points.length < 2) return;
+
+      // Draw the required clear width as a translucent band
+      ctx.save();
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = 'rgba(244, 67, 54, 0.2)';
+      ctx.lineWidth = corridor.width * pixelsPerFoot;
+      traceCorridor(ctx, corridor.points);
+      ctx.stroke();
+
+      // Draw the centerline
+      ctx.strokeStyle = '#f44336';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([10, 6]);
+      traceCorridor(ctx, corridor.points);
+      ctx.stroke();
+
+      // Label at the start of the corridor
+      const start = corridor.points[0];
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#f44336';
+      ctx.font = 'bold 12px Arial';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(`${corridor.name} (${corridor.width} ft)`, start.x, start.y - 6);
+      ctx.restore();
+    });
+  }, [corridors, showCorridors, pixelsPerFoot]);
+
+  const drawCurrentCorridor = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (!isCorridorMode || currentCorridor.length === 0) return;
+
+    ctx.save();
+    if (currentCorridor.length > 1 && pixelsPerFoot > 0) {
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = 'rgba(244, 67, 54, 0.15)';
+      ctx.lineWidth = corridorWidth * pixelsPerFoot;
+      traceCorridor(ctx, currentCorridor);
+      ctx.stroke();
+
+      ctx.strokeStyle = '#f44336';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([5, 5]);
+      traceCorridor(ctx, currentCorridor);
+      ctx.stroke();
+    }
+
+    currentCorridor.forEach(point => {
+      ctx.fillStyle = '#f44336';
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+    ctx.restore();
+  }, [isCorridorMode, currentCorridor, corridorWidth, pixelsPerFoot]);
+
   // For hover popup functionality
   const [hoverItem, setHoverItem] = useState<string | null>(null);
   const [hoverTimeout, setHoverTimeout] = useState<NodeJS.Timeout | null>(null);
   const [hoverPosition, setHoverPosition] = useState<{x: number, y: number} | null>(null);
   
-  const drawEquipmentItems = React.useCallback((ctx: CanvasRenderingContext2D) => {
-    // Only draw visible items (visible is true by default if not set)
-    equipmentItems.filter(item => item.visible !== false).forEach(item => {
+  // Unselected items change rarely and are cached in their own layer; selected
+  // items, which are the ones dragged and rotated, are drawn over them every frame
+  const staticItems = useMemo(
+    () => equipmentItems.filter(item => item.visible !== false && !selectedIds.includes(item.id)),
+    [equipmentItems, selectedIds]
+  );
+  const selectedItems = useMemo(
+    () => equipmentItems.filter(item => item.visible !== false && selectedIds.includes(item.id)),
+    [equipmentItems, selectedIds]
+  );
+
+  const drawEquipmentItems = React.useCallback((ctx: CanvasRenderingContext2D, items: EquipmentItem[]) => {
+    items.forEach(item => {
       const selected = isSelected(item.id);
       ctx.fillStyle = selected ? '#ffff00' : item.color;
       ctx.strokeStyle = selected ? '#ff0000' : '#000000';
@@ -1170,7 +1529,220 @@ const MapCanvas: React.FC = () => {
       // Restore the canvas state
       ctx.restore();
     });
-  }, [equipmentItems, isSelected, showEquipmentLabels, showClearanceZones]);
+  }, [isSelected, showEquipmentLabels, showClearanceZones]);
+
+  // Conflicts between placed items, recomputed live as items are dragged
+  const conflicts = useMemo(
+    () => CollisionService.findAllConflicts(equipmentItems, pixelsPerFoot),
+    [equipmentItems, pixelsPerFoot]
+  );
+
+  const drawConflicts = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (conflicts.length === 0) return;
+
+    const traceShape = (shape: Shape2D) => {
+      ctx.beginPath();
+      if (shape.kind === 'circle') {
+        ctx.arc(shape.center.x, shape.center.y, shape.radius, 0, Math.PI * 2);
+      } else {
+        traceRegion(shape.points);
+      }
+    };
+
+    const traceRegion = (points: Point2D[]) => {
+      points.forEach((point, index) => {
+        if (index === 0) {
+          ctx.moveTo(point.x, point.y);
+        } else {
+          ctx.lineTo(point.x, point.y);
+        }
+      });
+      ctx.closePath();
+    };
+
+    ctx.save();
+
+    // Fill the region where each pair intrudes on each other
+    conflicts.forEach(conflict => {
+      const item = equipmentItems.find(i => i.id === conflict.itemId);
+      const other = equipmentItems.find(i => i.id === conflict.otherItemId);
+      if (!item || !other) return;
+
+      const region = CollisionService.getConflictRegion(item, other, conflict.type, pixelsPerFoot);
+      if (region.length < 3) return;
+
+      ctx.fillStyle = conflict.type === 'overlap' ? 'rgba(255, 23, 68, 0.6)' : 'rgba(255, 145, 0, 0.5)';
+      ctx.beginPath();
+      traceRegion(region);
+      ctx.fill();
+    });
+
+    // Outline every offending item in a warning style
+    const conflictedIds = new Set<string>();
+    conflicts.forEach(conflict => {
+      conflictedIds.add(conflict.itemId);
+      conflictedIds.add(conflict.otherItemId);
+    });
+
+    ctx.strokeStyle = '#ff1744';
+    ctx.lineWidth = 3;
+    ctx.setLineDash([6, 4]);
+    equipmentItems
+      .filter(item => conflictedIds.has(item.id) && item.visible !== false)
+      .forEach(item => {
+        traceShape(CollisionService.getShape(item, pixelsPerFoot));
+        ctx.stroke();
+      });
+
+    ctx.restore();
+  }, [conflicts, equipmentItems, pixelsPerFoot]);
+
+  // Pairs of items closer together than a project spacing rule allows
+  const ruleViolations = useMemo(
+    () => SpacingRuleService.findAllViolations(equipmentItems, spacingRules, pixelsPerFoot),
+    [equipmentItems, spacingRules, pixelsPerFoot]
+  );
+
+  const drawRuleViolations = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (ruleViolations.length === 0) return;
+
+    ctx.save();
+    ctx.strokeStyle = '#d500f9';
+    ctx.fillStyle = '#d500f9';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 4]);
+    ctx.font = 'bold 10px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+
+    // Connect each offending pair and name the rule they break
+    ruleViolations.forEach(violation => {
+      const item = equipmentItems.find(i => i.id === violation.itemId);
+      const other = equipmentItems.find(i => i.id === violation.otherItemId);
+      if (!item || !other || item.visible === false || other.visible === false) return;
+
+      const start = CollisionService.getCenter(item);
+      const end = CollisionService.getCenter(other);
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+
+      ctx.fillText(
+        `${violation.ruleName} (${violation.requiredFeet} ft)`,
+        (start.x + end.x) / 2,
+        (start.y + end.y) / 2 - 4
+      );
+    });
+
+    ctx.restore();
+  }, [ruleViolations, equipmentItems]);
+
+  // Equipment reaching into fire lanes, with the narrowest clear width of each lane
+  const corridorChecks = useMemo(
+    () => CorridorService.checkAll(corridors, equipmentItems, pixelsPerFoot),
+    [corridors, equipmentItems, pixelsPerFoot]
+  );
+  const corridorIntrusionCount = corridorChecks.reduce((count, check) => count + check.intrusions.length, 0);
+
+  const drawCorridorIntrusions = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (!showCorridors || corridorIntrusionCount === 0) return;
+
+    ctx.save();
+    corridorChecks.forEach(check => {
+      // Outline each item blocking the corridor
+      ctx.strokeStyle = '#f44336';
+      ctx.lineWidth = 3;
+      ctx.setLineDash([4, 4]);
+      check.intrusions.forEach(intrusion => {
+        const item = equipmentItems.find(i => i.id === intrusion.itemId);
+        if (!item || item.visible === false) return;
+
+        const outline = CollisionService.toPolygon(
+          CollisionService.getShape(item, pixelsPerFoot, intrusion.type === 'clearance')
+        );
+        traceCorridor(ctx, outline);
+        ctx.closePath();
+        ctx.stroke();
+      });
+
+      // Mark the pinch point with the clear width left across the corridor
+      if (check.pinchSpan) {
+        const [left, right] = check.pinchSpan;
+        ctx.setLineDash([]);
+        ctx.strokeStyle = '#ffeb3b';
+        ctx.lineWidth = 3;
+        traceCorridor(ctx, [left, right]);
+        ctx.stroke();
+
+        [left, right].forEach(point => {
+          ctx.fillStyle = '#ffeb3b';
+          ctx.beginPath();
+          ctx.arc(point.x, point.y, 4, 0, 2 * Math.PI);
+          ctx.fill();
+        });
+
+        ctx.fillStyle = '#ffeb3b';
+        ctx.font = 'bold 12px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        ctx.fillText(
+          `Pinch: ${check.clearWidthFeet.toFixed(1)} ft clear`,
+          (left.x + right.x) / 2,
+          Math.max(left.y, right.y) + 8
+        );
+      }
+    });
+    ctx.restore();
+  }, [corridorChecks, corridorIntrusionCount, showCorridors, equipmentItems, pixelsPerFoot]);
+
+  // Items that fall outside or across the closed lot perimeter
+  const perimeterViolations = useMemo(
+    () => activePerimeter?.closed
+      ? CollisionService.findPerimeterViolations(equipmentItems, activePerimeter.points, pixelsPerFoot)
+      : [],
+    [activePerimeter, equipmentItems, pixelsPerFoot]
+  );
+
+  const drawPerimeterViolations = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (perimeterViolations.length === 0) return;
+
+    ctx.save();
+    ctx.strokeStyle = '#ff9100';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([3, 3]);
+
+    perimeterViolations.forEach(violation => {
+      const item = equipmentItems.find(i => i.id === violation.itemId);
+      if (!item || item.visible === false) return;
+
+      const envelope = CollisionService.toPolygon(CollisionService.getShape(item, pixelsPerFoot, true));
+      ctx.beginPath();
+      envelope.forEach((point, index) => {
+        if (index === 0) {
+          ctx.moveTo(point.x, point.y);
+        } else {
+          ctx.lineTo(point.x, point.y);
+        }
+      });
+      ctx.closePath();
+      ctx.stroke();
+
+      // Label the item with its boundary status
+      const center = CollisionService.getCenter(item);
+      ctx.fillStyle = '#ff9100';
+      ctx.font = 'bold 10px Arial';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(
+        violation.status === 'outside' ? '⚠ Outside lot' : '⚠ Crosses lot line',
+        center.x,
+        center.y + item.height / 2 + 10
+      );
+    });
+
+    ctx.restore();
+  }, [perimeterViolations, equipmentItems, pixelsPerFoot]);
 
   const drawGrid = React.useCallback((ctx: CanvasRenderingContext2D) => {
     if (!showGrid || pixelsPerFoot <= 0) return;
@@ -1189,55 +1761,198 @@ const MapCanvas: React.FC = () => {
       ctx.restore();
       return;
     }
-    const offsetX = position.x % gridSpacingPixels;
-    const offsetY = position.y % gridSpacingPixels;
 
-    for (let x = offsetX; x < canvas.width + gridSpacingPixels; x += gridSpacingPixels) {
+    // Lay the grid along the lot axis, crossing at the point it passes through
+    const origin = lotAxis ? { x: position.x + lotAxis.x * scale, y: position.y + lotAxis.y * scale } : position;
+    const angle = lotAxis ? (lotAxis.angle * Math.PI) / 180 : 0;
+    ctx.translate(origin.x, origin.y);
+    ctx.rotate(angle);
+
+    // The screen corners in grid coordinates bound the lines to draw
+    const corners = [[0, 0], [canvas.width, 0], [canvas.width, canvas.height], [0, canvas.height]].map(([x, y]) => ({
+      x: (x - origin.x) * Math.cos(angle) + (y - origin.y) * Math.sin(angle),
+      y: -(x - origin.x) * Math.sin(angle) + (y - origin.y) * Math.cos(angle)
+    }));
+    const minX = Math.min(...corners.map(c => c.x));
+    const maxX = Math.max(...corners.map(c => c.x));
+    const minY = Math.min(...corners.map(c => c.y));
+    const maxY = Math.max(...corners.map(c => c.y));
+
+    for (let x = Math.ceil(minX / gridSpacingPixels) * gridSpacingPixels; x <= maxX; x += gridSpacingPixels) {
       ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, canvas.height);
+      ctx.moveTo(x, minY);
+      ctx.lineTo(x, maxY);
       ctx.stroke();
     }
 
-    for (let y = offsetY; y < canvas.height + gridSpacingPixels; y += gridSpacingPixels) {
+    for (let y = Math.ceil(minY / gridSpacingPixels) * gridSpacingPixels; y <= maxY; y += gridSpacingPixels) {
       ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(canvas.width, y);
+      ctx.moveTo(minX, y);
+      ctx.lineTo(maxX, y);
       ctx.stroke();
     }
     
     ctx.restore();
-  }, [showGrid, pixelsPerFoot, scale, position, gridSpacing, gridColor, gridOpacity]);
+  }, [showGrid, pixelsPerFoot, scale, position, gridSpacing, gridColor, gridOpacity, lotAxis]);
+
+  // The lot axis while it is being picked, or the current one while the tool is on
+  const drawLotAxis = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (!isLotAxisMode) return;
+
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const reach = Math.max(canvas.width, canvas.height) / scale * 2;
+
+    ctx.save();
+    ctx.strokeStyle = '#00bcd4';
+    ctx.lineWidth = 2 / scale;
+
+    if (lotAxis && !lotAxisStart) {
+      const radians = (lotAxis.angle * Math.PI) / 180;
+      ctx.setLineDash([12 / scale, 6 / scale]);
+      ctx.beginPath();
+      ctx.moveTo(lotAxis.x - Math.cos(radians) * reach, lotAxis.y - Math.sin(radians) * reach);
+      ctx.lineTo(lotAxis.x + Math.cos(radians) * reach, lotAxis.y + Math.sin(radians) * reach);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    if (lotAxisStart) {
+      ctx.fillStyle = '#00bcd4';
+      ctx.beginPath();
+      ctx.arc(lotAxisStart.x, lotAxisStart.y, 5 / scale, 0, Math.PI * 2);
+      ctx.fill();
+
+      if (cursorPoint) {
+        ctx.beginPath();
+        ctx.moveTo(lotAxisStart.x, lotAxisStart.y);
+        ctx.lineTo(cursorPoint.x, cursorPoint.y);
+        ctx.stroke();
+      }
+    }
+
+    ctx.restore();
+  }, [isLotAxisMode, lotAxis, lotAxisStart, cursorPoint, scale]);
+
+  // Selection marquee: solid blue picks items fully inside, dashed green every item it touches
+  const drawMarquee = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (!marquee) return;
+
+    const bounds = SpatialIndexService.fromCorners(marquee.start, marquee.end);
+    const touching = SelectionService.getMarqueeMode(marquee.start, marquee.end) === 'touching';
+
+    ctx.save();
+    ctx.fillStyle = touching ? 'rgba(76, 175, 80, 0.15)' : 'rgba(33, 150, 243, 0.15)';
+    ctx.strokeStyle = touching ? '#4caf50' : '#2196f3';
+    ctx.lineWidth = 1 / scale;
+    if (touching) ctx.setLineDash([6 / scale, 4 / scale]);
+    ctx.fillRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+    ctx.strokeRect(bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+    ctx.restore();
+  }, [marquee, scale]);
+
+  // Snap guides: magenta for item edges and centers, orange for touching clearance zones, dashed for the grid
+  const drawSnapGuides = React.useCallback((ctx: CanvasRenderingContext2D) => {
+    if (snapGuides.length === 0) return;
+
+    ctx.save();
+    ctx.lineWidth = 1 / scale;
+    snapGuides.forEach(guide => {
+      ctx.strokeStyle = guide.kind === 'clearance' ? '#ff9800' : '#e91e63';
+      ctx.setLineDash(guide.kind === 'grid' ? [4 / scale, 4 / scale] : []);
+      ctx.beginPath();
+      ctx.moveTo(guide.start.x, guide.start.y);
+      ctx.lineTo(guide.end.x, guide.end.y);
+      ctx.stroke();
+    });
+    ctx.restore();
+  }, [snapGuides, scale]);
 
-  // Draw on canvas
+  // Draw on canvas: the background, the static layout and the grid come from
+  // cached layers, and only what changes while editing is drawn every frame
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const layers = canvasLayersRef.current;
+    const stats = frameStatsRef.current;
+    const frameStarted = CanvasLayerService.beginFrame(stats);
+    const { width, height } = canvas;
+
+    const inView = (draw: (layerCtx: CanvasRenderingContext2D) => void) => (layerCtx: CanvasRenderingContext2D) => {
+      layerCtx.save();
+      layerCtx.translate(position.x, position.y);
+      layerCtx.scale(scale, scale);
+      draw(layerCtx);
+      layerCtx.restore();
+    };
+
+    const background = CanvasLayerService.render(
+      layers.background, width, height,
+      [drawBackground, position, scale],
+      inView(drawBackground),
+      stats
+    );
+    const layout = CanvasLayerService.render(
+      layers.layout, width, height,
+      [
+        position, scale, drawUnderlayCalibrationLines, drawCalibrationLines, drawMeasurementLines,
+        drawPerimeter, drawCorridors, drawEquipmentItems, ...staticItems
+      ],
+      inView(layerCtx => {
+        drawUnderlayCalibrationLines(layerCtx);
+        drawCalibrationLines(layerCtx);
+        drawMeasurementLines(layerCtx);
+        drawPerimeter(layerCtx);
+        drawCorridors(layerCtx);
+        drawEquipmentItems(layerCtx, staticItems);
+      }),
+      stats
+    );
+    const grid = CanvasLayerService.render(layers.grid, width, height, [drawGrid], drawGrid, stats);
+
+    ctx.clearRect(0, 0, width, height);
+    if (background) ctx.drawImage(background, 0, 0);
+    if (layout) ctx.drawImage(layout, 0, 0);
+
     ctx.save();
     ctx.translate(position.x, position.y);
     ctx.scale(scale, scale);
     
-    if (loadedImage) {
-      ctx.drawImage(loadedImage, 0, 0);
-    }
-    
-    drawActiveCalibrationLine(ctx);
     drawCurrentCalibrationLine(ctx);
-    drawMeasurementLines(ctx);
     drawCurrentMeasurementLine(ctx);
-    drawPerimeter(ctx);
     drawCurrentPerimeter(ctx);
-    drawEquipmentItems(ctx);
+    drawCurrentCorridor(ctx);
+    drawEquipmentItems(ctx, selectedItems);
+    drawConflicts(ctx);
+    drawCorridorIntrusions(ctx);
+    drawRuleViolations(ctx);
+    drawPerimeterViolations(ctx);
+    drawLotAxis(ctx);
+    drawMarquee(ctx);
+    drawSnapGuides(ctx);
     
     ctx.restore();
-    drawGrid(ctx);
+    if (grid) ctx.drawImage(grid, 0, 0);
+
+    CanvasLayerService.endFrame(stats, frameStarted);
+    if (frameTimesRef.current) {
+      frameTimesRef.current.textContent = CanvasLayerService.describeFrameStats(stats);
+    }
   });
 
+  useEffect(() => {
+    const layers = canvasLayersRef.current;
+    return () => {
+      CanvasLayerService.release(layers.background);
+      CanvasLayerService.release(layers.layout);
+      CanvasLayerService.release(layers.grid);
+    };
+  }, []);
+
   // Add wheel event listener
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -1269,16 +1984,8 @@ const MapCanvas: React.FC = () => {
           // Normalize to 0-360 range
           newRotation = ((newRotation % 360) + 360) % 360;
           
-          // Apply snapping to common angles if within threshold
-          const snapAngles = [0, 45, 90, 135, 180, 225, 270, 315];
-          const snapThreshold = 3; // Degrees
-          
-          for (const snapAngle of snapAngles) {
-            if (Math.abs(newRotation - snapAngle) < snapThreshold) {
-              newRotation = snapAngle;
-              break;
-            }
-          }
+          // Apply snapping to common angles from the lot axis if within threshold
+          newRotation = LotAxisService.snapRotation(newRotation, lotAxis, 3);
           
           // Update rotation in the store
           rotateItem(itemToRotate.id, newRotation);
@@ -1317,7 +2024,7 @@ const MapCanvas: React.FC = () => {
     return () => {
       canvas.removeEventListener('wheel', wheelHandler);
     };
-  }, [scale, position, setScale, setPosition, imageUrl, getSelectedItems, rotateItem, isPanningMode]);
+  }, [scale, position, setScale, setPosition, imageUrl, getSelectedItems, rotateItem, isPanningMode, lotAxis]);
 
   // Add keyboard handler for equipment movement and shortcuts
   useEffect(() => {
@@ -1344,6 +2051,11 @@ const MapCanvas: React.FC = () => {
             canvas.style.cursor = 'default';
           }
         }
+        // Finish calibrating a site plan layer, which has no sidebar tool to switch off
+        const mapState = useMapStore.getState();
+        if (mapState.calibrationUnderlayId && mapState.isCalibrationMode) {
+          mapState.toggleCalibrationMode();
+        }
         deselectAll();
         return;
       }
@@ -1378,7 +2090,8 @@ const MapCanvas: React.FC = () => {
         event.preventDefault();
         try {
           import('../../services/projectService').then(({ ProjectService }) => {
-            const project = ProjectService.saveCurrentState();
+            return ProjectService.saveCurrentState();
+          }).then(project => {
             console.log('Project saved:', project.name);
 
             // Show success notification
@@ -1407,7 +2120,9 @@ const MapCanvas: React.FC = () => {
 
             // Show error notification
             const notification = document.createElement('div');
-            notification.textContent = 'Failed to save project. Please try again.';
+            notification.textContent = error?.name === 'StorageQuotaError'
+              ? error.message
+              : 'Failed to save project. Please try again.';
             notification.style.cssText = `
               position: fixed;
               top: 20px;
@@ -1437,33 +2152,6 @@ const MapCanvas: React.FC = () => {
       if (event.key.toLowerCase() === 'a' && event.ctrlKey) {
         event.preventDefault();
         selectAll();
-        // Force canvas redraw after selection state changes
-        const canvas = canvasRef.current;
-        if (canvas) {
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            // Trigger a re-render by clearing and redrawing
-            setTimeout(() => {
-              if (canvas && ctx) {
-                ctx.clearRect(0, 0, canvas.width, canvas.height);
-                ctx.save();
-                ctx.translate(position.x, position.y);
-                ctx.scale(scale, scale);
-                
-                if (loadedImage) {
-                  ctx.drawImage(loadedImage, 0, 0);
-                }
-                
-                drawActiveCalibrationLine(ctx);
-                drawCurrentCalibrationLine(ctx);
-                drawEquipmentItems(ctx);
-                
-                ctx.restore();
-                drawGrid(ctx);
-              }
-            }, 0);
-          }
-        }
         return;
       }
       
@@ -1508,6 +2196,14 @@ const MapCanvas: React.FC = () => {
         return;
       }
       
+      // Alt+Shift shortcuts to align, distribute and space the selection
+      const arrangeCommand = ArrangeService.getShortcut(event, useSettingsStore.getState().arrangeSpacingFeet);
+      if (arrangeCommand) {
+        event.preventDefault();
+        arrangeSelected(arrangeCommand, pixelsPerFoot);
+        return;
+      }
+      
       // Arrow keys for fine movement of selected equipment
       const selectedItems = getSelectedItems();
       if (selectedItems.length > 0) {
@@ -1540,7 +2236,7 @@ const MapCanvas: React.FC = () => {
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [equipmentItems, position, scale, setScale, moveSelectedItems, selectItem, deselectAll, selectAll, removeSelectedItems, copySelectedItems, pasteItems, getSelectedItems, isPanningMode, drawActiveCalibrationLine, drawCurrentCalibrationLine, drawMeasurementLines, drawCurrentMeasurementLine, drawPerimeter, drawCurrentPerimeter, drawEquipmentItems, drawGrid, loadedImage, selectedMeasurementId, removeMeasurementLine, undoLastAction, redoLastAction]);
+  }, [equipmentItems, position, scale, setScale, moveSelectedItems, arrangeSelected, pixelsPerFoot, selectItem, deselectAll, selectAll, removeSelectedItems, copySelectedItems, pasteItems, getSelectedItems, isPanningMode, selectedMeasurementId, removeMeasurementLine, undoLastAction, redoLastAction]);
 
   return (
     <Box 
@@ -1555,13 +2251,14 @@ const MapCanvas: React.FC = () => {
     >
       <canvas
         ref={canvasRef}
+        aria-label="Lot layout"
         width={canvasSize.width}
         height={canvasSize.height}
         style={{
           width: '100%',
           height: '100%',
           display: 'block',
-          cursor: isCalibrationMode || isRulerMode ? 'crosshair' :
+          cursor: isCalibrationMode || isRulerMode || isLotAxisMode ? 'crosshair' :
                   isDraggingEquipment ? 'grabbing' :
                   isPanning ? 'grabbing' : 'default'
         }}
@@ -1569,6 +2266,7 @@ const MapCanvas: React.FC = () => {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseLeave={() => setCursorPoint(null)}
         onDrop={handleDrop}
         onDragOver={handleDragOver}
       />
@@ -1634,9 +2332,31 @@ const MapCanvas: React.FC = () => {
               🔒 Image Locked
             </Box>
           )}
-          {activeCalibrationLine && showCalibrationLine && (
+          {calibrationLines.length > 0 && showCalibrationLine && (
             <Box sx={{ mt: 0.5 }}>
-              Calibrated: {CalibrationService.formatDistance(activeCalibrationLine.realWorldDistance)}
+              Calibrated: {calibrationLines.length === 1
+                ? CalibrationService.formatDistance(calibrationLines[0].realWorldDistance)
+                : `${calibrationLines.length} reference lines`}
+            </Box>
+          )}
+          {perimeterViolations.length > 0 && (
+            <Box sx={{ mt: 0.5, color: 'warning.light' }}>
+              ⚠️ {perimeterViolations.length} item{perimeterViolations.length === 1 ? '' : 's'} outside the lot perimeter
+            </Box>
+          )}
+          {conflicts.length > 0 && (
+            <Box sx={{ mt: 0.5, color: 'error.light' }}>
+              ⚠️ {conflicts.length} placement conflict{conflicts.length === 1 ? '' : 's'}
+            </Box>
+          )}
+          {corridorIntrusionCount > 0 && (
+            <Box sx={{ mt: 0.5, color: 'error.light' }}>
+              ⚠️ {corridorIntrusionCount} fire lane obstruction{corridorIntrusionCount === 1 ? '' : 's'}
+            </Box>
+          )}
+          {ruleViolations.length > 0 && (
+            <Box sx={{ mt: 0.5, color: 'warning.light' }}>
+              ⚠️ {ruleViolations.length} spacing rule violation{ruleViolations.length === 1 ? '' : 's'}
             </Box>
           )}
           <Box sx={{ mt: 0.5, fontSize: '0.75rem', opacity: 0.7 }}>
@@ -1645,6 +2365,63 @@ const MapCanvas: React.FC = () => {
         </Box>
       )}
       
+      <Snackbar
+        open={dropWarning !== null}
+        autoHideDuration={6000}
+        onClose={() => setDropWarning(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="warning" onClose={() => setDropWarning(null)} sx={{ width: '100%' }}>
+          {dropWarning}
+        </Alert>
+      </Snackbar>
+
+      {showFrameTimes && (
+        <Box
+          ref={frameTimesRef}
+          sx={{
+            position: 'absolute',
+            bottom: 16,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            bgcolor: 'rgba(0,0,0,0.7)',
+            color: 'white',
+            p: 1,
+            borderRadius: 1,
+            fontSize: '0.75rem',
+            fontFamily: 'monospace',
+            pointerEvents: 'none'
+          }}
+        />
+      )}
+
+      {showCoordinates && cursorPoint && (
+        <Box
+          sx={{
+            position: 'absolute',
+            bottom: 16,
+            right: 16,
+            bgcolor: 'rgba(0,0,0,0.7)',
+            color: 'white',
+            p: 1,
+            borderRadius: 1,
+            fontSize: '0.75rem',
+            fontFamily: 'monospace',
+            pointerEvents: 'none'
+          }}
+        >
+          {geoTransform && (
+            <Box>
+              {GeoService.formatLatLngHemisphere(GeoService.canvasToLatLng(geoTransform, cursorPoint.x, cursorPoint.y))}
+            </Box>
+          )}
+          <Box sx={{ opacity: geoTransform ? 0.7 : 1 }}>
+            X: {CalibrationService.pixelsToFeet(cursorPoint.x, pixelsPerFoot).toFixed(1)} ft •
+            Y: {CalibrationService.pixelsToFeet(cursorPoint.y, pixelsPerFoot).toFixed(1)} ft
+          </Box>
+        </Box>
+      )}
+
       {isCalibrationMode && (
         <Box
           sx={{
@@ -1660,7 +2437,27 @@ const MapCanvas: React.FC = () => {
             fontWeight: 'bold'
           }}
         >
-          📏 Calibration Mode: {currentCalibrationLine?.startPoint ? 'Click to set end point' : 'Click to set start point'}
+          📏 {calibrationUnderlay ? `Calibrating ${calibrationUnderlay.name}` : 'Calibration Mode'}: {currentCalibrationLine?.startPoint ? 'Click to set end point' : 'Click to set start point'}{calibrationUnderlay && ' · Esc to finish'}
+        </Box>
+      )}
+
+      {isLotAxisMode && (
+        <Box
+          sx={{
+            position: 'absolute',
+            top: 16,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            bgcolor: 'rgba(0, 151, 167, 0.9)',
+            color: 'white',
+            p: 1,
+            borderRadius: 1,
+            fontSize: '0.875rem',
+            fontWeight: 'bold'
+          }}
+        >
+          🧭 Lot Axis: {lotAxisStart ? 'Click a second point along the midway' : 'Click a point on the midway line'}
+          {lotAxis && !lotAxisStart && ` · ${lotAxis.angle.toFixed(1)}° from horizontal`}
         </Box>
       )}
 
@@ -1714,11 +2511,55 @@ const MapCanvas: React.FC = () => {
         </Box>
       )}
 
+      {/* Corridor Width and Done Controls */}
+      {isCorridorMode && (
+        <Box
+          sx={{
+            position: 'absolute',
+            top: 16,
+            right: 16,
+            zIndex: 1000,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 1,
+            bgcolor: 'rgba(0, 0, 0, 0.8)',
+            p: 1,
+            borderRadius: 1
+          }}
+        >
+          <TextField
+            size="small"
+            label="Clear Width"
+            type="number"
+            value={corridorWidth}
+            onChange={(e) => setCorridorWidth(Math.max(1, parseFloat(e.target.value) || 1))}
+            inputProps={{ min: 1, step: 1 }}
+            InputProps={{ endAdornment: <InputAdornment position="end">ft</InputAdornment> }}
+            sx={{ width: 140 }}
+          />
+          <Button
+            variant="contained"
+            color="error"
+            disabled={currentCorridor.length < 2}
+            onClick={() => {
+              completeCorridor();
+            }}
+            sx={{ fontWeight: 'bold' }}
+          >
+            {currentCorridor.length < 2
+              ? 'Click to add lane points'
+              : `Done - Add Fire Lane (${currentCorridor.length} points)`}
+          </Button>
+        </Box>
+      )}
+
       <CalibrationDialog
         open={calibrationDialogOpen}
         onClose={handleCalibrationDialogClose}
         onConfirm={handleCalibrationConfirm}
         pixelDistance={pendingCalibrationData?.pixelDistance || 0}
+        calibrationLines={calibrationUnderlay ? calibrationUnderlay.calibrationLines : calibrationLines}
+        onRemoveLine={handleRemoveCalibrationLine}
       />
     </Box>
   );
@@ -1 +1,4 @@
 /// <reference types="react-scripts" />
+
+// Runs the PDF.js worker on the main thread, so no separate worker file has to be served
+declare module 'pdfjs-dist/build/pdf.worker.entry';
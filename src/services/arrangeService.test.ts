@@ -0,0 +1,82 @@
+import { ArrangeService } from './arrangeService';
+import { PlacementFootprint } from './collisionService';
+
+const items: (PlacementFootprint & { id: string })[] = [
+  { id: 'a', x: 0, y: 0, width: 20, height: 10 },
+  { id: 'b', x: 50, y: 30, width: 10, height: 10 },
+  { id: 'c', x: 100, y: 5, width: 30, height: 10 }
+];
+
+describe('ArrangeService aligning', () => {
+  test('lines edges up with the outermost item and leaves it in place', () => {
+    expect(ArrangeService.arrange(items, { kind: 'align', edge: 'left' }, 2, null)).toEqual([
+      { id: 'b', x: 0, y: 30 },
+      { id: 'c', x: 0, y: 5 }
+    ]);
+    expect(ArrangeService.arrange(items, { kind: 'align', edge: 'bottom' }, 2, null)).toEqual([
+      { id: 'a', x: 0, y: 30 },
+      { id: 'c', x: 100, y: 30 }
+    ]);
+  });
+
+  test('centers items on the middle of the selection', () => {
+    const moves = ArrangeService.arrange(items, { kind: 'align', edge: 'center' }, 2, null);
+    expect(moves.map(move => move.x + items.find(item => item.id === move.id)!.width / 2)).toEqual([65, 65, 65]);
+  });
+
+  test('follows the lot axis', () => {
+    // Along a vertical axis, "left" is the top of the canvas
+    const moves = ArrangeService.arrange(items.slice(0, 2), { kind: 'align', edge: 'left' }, 2, { x: 0, y: 0, angle: 90 });
+    expect(moves).toHaveLength(1);
+    expect(moves[0].x).toBeCloseTo(50);
+    expect(moves[0].y).toBeCloseTo(0);
+  });
+});
+
+describe('ArrangeService spacing', () => {
+  test('distributes equal gaps between the outermost items', () => {
+    // 130px span, 60px of items: two 35px gaps
+    expect(ArrangeService.arrange(items, { kind: 'distribute', direction: 'horizontal' }, 2, null)).toEqual([
+      { id: 'b', x: 55, y: 30 }
+    ]);
+    expect(ArrangeService.arrange(items.slice(0, 2), { kind: 'distribute', direction: 'horizontal' }, 2, null)).toEqual([]);
+  });
+
+  test('spaces items a set number of feet apart edge to edge', () => {
+    // 5 ft at 2 px/ft
+    expect(ArrangeService.arrange(items, { kind: 'space', direction: 'horizontal', feet: 5 }, 2, null)).toEqual([
+      { id: 'b', x: 30, y: 30 },
+      { id: 'c', x: 50, y: 5 }
+    ]);
+  });
+});
+
+describe('ArrangeService commands', () => {
+  test('reads Alt+Shift shortcuts', () => {
+    const keys = { altKey: true, shiftKey: true, ctrlKey: false, metaKey: false };
+    expect(ArrangeService.getShortcut({ ...keys, code: 'ArrowLeft' }, 10)).toEqual({ kind: 'align', edge: 'left' });
+    expect(ArrangeService.getShortcut({ ...keys, code: 'KeyM' }, 10)).toEqual({ kind: 'align', edge: 'middle' });
+    expect(ArrangeService.getShortcut({ ...keys, code: 'KeyX' }, 10)).toEqual({ kind: 'space', direction: 'horizontal', feet: 10 });
+    expect(ArrangeService.getShortcut({ ...keys, code: 'KeyH', altKey: false }, 10)).toBeNull();
+  });
+
+  test('leaves browser and AltGr key combinations alone', () => {
+    const keys = { altKey: true, shiftKey: false, ctrlKey: false, metaKey: false };
+    // Alt+D focuses the address bar; Alt+H, Alt+S and Alt+V open browser menus
+    ['KeyD', 'KeyH', 'KeyS', 'KeyV'].forEach(code => {
+      expect(ArrangeService.getShortcut({ ...keys, code }, 10)).toBeNull();
+    });
+    expect(ArrangeService.getShortcut({ ...keys, code: 'KeyC', shiftKey: true, ctrlKey: true }, 10)).toBeNull();
+  });
+
+  test('labels each command with its shortcut', () => {
+    expect(ArrangeService.getShortcutLabel({ kind: 'align', edge: 'top' })).toBe('Alt+Shift+↑');
+    expect(ArrangeService.getShortcutLabel({ kind: 'distribute', direction: 'vertical' })).toBe('Alt+Shift+V');
+  });
+
+  test('describes commands for the history', () => {
+    expect(ArrangeService.describe({ kind: 'align', edge: 'left' }, 4)).toBe('Align 4 items left');
+    expect(ArrangeService.describe({ kind: 'distribute', direction: 'vertical' }, 3)).toBe('Distribute 3 items vertically');
+    expect(ArrangeService.describe({ kind: 'space', direction: 'horizontal', feet: 10 }, 5)).toBe('Space 5 items 10 ft apart');
+  });
+});
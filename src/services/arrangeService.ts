@@ -0,0 +1,218 @@
+import { LotAxis } from '../stores/mapStore';
+import { CollisionService, PlacementFootprint, Point2D } from './collisionService';
+import { LotAxisService } from './lotAxisService';
+import { Bounds } from './spatialIndexService';
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type ArrangeDirection = 'horizontal' | 'vertical';
+
+/**
+ * One align, distribute or spacing command on the selected items
+ */
+export type ArrangeCommand =
+  | { kind: 'align'; edge: AlignEdge }
+  | { kind: 'distribute'; direction: ArrangeDirection }
+  | { kind: 'space'; direction: ArrangeDirection; feet: number };
+
+/**
+ * A command as bound to a shortcut or button, before the spacing is known
+ */
+export type ArrangeCommandTemplate =
+  | { kind: 'align'; edge: AlignEdge }
+  | { kind: 'distribute'; direction: ArrangeDirection }
+  | { kind: 'space'; direction: ArrangeDirection };
+
+/**
+ * New top-left position of an item moved by a command
+ */
+export interface ArrangeMove {
+  id: string;
+  x: number;
+  y: number;
+}
+
+type ArrangeItem = PlacementFootprint & { id: string };
+
+interface Extent {
+  item: ArrangeItem;
+  bounds: Bounds; // Footprint bounds along and across the lot axis
+}
+
+/**
+ * Keyboard shortcuts, all with Alt+Shift. Plain Alt+letter is taken by browser
+ * menus and the address bar, Ctrl+Alt types characters as AltGr on many layouts,
+ * and keys are matched by position so the characters Option types on a Mac don't matter.
+ */
+export const ARRANGE_SHORTCUTS: { code: string; label: string; command: ArrangeCommandTemplate }[] = [
+  { code: 'ArrowLeft', label: 'Alt+Shift+←', command: { kind: 'align', edge: 'left' } },
+  { code: 'KeyC', label: 'Alt+Shift+C', command: { kind: 'align', edge: 'center' } },
+  { code: 'ArrowRight', label: 'Alt+Shift+→', command: { kind: 'align', edge: 'right' } },
+  { code: 'ArrowUp', label: 'Alt+Shift+↑', command: { kind: 'align', edge: 'top' } },
+  { code: 'KeyM', label: 'Alt+Shift+M', command: { kind: 'align', edge: 'middle' } },
+  { code: 'ArrowDown', label: 'Alt+Shift+↓', command: { kind: 'align', edge: 'bottom' } },
+  { code: 'KeyH', label: 'Alt+Shift+H', command: { kind: 'distribute', direction: 'horizontal' } },
+  { code: 'KeyV', label: 'Alt+Shift+V', command: { kind: 'distribute', direction: 'vertical' } },
+  { code: 'KeyX', label: 'Alt+Shift+X', command: { kind: 'space', direction: 'horizontal' } },
+  { code: 'KeyY', label: 'Alt+Shift+Y', command: { kind: 'space', direction: 'vertical' } }
+];
+
+export class ArrangeService {
+  /**
+   * Get the fewest items a command needs to do anything
+   */
+  static getMinimumItems(command: ArrangeCommandTemplate): number {
+    return command.kind === 'distribute' ? 3 : 2;
+  }
+
+  /**
+   * Work out where a command moves each item. Horizontal and vertical follow
+   * the lot axis when one is set, so rows line up along the midway.
+   */
+  static arrange(items: ArrangeItem[], command: ArrangeCommand, pixelsPerFoot: number, axis: LotAxis | null): ArrangeMove[] {
+    if (items.length < this.getMinimumItems(command)) return [];
+
+    const extents = items.map(item => ({ item, bounds: this.getAxisBounds(item, pixelsPerFoot, axis) }));
+    const offsets = command.kind === 'align'
+      ? this.align(extents, command.edge)
+      : this.space(extents, command.direction, command.kind === 'space' ? command.feet * pixelsPerFoot : null);
+
+    const moves: ArrangeMove[] = [];
+    extents.forEach(({ item }, index) => {
+      const offset = offsets[index];
+      if (Math.abs(offset.x) < 1e-9 && Math.abs(offset.y) < 1e-9) return;
+
+      const delta = this.toCanvasDelta(axis, offset);
+      moves.push({ id: item.id, x: item.x + delta.x, y: item.y + delta.y });
+    });
+    return moves;
+  }
+
+  /**
+   * Describe a command for the undo history
+   */
+  static describe(command: ArrangeCommand, count: number): string {
+    switch (command.kind) {
+      case 'align':
+        return `Align ${count} items ${command.edge === 'center' || command.edge === 'middle' ? `to the ${command.edge}` : command.edge}`;
+      case 'distribute':
+        return `Distribute ${count} items ${command.direction}ly`;
+      case 'space':
+        return `Space ${count} items ${command.feet} ft apart`;
+    }
+  }
+
+  /**
+   * Find the command for a key press, if it is an arrange shortcut
+   */
+  static getShortcut(event: { code: string; altKey: boolean; shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }, spacingFeet: number): ArrangeCommand | null {
+    if (!event.altKey || !event.shiftKey || event.ctrlKey || event.metaKey) return null;
+
+    const shortcut = ARRANGE_SHORTCUTS.find(entry => entry.code === event.code);
+    return shortcut ? this.withSpacing(shortcut.command, spacingFeet) : null;
+  }
+
+  /**
+   * Fill in the spacing a space command uses
+   */
+  static withSpacing(template: ArrangeCommandTemplate, spacingFeet: number): ArrangeCommand {
+    return template.kind === 'space' ? { ...template, feet: spacingFeet } : template;
+  }
+
+  /**
+   * Get the shortcut label for a command, for tooltips
+   */
+  static getShortcutLabel(template: ArrangeCommandTemplate): string {
+    const key = (command: ArrangeCommandTemplate) =>
+      command.kind === 'align' ? `align-${command.edge}` : `${command.kind}-${command.direction}`;
+    const shortcut = ARRANGE_SHORTCUTS.find(entry => key(entry.command) === key(template));
+    return shortcut ? shortcut.label : '';
+  }
+
+  /**
+   * Get an item's bounds along and across the lot axis, optionally including its clearance zone
+   */
+  static getAxisBounds(item: PlacementFootprint, pixelsPerFoot: number, axis: LotAxis | null, includeClearance: boolean = false): Bounds {
+    const shape = CollisionService.getShape(item, pixelsPerFoot, includeClearance);
+    if (shape.kind === 'circle') {
+      const center = LotAxisService.toAxis(axis, shape.center);
+      return {
+        minX: center.x - shape.radius,
+        minY: center.y - shape.radius,
+        maxX: center.x + shape.radius,
+        maxY: center.y + shape.radius
+      };
+    }
+
+    const points = shape.points.map(point => LotAxisService.toAxis(axis, point));
+    return {
+      minX: Math.min(...points.map(point => point.x)),
+      minY: Math.min(...points.map(point => point.y)),
+      maxX: Math.max(...points.map(point => point.x)),
+      maxY: Math.max(...points.map(point => point.y))
+    };
+  }
+
+  /**
+   * Convert an offset along and across the lot axis to a canvas offset
+   */
+  static toCanvasDelta(axis: LotAxis | null, offset: Point2D): Point2D {
+    const origin = LotAxisService.fromAxis(axis, { x: 0, y: 0 });
+    const moved = LotAxisService.fromAxis(axis, offset);
+    return { x: moved.x - origin.x, y: moved.y - origin.y };
+  }
+
+  private static align(extents: Extent[], edge: AlignEdge): Point2D[] {
+    const along = edge === 'left' || edge === 'center' || edge === 'right';
+    const min = Math.min(...extents.map(({ bounds }) => along ? bounds.minX : bounds.minY));
+    const max = Math.max(...extents.map(({ bounds }) => along ? bounds.maxX : bounds.maxY));
+
+    return extents.map(({ bounds }) => {
+      const low = along ? bounds.minX : bounds.minY;
+      const high = along ? bounds.maxX : bounds.maxY;
+      let shift: number;
+      if (edge === 'left' || edge === 'top') {
+        shift = min - low;
+      } else if (edge === 'right' || edge === 'bottom') {
+        shift = max - high;
+      } else {
+        shift = (min + max) / 2 - (low + high) / 2;
+      }
+      return along ? { x: shift, y: 0 } : { x: 0, y: shift };
+    });
+  }
+
+  /**
+   * Lay items out in a row, in their current order along the direction. With a
+   * gap, the first item stays put and the rest follow it that far apart;
+   * without one, the first and last stay put and the gaps between are made equal.
+   */
+  private static space(extents: Extent[], direction: ArrangeDirection, gap: number | null): Point2D[] {
+    const along = direction === 'horizontal';
+    const low = (extent: Extent) => along ? extent.bounds.minX : extent.bounds.minY;
+    const high = (extent: Extent) => along ? extent.bounds.maxX : extent.bounds.maxY;
+
+    const order = extents
+      .map((extent, index) => ({ extent, index }))
+      .sort((a, b) => (low(a.extent) + high(a.extent)) - (low(b.extent) + high(b.extent)) || a.index - b.index);
+
+    let spacing = gap;
+    if (spacing === null) {
+      const first = order[0].extent;
+      const last = order[order.length - 1].extent;
+      const sizes = order.reduce((sum, { extent }) => sum + high(extent) - low(extent), 0);
+      spacing = (high(last) - low(first) - sizes) / (order.length - 1);
+    }
+
+    const offsets: Point2D[] = extents.map(() => ({ x: 0, y: 0 }));
+    let cursor = high(order[0].extent) + spacing;
+    order.slice(1).forEach(({ extent, index }, position) => {
+      // Evenly distributed rows keep the last item where it is
+      if (gap === null && position === order.length - 2) return;
+
+      const shift = cursor - low(extent);
+      offsets[index] = along ? { x: shift, y: 0 } : { x: 0, y: shift };
+      cursor += high(extent) - low(extent) + (spacing as number);
+    });
+    return offsets;
+  }
+}
@@ -0,0 +1,138 @@
+import { useMapStore } from '../stores/mapStore';
+import { useEquipmentStore } from '../stores/equipmentStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { ProjectService } from './projectService';
+
+const SNAPSHOT_DELAY = 2000; // ms to wait after the last edit before writing the recovery snapshot
+const SIGNIFICANT_CHANGE_DELAY = 10000; // ms to wait after a significant change before auto-saving
+
+/**
+ * Saves the open project on the interval chosen in Settings and shortly after
+ * significant edits, and keeps a recovery snapshot of unsaved work so it
+ * survives a crash or a closed tab.
+ */
+export class AutoSaveService {
+  private static unsubscribers: (() => void)[] = [];
+  private static intervalTimer: ReturnType<typeof setInterval> | null = null;
+  private static snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+  private static significantChangeTimer: ReturnType<typeof setTimeout> | null = null;
+  private static dirty = false;
+  private static saving = false;
+
+  /**
+   * Start watching the stores. Call once the recovery prompt has been answered,
+   * so the previous session's snapshot isn't overwritten first.
+   */
+  static start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers = [
+      useEquipmentStore.subscribe((state, previous) => {
+        if (state.items === previous.items && state.spacingRules === previous.spacingRules) return;
+
+        const significant = state.items.length !== previous.items.length ||
+          state.spacingRules !== previous.spacingRules;
+        this.handleChange(significant);
+      }),
+      useMapStore.subscribe((state, previous) => {
+        const significant = state.imageUrl !== previous.imageUrl ||
+          state.calibrationLines !== previous.calibrationLines ||
+          state.activePerimeter !== previous.activePerimeter ||
+          state.corridors !== previous.corridors ||
+          state.underlays !== previous.underlays ||
+          state.lotAxis !== previous.lotAxis;
+        const changed = significant ||
+          state.pixelsPerFoot !== previous.pixelsPerFoot ||
+          state.calibrationPoints !== previous.calibrationPoints ||
+          state.measurementLines !== previous.measurementLines;
+        if (changed) this.handleChange(significant);
+      }),
+      useSettingsStore.subscribe((state, previous) => {
+        if (state.autoSave !== previous.autoSave || state.autoSaveInterval !== previous.autoSaveInterval) {
+          this.scheduleInterval();
+        }
+      }),
+      // Manual saves and auto-saves both leave nothing to recover
+      ProjectService.subscribeToSaves(() => this.handleSaved())
+    ];
+
+    this.scheduleInterval();
+  }
+
+  /**
+   * Stop watching the stores and cancel pending saves
+   */
+  static stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+
+    if (this.intervalTimer) clearInterval(this.intervalTimer);
+    this.intervalTimer = null;
+    this.cancelPendingWrites();
+  }
+
+  /**
+   * Check whether there are edits that haven't been saved to the project yet
+   */
+  static hasUnsavedChanges(): boolean {
+    return this.dirty;
+  }
+
+  private static handleChange(significant: boolean): void {
+    // Loading a project replaces the store state; that isn't an edit
+    if (ProjectService.isRestoring()) return;
+
+    this.dirty = true;
+
+    if (this.snapshotTimer) clearTimeout(this.snapshotTimer);
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      ProjectService.saveRecoverySnapshot().catch(error => {
+        console.warn('Failed to write recovery snapshot:', error);
+      });
+    }, SNAPSHOT_DELAY);
+
+    if (significant && useSettingsStore.getState().autoSave) {
+      if (this.significantChangeTimer) clearTimeout(this.significantChangeTimer);
+      this.significantChangeTimer = setTimeout(() => {
+        this.significantChangeTimer = null;
+        this.save();
+      }, SIGNIFICANT_CHANGE_DELAY);
+    }
+  }
+
+  private static handleSaved(): void {
+    this.dirty = false;
+    this.cancelPendingWrites();
+  }
+
+  private static cancelPendingWrites(): void {
+    if (this.snapshotTimer) clearTimeout(this.snapshotTimer);
+    if (this.significantChangeTimer) clearTimeout(this.significantChangeTimer);
+    this.snapshotTimer = null;
+    this.significantChangeTimer = null;
+  }
+
+  private static scheduleInterval(): void {
+    if (this.intervalTimer) clearInterval(this.intervalTimer);
+    this.intervalTimer = null;
+
+    const { autoSave, autoSaveInterval } = useSettingsStore.getState();
+    if (!autoSave) return;
+
+    this.intervalTimer = setInterval(() => this.save(), autoSaveInterval * 60 * 1000);
+  }
+
+  private static async save(): Promise<void> {
+    if (!this.dirty || this.saving) return;
+
+    this.saving = true;
+    try {
+      await ProjectService.autoSave();
+    } catch (error) {
+      console.error('Auto-save failed:', error);
+    } finally {
+      this.saving = false;
+    }
+  }
+}
@@ -16,6 +16,25 @@ export interface CalibrationLine {
   pixelsPerFoot: number;
 }
 
+export type CalibrationConfidence = 'low' | 'medium' | 'high';
+
+export interface CalibrationLineReport {
+  lineId: string;
+  pixelsPerFoot: number;
+  deviationPercent: number; // Signed difference from the averaged scale
+}
+
+export interface CalibrationReport {
+  pixelsPerFoot: number; // Averaged across all lines
+  lines: CalibrationLineReport[];
+  maxDeviationPercent: number;
+  uncertaintyPercent: number | null; // Standard error of the averaged scale; null with a single line
+  confidence: CalibrationConfidence;
+}
+
+// Spread between reference lines above which the calibration is treated as unreliable
+const INCONSISTENT_SCALE_RATIO = 0.2;
+
 export class CalibrationService {
   /**
    * Calculate the pixel distance between two points
@@ -116,7 +135,7 @@ export class CalibrationService {
       const average = pixelsPerFootValues.reduce((sum, val) => sum + val, 0) / pixelsPerFootValues.length;
       const maxDeviation = Math.max(...pixelsPerFootValues.map(val => Math.abs(val - average)));
 
-      if (maxDeviation > average * 0.2) { // 20% deviation threshold
+      if (maxDeviation > average * INCONSISTENT_SCALE_RATIO) {
         warnings.push('Calibration lines have inconsistent scales. Consider recalibrating for better accuracy.');
       }
     }
@@ -138,6 +157,39 @@ export class CalibrationService {
     };
   }
 
+  /**
+   * Compare each calibration line against the averaged scale and rate how far
+   * the averaged scale can be trusted. A single line gives no way to check
+   * itself, so it is always rated low.
+   */
+  static getCalibrationReport(calibrationLines: CalibrationLine[]): CalibrationReport | null {
+    if (calibrationLines.length === 0) return null;
+
+    const pixelsPerFoot = this.calculateImageScale(calibrationLines);
+    const lines = calibrationLines.map(line => ({
+      lineId: line.id,
+      pixelsPerFoot: line.pixelsPerFoot,
+      deviationPercent: ((line.pixelsPerFoot - pixelsPerFoot) / pixelsPerFoot) * 100
+    }));
+    const maxDeviationPercent = Math.max(...lines.map(line => Math.abs(line.deviationPercent)));
+
+    let uncertaintyPercent: number | null = null;
+    if (calibrationLines.length > 1) {
+      const variance = calibrationLines.reduce(
+        (sum, line) => sum + Math.pow(line.pixelsPerFoot - pixelsPerFoot, 2),
+        0
+      ) / (calibrationLines.length - 1);
+      uncertaintyPercent = (Math.sqrt(variance / calibrationLines.length) / pixelsPerFoot) * 100;
+    }
+
+    let confidence: CalibrationConfidence = 'low';
+    if (uncertaintyPercent !== null && maxDeviationPercent <= INCONSISTENT_SCALE_RATIO * 100) {
+      confidence = calibrationLines.length >= 3 && uncertaintyPercent <= 2 ? 'high' : 'medium';
+    }
+
+    return { pixelsPerFoot, lines, maxDeviationPercent, uncertaintyPercent, confidence };
+  }
+
   /**
    * Format distance for display
    */
@@ -0,0 +1,65 @@
+import { CanvasLayerService } from './canvasLayerService';
+
+describe('CanvasLayerService layers', () => {
+  const context = { clearRect: jest.fn() } as unknown as CanvasRenderingContext2D;
+
+  beforeEach(() => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('redraws only when a dependency or the size changes', () => {
+    const layer = CanvasLayerService.createLayer('layout');
+    const draw = jest.fn();
+    const item = { id: 'item-1' };
+
+    CanvasLayerService.render(layer, 800, 600, [1, item], draw);
+    CanvasLayerService.render(layer, 800, 600, [1, item], draw);
+    expect(draw).toHaveBeenCalledTimes(1);
+
+    CanvasLayerService.render(layer, 800, 600, [1, { ...item }], draw);
+    expect(draw).toHaveBeenCalledTimes(2);
+
+    CanvasLayerService.render(layer, 1024, 600, [1, item], draw);
+    expect(draw).toHaveBeenCalledTimes(3);
+    expect(layer.canvas?.width).toBe(1024);
+  });
+
+  test('lists the layers redrawn in a frame', () => {
+    const stats = CanvasLayerService.createFrameStats();
+    const background = CanvasLayerService.createLayer('background');
+    const grid = CanvasLayerService.createLayer('grid');
+
+    CanvasLayerService.render(background, 800, 600, [], () => undefined, stats);
+    const started = CanvasLayerService.beginFrame(stats);
+    CanvasLayerService.render(background, 800, 600, [], () => undefined, stats);
+    CanvasLayerService.render(grid, 800, 600, [], () => undefined, stats);
+    CanvasLayerService.endFrame(stats, started);
+
+    expect(stats.redrawn.map(layer => layer.name)).toEqual(['grid']);
+    expect(stats.samples).toHaveLength(1);
+  });
+});
+
+describe('CanvasLayerService frame statistics', () => {
+  test('averages recent frames and keeps the worst', () => {
+    const stats = CanvasLayerService.createFrameStats();
+    [4, 8, 30, 6].forEach(frameMs => CanvasLayerService.recordFrame(stats, frameMs));
+
+    expect(stats.lastFrameMs).toBe(6);
+    expect(stats.averageMs).toBe(12);
+    expect(stats.worstMs).toBe(30);
+  });
+
+  test('forgets frames older than about a second', () => {
+    const stats = CanvasLayerService.createFrameStats();
+    CanvasLayerService.recordFrame(stats, 100);
+    for (let i = 0; i < 60; i++) CanvasLayerService.recordFrame(stats, 2);
+
+    expect(stats.samples).toHaveLength(60);
+    expect(stats.worstMs).toBe(2);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * An off-screen canvas holding one layer of the map, redrawn only when
+ * something it depends on changes
+ */
+export interface CanvasLayer {
+  name: string;
+  canvas: HTMLCanvasElement | null;
+  dependencies: unknown[] | null;
+}
+
+/**
+ * Rolling frame timings for the map canvas
+ */
+export interface FrameStats {
+  samples: number[]; // Recent frame times in ms, oldest first
+  lastFrameMs: number;
+  averageMs: number;
+  worstMs: number;
+  redrawn: { name: string; ms: number }[]; // Layers redrawn in the last frame
+}
+
+// Frames averaged in the statistics, about a second at 60 fps
+const FRAME_SAMPLES = 60;
+
+export class CanvasLayerService {
+  /**
+   * Create an empty layer, drawn in full on first use
+   */
+  static createLayer(name: string): CanvasLayer {
+    return { name, canvas: null, dependencies: null };
+  }
+
+  /**
+   * Check whether any dependency differs from the last render, by identity
+   */
+  static hasChanged(previous: unknown[] | null, next: unknown[]): boolean {
+    if (!previous || previous.length !== next.length) return true;
+    for (let i = 0; i < next.length; i++) {
+      if (!Object.is(previous[i], next[i])) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Bring a layer up to date and return its canvas for compositing. The draw
+   * function only runs when the size or a dependency changed.
+   */
+  static render(
+    layer: CanvasLayer,
+    width: number,
+    height: number,
+    dependencies: unknown[],
+    draw: (ctx: CanvasRenderingContext2D) => void,
+    stats?: FrameStats
+  ): HTMLCanvasElement | null {
+    if (!layer.canvas) {
+      layer.canvas = document.createElement('canvas');
+    }
+
+    const canvas = layer.canvas;
+    const resized = canvas.width !== width || canvas.height !== height;
+    if (!resized && !this.hasChanged(layer.dependencies, dependencies)) return canvas;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const started = performance.now();
+    if (resized) {
+      // Resizing also clears the canvas
+      canvas.width = width;
+      canvas.height = height;
+    } else {
+      ctx.clearRect(0, 0, width, height);
+    }
+    draw(ctx);
+    layer.dependencies = dependencies;
+
+    if (stats) stats.redrawn.push({ name: layer.name, ms: performance.now() - started });
+    return canvas;
+  }
+
+  /**
+   * Release a layer's pixels
+   */
+  static release(layer: CanvasLayer): void {
+    if (layer.canvas) {
+      layer.canvas.width = 0;
+      layer.canvas.height = 0;
+    }
+    layer.canvas = null;
+    layer.dependencies = null;
+  }
+
+  static createFrameStats(): FrameStats {
+    return { samples: [], lastFrameMs: 0, averageMs: 0, worstMs: 0, redrawn: [] };
+  }
+
+  /**
+   * Start timing a frame; layers redrawn from here on are listed in it
+   */
+  static beginFrame(stats: FrameStats): number {
+    stats.redrawn = [];
+    return performance.now();
+  }
+
+  /**
+   * Finish timing a frame started with beginFrame
+   */
+  static endFrame(stats: FrameStats, started: number): void {
+    this.recordFrame(stats, performance.now() - started);
+  }
+
+  /**
+   * Add one frame time to the rolling statistics
+   */
+  static recordFrame(stats: FrameStats, frameMs: number): void {
+    stats.samples.push(frameMs);
+    if (stats.samples.length > FRAME_SAMPLES) stats.samples.shift();
+
+    stats.lastFrameMs = frameMs;
+    stats.averageMs = stats.samples.reduce((sum, sample) => sum + sample, 0) / stats.samples.length;
+    stats.worstMs = Math.max(...stats.samples);
+  }
+
+  /**
+   * Describe the statistics on one line for the map overlay
+   */
+  static describeFrameStats(stats: FrameStats): string {
+    const redrawn = stats.redrawn.length > 0
+      ? stats.redrawn.map(layer => `${layer.name} ${layer.ms.toFixed(1)} ms`).join(', ')
+      : 'none';
+    return `Frame ${stats.lastFrameMs.toFixed(1)} ms • avg ${stats.averageMs.toFixed(1)} ms • worst ${stats.worstMs.toFixed(1)} ms • redrawn: ${redrawn}`;
+  }
+}
@@ -0,0 +1,161 @@
+import { CollisionService, PlacementFootprint, Point2D } from './collisionService';
+
+const getArea = (polygon: Point2D[]) => Math.abs(polygon.reduce((sum, point, i) => {
+  const next = polygon[(i + 1) % polygon.length];
+  return sum + point.x * next.y - next.x * point.y;
+}, 0)) / 2;
+
+const box = (x: number, y: number, extra: Partial<PlacementFootprint> = {}): PlacementFootprint =>
+  ({ x, y, width: 10, height: 10, ...extra });
+
+const separation = (a: PlacementFootprint, b: PlacementFootprint) =>
+  CollisionService.getSeparation(CollisionService.getShape(a, 1), CollisionService.getShape(b, 1));
+
+describe('CollisionService separation', () => {
+  test('measures the gap between apart rectangles and zero for touching ones', () => {
+    expect(separation(box(0, 0), box(15, 0))).toBeCloseTo(5);
+    expect(separation(box(0, 0), box(10, 0))).toBeCloseTo(0);
+    expect(separation(box(0, 0), box(13, 14))).toBeCloseTo(5);
+  });
+
+  test('measures how deep overlapping rectangles go', () => {
+    expect(separation(box(0, 0), box(6, 0))).toBeCloseTo(-4);
+    expect(separation(box(0, 0), box(2, 9))).toBeCloseTo(-1);
+  });
+
+  test('uses the rotated footprint, not its bounding box', () => {
+    // A 10 × 10 box turned 45° reaches 5√2 from its center; its corner points at the other box
+    const reach = 5 * Math.SQRT2;
+    expect(separation(box(0, 0), box(5 + reach + 3, 0, { rotation: 45 }))).toBeCloseTo(3);
+    expect(separation(box(0, 0), box(5 + reach - 2, 0, { rotation: 45 }))).toBeCloseTo(-2);
+
+    // Their bounding boxes overlap diagonally but the shapes don't
+    expect(separation(box(0, 0, { rotation: 45 }), box(10, 10, { rotation: 45 }))).toBeGreaterThan(0);
+  });
+
+  test('measures circles against rectangles and each other', () => {
+    const circle = (x: number, y: number) => box(x, y, { shape: 'circle' });
+
+    expect(separation(circle(20, 0), box(0, 0))).toBeCloseTo(10);
+    expect(separation(box(0, 0), circle(8, 0))).toBeCloseTo(-2);
+    // Off the corner the bounding boxes overlap, but the circle stays clear
+    expect(separation(circle(9, 9), box(0, 0))).toBeCloseTo(Math.hypot(4, 4) - 5);
+    expect(separation(circle(0, 0), circle(10, 0))).toBeCloseTo(0);
+  });
+
+  test('handles zero-size items', () => {
+    const point = (x: number, y: number) => ({ x, y, width: 0, height: 0 });
+
+    expect(separation(point(5, 5), box(0, 0))).toBeCloseTo(-5);
+    expect(separation(point(15, 5), box(0, 0))).toBeCloseTo(5);
+    expect(separation(point(5, 5), point(5, 5))).toBe(0);
+    expect(separation(point(5, 5), point(8, 9))).toBeCloseTo(5);
+  });
+});
+
+describe('CollisionService conflicts', () => {
+  test('reports overlap in feet', () => {
+    expect(CollisionService.getConflictBetween(box(0, 0), box(6, 0), 2)).toEqual({ type: 'overlap', distanceFeet: 2 });
+  });
+
+  test('does not count touching items as overlapping', () => {
+    expect(CollisionService.getConflictBetween(box(0, 0), box(10, 0), 1)).toBeNull();
+  });
+
+  test('reports clearance intrusion once the footprints are clear', () => {
+    const conflict = CollisionService.getConflictBetween(box(0, 0, { clearanceRight: 2 }), box(11, 0), 1);
+    expect(conflict?.type).toBe('clearance');
+    expect(conflict?.distanceFeet).toBeCloseTo(1);
+  });
+
+  test('reports minimum spacing shortfalls', () => {
+    const conflict = CollisionService.getConflictBetween(box(0, 0, { minSpacing: 3 }), box(11, 0), 1);
+    expect(conflict?.type).toBe('spacing');
+    expect(conflict?.distanceFeet).toBeCloseTo(2);
+  });
+
+  test('skips the check without a scale', () => {
+    expect(CollisionService.getConflictBetween(box(0, 0), box(0, 0), 0)).toBeNull();
+  });
+
+  test('reports a zero-size item inside another as an overlap', () => {
+    expect(CollisionService.getConflictBetween({ x: 5, y: 5, width: 0, height: 0 }, box(0, 0), 1)?.type).toBe('overlap');
+  });
+});
+
+describe('CollisionService intersection', () => {
+  test('clips overlapping rectangles to their shared area', () => {
+    const region = CollisionService.getIntersection(CollisionService.getShape(box(0, 0), 1), CollisionService.getShape(box(6, 0), 1));
+    expect(getArea(region)).toBeCloseTo(40);
+  });
+
+  test('clips a rotated rectangle to an octagon', () => {
+    const region = CollisionService.getIntersection(
+      CollisionService.getShape(box(0, 0), 1),
+      CollisionService.getShape(box(0, 0, { rotation: 45 }), 1)
+    );
+    // The square loses a triangle with legs of 10 - 5√2 at each corner
+    const leg = 10 - 5 * Math.SQRT2;
+    expect(region).toHaveLength(8);
+    expect(getArea(region)).toBeCloseTo(100 - 2 * leg * leg);
+  });
+
+  test('keeps the whole circle when it lies inside the rectangle', () => {
+    const circle = CollisionService.getShape(box(10, 10, { shape: 'circle' }), 1);
+    const region = CollisionService.getIntersection(circle, CollisionService.getShape({ x: 0, y: 0, width: 40, height: 40 }, 1));
+    expect(getArea(region)).toBeCloseTo(getArea(CollisionService.toPolygon(circle)));
+  });
+
+  test('is empty for apart shapes', () => {
+    expect(CollisionService.getIntersection(CollisionService.getShape(box(0, 0), 1), CollisionService.getShape(box(20, 0), 1))).toEqual([]);
+  });
+});
+
+describe('CollisionService lot perimeter', () => {
+  // An L-shaped lot with the top-right quarter cut out
+  const lot = [
+    { x: 0, y: 0 },
+    { x: 50, y: 0 },
+    { x: 50, y: 50 },
+    { x: 100, y: 50 },
+    { x: 100, y: 100 },
+    { x: 0, y: 100 }
+  ];
+
+  test('keeps items in either arm of a concave lot inside', () => {
+    expect(CollisionService.getPerimeterStatus(box(10, 10), lot, 1)).toBe('inside');
+    expect(CollisionService.getPerimeterStatus(box(80, 80), lot, 1)).toBe('inside');
+  });
+
+  test('puts an item in the cut-out corner outside, though it is within the lot bounds', () => {
+    expect(CollisionService.getPerimeterStatus(box(70, 20), lot, 1)).toBe('outside');
+  });
+
+  test('flags items across the boundary, including their clearance zones', () => {
+    expect(CollisionService.getPerimeterStatus(box(95, 70), lot, 1)).toBe('straddling');
+    expect(CollisionService.getPerimeterStatus(box(45, 45), lot, 1)).toBe('straddling');
+    expect(CollisionService.getPerimeterStatus(box(85, 70, { clearanceRight: 10 }), lot, 1)).toBe('straddling');
+  });
+
+  test('reports how far items reach beyond the lot, in feet', () => {
+    const items = [
+      box(10, 10, { id: 'inside' }),
+      box(95, 70, { id: 'across' }),
+      box(70, 20, { id: 'outside' })
+    ];
+    const violations = CollisionService.findPerimeterViolations(items, lot, 2);
+
+    expect(violations.map(violation => [violation.itemId, violation.status])).toEqual([
+      ['across', 'straddling'],
+      ['outside', 'outside']
+    ]);
+    expect(violations[0].distanceFeet).toBeCloseTo(2.5);
+    // The far corner at (80, 20) is 30 px from the nearest lot edge
+    expect(violations[1].distanceFeet).toBeCloseTo(15);
+  });
+
+  test('ignores a perimeter that is not closed yet', () => {
+    expect(CollisionService.getPerimeterStatus(box(200, 200), lot.slice(0, 2), 1)).toBe('inside');
+    expect(CollisionService.findPerimeterViolations([box(200, 200)], lot.slice(0, 2), 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,583 @@
+// Service for footprint geometry, collision and clearance checks between placed equipment
+import { SpatialIndexService, Bounds } from './spatialIndexService';
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+/**
+ * A convex polygon or a circle in canvas pixel coordinates
+ */
+export type Shape2D =
+  | { kind: 'polygon'; points: Point2D[] }
+  | { kind: 'circle'; center: Point2D; radius: number };
+
+/**
+ * The subset of an equipment item needed to place it on the canvas.
+ * x/y is the top-left of the unrotated bounding box, rotation is in degrees
+ * around the box center, and clearances/spacing are in feet.
+ */
+export interface PlacementFootprint {
+  id?: string;
+  name?: string;
+  category?: string;
+  templateId?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number;
+  shape?: 'rectangle' | 'circle';
+  clearanceLeft?: number;
+  clearanceRight?: number;
+  clearanceTop?: number;
+  clearanceBottom?: number;
+  clearanceRadius?: number;
+  minSpacing?: number;
+}
+
+export type PlacementConflictType = 'overlap' | 'clearance' | 'spacing';
+
+export interface PlacementConflict {
+  itemId: string;
+  itemName: string;
+  type: PlacementConflictType;
+  distanceFeet: number; // How far the items intrude on each other (or fall short of the required spacing)
+}
+
+export interface ItemConflict extends PlacementConflict {
+  otherItemId: string;
+  otherItemName: string;
+}
+
+export type PerimeterStatus = 'inside' | 'straddling' | 'outside';
+
+export interface PerimeterViolation {
+  itemId: string;
+  itemName: string;
+  status: Exclude<PerimeterStatus, 'inside'>;
+  distanceFeet: number; // How far the item (including clearance) reaches beyond the lot boundary
+}
+
+export class CollisionService {
+  /**
+   * Get the center point of an item's bounding box
+   */
+  static getCenter(item: PlacementFootprint): Point2D {
+    return { x: item.x + item.width / 2, y: item.y + item.height / 2 };
+  }
+
+  /**
+   * Rotate a point around a center by the given angle in degrees
+   */
+  static rotatePoint(point: Point2D, center: Point2D, degrees: number): Point2D {
+    const radians = degrees * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    return {
+      x: center.x + dx * cos - dy * sin,
+      y: center.y + dx * sin + dy * cos
+    };
+  }
+
+  /**
+   * Get the per-side clearance of an item in feet.
+   * Rectangles that only define clearanceRadius use it uniformly on every side.
+   */
+  static getClearanceFeet(item: PlacementFootprint): { left: number; right: number; top: number; bottom: number; radius: number } {
+    const left = item.clearanceLeft || 0;
+    const right = item.clearanceRight || 0;
+    const top = item.clearanceTop || 0;
+    const bottom = item.clearanceBottom || 0;
+    const radius = item.clearanceRadius || 0;
+
+    if (item.shape === 'circle') {
+      return { left: radius, right: radius, top: radius, bottom: radius, radius: radius || Math.max(left, right, top, bottom) };
+    }
+    if (left === 0 && right === 0 && top === 0 && bottom === 0 && radius > 0) {
+      return { left: radius, right: radius, top: radius, bottom: radius, radius };
+    }
+    return { left, right, top, bottom, radius: Math.max(left, right, top, bottom) };
+  }
+
+  /**
+   * Check whether an item has any clearance zone
+   */
+  static hasClearance(item: PlacementFootprint): boolean {
+    const clearance = this.getClearanceFeet(item);
+    return clearance.radius > 0;
+  }
+
+  /**
+   * Build the physical footprint of an item, optionally expanded by its clearance zone
+   */
+  static getShape(item: PlacementFootprint, pixelsPerFoot: number, includeClearance: boolean = false): Shape2D {
+    const center = this.getCenter(item);
+    const clearance = includeClearance ? this.getClearanceFeet(item) : { left: 0, right: 0, top: 0, bottom: 0, radius: 0 };
+
+    if (item.shape === 'circle') {
+      return {
+        kind: 'circle',
+        center,
+        radius: Math.min(item.width, item.height) / 2 + clearance.radius * pixelsPerFoot
+      };
+    }
+
+    const left = -item.width / 2 - clearance.left * pixelsPerFoot;
+    const right = item.width / 2 + clearance.right * pixelsPerFoot;
+    const top = -item.height / 2 - clearance.top * pixelsPerFoot;
+    const bottom = item.height / 2 + clearance.bottom * pixelsPerFoot;
+    const corners = [
+      { x: center.x + left, y: center.y + top },
+      { x: center.x + right, y: center.y + top },
+      { x: center.x + right, y: center.y + bottom },
+      { x: center.x + left, y: center.y + bottom }
+    ];
+
+    return {
+      kind: 'polygon',
+      points: corners.map(corner => this.rotatePoint(corner, center, item.rotation || 0))
+    };
+  }
+
+  /**
+   * Signed separation between two shapes in pixels.
+   * Positive values are the gap between the shapes, negative values the penetration depth.
+   */
+  static getSeparation(a: Shape2D, b: Shape2D): number {
+    if (a.kind === 'circle' && b.kind === 'circle') {
+      const distance = Math.hypot(a.center.x - b.center.x, a.center.y - b.center.y);
+      return distance - a.radius - b.radius;
+    }
+    if (a.kind === 'circle' && b.kind === 'polygon') {
+      return this.getPolygonPointSeparation(b.points, a.center) - a.radius;
+    }
+    if (a.kind === 'polygon' && b.kind === 'circle') {
+      return this.getPolygonPointSeparation(a.points, b.center) - b.radius;
+    }
+    if (a.kind === 'polygon' && b.kind === 'polygon') {
+      return this.getPolygonSeparation(a.points, b.points);
+    }
+    return Infinity;
+  }
+
+  /**
+   * Check whether a point lies inside a convex or concave polygon
+   */
+  static isPointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const pi = polygon[i];
+      const pj = polygon[j];
+      if ((pi.y > point.y) !== (pj.y > point.y) &&
+          point.x < (pj.x - pi.x) * (point.y - pi.y) / (pj.y - pi.y) + pi.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  /**
+   * Distance from a point to a line segment
+   */
+  static getPointSegmentDistance(point: Point2D, start: Point2D, end: Point2D): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) {
+      return Math.hypot(point.x - start.x, point.y - start.y);
+    }
+    const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+    return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+  }
+
+  /**
+   * Signed distance from a point to a polygon boundary (negative when the point is inside)
+   */
+  static getPolygonPointSeparation(polygon: Point2D[], point: Point2D): number {
+    let minDistance = Infinity;
+    for (let i = 0; i < polygon.length; i++) {
+      const distance = this.getPointSegmentDistance(point, polygon[i], polygon[(i + 1) % polygon.length]);
+      minDistance = Math.min(minDistance, distance);
+    }
+    return this.isPointInPolygon(point, polygon) ? -minDistance : minDistance;
+  }
+
+  /**
+   * Signed separation between two convex polygons using the separating axis theorem
+   */
+  private static getPolygonSeparation(a: Point2D[], b: Point2D[]): number {
+    let minOverlap = Infinity;
+
+    for (const polygon of [a, b]) {
+      for (let i = 0; i < polygon.length; i++) {
+        const start = polygon[i];
+        const end = polygon[(i + 1) % polygon.length];
+        const length = Math.hypot(end.x - start.x, end.y - start.y);
+        if (length === 0) continue;
+        const axis = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+
+        const projectA = a.map(p => p.x * axis.x + p.y * axis.y);
+        const projectB = b.map(p => p.x * axis.x + p.y * axis.y);
+        const overlap = Math.min(Math.max(...projectA) - Math.min(...projectB), Math.max(...projectB) - Math.min(...projectA));
+
+        if (overlap <= 0) {
+          // Separated: the exact gap is the closest vertex-to-edge distance
+          return this.getPolygonGap(a, b);
+        }
+        minOverlap = Math.min(minOverlap, overlap);
+      }
+    }
+
+    // Zero-size footprints have no edges to test and can only touch
+    if (minOverlap === Infinity) return this.getPolygonGap(a, b);
+
+    return -minOverlap;
+  }
+
+  /**
+   * Shortest distance between two non-intersecting polygons
+   */
+  private static getPolygonGap(a: Point2D[], b: Point2D[]): number {
+    let minDistance = Infinity;
+    for (const [from, to] of [[a, b], [b, a]]) {
+      for (const point of from) {
+        for (let i = 0; i < to.length; i++) {
+          minDistance = Math.min(minDistance, this.getPointSegmentDistance(point, to[i], to[(i + 1) % to.length]));
+        }
+      }
+    }
+    return minDistance;
+  }
+
+  /**
+   * Compare two items and return the most severe conflict between them, if any.
+   * Footprint overlap wins over clearance intrusion, which wins over minimum spacing.
+   */
+  static getConflictBetween(
+    a: PlacementFootprint,
+    b: PlacementFootprint,
+    pixelsPerFoot: number
+  ): { type: PlacementConflictType; distanceFeet: number } | null {
+    if (pixelsPerFoot <= 0) return null;
+
+    const footprintSeparation = this.getSeparation(this.getShape(a, pixelsPerFoot), this.getShape(b, pixelsPerFoot));
+    if (footprintSeparation < 0) {
+      return { type: 'overlap', distanceFeet: -footprintSeparation / pixelsPerFoot };
+    }
+
+    if (this.hasClearance(a) || this.hasClearance(b)) {
+      const clearanceSeparation = this.getSeparation(
+        this.getShape(a, pixelsPerFoot, true),
+        this.getShape(b, pixelsPerFoot, true)
+      );
+      if (clearanceSeparation < 0) {
+        return { type: 'clearance', distanceFeet: -clearanceSeparation / pixelsPerFoot };
+      }
+    }
+
+    const requiredSpacing = Math.max(a.minSpacing || 0, b.minSpacing || 0);
+    const gapFeet = footprintSeparation / pixelsPerFoot;
+    if (requiredSpacing > 0 && gapFeet < requiredSpacing) {
+      return { type: 'spacing', distanceFeet: requiredSpacing - gapFeet };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find every item that conflicts with the given item
+   */
+  static getConflictsForItem(
+    item: PlacementFootprint,
+    others: PlacementFootprint[],
+    pixelsPerFoot: number
+  ): PlacementConflict[] {
+    const conflicts: PlacementConflict[] = [];
+
+    others.forEach((other, index) => {
+      if (item.id && other.id === item.id) return;
+
+      const conflict = this.getConflictBetween(item, other, pixelsPerFoot);
+      if (conflict) {
+        conflicts.push({
+          itemId: other.id || `item-${index}`,
+          itemName: other.name || 'Unnamed item',
+          ...conflict
+        });
+      }
+    });
+
+    return conflicts;
+  }
+
+  /**
+   * Find every conflicting pair among a set of items
+   */
+  static findAllConflicts(items: PlacementFootprint[], pixelsPerFoot: number): ItemConflict[] {
+    const conflicts: ItemConflict[] = [];
+    const maxSpacing = items.reduce((max, item) => Math.max(max, item.minSpacing || 0), 0);
+
+    this.findCandidatePairs(items, pixelsPerFoot, maxSpacing * pixelsPerFoot).forEach(([i, j]) => {
+      const conflict = this.getConflictBetween(items[i], items[j], pixelsPerFoot);
+      if (conflict) {
+        conflicts.push({
+          itemId: items[i].id || `item-${i}`,
+          itemName: items[i].name || 'Unnamed item',
+          otherItemId: items[j].id || `item-${j}`,
+          otherItemName: items[j].name || 'Unnamed item',
+          ...conflict
+        });
+      }
+    });
+
+    return conflicts;
+  }
+
+  /**
+   * Find the pairs of items, by position in the list, whose clearance zones
+   * come within the reach of each other. Only these pairs need an exact check.
+   */
+  static findCandidatePairs(items: PlacementFootprint[], pixelsPerFoot: number, reach: number): [number, number][] {
+    if (pixelsPerFoot <= 0) return [];
+
+    const index = SpatialIndexService.create(SpatialIndexService.getCellSize(pixelsPerFoot));
+    const keys = items.map((item, position) => String(position));
+    items.forEach((item, position) => {
+      SpatialIndexService.insert(index, keys[position], this.getItemBounds(item, pixelsPerFoot));
+    });
+
+    return SpatialIndexService.findNearbyPairs(index, keys, reach);
+  }
+
+  /**
+   * Axis-aligned bounds of one item, including rotation and its clearance zone
+   */
+  static getItemBounds(item: PlacementFootprint, pixelsPerFoot: number): Bounds {
+    return this.getShapeBounds(this.getShape(item, pixelsPerFoot, true));
+  }
+
+  /**
+   * Axis-aligned bounds of a shape
+   */
+  static getShapeBounds(shape: Shape2D): Bounds {
+    if (shape.kind === 'circle') {
+      return {
+        minX: shape.center.x - shape.radius,
+        minY: shape.center.y - shape.radius,
+        maxX: shape.center.x + shape.radius,
+        maxY: shape.center.y + shape.radius
+      };
+    }
+
+    return {
+      minX: Math.min(...shape.points.map(point => point.x)),
+      minY: Math.min(...shape.points.map(point => point.y)),
+      maxX: Math.max(...shape.points.map(point => point.x)),
+      maxY: Math.max(...shape.points.map(point => point.y))
+    };
+  }
+
+  /**
+   * Convert a shape to a polygon, approximating circles with the given number of segments
+   */
+  static toPolygon(shape: Shape2D, segments: number = 32): Point2D[] {
+    if (shape.kind === 'polygon') {
+      return shape.points;
+    }
+    const points: Point2D[] = [];
+    for (let i = 0; i < segments; i++) {
+      const angle = (i / segments) * Math.PI * 2;
+      points.push({
+        x: shape.center.x + Math.cos(angle) * shape.radius,
+        y: shape.center.y + Math.sin(angle) * shape.radius
+      });
+    }
+    return points;
+  }
+
+  /**
+   * Get the overlapping region of two convex shapes (Sutherland-Hodgman clipping)
+   */
+  static getIntersection(a: Shape2D, b: Shape2D): Point2D[] {
+    let output = this.toPolygon(a);
+    const clip = this.toPolygon(b);
+    const orientation = this.getSignedArea(clip) >= 0 ? 1 : -1;
+
+    for (let i = 0; i < clip.length && output.length > 0; i++) {
+      const edgeStart = clip[i];
+      const edgeEnd = clip[(i + 1) % clip.length];
+      const isInside = (p: Point2D) =>
+        orientation * ((edgeEnd.x - edgeStart.x) * (p.y - edgeStart.y) - (edgeEnd.y - edgeStart.y) * (p.x - edgeStart.x)) >= 0;
+      const intersect = (p1: Point2D, p2: Point2D): Point2D => {
+        const dx1 = p2.x - p1.x;
+        const dy1 = p2.y - p1.y;
+        const dx2 = edgeEnd.x - edgeStart.x;
+        const dy2 = edgeEnd.y - edgeStart.y;
+        const denominator = dx1 * dy2 - dy1 * dx2;
+        if (denominator === 0) return p1;
+        const t = ((edgeStart.x - p1.x) * dy2 - (edgeStart.y - p1.y) * dx2) / denominator;
+        return { x: p1.x + t * dx1, y: p1.y + t * dy1 };
+      };
+
+      const input = output;
+      output = [];
+      for (let j = 0; j < input.length; j++) {
+        const current = input[j];
+        const previous = input[(j + input.length - 1) % input.length];
+        if (isInside(current)) {
+          if (!isInside(previous)) {
+            output.push(intersect(previous, current));
+          }
+          output.push(current);
+        } else if (isInside(previous)) {
+          output.push(intersect(previous, current));
+        }
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Get the region where two conflicting items intrude on each other.
+   * Uses the footprints for overlaps and the clearance envelopes for clearance intrusions.
+   */
+  static getConflictRegion(
+    a: PlacementFootprint,
+    b: PlacementFootprint,
+    type: PlacementConflictType,
+    pixelsPerFoot: number
+  ): Point2D[] {
+    if (type === 'spacing') return [];
+    const includeClearance = type === 'clearance';
+    return this.getIntersection(
+      this.getShape(a, pixelsPerFoot, includeClearance),
+      this.getShape(b, pixelsPerFoot, includeClearance)
+    );
+  }
+
+  /**
+   * Axis-aligned bounds of a set of items, including rotation
+   */
+  static getBounds(items: PlacementFootprint[], pixelsPerFoot: number): { minX: number; minY: number; maxX: number; maxY: number } {
+    return items.reduce(
+      (acc, item) => {
+        this.toPolygon(this.getShape(item, pixelsPerFoot, true), 16).forEach(point => {
+          acc.minX = Math.min(acc.minX, point.x);
+          acc.minY = Math.min(acc.minY, point.y);
+          acc.maxX = Math.max(acc.maxX, point.x);
+          acc.maxY = Math.max(acc.maxY, point.y);
+        });
+        return acc;
+      },
+      { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    );
+  }
+
+  private static getSignedArea(polygon: Point2D[]): number {
+    let area = 0;
+    for (let i = 0; i < polygon.length; i++) {
+      const current = polygon[i];
+      const next = polygon[(i + 1) % polygon.length];
+      area += current.x * next.y - next.x * current.y;
+    }
+    return area / 2;
+  }
+
+  /**
+   * Check whether two line segments cross or touch
+   */
+  static segmentsIntersect(p1: Point2D, p2: Point2D, q1: Point2D, q2: Point2D): boolean {
+    const cross = (o: Point2D, a: Point2D, b: Point2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+    const onSegment = (o: Point2D, a: Point2D, p: Point2D) =>
+      Math.min(o.x, a.x) <= p.x && p.x <= Math.max(o.x, a.x) && Math.min(o.y, a.y) <= p.y && p.y <= Math.max(o.y, a.y);
+
+    const d1 = cross(q1, q2, p1);
+    const d2 = cross(q1, q2, p2);
+    const d3 = cross(p1, p2, q1);
+    const d4 = cross(p1, p2, q2);
+
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+      return true;
+    }
+    return (d1 === 0 && onSegment(q1, q2, p1)) ||
+      (d2 === 0 && onSegment(q1, q2, p2)) ||
+      (d3 === 0 && onSegment(p1, p2, q1)) ||
+      (d4 === 0 && onSegment(p1, p2, q2));
+  }
+
+  /**
+   * Classify an item, including its clearance zone, against a closed lot perimeter
+   */
+  static getPerimeterStatus(item: PlacementFootprint, perimeter: Point2D[], pixelsPerFoot: number): PerimeterStatus {
+    if (perimeter.length < 3) return 'inside';
+
+    const envelope = this.toPolygon(this.getShape(item, pixelsPerFoot, true));
+    const crossesBoundary = envelope.some((start, i) => {
+      const end = envelope[(i + 1) % envelope.length];
+      return perimeter.some((edgeStart, j) => this.segmentsIntersect(start, end, edgeStart, perimeter[(j + 1) % perimeter.length]));
+    });
+    if (crossesBoundary) return 'straddling';
+
+    // Without any crossing edges the envelope is either fully inside or fully outside
+    return this.isPointInPolygon(envelope[0], perimeter) ? 'inside' : 'outside';
+  }
+
+  /**
+   * Find every item that sits outside or straddles the lot perimeter
+   */
+  static findPerimeterViolations(items: PlacementFootprint[], perimeter: Point2D[], pixelsPerFoot: number): PerimeterViolation[] {
+    if (perimeter.length < 3 || pixelsPerFoot <= 0) return [];
+
+    const violations: PerimeterViolation[] = [];
+    items.forEach((item, index) => {
+      const status = this.getPerimeterStatus(item, perimeter, pixelsPerFoot);
+      if (status === 'inside') return;
+
+      // Furthest point of the envelope beyond the boundary
+      const envelope = this.toPolygon(this.getShape(item, pixelsPerFoot, true));
+      const overhang = envelope.reduce(
+        (max, point) => Math.max(max, this.getPolygonPointSeparation(perimeter, point)),
+        0
+      );
+
+      violations.push({
+        itemId: item.id || `item-${index}`,
+        itemName: item.name || 'Unnamed item',
+        status,
+        distanceFeet: overhang / pixelsPerFoot
+      });
+    });
+
+    return violations;
+  }
+
+  /**
+   * Describe a perimeter violation for display
+   */
+  static describePerimeterViolation(violation: PerimeterViolation): string {
+    const distance = violation.distanceFeet < 10 ? violation.distanceFeet.toFixed(1) : Math.round(violation.distanceFeet).toString();
+    return violation.status === 'outside'
+      ? `Outside the lot perimeter (${distance} ft beyond)`
+      : `Straddles the lot perimeter by ${distance} ft`;
+  }
+
+  /**
+   * Describe a conflict for display
+   */
+  static describeConflict(conflict: PlacementConflict): string {
+    const distance = conflict.distanceFeet < 10 ? conflict.distanceFeet.toFixed(1) : Math.round(conflict.distanceFeet).toString();
+    switch (conflict.type) {
+      case 'overlap':
+        return `Overlaps ${conflict.itemName} by ${distance} ft`;
+      case 'clearance':
+        return `Clearance zone intrudes on ${conflict.itemName} by ${distance} ft`;
+      case 'spacing':
+        return `${distance} ft short of minimum spacing from ${conflict.itemName}`;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { CorridorService, CorridorPath } from './corridorService';
+import { PlacementFootprint } from './collisionService';
+
+// 20 ft wide at 2 px/ft, so the lane reaches 20 px either side of its centerline
+const PIXELS_PER_FOOT = 2;
+const straightLane: CorridorPath = { id: 'lane', name: 'Fire lane', points: [{ x: 0, y: 0 }, { x: 200, y: 0 }], width: 20 };
+
+const box = (id: string, x: number, y: number, extra: Partial<PlacementFootprint> = {}): PlacementFootprint =>
+  ({ id, name: id, x, y, width: 20, height: 20, ...extra });
+
+describe('CorridorService', () => {
+  test('keeps the full width of a straight lane with nothing in it', () => {
+    const check = CorridorService.checkCorridor(straightLane, [box('stand', 50, 30), box('booth', 120, -50)], PIXELS_PER_FOOT);
+
+    expect(check.intrusions).toEqual([]);
+    expect(check.clearWidthFeet).toBe(20);
+    expect(check.pinchSpan).toBeNull();
+    expect(check.lengthFeet).toBe(100);
+  });
+
+  test('measures the width left beside one item reaching into the lane', () => {
+    // The stand reaches 10 px past the lane edge
+    const check = CorridorService.checkCorridor(straightLane, [box('stand', 90, 10)], PIXELS_PER_FOOT);
+
+    expect(check.intrusions).toEqual([
+      expect.objectContaining({ itemId: 'stand', type: 'footprint', distanceFeet: 5 })
+    ]);
+    expect(check.clearWidthFeet).toBeCloseTo(15);
+
+    const [near, far] = check.pinchSpan!;
+    expect(near.y).toBeCloseTo(10);
+    expect(far.y).toBeCloseTo(-20);
+    expect(near.x).toBeGreaterThanOrEqual(90);
+    expect(near.x).toBeLessThanOrEqual(110);
+  });
+
+  test('tells clearance zones in the lane apart from footprints', () => {
+    // The footprint stays 5 px outside the lane, but 5 ft (10 px) of clearance reaches in
+    const check = CorridorService.checkCorridor(straightLane, [box('ride', 90, 25, { clearanceTop: 5 })], PIXELS_PER_FOOT);
+
+    expect(check.intrusions).toEqual([
+      expect.objectContaining({ itemId: 'ride', type: 'clearance', distanceFeet: 2.5 })
+    ]);
+    expect(check.clearWidthFeet).toBeCloseTo(17.5);
+  });
+
+  test('follows a lane around a bend', () => {
+    const bentLane: CorridorPath = { ...straightLane, points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }] };
+    // Beside the second leg, 10 px off its centerline, and well clear of the first
+    const check = CorridorService.checkCorridor(bentLane, [box('generator', 110, 50)], PIXELS_PER_FOOT);
+
+    expect(check.lengthFeet).toBe(100);
+    expect(check.intrusions).toEqual([
+      expect.objectContaining({ itemId: 'generator', type: 'footprint', distanceFeet: 5 })
+    ]);
+    expect(check.clearWidthFeet).toBeCloseTo(15);
+    expect(check.pinchSpan![1].x).toBeCloseTo(110);
+  });
+
+  test('skips lanes that cannot be checked', () => {
+    const item = [box('stand', 90, 10)];
+
+    expect(CorridorService.checkCorridor({ ...straightLane, points: [{ x: 0, y: 0 }] }, item, PIXELS_PER_FOOT).intrusions).toEqual([]);
+    expect(CorridorService.checkCorridor({ ...straightLane, width: 0 }, item, PIXELS_PER_FOOT).intrusions).toEqual([]);
+    expect(CorridorService.checkCorridor(straightLane, item, 0).intrusions).toEqual([]);
+  });
+});
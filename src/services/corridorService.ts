@@ -0,0 +1,214 @@
+import { CollisionService, PlacementFootprint, Point2D, Shape2D } from './collisionService';
+
+/**
+ * A fire lane or emergency access route: a centerline polyline in canvas
+ * pixels and the clear width in feet that must be kept free of equipment
+ */
+export interface CorridorPath {
+  id: string;
+  name: string;
+  points: Point2D[];
+  width: number;
+}
+
+export type CorridorIntrusionType = 'footprint' | 'clearance';
+
+export interface CorridorIntrusion {
+  corridorId: string;
+  corridorName: string;
+  itemId: string;
+  itemName: string;
+  type: CorridorIntrusionType;
+  distanceFeet: number; // How far the item reaches into the corridor
+}
+
+export interface CorridorCheck {
+  corridorId: string;
+  corridorName: string;
+  widthFeet: number;
+  lengthFeet: number;
+  clearWidthFeet: number; // Narrowest clear width left inside the corridor
+  pinchSpan: [Point2D, Point2D] | null; // The clear gap across the corridor at its narrowest point
+  intrusions: CorridorIntrusion[];
+}
+
+export class CorridorService {
+  /**
+   * Get the centerline length of a corridor in feet
+   */
+  static getLengthFeet(points: Point2D[], pixelsPerFoot: number): number {
+    if (pixelsPerFoot <= 0) return 0;
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+    return length / pixelsPerFoot;
+  }
+
+  /**
+   * Shortest distance from a line segment to a shape in pixels (0 when they touch or cross)
+   */
+  static getSegmentShapeDistance(start: Point2D, end: Point2D, shape: Shape2D): number {
+    if (shape.kind === 'circle') {
+      return Math.max(0, CollisionService.getPointSegmentDistance(shape.center, start, end) - shape.radius);
+    }
+
+    const polygon = shape.points;
+    if (CollisionService.isPointInPolygon(start, polygon)) return 0;
+
+    let minDistance = Infinity;
+    for (let i = 0; i < polygon.length; i++) {
+      const edgeStart = polygon[i];
+      const edgeEnd = polygon[(i + 1) % polygon.length];
+      if (CollisionService.segmentsIntersect(start, end, edgeStart, edgeEnd)) return 0;
+
+      minDistance = Math.min(
+        minDistance,
+        CollisionService.getPointSegmentDistance(start, edgeStart, edgeEnd),
+        CollisionService.getPointSegmentDistance(end, edgeStart, edgeEnd),
+        CollisionService.getPointSegmentDistance(edgeStart, start, end)
+      );
+    }
+    return minDistance;
+  }
+
+  /**
+   * Shortest distance from a corridor centerline to a shape in pixels
+   */
+  static getCenterlineDistance(points: Point2D[], shape: Shape2D): number {
+    if (points.length === 1) {
+      return Math.max(0, this.getSegmentShapeDistance(points[0], points[0], shape));
+    }
+    let minDistance = Infinity;
+    for (let i = 1; i < points.length; i++) {
+      minDistance = Math.min(minDistance, this.getSegmentShapeDistance(points[i - 1], points[i], shape));
+    }
+    return minDistance;
+  }
+
+  /**
+   * Distance along a ray to the first polygon it hits, up to maxDistance
+   */
+  private static castRay(origin: Point2D, direction: Point2D, polygons: Point2D[][], maxDistance: number): number {
+    let nearest = maxDistance;
+    for (const polygon of polygons) {
+      if (CollisionService.isPointInPolygon(origin, polygon)) return 0;
+
+      for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i];
+        const b = polygon[(i + 1) % polygon.length];
+        const edge = { x: b.x - a.x, y: b.y - a.y };
+        const denominator = direction.x * edge.y - direction.y * edge.x;
+        if (denominator === 0) continue;
+
+        const offset = { x: a.x - origin.x, y: a.y - origin.y };
+        const t = (offset.x * edge.y - offset.y * edge.x) / denominator;
+        const u = (offset.x * direction.y - offset.y * direction.x) / denominator;
+        if (t >= 0 && u >= 0 && u <= 1) {
+          nearest = Math.min(nearest, t);
+        }
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Validate a corridor against placed equipment. Reports every footprint or
+   * clearance zone reaching into the corridor, and the narrowest clear width
+   * measured across the corridor along its length.
+   */
+  static checkCorridor(corridor: CorridorPath, items: PlacementFootprint[], pixelsPerFoot: number): CorridorCheck {
+    const check: CorridorCheck = {
+      corridorId: corridor.id,
+      corridorName: corridor.name,
+      widthFeet: corridor.width,
+      lengthFeet: this.getLengthFeet(corridor.points, pixelsPerFoot),
+      clearWidthFeet: corridor.width,
+      pinchSpan: null,
+      intrusions: []
+    };
+    if (corridor.points.length < 2 || pixelsPerFoot <= 0 || corridor.width <= 0) return check;
+
+    const halfWidth = corridor.width * pixelsPerFoot / 2;
+    const obstacles: Point2D[][] = [];
+
+    items.forEach(item => {
+      const footprintDistance = this.getCenterlineDistance(corridor.points, CollisionService.getShape(item, pixelsPerFoot));
+      const envelope = CollisionService.getShape(item, pixelsPerFoot, true);
+      const envelopeDistance = CollisionService.hasClearance(item)
+        ? this.getCenterlineDistance(corridor.points, envelope)
+        : footprintDistance;
+
+      if (envelopeDistance >= halfWidth) return;
+      obstacles.push(CollisionService.toPolygon(envelope, 16));
+
+      const type: CorridorIntrusionType = footprintDistance < halfWidth ? 'footprint' : 'clearance';
+      check.intrusions.push({
+        corridorId: corridor.id,
+        corridorName: corridor.name,
+        itemId: item.id || '',
+        itemName: item.name || 'Unnamed item',
+        type,
+        distanceFeet: (halfWidth - (type === 'footprint' ? footprintDistance : envelopeDistance)) / pixelsPerFoot
+      });
+    });
+
+    if (obstacles.length === 0) return check;
+
+    // Sweep the centerline about once per foot and measure the clear span across the corridor
+    let narrowest = corridor.width * pixelsPerFoot;
+    for (let i = 1; i < corridor.points.length; i++) {
+      const start = corridor.points[i - 1];
+      const end = corridor.points[i];
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      if (length === 0) continue;
+
+      const normal = { x: -(end.y - start.y) / length, y: (end.x - start.x) / length };
+      const steps = Math.min(400, Math.max(1, Math.ceil(length / Math.max(pixelsPerFoot, 1))));
+      for (let step = 0; step <= steps; step++) {
+        const t = step / steps;
+        const point = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+        const left = this.castRay(point, normal, obstacles, halfWidth);
+        const right = this.castRay(point, { x: -normal.x, y: -normal.y }, obstacles, halfWidth);
+
+        if (left + right < narrowest) {
+          narrowest = left + right;
+          check.pinchSpan = [
+            { x: point.x + normal.x * left, y: point.y + normal.y * left },
+            { x: point.x - normal.x * right, y: point.y - normal.y * right }
+          ];
+        }
+      }
+    }
+    check.clearWidthFeet = narrowest / pixelsPerFoot;
+
+    return check;
+  }
+
+  /**
+   * Validate every corridor against placed equipment
+   */
+  static checkAll(corridors: CorridorPath[], items: PlacementFootprint[], pixelsPerFoot: number): CorridorCheck[] {
+    return corridors.map(corridor => this.checkCorridor(corridor, items, pixelsPerFoot));
+  }
+
+  /**
+   * Describe the result of a corridor check for display
+   */
+  static describeCheck(check: CorridorCheck): string {
+    if (check.intrusions.length === 0) {
+      return `Clear: ${check.widthFeet} ft wide, ${Math.round(check.lengthFeet)} ft long`;
+    }
+    return `Narrowest clear width ${check.clearWidthFeet.toFixed(1)} ft of ${check.widthFeet} ft required`;
+  }
+
+  /**
+   * Describe an intrusion for display
+   */
+  static describeIntrusion(intrusion: CorridorIntrusion): string {
+    const distance = intrusion.distanceFeet < 10 ? intrusion.distanceFeet.toFixed(1) : Math.round(intrusion.distanceFeet).toString();
+    return intrusion.type === 'footprint'
+      ? `${intrusion.itemName} blocks ${intrusion.corridorName} by ${distance} ft`
+      : `${intrusion.itemName} clearance zone reaches ${distance} ft into ${intrusion.corridorName}`;
+  }
+}
@@ -0,0 +1,24 @@
+import { EquipmentService } from './equipmentService';
+import { PlacementFootprint } from './collisionService';
+
+const box = (id: string, x: number, y: number): PlacementFootprint => ({ id, name: id, x, y, width: 20, height: 20 });
+
+describe('EquipmentService placement validation', () => {
+  test('accepts an item clear of the others', () => {
+    expect(EquipmentService.validatePlacement(box('stand', 50, 0), [box('booth', 0, 0)], 1)).toEqual({
+      valid: true,
+      outOfBounds: false,
+      conflicts: [],
+      ruleViolations: []
+    });
+  });
+
+  test('still finds overlaps for an item past the image edge', () => {
+    const validation = EquipmentService.validatePlacement(box('stand', -5, 0), [box('booth', 0, 0)], 1);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.outOfBounds).toBe(true);
+    expect(validation.conflicts).toEqual([{ itemId: 'booth', itemName: 'booth', type: 'overlap', distanceFeet: 15 }]);
+    expect(validation.error).toMatch(/negative coordinates; Overlaps booth/);
+  });
+});
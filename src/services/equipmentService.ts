@@ -1,3 +1,6 @@
+import { CollisionService, PlacementConflict, PlacementFootprint } from './collisionService';
+import { SpacingRule, SpacingRuleService, SpacingRuleViolation } from './spacingRuleService';
+
 // Equipment Category Type
 export type EquipmentCategory = 
   | 'mega-rides'
@@ -593,32 +596,36 @@ export class EquipmentService {
   }
 
   /**
-   * Validate equipment placement
+   * Validate equipment placement against the other items on the canvas.
+   * Checks rotated footprints, clearance zones and minimum spacing, and reports
+   * every conflicting item with the intrusion distance in feet. Project spacing
+   * rules are evaluated alongside and reported as named violations.
    */
   static validatePlacement(
-    newItem: {
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-      minSpacing?: number;
-    },
-    existingItems: Array<{
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-      minSpacing?: number;
-    }>,
-    pixelsPerFoot: number
-  ): { valid: boolean; error?: string } {
-    // Basic validation - can be expanded with collision detection
-    if (newItem.x < 0 || newItem.y < 0) {
-      return { valid: false, error: 'Item cannot be placed at negative coordinates' };
+    newItem: PlacementFootprint,
+    existingItems: PlacementFootprint[],
+    pixelsPerFoot: number,
+    spacingRules: SpacingRule[] = []
+  ): { valid: boolean; error?: string; outOfBounds: boolean; conflicts: PlacementConflict[]; ruleViolations: SpacingRuleViolation[] } {
+    // Items past the image edge are still checked, so overlaps near the origin aren't hidden
+    const outOfBounds = newItem.x < 0 || newItem.y < 0;
+    const conflicts = CollisionService.getConflictsForItem(newItem, existingItems, pixelsPerFoot);
+    const ruleViolations = SpacingRuleService.getViolationsForItem(newItem, existingItems, spacingRules, pixelsPerFoot);
+    if (outOfBounds || conflicts.length > 0 || ruleViolations.length > 0) {
+      return {
+        valid: false,
+        error: [
+          ...(outOfBounds ? ['Item cannot be placed at negative coordinates'] : []),
+          ...conflicts.map(conflict => CollisionService.describeConflict(conflict)),
+          ...ruleViolations.map(violation => SpacingRuleService.describeViolation(violation))
+        ].join('; '),
+        outOfBounds,
+        conflicts,
+        ruleViolations
+      };
     }
-    
-    // For now, always return valid - collision detection can be added later
-    return { valid: true };
+
+    return { valid: true, outOfBounds: false, conflicts: [], ruleViolations: [] };
   }
 
   /**
@@ -0,0 +1,117 @@
+import { AffineGeoTransform, GeoService, GeoTransform } from './geoService';
+
+// Denver fairgrounds: far enough north that Web Mercator stretches the ground noticeably
+const DENVER = { lat: 39.74, lng: -104.99, zoom: 19 };
+const METERS_PER_FOOT = 0.3048;
+
+// Corners, center and an off-center point of a 1600 × 1200 canvas
+const CANVAS_POINTS = [[0, 0], [1600, 0], [1600, 1200], [0, 1200], [800, 600], [237.5, 911.25]];
+
+const expectRoundTrip = (transform: GeoTransform, digits: number) => {
+  CANVAS_POINTS.forEach(([x, y]) => {
+    const { lat, lng } = GeoService.canvasToLatLng(transform, x, y);
+    const back = GeoService.latLngToCanvas(transform, lat, lng);
+    expect(back.x).toBeCloseTo(x, digits);
+    expect(back.y).toBeCloseTo(y, digits);
+  });
+};
+
+describe('GeoService Web Mercator images', () => {
+  const transform = GeoService.fromStaticMap(DENVER);
+
+  test('puts the requested location at the center of the image', () => {
+    const center = GeoService.canvasToLatLng(transform, 800, 600);
+    expect(center.lat).toBeCloseTo(DENVER.lat, 10);
+    expect(center.lng).toBeCloseTo(DENVER.lng, 10);
+  });
+
+  test('converts canvas points to coordinates and back', () => {
+    expectRoundTrip(transform, 6);
+  });
+
+  test('converts coordinates to canvas points and back', () => {
+    const point = GeoService.latLngToCanvas(transform, 39.7405, -104.9893);
+    const back = GeoService.canvasToLatLng(transform, point.x, point.y);
+    expect(back.lat).toBeCloseTo(39.7405, 9);
+    expect(back.lng).toBeCloseTo(-104.9893, 9);
+  });
+
+  test('agrees with its affine form', () => {
+    const affine = GeoService.toAffine(transform);
+    CANVAS_POINTS.forEach(([x, y]) => {
+      const expected = GeoService.canvasToLatLng(transform, x, y);
+      const actual = GeoService.canvasToLatLng(affine, x, y);
+      expect(actual.lat).toBeCloseTo(expected.lat, 9);
+      expect(actual.lng).toBeCloseTo(expected.lng, 9);
+    });
+    expectRoundTrip(affine, 6);
+  });
+
+  test('shrinks pixels on the ground by the cosine of the latitude', () => {
+    // 156543 m per point at zoom 0 on the equator, halved per zoom level and by the image scale
+    const equatorFeet = (2 * Math.PI * 6378137) / (256 * Math.pow(2, DENVER.zoom)) / 2 / METERS_PER_FOOT;
+    const feetPerPixel = GeoService.getFeetPerPixel(transform, 800, 600);
+
+    // Tiles are drawn on a sphere but the ground is measured on the ellipsoid, which differs by a few tenths of a percent
+    expect(feetPerPixel.x / (equatorFeet * Math.cos((DENVER.lat * Math.PI) / 180))).toBeCloseTo(1, 2);
+    expect(feetPerPixel.y / feetPerPixel.x).toBeCloseTo(1, 2);
+  });
+});
+
+describe('GeoService world file images', () => {
+  test('converts between canvas points and coordinates on a UTM image', () => {
+    // 0.1 m pixels in UTM zone 13N, around the Denver fairgrounds
+    const transform: AffineGeoTransform = {
+      type: 'affine',
+      matrix: [0.1, 0, 501000, 0, -0.1, 4399000],
+      projection: { type: 'utm', zone: 13, south: false },
+      imageWidth: 1600,
+      imageHeight: 1200
+    };
+    const corner = GeoService.canvasToLatLng(transform, 0, 0);
+
+    expect(corner.lat).toBeCloseTo(39.74, 1);
+    expect(corner.lng).toBeCloseTo(-104.99, 1);
+    // The projection series are good to a fraction of a millimeter, a small part of a pixel
+    expectRoundTrip(transform, 2);
+  });
+
+  test('converts between canvas points and coordinates on a southern UTM image', () => {
+    // Sydney Showground, UTM zone 56S
+    const transform: AffineGeoTransform = {
+      type: 'affine',
+      matrix: [0.2, 0, 318000, 0, -0.2, 6253000],
+      projection: { type: 'utm', zone: 56, south: true },
+      imageWidth: 1600,
+      imageHeight: 1200
+    };
+    const corner = GeoService.canvasToLatLng(transform, 0, 0);
+
+    expect(corner.lat).toBeCloseTo(-33.84, 1);
+    expectRoundTrip(transform, 2);
+  });
+
+  test('converts between canvas points and coordinates on a rotated latitude/longitude image', () => {
+    const transform: AffineGeoTransform = {
+      type: 'affine',
+      matrix: [0.000002, 0.0000005, 10.75, 0.0000005, -0.000001, 59.91],
+      projection: { type: 'geographic' },
+      imageWidth: 1600,
+      imageHeight: 1200
+    };
+
+    expectRoundTrip(transform, 6);
+  });
+
+  test('puts the central meridian of a UTM zone at the false easting', () => {
+    const projection = { type: 'utm' as const, zone: 13, south: false };
+    const origin = GeoService.latLngToProjected(projection, 0, -105);
+    expect(origin.x).toBeCloseTo(500000, 3);
+    expect(origin.y).toBeCloseTo(0, 3);
+
+    const projected = GeoService.latLngToProjected(projection, DENVER.lat, DENVER.lng);
+    const back = GeoService.projectedToLatLng(projection, projected.x, projected.y);
+    expect(back.lat).toBeCloseTo(DENVER.lat, 9);
+    expect(back.lng).toBeCloseTo(DENVER.lng, 9);
+  });
+});
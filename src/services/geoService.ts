@@ -0,0 +1,385 @@
+import { GoogleMapsLocation, GoogleMapsOptions } from './googleMapsService';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Ties canvas pixels to the ground. Google Static Maps images are Web
+ * Mercator tiles centered on a known point, so the center, zoom and image
+ * size are enough to locate every pixel.
+ */
+export interface WebMercatorGeoTransform {
+  type: 'web-mercator';
+  centerLat: number;
+  centerLng: number;
+  zoom: number;
+  scale: number; // Image pixels per map point (Static Maps "scale" parameter)
+  imageWidth: number; // in image pixels
+  imageHeight: number;
+}
+
+/**
+ * Map projections that coordinates from world files and GeoTIFFs can be
+ * converted from. Geographic coordinates are in degrees, the others in meters.
+ */
+export type MapProjection =
+  | { type: 'geographic' }
+  | { type: 'web-mercator' }
+  | { type: 'utm'; zone: number; south: boolean };
+
+/**
+ * Georeferencing read from a world file or GeoTIFF: an affine map from canvas
+ * pixels (origin at the top-left corner of the image) to projected coordinates
+ */
+export interface AffineGeoTransform {
+  type: 'affine';
+  matrix: number[]; // [a, b, c, d, e, f]: mapX = a * x + b * y + c, mapY = d * x + e * y + f
+  projection: MapProjection;
+  imageWidth: number; // in image pixels
+  imageHeight: number;
+}
+
+export type GeoTransform = WebMercatorGeoTransform | AffineGeoTransform;
+
+const TILE_SIZE = 256;
+const MAX_MERCATOR_LATITUDE = 85.05112878;
+
+// WGS 84 ellipsoid
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257223563;
+const ECCENTRICITY_SQUARED = FLATTENING * (2 - FLATTENING);
+const UTM_SCALE_FACTOR = 0.9996;
+const METERS_PER_FOOT = 0.3048;
+
+export class GeoService {
+  /**
+   * Build the geotransform for a Google Static Maps image
+   */
+  static fromStaticMap(location: GoogleMapsLocation, options: Partial<GoogleMapsOptions> = {}): WebMercatorGeoTransform {
+    const { width = 800, height = 600, scale = 2 } = options;
+    return {
+      type: 'web-mercator',
+      centerLat: location.lat,
+      centerLng: location.lng,
+      zoom: location.zoom,
+      scale,
+      imageWidth: width * scale,
+      imageHeight: height * scale
+    };
+  }
+
+  /**
+   * Express a geotransform as an affine map from canvas pixels to projected
+   * coordinates. Static Maps images are exactly affine in Web Mercator meters.
+   */
+  static toAffine(transform: GeoTransform): AffineGeoTransform {
+    if (transform.type === 'affine') return transform;
+
+    const metersPerWorldPoint = (2 * Math.PI * SEMI_MAJOR_AXIS) / (TILE_SIZE * Math.pow(2, transform.zoom));
+    const metersPerPixel = metersPerWorldPoint / transform.scale;
+    const center = this.latLngToWorld(transform.centerLat, transform.centerLng, transform.zoom);
+    const originX = center.x - transform.imageWidth / 2 / transform.scale;
+    const originY = center.y - transform.imageHeight / 2 / transform.scale;
+    return {
+      type: 'affine',
+      matrix: [
+        metersPerPixel, 0, originX * metersPerWorldPoint - Math.PI * SEMI_MAJOR_AXIS,
+        0, -metersPerPixel, Math.PI * SEMI_MAJOR_AXIS - originY * metersPerWorldPoint
+      ],
+      projection: { type: 'web-mercator' },
+      imageWidth: transform.imageWidth,
+      imageHeight: transform.imageHeight
+    };
+  }
+
+  /**
+   * Carry a geotransform over to a resampled copy of its image, given the
+   * affine map [a, b, c, d, e, f] from new image pixels back to the old ones
+   */
+  static resample(transform: GeoTransform, toSource: number[], imageWidth: number, imageHeight: number): AffineGeoTransform {
+    const affine = this.toAffine(transform);
+    const [a, b, c, d, e, f] = affine.matrix;
+    const [p, q, r, s, t, u] = toSource;
+    return {
+      type: 'affine',
+      matrix: [
+        a * p + b * s, a * q + b * t, a * r + b * u + c,
+        d * p + e * s, d * q + e * t, d * r + e * u + f
+      ],
+      projection: affine.projection,
+      imageWidth,
+      imageHeight
+    };
+  }
+
+  /**
+   * Convert a canvas point to latitude and longitude
+   */
+  static canvasToLatLng(transform: GeoTransform, x: number, y: number): LatLng {
+    if (transform.type === 'affine') {
+      const [a, b, c, d, e, f] = transform.matrix;
+      return this.projectedToLatLng(transform.projection, a * x + b * y + c, d * x + e * y + f);
+    }
+
+    const center = this.latLngToWorld(transform.centerLat, transform.centerLng, transform.zoom);
+    return this.worldToLatLng(
+      center.x + (x - transform.imageWidth / 2) / transform.scale,
+      center.y + (y - transform.imageHeight / 2) / transform.scale,
+      transform.zoom
+    );
+  }
+
+  /**
+   * Convert latitude and longitude to a canvas point
+   */
+  static latLngToCanvas(transform: GeoTransform, lat: number, lng: number): { x: number; y: number } {
+    if (transform.type === 'affine') {
+      const [a, b, c, d, e, f] = transform.matrix;
+      const projected = this.latLngToProjected(transform.projection, lat, lng);
+      const determinant = a * e - b * d;
+      const dx = projected.x - c;
+      const dy = projected.y - f;
+      return {
+        x: (e * dx - b * dy) / determinant,
+        y: (a * dy - d * dx) / determinant
+      };
+    }
+
+    const center = this.latLngToWorld(transform.centerLat, transform.centerLng, transform.zoom);
+    const point = this.latLngToWorld(lat, lng, transform.zoom);
+    return {
+      x: transform.imageWidth / 2 + (point.x - center.x) * transform.scale,
+      y: transform.imageHeight / 2 + (point.y - center.y) * transform.scale
+    };
+  }
+
+  /**
+   * Measure the ground size of a canvas pixel around a point, in feet along
+   * the image's X and Y axes. The two differ when the projection stretches the
+   * image, as latitude/longitude rasters do away from the equator.
+   */
+  static getFeetPerPixel(transform: GeoTransform, x: number, y: number): { x: number; y: number } {
+    // A few dozen pixels keeps the measurement local but well clear of rounding error
+    const step = 25;
+    const groundFeet = (x1: number, y1: number, x2: number, y2: number) =>
+      this.getGroundDistance(this.canvasToLatLng(transform, x1, y1), this.canvasToLatLng(transform, x2, y2)) / METERS_PER_FOOT;
+
+    return {
+      x: groundFeet(x - step, y, x + step, y) / (2 * step),
+      y: groundFeet(x, y - step, x, y + step) / (2 * step)
+    };
+  }
+
+  /**
+   * Distance in meters between two nearby points on the WGS 84 ellipsoid.
+   * Accurate to a few millimeters over the size of a lot.
+   */
+  static getGroundDistance(from: LatLng, to: LatLng): number {
+    const latitude = ((from.lat + to.lat) / 2) * (Math.PI / 180);
+    const sinLat = Math.sin(latitude);
+    const denominator = 1 - ECCENTRICITY_SQUARED * sinLat * sinLat;
+    const meridionalRadius = (SEMI_MAJOR_AXIS * (1 - ECCENTRICITY_SQUARED)) / Math.pow(denominator, 1.5);
+    const primeVerticalRadius = SEMI_MAJOR_AXIS / Math.sqrt(denominator);
+
+    const north = meridionalRadius * (to.lat - from.lat) * (Math.PI / 180);
+    const east = primeVerticalRadius * Math.cos(latitude) * (to.lng - from.lng) * (Math.PI / 180);
+    return Math.sqrt(north * north + east * east);
+  }
+
+  /**
+   * Convert projected coordinates to latitude and longitude
+   */
+  static projectedToLatLng(projection: MapProjection, x: number, y: number): LatLng {
+    switch (projection.type) {
+      case 'geographic':
+        return { lat: y, lng: x };
+      case 'web-mercator':
+        return {
+          lat: (2 * Math.atan(Math.exp(y / SEMI_MAJOR_AXIS)) - Math.PI / 2) * (180 / Math.PI),
+          lng: (x / SEMI_MAJOR_AXIS) * (180 / Math.PI)
+        };
+      case 'utm':
+        return this.utmToLatLng(projection.zone, projection.south, x, y);
+    }
+  }
+
+  /**
+   * Convert latitude and longitude to projected coordinates
+   */
+  static latLngToProjected(projection: MapProjection, lat: number, lng: number): { x: number; y: number } {
+    switch (projection.type) {
+      case 'geographic':
+        return { x: lng, y: lat };
+      case 'web-mercator': {
+        const clampedLat = Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, lat));
+        return {
+          x: SEMI_MAJOR_AXIS * lng * (Math.PI / 180),
+          y: SEMI_MAJOR_AXIS * Math.log(Math.tan(Math.PI / 4 + (clampedLat * Math.PI) / 360))
+        };
+      }
+      case 'utm':
+        return this.latLngToUtm(projection.zone, projection.south, lat, lng);
+    }
+  }
+
+  /**
+   * Project latitude and longitude to Web Mercator world points at a zoom level
+   */
+  static latLngToWorld(lat: number, lng: number, zoom: number): { x: number; y: number } {
+    const worldSize = TILE_SIZE * Math.pow(2, zoom);
+    const clampedLat = Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, lat));
+    const sinLat = Math.sin((clampedLat * Math.PI) / 180);
+    return {
+      x: ((lng + 180) / 360) * worldSize,
+      y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * worldSize
+    };
+  }
+
+  /**
+   * Convert Web Mercator world points at a zoom level back to latitude and longitude
+   */
+  static worldToLatLng(x: number, y: number, zoom: number): LatLng {
+    const worldSize = TILE_SIZE * Math.pow(2, zoom);
+    const lng = (x / worldSize) * 360 - 180;
+    const mercatorY = Math.PI * (1 - (2 * y) / worldSize);
+    const lat = (Math.atan(Math.sinh(mercatorY)) * 180) / Math.PI;
+    return { lat, lng };
+  }
+
+  /**
+   * Format coordinates as signed decimal degrees, precise to about 10 cm
+   */
+  static formatLatLng({ lat, lng }: LatLng): string {
+    return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+  }
+
+  /**
+   * Format coordinates with hemisphere letters, as shown on survey sheets
+   */
+  static formatLatLngHemisphere({ lat, lng }: LatLng): string {
+    return `${Math.abs(lat).toFixed(6)}° ${lat >= 0 ? 'N' : 'S'}, ${Math.abs(lng).toFixed(6)}° ${lng >= 0 ? 'E' : 'W'}`;
+  }
+
+  /**
+   * Parse coordinates typed or pasted from a survey. Accepts decimal degrees
+   * ("37.7749, -122.4194" or "37.7749 N 122.4194 W") and degrees, minutes
+   * and seconds ("37°46'29.6\"N 122°25'9.8\"W"). Returns null if the text
+   * isn't a valid pair.
+   */
+  static parseLatLng(text: string): LatLng | null {
+    const pattern = /(-?\d+(?:\.\d+)?)\s*°?\s*(?:(\d+(?:\.\d+)?)\s*['′]\s*)?(?:(\d+(?:\.\d+)?)\s*["″]\s*)?([NSEW])?/gi;
+    const parts: { value: number; hemisphere: string | null }[] = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null && parts.length < 3) {
+      const degrees = parseFloat(match[1]);
+      const minutes = match[2] ? parseFloat(match[2]) : 0;
+      const seconds = match[3] ? parseFloat(match[3]) : 0;
+      const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+      parts.push({
+        value: match[1].startsWith('-') ? -magnitude : magnitude,
+        hemisphere: match[4] ? match[4].toUpperCase() : null
+      });
+    }
+    if (parts.length !== 2) return null;
+
+    // Hemisphere letters decide the order and sign when present
+    let [first, second] = parts;
+    if (first.hemisphere === 'E' || first.hemisphere === 'W' || second.hemisphere === 'N' || second.hemisphere === 'S') {
+      [first, second] = [second, first];
+    }
+    const lat = first.hemisphere === 'S' ? -Math.abs(first.value) : first.value;
+    const lng = second.hemisphere === 'W' ? -Math.abs(second.value) : second.value;
+
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    return { lat, lng };
+  }
+
+  /**
+   * Transverse Mercator forward projection for a UTM zone (Snyder, USGS
+   * Professional Paper 1395, equations 8-9 to 8-15)
+   */
+  private static latLngToUtm(zone: number, south: boolean, lat: number, lng: number): { x: number; y: number } {
+    const e2 = ECCENTRICITY_SQUARED;
+    const ep2 = e2 / (1 - e2);
+    const phi = lat * (Math.PI / 180);
+    const lambda0 = ((zone - 1) * 6 - 180 + 3) * (Math.PI / 180);
+
+    const sinPhi = Math.sin(phi);
+    const cosPhi = Math.cos(phi);
+    const N = SEMI_MAJOR_AXIS / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+    const T = Math.tan(phi) * Math.tan(phi);
+    const C = ep2 * cosPhi * cosPhi;
+    const A = cosPhi * (lng * (Math.PI / 180) - lambda0);
+    const M = this.getMeridianArc(phi);
+
+    const x = UTM_SCALE_FACTOR * N * (
+      A + ((1 - T + C) * Math.pow(A, 3)) / 6 +
+      ((5 - 18 * T + T * T + 72 * C - 58 * ep2) * Math.pow(A, 5)) / 120
+    ) + 500000;
+    const y = UTM_SCALE_FACTOR * (M + N * Math.tan(phi) * (
+      (A * A) / 2 + ((5 - T + 9 * C + 4 * C * C) * Math.pow(A, 4)) / 24 +
+      ((61 - 58 * T + T * T + 600 * C - 330 * ep2) * Math.pow(A, 6)) / 720
+    ));
+
+    return { x, y: south ? y + 10000000 : y };
+  }
+
+  /**
+   * Transverse Mercator inverse projection for a UTM zone (Snyder, equations
+   * 7-19 and 8-17 to 8-25)
+   */
+  private static utmToLatLng(zone: number, south: boolean, easting: number, northing: number): LatLng {
+    const e2 = ECCENTRICITY_SQUARED;
+    const ep2 = e2 / (1 - e2);
+    const x = easting - 500000;
+    const y = south ? northing - 10000000 : northing;
+    const lambda0 = ((zone - 1) * 6 - 180 + 3) * (Math.PI / 180);
+
+    const M = y / UTM_SCALE_FACTOR;
+    const mu = M / (SEMI_MAJOR_AXIS * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * Math.pow(e2, 3)) / 256));
+    const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+    const phi1 = mu +
+      ((3 * e1) / 2 - (27 * Math.pow(e1, 3)) / 32) * Math.sin(2 * mu) +
+      ((21 * e1 * e1) / 16 - (55 * Math.pow(e1, 4)) / 32) * Math.sin(4 * mu) +
+      ((151 * Math.pow(e1, 3)) / 96) * Math.sin(6 * mu) +
+      ((1097 * Math.pow(e1, 4)) / 512) * Math.sin(8 * mu);
+
+    const sinPhi1 = Math.sin(phi1);
+    const cosPhi1 = Math.cos(phi1);
+    const N1 = SEMI_MAJOR_AXIS / Math.sqrt(1 - e2 * sinPhi1 * sinPhi1);
+    const T1 = Math.tan(phi1) * Math.tan(phi1);
+    const C1 = ep2 * cosPhi1 * cosPhi1;
+    const R1 = (SEMI_MAJOR_AXIS * (1 - e2)) / Math.pow(1 - e2 * sinPhi1 * sinPhi1, 1.5);
+    const D = x / (N1 * UTM_SCALE_FACTOR);
+
+    const phi = phi1 - ((N1 * Math.tan(phi1)) / R1) * (
+      (D * D) / 2 -
+      ((5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * ep2) * Math.pow(D, 4)) / 24 +
+      ((61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * ep2 - 3 * C1 * C1) * Math.pow(D, 6)) / 720
+    );
+    const lambda = lambda0 + (
+      D - ((1 + 2 * T1 + C1) * Math.pow(D, 3)) / 6 +
+      ((5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * ep2 + 24 * T1 * T1) * Math.pow(D, 5)) / 120
+    ) / cosPhi1;
+
+    return { lat: phi * (180 / Math.PI), lng: lambda * (180 / Math.PI) };
+  }
+
+  /**
+   * Distance along the meridian from the equator to a latitude, in meters
+   */
+  private static getMeridianArc(phi: number): number {
+    const e2 = ECCENTRICITY_SQUARED;
+    const e4 = e2 * e2;
+    const e6 = e4 * e2;
+    return SEMI_MAJOR_AXIS * (
+      (1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi)
+    );
+  }
+}
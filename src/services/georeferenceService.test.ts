@@ -0,0 +1,172 @@
+import { GeoreferenceService } from './georeferenceService';
+import { GeoService } from './geoService';
+import { TiffService } from './tiffService';
+
+const UTM_10N = { type: 'utm' as const, zone: 10, south: false };
+
+// Little-endian baseline TIFF with one uncompressed strip; tag values are [tag, field type, values]
+const buildTiff = (entries: [number, number, number[]][], pixels: Uint8Array): ArrayBuffer => {
+  const typeSizes: Record<number, number> = { 3: 2, 4: 4, 12: 8 };
+  const ifdOffset = 8 + pixels.length + (pixels.length % 2);
+  const dataStart = ifdOffset + 2 + entries.length * 12 + 4;
+  const dataSize = entries.reduce((total, [, type, values]) => {
+    const size = typeSizes[type] * values.length;
+    return total + (size > 4 ? size : 0);
+  }, 0);
+
+  const buffer = new ArrayBuffer(dataStart + dataSize);
+  const view = new DataView(buffer);
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+  new Uint8Array(buffer).set(pixels, 8);
+
+  const writeValues = (offset: number, type: number, values: number[]) => values.forEach((value, i) => {
+    if (type === 3) view.setUint16(offset + i * 2, value, true);
+    if (type === 4) view.setUint32(offset + i * 4, value, true);
+    if (type === 12) view.setFloat64(offset + i * 8, value, true);
+  });
+
+  view.setUint16(ifdOffset, entries.length, true);
+  let dataOffset = dataStart;
+  entries.forEach(([tag, type, values], index) => {
+    const entry = ifdOffset + 2 + index * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, values.length, true);
+    const size = typeSizes[type] * values.length;
+    if (size <= 4) {
+      writeValues(entry + 8, type, values);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      writeValues(dataOffset, type, values);
+      dataOffset += size;
+    }
+  });
+  return buffer;
+};
+
+// A 2 × 2 RGB drone ortho in WGS 84 / UTM zone 10N with 5 cm pixels
+const buildGeoTiff = (): ArrayBuffer => buildTiff([
+  [256, 3, [2]],
+  [257, 3, [2]],
+  [258, 3, [8, 8, 8]],
+  [259, 3, [1]],
+  [262, 3, [2]],
+  [273, 4, [8]],
+  [277, 3, [3]],
+  [278, 3, [2]],
+  [279, 4, [12]],
+  [33550, 12, [0.05, 0.05, 0]],
+  [33922, 12, [0, 0, 0, 551000, 4181000, 0]],
+  [34735, 3, [1, 1, 0, 3, 1024, 0, 1, 1, 1025, 0, 1, 1, 3072, 0, 1, 32610]]
+], new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255]));
+
+describe('GeoService UTM projection', () => {
+  test('puts the central meridian at 500 km east and the equator at 0 north', () => {
+    const origin = GeoService.latLngToProjected(UTM_10N, 0, -123);
+
+    expect(origin.x).toBeCloseTo(500000, 3);
+    expect(origin.y).toBeCloseTo(0, 3);
+  });
+
+  test('matches the published easting 3 degrees from the central meridian', () => {
+    expect(GeoService.latLngToProjected(UTM_10N, 0, -120).x).toBeCloseTo(833978.556, 2);
+    expect(GeoService.latLngToProjected(UTM_10N, 0, -126).x).toBeCloseTo(166021.444, 2);
+  });
+
+  test('converts back to the same latitude and longitude', () => {
+    [[37.7749, -122.4194], [48.5, -125.9], [-33.9, 151.2]].forEach(([lat, lng]) => {
+      const zone = Math.floor((lng + 180) / 6) + 1;
+      const projection = { type: 'utm' as const, zone, south: lat < 0 };
+      const projected = GeoService.latLngToProjected(projection, lat, lng);
+      const back = GeoService.projectedToLatLng(projection, projected.x, projected.y);
+
+      expect(back.lat).toBeCloseTo(lat, 8);
+      expect(back.lng).toBeCloseTo(lng, 8);
+    });
+  });
+});
+
+describe('GeoreferenceService world files', () => {
+  test('moves the reference point from the pixel center to its corner', () => {
+    const matrix = GeoreferenceService.parseWorldFile('0.05\n0.0\n0.0\n-0.05\n551000.025\n4180999.975\n');
+
+    expect(matrix).toEqual([0.05, 0, 551000, 0, -0.05, 4181000]);
+  });
+
+  test('rejects incomplete world files', () => {
+    expect(() => GeoreferenceService.parseWorldFile('0.05\n0\n0\n')).toThrow(/six numbers/);
+  });
+
+  test('reads UTM from OGC and ESRI projection files', () => {
+    const ogc = 'PROJCS["WGS 84 / UTM zone 10N",GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563]],' +
+      'UNIT["degree",0.0174532925199433],AUTHORITY["EPSG","4326"]],PROJECTION["Transverse_Mercator"],' +
+      'UNIT["metre",1,AUTHORITY["EPSG","9001"]],AUTHORITY["EPSG","32610"]]';
+    const esri = 'PROJCS["NAD_1983_UTM_Zone_11N",GEOGCS["GCS_North_American_1983",DATUM["D_North_American_1983",' +
+      'SPHEROID["GRS_1980",6378137.0,298.257222101]],UNIT["Degree",0.0174532925199433]],' +
+      'PROJECTION["Transverse_Mercator"],UNIT["Meter",1.0]]';
+
+    expect(GeoreferenceService.parseProjection(ogc).projection).toEqual(UTM_10N);
+    expect(GeoreferenceService.parseProjection(esri).projection).toEqual({ type: 'utm', zone: 11, south: false });
+  });
+
+  test('keeps the units of projections it cannot convert', () => {
+    const statePlane = 'PROJCS["NAD_1983_StatePlane_California_III_FIPS_0403_Feet",GEOGCS["GCS_North_American_1983"],' +
+      'PROJECTION["Lambert_Conformal_Conic"],UNIT["Foot_US",0.3048006096012192]]';
+    const coordinateSystem = GeoreferenceService.parseProjection(statePlane);
+    const georeference = GeoreferenceService.create('world-file', [0.25, 0, 6000000, 0, -0.25, 2100000], coordinateSystem, 100, 100);
+
+    expect(coordinateSystem.projection).toBeNull();
+    expect(georeference.geoTransform).toBeNull();
+    expect(georeference.pixelsPerFoot).toBeCloseTo(0.3048 / (0.25 * 0.3048006096012192), 6);
+  });
+
+  test('recognizes latitude/longitude world files and flags their stretched pixels', () => {
+    const matrix = [0.000001, 0, -122.42, 0, -0.000001, 37.78];
+    const coordinateSystem = GeoreferenceService.guessCoordinateSystem(matrix);
+    const georeference = GeoreferenceService.create('world-file', matrix, coordinateSystem, 1000, 1000);
+
+    expect(coordinateSystem.projection).toEqual({ type: 'geographic' });
+    expect(georeference.pixelAspect).toBeCloseTo(Math.cos(37.78 * Math.PI / 180), 2);
+    expect(GeoreferenceService.needsSquarePixels(georeference)).toBe(true);
+  });
+
+  test('pairs sidecars with the image by name', () => {
+    const image = new File([], 'lot.jpg');
+    const files = [new File([], 'other.jgw'), new File([], 'LOT.jgw'), new File([], 'lot.prj')];
+    const { worldFile, projectionFile } = GeoreferenceService.findSidecars(image, files);
+
+    expect(worldFile?.name).toBe('LOT.jgw');
+    expect(projectionFile?.name).toBe('lot.prj');
+  });
+});
+
+describe('GeoTIFF import', () => {
+  test('decodes an uncompressed RGB raster', async () => {
+    const raster = await TiffService.decode(buildGeoTiff());
+
+    expect(raster.width).toBe(2);
+    expect(raster.height).toBe(2);
+    expect(Array.from(raster.rgba.slice(0, 8))).toEqual([255, 0, 0, 255, 0, 255, 0, 255]);
+  });
+
+  test('calibrates and locates the raster from its GeoTIFF tags', () => {
+    const tags = TiffService.readTags(buildGeoTiff());
+    const georeference = GeoreferenceService.fromGeoTiffTags(tags, 1, 2, 2);
+
+    expect(georeference).not.toBeNull();
+    expect(georeference!.coordinateSystem.name).toBe('WGS 84 / UTM zone 10N');
+    // 5 cm pixels are 6.096 px/ft, less the UTM grid-to-ground scale of under 0.1%
+    expect(Math.abs(georeference!.pixelsPerFoot / 6.096 - 1)).toBeLessThan(0.001);
+
+    const corner = GeoService.canvasToLatLng(georeference!.geoTransform!, 0, 0);
+    const expected = GeoService.projectedToLatLng(UTM_10N, 551000, 4181000);
+    expect(corner.lat).toBeCloseTo(expected.lat, 9);
+    expect(corner.lng).toBeCloseTo(expected.lng, 9);
+
+    const back = GeoService.latLngToCanvas(georeference!.geoTransform!, expected.lat, expected.lng);
+    expect(back.x).toBeCloseTo(0, 2);
+    expect(back.y).toBeCloseTo(0, 2);
+  });
+});
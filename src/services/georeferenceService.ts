@@ -0,0 +1,346 @@
+import { GeoService, GeoTransform, MapProjection } from './geoService';
+import { TIFF_TAGS, TiffTagValue } from './tiffService';
+
+/**
+ * The coordinate system an image's map coordinates are in
+ */
+export interface CoordinateSystem {
+  name: string;
+  projection: MapProjection | null; // null when coordinates can't be converted to latitude/longitude
+  metersPerUnit: number; // Size of one projected coordinate unit; unused for latitude/longitude
+  unitsAssumed: boolean; // True when nothing in the files said what the units are
+}
+
+/**
+ * Scale and location read from a world file or GeoTIFF
+ */
+export interface ImageGeoreference {
+  source: 'world-file' | 'geotiff';
+  matrix: number[]; // [a, b, c, d, e, f] from image pixels (origin at the top-left corner) to map coordinates
+  coordinateSystem: CoordinateSystem;
+  pixelsPerFoot: number;
+  pixelAspect: number; // Ground width over ground height of one pixel
+  geoTransform: GeoTransform | null;
+}
+
+// Sidecar extensions: the image extension's first and last letters plus "w", the long forms, and the generic ".wld"
+const WORLD_FILE_EXTENSIONS = ['tfw', 'tifw', 'tiffw', 'pgw', 'pngw', 'jgw', 'jpgw', 'jpegw', 'gfw', 'gifw', 'wld'];
+
+const METERS_PER_US_SURVEY_FOOT = 1200 / 3937;
+
+export const LINEAR_UNITS: { name: string; metersPerUnit: number }[] = [
+  { name: 'Meters', metersPerUnit: 1 },
+  { name: 'Feet', metersPerUnit: 0.3048 },
+  { name: 'US survey feet', metersPerUnit: METERS_PER_US_SURVEY_FOOT }
+];
+
+// EPSG codes for the GeoTIFF linear units key
+const EPSG_LINEAR_UNITS: Record<number, number> = {
+  9001: 1,
+  9002: 0.3048,
+  9003: METERS_PER_US_SURVEY_FOOT
+};
+
+// GeoTIFF keys used here (GeoTIFF 1.1, section 7.1)
+const GEO_KEYS = {
+  MODEL_TYPE: 1024,
+  RASTER_TYPE: 1025,
+  CITATION: 1026,
+  GEOGRAPHIC_TYPE: 2048,
+  PROJECTED_TYPE: 3072,
+  PROJECTED_CITATION: 3073,
+  PROJECTED_LINEAR_UNITS: 3076
+};
+const MODEL_TYPE_PROJECTED = 1;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_PIXEL_IS_POINT = 2;
+const USER_DEFINED = 32767;
+
+// A pixel this much wider than tall (or taller than wide) on the ground is resampled square
+const MAX_PIXEL_ASPECT_ERROR = 0.005;
+
+export class GeoreferenceService {
+  /**
+   * Check whether a file is a world file sidecar
+   */
+  static isWorldFile(name: string): boolean {
+    const extension = name.split('.').pop()?.toLowerCase() || '';
+    return WORLD_FILE_EXTENSIONS.includes(extension);
+  }
+
+  /**
+   * Check whether a file is a projection (.prj) sidecar
+   */
+  static isProjectionFile(name: string): boolean {
+    return /\.prj$/i.test(name);
+  }
+
+  /**
+   * Pick the world file and projection file that go with an image. Sidecars
+   * share the image's base name; a lone sidecar is used whatever its name.
+   */
+  static findSidecars(image: File, files: File[]): { worldFile?: File; projectionFile?: File } {
+    const baseName = (name: string) => name.replace(/\.[^.]*$/, '').toLowerCase();
+    const imageBase = baseName(image.name);
+    const pick = (candidates: File[]) =>
+      candidates.find(file => baseName(file.name) === imageBase) || (candidates.length === 1 ? candidates[0] : undefined);
+
+    return {
+      worldFile: pick(files.filter(file => this.isWorldFile(file.name))),
+      projectionFile: pick(files.filter(file => this.isProjectionFile(file.name)))
+    };
+  }
+
+  /**
+   * Parse a world file. Its six lines give the pixel size and rotation and
+   * the map position of the center of the top-left pixel, which is moved to
+   * the pixel's corner to match canvas coordinates.
+   */
+  static parseWorldFile(text: string): number[] {
+    const values = text.split(/\s+/).filter(line => line !== '').map(Number);
+    if (values.length < 6 || values.slice(0, 6).some(value => !isFinite(value))) {
+      throw new Error('The world file should contain six numbers, one per line');
+    }
+
+    const [a, d, b, e, c, f] = values;
+    if (a * e - b * d === 0) {
+      throw new Error('The world file has a zero pixel size');
+    }
+    return [a, b, c - (a + b) / 2, d, e, f - (d + e) / 2];
+  }
+
+  /**
+   * Read the coordinate system from a .prj file (WKT, in ESRI or OGC form)
+   */
+  static parseProjection(wkt: string): CoordinateSystem {
+    const name = /^\s*\w+\[\s*"([^"]*)"/.exec(wkt)?.[1] || 'Unknown coordinate system';
+    const epsgCodes = Array.from(wkt.matchAll(/(?:AUTHORITY|ID)\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]/gi));
+    const units = Array.from(wkt.matchAll(/(?:LENGTHUNIT|UNIT)\[\s*"[^"]*"\s*,\s*([\d.eE+-]+)/g));
+
+    // The outermost authority and unit come last
+    const code = epsgCodes.length > 0 ? parseInt(epsgCodes[epsgCodes.length - 1][1], 10) : null;
+    const isGeographic = /^\s*(GEOGCS|GEOGCRS|GEOGRAPHICCRS)\[/i.test(wkt);
+    const metersPerUnit = !isGeographic && units.length > 0 ? parseFloat(units[units.length - 1][1]) : 1;
+
+    const fromCode = code !== null ? this.fromEpsg(code, metersPerUnit) : null;
+    if (fromCode && fromCode.projection) {
+      return { ...fromCode, name };
+    }
+    return {
+      name,
+      projection: isGeographic ? { type: 'geographic' } : this.projectionFromName(name),
+      metersPerUnit,
+      unitsAssumed: false
+    };
+  }
+
+  /**
+   * Guess the coordinate system of a world file that came without a .prj file
+   */
+  static guessCoordinateSystem(matrix: number[]): CoordinateSystem {
+    const [a, , c, , e, f] = matrix;
+    // Pixels a small fraction of a degree, positioned within latitude/longitude range
+    if (Math.abs(a) < 0.01 && Math.abs(e) < 0.01 && Math.abs(c) <= 180 && Math.abs(f) <= 90) {
+      return { name: 'Latitude/longitude (WGS 84)', projection: { type: 'geographic' }, metersPerUnit: 1, unitsAssumed: false };
+    }
+    return { name: 'Unknown coordinate system', projection: null, metersPerUnit: 1, unitsAssumed: true };
+  }
+
+  /**
+   * Look up the EPSG coordinate systems drone mapping software exports in
+   */
+  static fromEpsg(code: number, metersPerUnit: number = 1): CoordinateSystem {
+    const system = (name: string, projection: MapProjection | null): CoordinateSystem => ({
+      name,
+      projection,
+      metersPerUnit,
+      unitsAssumed: false
+    });
+    const utm = (datum: string, zone: number, south: boolean) =>
+      system(`${datum} / UTM zone ${zone}${south ? 'S' : 'N'}`, { type: 'utm', zone, south });
+
+    if ([4326, 4269, 4258, 4283, 7844].includes(code)) return system(`EPSG:${code} latitude/longitude`, { type: 'geographic' });
+    if ([3857, 3785, 900913, 102100].includes(code)) return system('Web Mercator', { type: 'web-mercator' });
+    if (code >= 32601 && code <= 32660) return utm('WGS 84', code - 32600, false);
+    if (code >= 32701 && code <= 32760) return utm('WGS 84', code - 32700, true);
+    if (code >= 26901 && code <= 26923) return utm('NAD83', code - 26900, false);
+    if (code >= 25828 && code <= 25838) return utm('ETRS89', code - 25800, false);
+    if (code >= 28348 && code <= 28358) return utm('GDA94 / MGA', code - 28300, true);
+    if (code >= 7846 && code <= 7859) return utm('GDA2020 / MGA', code - 7800, true);
+    return system(`EPSG:${code}`, null);
+  }
+
+  /**
+   * Read the georeferencing from GeoTIFF tags
+   * @param reduction File pixels per decoded pixel, when the raster was reduced
+   */
+  static fromGeoTiffTags(tags: Record<number, TiffTagValue>, reduction: number, width: number, height: number): ImageGeoreference | null {
+    const transformation = tags[TIFF_TAGS.MODEL_TRANSFORMATION];
+    const tiepoint = tags[TIFF_TAGS.MODEL_TIEPOINT];
+    const pixelScale = tags[TIFF_TAGS.MODEL_PIXEL_SCALE];
+    const geoKeys = this.readGeoKeys(tags);
+
+    let matrix: number[];
+    if (Array.isArray(transformation) && transformation.length >= 8) {
+      const t = transformation;
+      matrix = [t[0], t[1], t[3], t[4], t[5], t[7]];
+    } else if (Array.isArray(tiepoint) && tiepoint.length >= 6 && Array.isArray(pixelScale) && pixelScale.length >= 2) {
+      const [i, j, , x, y] = tiepoint;
+      const [scaleX, scaleY] = pixelScale;
+      matrix = [scaleX, 0, x - i * scaleX, 0, -scaleY, y + j * scaleY];
+    } else {
+      return null;
+    }
+
+    // Point rasters tie coordinates to pixel centers rather than corners
+    if (geoKeys[GEO_KEYS.RASTER_TYPE] === RASTER_PIXEL_IS_POINT) {
+      const [a, b, c, d, e, f] = matrix;
+      matrix = [a, b, c - (a + b) / 2, d, e, f - (d + e) / 2];
+    }
+    if (reduction !== 1) {
+      matrix = this.scaleMatrix(matrix, 1 / reduction, 1 / reduction);
+    }
+
+    return this.create('geotiff', matrix, this.getGeoTiffCoordinateSystem(geoKeys, matrix), width, height);
+  }
+
+  /**
+   * Work out the scale, and the geotransform when the coordinate system is known
+   */
+  static create(
+    source: ImageGeoreference['source'],
+    matrix: number[],
+    coordinateSystem: CoordinateSystem,
+    width: number,
+    height: number
+  ): ImageGeoreference {
+    const { projection, metersPerUnit } = coordinateSystem;
+
+    if (!projection) {
+      const [a, b, , d, e] = matrix;
+      const unitsPerPixel = Math.sqrt(Math.abs(a * e - b * d));
+      return {
+        source,
+        matrix,
+        coordinateSystem,
+        pixelsPerFoot: 0.3048 / (unitsPerPixel * metersPerUnit),
+        pixelAspect: Math.hypot(a, d) / Math.hypot(b, e),
+        geoTransform: null
+      };
+    }
+
+    // Projections work in meters, so projected coordinates in feet are converted first
+    const geoTransform: GeoTransform = {
+      type: 'affine',
+      matrix: projection.type === 'geographic' ? matrix : matrix.map(value => value * metersPerUnit),
+      projection,
+      imageWidth: width,
+      imageHeight: height
+    };
+    const feetPerPixel = GeoService.getFeetPerPixel(geoTransform, width / 2, height / 2);
+
+    return {
+      source,
+      matrix,
+      coordinateSystem,
+      pixelsPerFoot: 1 / Math.sqrt(feetPerPixel.x * feetPerPixel.y),
+      pixelAspect: feetPerPixel.x / feetPerPixel.y,
+      geoTransform
+    };
+  }
+
+  /**
+   * Recalculate with different units, for files whose units had to be assumed
+   */
+  static withUnits(georeference: ImageGeoreference, metersPerUnit: number, width: number, height: number): ImageGeoreference {
+    return this.create(
+      georeference.source,
+      georeference.matrix,
+      { ...georeference.coordinateSystem, metersPerUnit },
+      width,
+      height
+    );
+  }
+
+  /**
+   * Whether the image must be stretched so its pixels are square on the ground.
+   * Only unrotated images are stretched; rotated ones keep the average scale.
+   */
+  static needsSquarePixels(georeference: ImageGeoreference): boolean {
+    const [, b, , d] = georeference.matrix;
+    return b === 0 && d === 0 && Math.abs(georeference.pixelAspect - 1) > MAX_PIXEL_ASPECT_ERROR;
+  }
+
+  /**
+   * Adjust a matrix for a resized image, where new pixel = old pixel × scale
+   */
+  static scaleMatrix(matrix: number[], scaleX: number, scaleY: number): number[] {
+    const [a, b, c, d, e, f] = matrix;
+    return [a / scaleX, b / scaleY, c, d / scaleX, e / scaleY, f];
+  }
+
+  /**
+   * Describe the georeference for the import preview
+   */
+  static describe(georeference: ImageGeoreference): string {
+    const source = georeference.source === 'geotiff' ? 'GeoTIFF' : 'world file';
+    return `${georeference.coordinateSystem.name} from ${source}, ${georeference.pixelsPerFoot.toFixed(2)} px/ft`;
+  }
+
+  private static readGeoKeys(tags: Record<number, TiffTagValue>): Record<number, number | string> {
+    const directory = tags[TIFF_TAGS.GEO_KEY_DIRECTORY];
+    const doubles = tags[TIFF_TAGS.GEO_DOUBLE_PARAMS];
+    const ascii = tags[TIFF_TAGS.GEO_ASCII_PARAMS];
+    const keys: Record<number, number | string> = {};
+    if (!Array.isArray(directory) || directory.length < 4) return keys;
+
+    for (let i = 0; i < directory[3]; i++) {
+      const [keyId, location, count, valueOffset] = directory.slice(4 + i * 4, 8 + i * 4);
+      if (location === 0) {
+        keys[keyId] = valueOffset;
+      } else if (location === TIFF_TAGS.GEO_DOUBLE_PARAMS && Array.isArray(doubles)) {
+        keys[keyId] = doubles[valueOffset];
+      } else if (location === TIFF_TAGS.GEO_ASCII_PARAMS && typeof ascii === 'string') {
+        keys[keyId] = ascii.substr(valueOffset, count).replace(/\|$/, '');
+      }
+    }
+    return keys;
+  }
+
+  private static getGeoTiffCoordinateSystem(geoKeys: Record<number, number | string>, matrix: number[]): CoordinateSystem {
+    const modelType = geoKeys[GEO_KEYS.MODEL_TYPE];
+    const projectedType = geoKeys[GEO_KEYS.PROJECTED_TYPE];
+    const linearUnits = geoKeys[GEO_KEYS.PROJECTED_LINEAR_UNITS];
+    const metersPerUnit = typeof linearUnits === 'number' && EPSG_LINEAR_UNITS[linearUnits] ? EPSG_LINEAR_UNITS[linearUnits] : 1;
+
+    if (modelType === MODEL_TYPE_GEOGRAPHIC) {
+      const code = geoKeys[GEO_KEYS.GEOGRAPHIC_TYPE];
+      return this.fromEpsg(typeof code === 'number' && code !== USER_DEFINED ? code : 4326);
+    }
+    if (modelType === MODEL_TYPE_PROJECTED) {
+      if (typeof projectedType === 'number' && projectedType !== USER_DEFINED) {
+        return this.fromEpsg(projectedType, metersPerUnit);
+      }
+      const citation = [geoKeys[GEO_KEYS.PROJECTED_CITATION], geoKeys[GEO_KEYS.CITATION]]
+        .find((value): value is string => typeof value === 'string') || 'Unknown coordinate system';
+      return {
+        name: citation,
+        projection: this.projectionFromName(citation),
+        metersPerUnit,
+        unitsAssumed: typeof linearUnits !== 'number'
+      };
+    }
+    return this.guessCoordinateSystem(matrix);
+  }
+
+  private static projectionFromName(name: string): MapProjection | null {
+    const utm = /UTM[\s_]*zone[\s_]*(\d{1,2})\s*([NS])/i.exec(name);
+    if (utm) {
+      return { type: 'utm', zone: parseInt(utm[1], 10), south: utm[2].toUpperCase() === 'S' };
+    }
+    if (/pseudo[\s_-]*mercator|web[\s_]*mercator|popular[\s_]*visuali[sz]ation/i.test(name)) {
+      return { type: 'web-mercator' };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+import { GoogleMapsService } from './googleMapsService';
+import { GeoService } from './geoService';
+
+const EARTH_RADIUS_METERS = 6378137;
+const METERS_PER_FOOT = 0.3048;
+
+describe('GoogleMapsService scale', () => {
+  test('matches the published ground resolution at the equator', () => {
+    // 156543.03392 m per point at zoom 0, halving with each zoom level
+    expect(1 / GoogleMapsService.calculatePixelsPerMeter(0, 0)).toBeCloseTo(156543.03392, 3);
+    expect(1 / GoogleMapsService.calculatePixelsPerMeter(0, 20)).toBeCloseTo(0.149291, 6);
+  });
+
+  test('spans one degree of longitude at the equator over 111,319 m', () => {
+    const zoom = 17;
+    const scale = 2;
+    const pixelsPerDegree = (256 * Math.pow(2, zoom) * scale) / 360;
+
+    expect(pixelsPerDegree / GoogleMapsService.calculatePixelsPerMeter(0, zoom, scale)).toBeCloseTo(111319.49, 1);
+  });
+
+  test('multiplies image pixels by the static map scale parameter', () => {
+    const single = GoogleMapsService.calculatePixelsPerMeter(37.7749, 19, 1);
+    const double = GoogleMapsService.calculatePixelsPerMeter(37.7749, 19, 2);
+
+    expect(double).toBeCloseTo(single * 2, 10);
+  });
+
+  test('doubles the resolution at 60 degrees latitude', () => {
+    const equator = GoogleMapsService.calculatePixelsPerMeter(0, 18, 2);
+
+    expect(GoogleMapsService.calculatePixelsPerMeter(60, 18, 2)).toBeCloseTo(equator * 2, 8);
+    expect(GoogleMapsService.calculatePixelsPerMeter(-60, 18, 2)).toBeCloseTo(equator * 2, 8);
+  });
+
+  test('converts to pixels per foot', () => {
+    const pixelsPerMeter = GoogleMapsService.calculatePixelsPerMeter(37.7749, 20, 2);
+
+    expect(GoogleMapsService.calculatePixelsPerFoot(37.7749, 20, 2)).toBeCloseTo(pixelsPerMeter * METERS_PER_FOOT, 10);
+  });
+
+  test('measures a 30 ft span on an imported map as 30 ft', () => {
+    const location = { lat: 37.7749, lng: -122.4194, zoom: 20 };
+    const options = { width: 600, height: 400, scale: 2 };
+    const transform = GeoService.fromStaticMap(location, options);
+    const pixelsPerFoot = GoogleMapsService.calculatePixelsPerFoot(location.lat, location.zoom, options.scale);
+
+    // Two points 30 ft apart along the parallel through the map center
+    const spanDegrees = ((30 * METERS_PER_FOOT) / (EARTH_RADIUS_METERS * Math.cos(location.lat * Math.PI / 180))) * 180 / Math.PI;
+    const west = GeoService.latLngToCanvas(transform, location.lat, location.lng - spanDegrees / 2);
+    const east = GeoService.latLngToCanvas(transform, location.lat, location.lng + spanDegrees / 2);
+
+    expect((east.x - west.x) / pixelsPerFoot).toBeCloseTo(30, 6);
+  });
+
+  test('covers the same ground whatever the scale parameter', () => {
+    const location = { lat: 51.5074, lng: -0.1278, zoom: 19 };
+    const lowDpi = GoogleMapsService.getGroundSize(location, { width: 640, height: 480, scale: 1 });
+    const highDpi = GoogleMapsService.getGroundSize(location, { width: 640, height: 480, scale: 2 });
+
+    expect(highDpi.width).toBeCloseTo(lowDpi.width, 8);
+    expect(highDpi.height).toBeCloseTo(lowDpi.height, 8);
+    // 640 points at about 0.186 m each near London
+    expect(lowDpi.width).toBeCloseTo((640 * 156543.03392 * Math.cos(location.lat * Math.PI / 180)) / Math.pow(2, 19) / METERS_PER_FOOT, 6);
+  });
+});
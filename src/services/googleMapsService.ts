@@ -15,6 +15,11 @@ export interface GoogleMapsOptions {
   scale?: number; // For high-DPI devices, values can be 1 or 2
 }
 
+// Web Mercator tile size and the equatorial circumference of the WGS 84 sphere it uses
+const TILE_SIZE = 256;
+const EARTH_CIRCUMFERENCE_METERS = 40075016.686;
+const METERS_PER_FOOT = 0.3048;
+
 export class GoogleMapsService {
   private static apiKey: string = ''; // Should be populated from environment variable or config
   private static loader: Loader | null = null;
@@ -115,43 +120,60 @@ export class GoogleMapsService {
   }
   
   /**
-   * Estimate pixels per meter at a specific latitude and zoom level
-   * @param latitude Latitude in degrees
+   * Calculate image pixels per meter on the ground for a static map. Web Mercator
+   * shows 256 * 2^zoom points around the equator, stretched by 1 / cos(latitude)
+   * away from it, and the `scale` parameter multiplies points into image pixels.
+   * The `size` parameter only changes how much ground is shown, not the scale.
+   * @param latitude Latitude in degrees, normally the map center
    * @param zoom Google Maps zoom level
-   * @returns Estimated pixels per meter
+   * @param scale Static Maps `scale` parameter (image pixels per point)
+   * @returns Pixels per meter
    */
-  static calculatePixelsPerMeter(latitude: number, zoom: number): number {
-    // The formula is based on Google Maps' projection and scaling
-    const pixelsPerTile = 256; // Standard Google Maps tile size
+  static calculatePixelsPerMeter(latitude: number, zoom: number, scale: number = 1): number {
+    const pointsAroundEquator = TILE_SIZE * Math.pow(2, zoom);
     const latitudeRadians = latitude * (Math.PI / 180);
-    
-    // Earth's circumference at the equator in meters
-    const earthCircumference = 40075016.686;
-    
-    // Number of tiles around the Earth at the equator at this zoom level
-    const tilesAtEquator = Math.pow(2, zoom);
-    
-    // Adjust for latitude (Mercator projection adjustment)
-    const latitudeAdjustment = Math.cos(latitudeRadians);
-    
-    // Calculate meters per pixel
-    const metersPerPixel = (earthCircumference * latitudeAdjustment) / (tilesAtEquator * pixelsPerTile);
-    
-    // Based on real-world testing (30x30ft item showing as ~6 yards), apply a correction factor
-    // This helps account for Google Maps projection inaccuracies and other factors
-    const correctionFactor = 1.65; // Adjusted based on testing
-    
-    // Return pixels per meter (inverse of meters per pixel) with correction
-    return (1 / metersPerPixel) * correctionFactor;
+    const metersPerPoint = (EARTH_CIRCUMFERENCE_METERS * Math.cos(latitudeRadians)) / pointsAroundEquator;
+
+    return scale / metersPerPoint;
+  }
+
+  /**
+   * Calculate image pixels per foot for a static map, ready for the map store
+   * @param latitude Latitude in degrees, normally the map center
+   * @param zoom Google Maps zoom level
+   * @param scale Static Maps `scale` parameter (image pixels per point)
+   * @returns Pixels per foot
+   */
+  static calculatePixelsPerFoot(latitude: number, zoom: number, scale: number = 1): number {
+    return this.calculatePixelsPerMeter(latitude, zoom, scale) * METERS_PER_FOOT;
+  }
+
+  /**
+   * Calculate the ground area covered by a static map image
+   * @param location Map center and zoom level
+   * @param options Map display options; `width` and `height` are the `size` parameter in points
+   * @returns Width and height in feet
+   */
+  static getGroundSize(location: GoogleMapsLocation, options: Partial<GoogleMapsOptions> = {}): { width: number; height: number } {
+    const { width = 800, height = 600, scale = 2 } = options;
+    const pixelsPerFoot = this.calculatePixelsPerFoot(location.lat, location.zoom, scale);
+
+    return {
+      width: (width * scale) / pixelsPerFoot,
+      height: (height * scale) / pixelsPerFoot
+    };
   }
   
   /**
    * Convert a static map image URL to a Blob
    * @param url Static map image URL
-   * @returns Promise resolving to the image Blob and calculated pixelsPerMeter
+   * @param latitude Latitude of the map center in degrees
+   * @param zoom Google Maps zoom level
+   * @param scale Static Maps `scale` parameter the URL was built with
+   * @returns Promise resolving to the image Blob and calculated pixelsPerFoot
    */
-  static async fetchStaticMapImage(url: string, latitude: number, zoom: number): 
-    Promise<{ blob: Blob; pixelsPerMeter: number }> {
+  static async fetchStaticMapImage(url: string, latitude: number, zoom: number, scale: number = 2): 
+    Promise<{ blob: Blob; pixelsPerFoot: number }> {
     try {
       const response = await fetch(url);
       if (!response.ok) {
@@ -159,9 +181,9 @@ export class GoogleMapsService {
       }
       
       const blob = await response.blob();
-      const pixelsPerMeter = this.calculatePixelsPerMeter(latitude, zoom);
+      const pixelsPerFoot = this.calculatePixelsPerFoot(latitude, zoom, scale);
       
-      return { blob, pixelsPerMeter };
+      return { blob, pixelsPerFoot };
     } catch (error) {
       console.error('Error fetching static map:', error);
       throw error;
@@ -1,4 +1,6 @@
 // Service for handling image import and processing operations
+import { TiffService } from './tiffService';
+import { GeoreferenceService, ImageGeoreference } from './georeferenceService';
 
 export interface ImageData {
   url: string;
@@ -6,26 +8,58 @@ export interface ImageData {
   height: number;
   name: string;
   size: number;
+  georeference: ImageGeoreference | null; // From a GeoTIFF or a world file, when one came with the image
 }
 
+const MAX_IMAGE_SIZE = 50 * 1024 * 1024; // 50MB
+const MAX_TIFF_SIZE = 250 * 1024 * 1024; // Orthomosaics are large; they are reduced while decoding
+
 export class ImageService {
   /**
-   * Import an image file and return image data
+   * Import an image file and return image data. TIFF files are decoded here
+   * since browsers can't display them. The georeference is read from GeoTIFF
+   * tags, or else from a world file (.tfw, .pgw, .jgw...) and optional .prj
+   * file among the sidecar files.
    */
-  static async importImage(file: File): Promise<ImageData> {
-    return new Promise((resolve, reject) => {
-      if (!file.type.startsWith('image/')) {
-        reject(new Error('Please select a valid image file'));
-        return;
-      }
+  static async importImage(file: File, sidecarFiles: File[] = []): Promise<ImageData> {
+    const validation = this.validateImageFile(file);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
 
-      // Check file size (limit to 50MB)
-      const maxSize = 50 * 1024 * 1024; // 50MB
-      if (file.size > maxSize) {
-        reject(new Error('Image file is too large. Please select an image smaller than 50MB'));
-        return;
-      }
+    const image = TiffService.isTiff(file) ? await this.readTiff(file) : await this.readImage(file);
+    let { url, width, height } = image;
+    let georeference = image.georeference;
+
+    const { worldFile, projectionFile } = GeoreferenceService.findSidecars(file, sidecarFiles);
+    if (!georeference && worldFile) {
+      const matrix = GeoreferenceService.parseWorldFile(await worldFile.text());
+      const coordinateSystem = projectionFile
+        ? GeoreferenceService.parseProjection(await projectionFile.text())
+        : GeoreferenceService.guessCoordinateSystem(matrix);
+      georeference = GeoreferenceService.create('world-file', matrix, coordinateSystem, width, height);
+    }
 
+    // Latitude/longitude rasters have pixels wider than they are tall on the
+    // ground; stretch them square so a single scale applies across the layout
+    if (georeference && GeoreferenceService.needsSquarePixels(georeference)) {
+      const squareWidth = Math.round(width * georeference.pixelAspect);
+      url = await this.resizeImage(url, squareWidth, height);
+      georeference = GeoreferenceService.create(
+        georeference.source,
+        GeoreferenceService.scaleMatrix(georeference.matrix, squareWidth / width, 1),
+        georeference.coordinateSystem,
+        squareWidth,
+        height
+      );
+      width = squareWidth;
+    }
+
+    return { url, width, height, name: file.name, size: file.size, georeference };
+  }
+
+  private static readImage(file: File): Promise<ImageData> {
+    return new Promise((resolve, reject) => {
       const reader = new FileReader();
       
       reader.onload = (event) => {
@@ -39,7 +73,8 @@ export class ImageService {
             width: img.width,
             height: img.height,
             name: file.name,
-            size: file.size
+            size: file.size,
+            georeference: null
           });
         };
         
@@ -58,22 +93,81 @@ export class ImageService {
     });
   }
 
+  private static async readTiff(file: File): Promise<ImageData> {
+    const raster = await TiffService.decode(await file.arrayBuffer());
+
+    const canvas = document.createElement('canvas');
+    canvas.width = raster.width;
+    canvas.height = raster.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to decode the TIFF file');
+    }
+    ctx.putImageData(new window.ImageData(raster.rgba, raster.width, raster.height), 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('Could not convert the TIFF file');
+    }
+
+    return {
+      url: URL.createObjectURL(blob),
+      width: raster.width,
+      height: raster.height,
+      name: file.name,
+      size: file.size,
+      georeference: GeoreferenceService.fromGeoTiffTags(raster.tags, raster.reduction, raster.width, raster.height)
+    };
+  }
+
+  private static resizeImage(url: string, width: number, height: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          reject(new Error('Could not create a canvas to resize the image'));
+          return;
+        }
+        ctx.drawImage(img, 0, 0, width, height);
+        canvas.toBlob(blob => {
+          if (blob) {
+            resolve(URL.createObjectURL(blob));
+          } else {
+            reject(new Error('Could not resize the image'));
+          }
+        }, 'image/png');
+      };
+      img.onerror = () => reject(new Error('Failed to load the image'));
+      img.src = url;
+    });
+  }
+
   /**
    * Validate image file before import
    */
   static validateImageFile(file: File): { valid: boolean; error?: string } {
+    if (TiffService.isTiff(file)) {
+      if (file.size > MAX_TIFF_SIZE) {
+        return { valid: false, error: 'TIFF file is too large. Please select an image smaller than 250MB' };
+      }
+      return { valid: true };
+    }
+
     if (!file.type.startsWith('image/')) {
       return { valid: false, error: 'Please select a valid image file' };
     }
 
-    const maxSize = 50 * 1024 * 1024; // 50MB
-    if (file.size > maxSize) {
+    if (file.size > MAX_IMAGE_SIZE) {
       return { valid: false, error: 'Image file is too large. Please select an image smaller than 50MB' };
     }
 
     const allowedTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
     if (!allowedTypes.includes(file.type)) {
-      return { valid: false, error: 'Unsupported image format. Please use JPEG, PNG, GIF, or WebP' };
+      return { valid: false, error: 'Unsupported image format. Please use JPEG, PNG, GIF, WebP, or TIFF' };
     }
 
     return { valid: true };
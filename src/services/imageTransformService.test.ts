@@ -0,0 +1,150 @@
+import { ControlPoint, ImageTransformService, RectifiedImage, TransformMatrix } from './imageTransformService';
+import { GeoService } from './geoService';
+import { useMapStore } from '../stores/mapStore';
+import { useEquipmentStore } from '../stores/equipmentStore';
+import { useUndoRedoStore } from '../stores/undoRedoStore';
+
+const IMAGE_SIZE = 400;
+
+const controlPoint = (id: string, imageX: number, imageY: number, worldX: number, worldY: number): ControlPoint =>
+  ({ id, imageX, imageY, worldX, worldY });
+
+// Pin each image point to where the transform puts it on the ground
+const pinAll = (matrix: TransformMatrix, imagePoints: [number, number][]): ControlPoint[] =>
+  imagePoints.map(([x, y], i) => {
+    const world = ImageTransformService.apply(matrix, x, y);
+    return controlPoint(`p${i}`, x, y, world.x, world.y);
+  });
+
+const expectMatrixCloseTo = (actual: TransformMatrix, expected: TransformMatrix) => {
+  // Compare after scaling so the bottom-right entries match
+  actual.forEach((value, i) => expect(value / actual[8]).toBeCloseTo(expected[i] / expected[8], 6));
+};
+
+describe('ImageTransformService projective fit', () => {
+  // A photo taken at an angle: the far edge of the lot is squeezed toward the top of the image
+  const perspective: TransformMatrix = [0.5, 0.1, 3, -0.05, 0.6, 2, 0.0004, 0.0008, 1];
+
+  test('reproduces its four control points', () => {
+    const points = pinAll(perspective, [[20, 30], [380, 10], [360, 390], [40, 350]]);
+    const fit = ImageTransformService.fit(points, 'projective', IMAGE_SIZE, IMAGE_SIZE);
+
+    points.forEach(point => {
+      const fitted = ImageTransformService.apply(fit.matrix, point.imageX, point.imageY);
+      expect(fitted.x).toBeCloseTo(point.worldX, 6);
+      expect(fitted.y).toBeCloseTo(point.worldY, 6);
+    });
+    expect(fit.rmsError).toBeCloseTo(0, 6);
+    expectMatrixCloseTo(fit.matrix, perspective);
+  });
+
+  test('maps points between the control points through the same perspective', () => {
+    const fit = ImageTransformService.fit(pinAll(perspective, [[0, 0], [400, 0], [400, 400], [0, 400]]), 'projective', IMAGE_SIZE, IMAGE_SIZE);
+    const expected = ImageTransformService.apply(perspective, 150, 275);
+    const fitted = ImageTransformService.apply(fit.matrix, 150, 275);
+
+    expect(fitted.x).toBeCloseTo(expected.x, 6);
+    expect(fitted.y).toBeCloseTo(expected.y, 6);
+  });
+});
+
+describe('ImageTransformService affine fit', () => {
+  // 4 px/ft across the image and 2 px/ft down it, turned 90° and moved
+  const affine: TransformMatrix = [0, -0.5, 200, 0.25, 0, 10, 0, 0, 1];
+  const imagePoints: [number, number][] = [[0, 0], [100, 0], [100, 100], [0, 100], [50, 50]];
+
+  test('recovers the transform and its scale from more points than it needs', () => {
+    const fit = ImageTransformService.fit(pinAll(affine, imagePoints), 'affine', 100, 100);
+
+    expectMatrixCloseTo(fit.matrix, affine);
+    expect(fit.residuals).toHaveLength(5);
+    fit.residuals.forEach(residual => expect(residual).toBeCloseTo(0, 6));
+    expect(fit.pixelsPerFootX).toBeCloseTo(4);
+    expect(fit.pixelsPerFootY).toBeCloseTo(2);
+  });
+
+  test('spreads measurement error across the points by least squares', () => {
+    // Push the corners 1 ft east and the center 4 ft west. The errors cancel out
+    // in every direction the transform can move, so the best fit is the true one.
+    const noise = [1, 1, 1, 1, -4];
+    const points = pinAll(affine, imagePoints).map((point, i) => ({ ...point, worldX: point.worldX + noise[i] }));
+    const fit = ImageTransformService.fit(points, 'affine', 100, 100);
+
+    expectMatrixCloseTo(fit.matrix, affine);
+    fit.residuals.forEach((residual, i) => expect(residual).toBeCloseTo(Math.abs(noise[i]), 6));
+    expect(fit.rmsError).toBeCloseTo(2, 6);
+  });
+});
+
+describe('ImageTransformService rejections', () => {
+  test('needs enough points for the model', () => {
+    const points = pinAll([1, 0, 0, 0, 1, 0, 0, 0, 1], [[0, 0], [100, 0], [0, 100]]);
+
+    expect(() => ImageTransformService.fit(points.slice(0, 2), 'affine', IMAGE_SIZE, IMAGE_SIZE)).toThrow(/at least 3 reference points/);
+    expect(() => ImageTransformService.fit(points, 'projective', IMAGE_SIZE, IMAGE_SIZE)).toThrow(/at least 4 reference points/);
+  });
+
+  test('rejects points in a straight line', () => {
+    const inLine = [
+      controlPoint('a', 0, 0, 0, 0),
+      controlPoint('b', 100, 100, 20, 0),
+      controlPoint('c', 200, 200, 40, 0),
+      controlPoint('d', 300, 300, 60, 0)
+    ];
+
+    expect(() => ImageTransformService.fit(inLine, 'affine', IMAGE_SIZE, IMAGE_SIZE)).toThrow(/straight line/);
+    expect(() => ImageTransformService.fit(inLine, 'projective', IMAGE_SIZE, IMAGE_SIZE)).toThrow(/straight line/);
+  });
+
+  test('rejects a projective fit with three of its four points in a line', () => {
+    const points = [
+      controlPoint('a', 0, 0, 0, 0),
+      controlPoint('b', 200, 0, 40, 0),
+      controlPoint('c', 400, 0, 80, 0),
+      controlPoint('d', 200, 300, 40, 60)
+    ];
+
+    expect(() => ImageTransformService.fit(points, 'projective', IMAGE_SIZE, IMAGE_SIZE)).toThrow(/straight line/);
+  });
+
+  test('rejects points picked on top of each other', () => {
+    const stacked = [0, 1, 2].map(i => controlPoint(`p${i}`, 50, 50, i * 10, 0));
+    expect(() => ImageTransformService.fit(stacked, 'affine', IMAGE_SIZE, IMAGE_SIZE)).toThrow(/too close together/);
+  });
+});
+
+describe('ImageTransformService rectified layouts', () => {
+  const rectified = (matrix: TransformMatrix): RectifiedImage => ({ url: 'blob:rectified', width: 600, height: 300, pixelsPerFoot: 3, matrix });
+
+  beforeEach(() => {
+    useMapStore.setState({
+      imageUrl: 'blob:original',
+      geoTransform: GeoService.fromStaticMap({ lat: 39.74, lng: -104.99, zoom: 19 }, { width: 200, height: 100, scale: 2 }),
+      pixelsPerFoot: 2,
+      calibrationLines: [],
+      activeCalibrationLine: null,
+      underlays: []
+    });
+    useEquipmentStore.setState({ items: [] });
+    useUndoRedoStore.getState().clearHistory();
+  });
+
+  test('keeps GPS coordinates on the same ground through an affine rectification', () => {
+    const before = GeoService.canvasToLatLng(useMapStore.getState().geoTransform!, 100, 40);
+    // Stretch 1.5× across and move 20 px down
+    ImageTransformService.applyToLayout(rectified([1.5, 0, 0, 0, 1, 20, 0, 0, 1]));
+
+    const map = useMapStore.getState();
+    const after = GeoService.canvasToLatLng(map.geoTransform!, 150, 60);
+    expect(map.imageUrl).toBe('blob:rectified');
+    expect(after.lat).toBeCloseTo(before.lat, 9);
+    expect(after.lng).toBeCloseTo(before.lng, 9);
+  });
+
+  test('drops GPS coordinates that a perspective correction would bend', () => {
+    ImageTransformService.applyToLayout(rectified([1, 0, 0, 0, 1, 0, 0.001, 0, 1]));
+
+    expect(useMapStore.getState().geoTransform).toBeNull();
+    expect(useMapStore.getState().pixelsPerFoot).toBe(3);
+  });
+});
@@ -0,0 +1,480 @@
+import { Point2D } from './collisionService';
+import { GeoService } from './geoService';
+import { useMapStore } from '../stores/mapStore';
+import { useEquipmentStore } from '../stores/equipmentStore';
+import { useUndoRedoStore } from '../stores/undoRedoStore';
+
+/**
+ * A point picked on the image with its known position on the ground, in feet
+ */
+export interface ControlPoint {
+  id: string;
+  imageX: number;
+  imageY: number;
+  worldX: number;
+  worldY: number;
+}
+
+export type TransformModel = 'affine' | 'projective';
+
+/**
+ * 3×3 row-major matrix mapping image pixels to ground feet
+ */
+export type TransformMatrix = number[];
+
+export interface TransformFit {
+  model: TransformModel;
+  matrix: TransformMatrix;
+  residuals: number[]; // Distance in feet between each control point and where the fit puts it
+  rmsError: number; // in feet
+  pixelsPerFootX: number; // Local scale at the image center
+  pixelsPerFootY: number;
+}
+
+/**
+ * A copy of the image resampled so one foot has the same pixel length everywhere
+ */
+export interface RectifiedImage {
+  url: string;
+  width: number;
+  height: number;
+  pixelsPerFoot: number;
+  matrix: TransformMatrix; // Maps original image pixels to rectified image pixels
+}
+
+export const MIN_CONTROL_POINTS: Record<TransformModel, number> = {
+  affine: 3,
+  projective: 4
+};
+
+// Canvas size limits for the rectified image
+const MAX_RECTIFIED_SIDE = 8192;
+const MAX_RECTIFIED_AREA = 32 * 1024 * 1024;
+
+const IDENTITY: TransformMatrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+export class ImageTransformService {
+  /**
+   * Fit an affine (separate X/Y scale, rotation and skew) or projective
+   * (perspective) transform to the control points by least squares
+   */
+  static fit(points: ControlPoint[], model: TransformModel, imageWidth: number, imageHeight: number): TransformFit {
+    if (points.length < MIN_CONTROL_POINTS[model]) {
+      throw new Error(`A ${model} calibration needs at least ${MIN_CONTROL_POINTS[model]} reference points`);
+    }
+
+    // Normalize both point sets so the solve is well conditioned at any image size
+    const imageNorm = this.getNormalization(points.map(p => ({ x: p.imageX, y: p.imageY })));
+    const worldNorm = this.getNormalization(points.map(p => ({ x: p.worldX, y: p.worldY })));
+    const normalized = points.map(p => ({
+      image: this.apply(imageNorm, p.imageX, p.imageY),
+      world: this.apply(worldNorm, p.worldX, p.worldY)
+    }));
+
+    const rows: number[][] = [];
+    const values: number[] = [];
+    normalized.forEach(({ image, world }) => {
+      if (model === 'affine') {
+        rows.push([image.x, image.y, 1, 0, 0, 0]);
+        rows.push([0, 0, 0, image.x, image.y, 1]);
+      } else {
+        rows.push([image.x, image.y, 1, 0, 0, 0, -image.x * world.x, -image.y * world.x]);
+        rows.push([0, 0, 0, image.x, image.y, 1, -image.x * world.y, -image.y * world.y]);
+      }
+      values.push(world.x, world.y);
+    });
+
+    const h = this.solveLeastSquares(rows, values);
+    const normalizedMatrix = model === 'affine'
+      ? [...h, 0, 0, 1]
+      : [...h, 1];
+    const matrix = this.multiply(this.invert(worldNorm), this.multiply(normalizedMatrix, imageNorm));
+
+    const residuals = points.map(p => {
+      const fitted = this.apply(matrix, p.imageX, p.imageY);
+      return Math.hypot(fitted.x - p.worldX, fitted.y - p.worldY);
+    });
+    const rmsError = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length);
+    const scale = this.getLocalScale(matrix, imageWidth / 2, imageHeight / 2);
+
+    return { model, matrix, residuals, rmsError, ...scale };
+  }
+
+  /**
+   * Map a point through a transform
+   */
+  static apply(matrix: TransformMatrix, x: number, y: number): Point2D {
+    const w = matrix[6] * x + matrix[7] * y + matrix[8];
+    return {
+      x: (matrix[0] * x + matrix[1] * y + matrix[2]) / w,
+      y: (matrix[3] * x + matrix[4] * y + matrix[5]) / w
+    };
+  }
+
+  /**
+   * Get the image pixels per foot along the image X and Y axes at a point
+   */
+  static getLocalScale(matrix: TransformMatrix, x: number, y: number): { pixelsPerFootX: number; pixelsPerFootY: number } {
+    const origin = this.apply(matrix, x, y);
+    const alongX = this.apply(matrix, x + 1, y);
+    const alongY = this.apply(matrix, x, y + 1);
+    return {
+      pixelsPerFootX: 1 / Math.hypot(alongX.x - origin.x, alongX.y - origin.y),
+      pixelsPerFootY: 1 / Math.hypot(alongY.x - origin.x, alongY.y - origin.y)
+    };
+  }
+
+  /**
+   * Resample the image so the fitted ground plane has a uniform scale.
+   * The output is reduced in resolution if it would exceed the canvas limits.
+   */
+  static async rectifyImage(imageUrl: string, fit: TransformFit, requestedPixelsPerFoot: number): Promise<RectifiedImage> {
+    const image = await this.loadImage(imageUrl);
+    const { width, height } = image;
+    const matrix = fit.matrix;
+
+    // Every image corner must stay on the visible side of the horizon
+    const corners = [[0, 0], [width, 0], [width, height], [0, height]];
+    const denominators = corners.map(([x, y]) => matrix[6] * x + matrix[7] * y + matrix[8]);
+    if (!denominators.every(d => d > 0) && !denominators.every(d => d < 0)) {
+      throw new Error('These reference points put part of the image beyond the horizon. Check the point coordinates.');
+    }
+
+    const worldCorners = corners.map(([x, y]) => this.apply(matrix, x, y));
+    const minX = Math.min(...worldCorners.map(p => p.x));
+    const maxX = Math.max(...worldCorners.map(p => p.x));
+    const minY = Math.min(...worldCorners.map(p => p.y));
+    const maxY = Math.max(...worldCorners.map(p => p.y));
+
+    let pixelsPerFoot = requestedPixelsPerFoot;
+    const limit = Math.min(
+      MAX_RECTIFIED_SIDE / ((maxX - minX) * pixelsPerFoot),
+      MAX_RECTIFIED_SIDE / ((maxY - minY) * pixelsPerFoot),
+      Math.sqrt(MAX_RECTIFIED_AREA / ((maxX - minX) * (maxY - minY) * pixelsPerFoot * pixelsPerFoot))
+    );
+    if (limit < 1) {
+      pixelsPerFoot *= limit;
+    }
+
+    // Ground coordinates usually have Y pointing north; flip them so the result isn't mirrored
+    const jacobian = this.getJacobianDeterminant(matrix, width / 2, height / 2);
+    const flipY = jacobian < 0;
+    const toOutput: TransformMatrix = flipY
+      ? [pixelsPerFoot, 0, -minX * pixelsPerFoot, 0, -pixelsPerFoot, maxY * pixelsPerFoot, 0, 0, 1]
+      : [pixelsPerFoot, 0, -minX * pixelsPerFoot, 0, pixelsPerFoot, -minY * pixelsPerFoot, 0, 0, 1];
+    const outputMatrix = this.multiply(toOutput, matrix);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil((maxX - minX) * pixelsPerFoot));
+    canvas.height = Math.max(1, Math.ceil((maxY - minY) * pixelsPerFoot));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to rectify the image');
+    }
+
+    if (fit.model === 'affine') {
+      const m = outputMatrix;
+      ctx.setTransform(m[0] / m[8], m[3] / m[8], m[1] / m[8], m[4] / m[8], m[2] / m[8], m[5] / m[8]);
+      ctx.drawImage(image, 0, 0);
+    } else {
+      this.drawProjective(ctx, image, this.invert(outputMatrix));
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('Could not encode the rectified image');
+    }
+
+    return {
+      url: URL.createObjectURL(blob),
+      width: canvas.width,
+      height: canvas.height,
+      pixelsPerFoot,
+      matrix: outputMatrix
+    };
+  }
+
+  /**
+   * Replace the background with a rectified image and move the layout onto it
+   * as one undo step. Reference lines drawn on the old image no longer apply,
+   * so the scale comes from the rectification instead. GPS coordinates are
+   * carried over by an affine rectification and dropped by a projective one.
+   */
+  static applyToLayout(rectified: RectifiedImage): void {
+    const mapPoint = (x: number, y: number) => this.apply(rectified.matrix, x, y);
+    const { beginBatch, endBatch } = useUndoRedoStore.getState();
+
+    beginBatch('Perspective calibration');
+    try {
+      const mapStore = useMapStore.getState();
+      const geoTransform = mapStore.geoTransform && this.isAffine(rectified.matrix)
+        ? GeoService.resample(mapStore.geoTransform, this.invert(rectified.matrix).slice(0, 6), rectified.width, rectified.height)
+        : null;
+
+      mapStore.clearCalibration();
+      mapStore.setPixelsPerFoot(rectified.pixelsPerFoot);
+      mapStore.setImageUrl(rectified.url, geoTransform);
+      useMapStore.getState().remapGeometry(mapPoint);
+      this.moveEquipment(mapPoint, rectified.pixelsPerFoot);
+    } finally {
+      endBatch();
+    }
+  }
+
+  /**
+   * Turn the image clockwise about its center. The canvas grows to hold the
+   * turned corners, and the resolution is reduced if it would exceed the
+   * canvas limits.
+   */
+  static async rotateImage(imageUrl: string, degrees: number, pixelsPerFoot: number): Promise<RectifiedImage> {
+    const image = await this.loadImage(imageUrl);
+    const radians = (degrees * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+
+    const rotatedWidth = Math.abs(image.width * cos) + Math.abs(image.height * sin);
+    const rotatedHeight = Math.abs(image.width * sin) + Math.abs(image.height * cos);
+    const limit = Math.min(
+      1,
+      MAX_RECTIFIED_SIDE / rotatedWidth,
+      MAX_RECTIFIED_SIDE / rotatedHeight,
+      Math.sqrt(MAX_RECTIFIED_AREA / (rotatedWidth * rotatedHeight))
+    );
+
+    // Allow for rounding error so quarter turns don't gain a pixel
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(rotatedWidth * limit - 1e-6));
+    canvas.height = Math.max(1, Math.ceil(rotatedHeight * limit - 1e-6));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to rotate the image');
+    }
+
+    // Old pixels about the old center, turned, scaled and moved to the new center
+    const matrix: TransformMatrix = [
+      limit * cos, -limit * sin, canvas.width / 2 - limit * (cos * image.width / 2 - sin * image.height / 2),
+      limit * sin, limit * cos, canvas.height / 2 - limit * (sin * image.width / 2 + cos * image.height / 2),
+      0, 0, 1
+    ];
+    ctx.imageSmoothingQuality = 'high';
+    ctx.setTransform(matrix[0], matrix[3], matrix[1], matrix[4], matrix[2], matrix[5]);
+    ctx.drawImage(image, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('Could not encode the rotated image');
+    }
+
+    return {
+      url: URL.createObjectURL(blob),
+      width: canvas.width,
+      height: canvas.height,
+      pixelsPerFoot: pixelsPerFoot * limit,
+      matrix
+    };
+  }
+
+  /**
+   * Replace the background with a rotated copy and turn the layout with it
+   * as one undo step. Rotation keeps ground distances, so reference lines and
+   * measurements stay valid and GPS coordinates are carried over.
+   */
+  static applyRotation(rotated: RectifiedImage, degrees: number): void {
+    const mapPoint = (x: number, y: number) => this.apply(rotated.matrix, x, y);
+    const { beginBatch, endBatch } = useUndoRedoStore.getState();
+
+    beginBatch(`Rotate background ${Math.round(degrees * 10) / 10}°`);
+    try {
+      const mapStore = useMapStore.getState();
+      const toSource = this.invert(rotated.matrix);
+      const geoTransform = mapStore.geoTransform
+        ? GeoService.resample(mapStore.geoTransform, toSource.slice(0, 6), rotated.width, rotated.height)
+        : null;
+
+      mapStore.setPixelsPerFoot(rotated.pixelsPerFoot);
+      mapStore.setImageUrl(rotated.url, geoTransform);
+      useMapStore.getState().remapGeometry(mapPoint);
+      this.moveEquipment(mapPoint, rotated.pixelsPerFoot);
+    } finally {
+      endBatch();
+    }
+  }
+
+  /**
+   * Keep each item centered on the same ground position, turned with the ground
+   */
+  private static moveEquipment(mapPoint: (x: number, y: number) => Point2D, pixelsPerFoot: number): void {
+    const equipmentStore = useEquipmentStore.getState();
+    const placements = equipmentStore.items.map(item => {
+      const centerX = item.x + item.width / 2;
+      const centerY = item.y + item.height / 2;
+      const radians = (item.rotation * Math.PI) / 180;
+      const center = mapPoint(centerX, centerY);
+      const heading = mapPoint(centerX + Math.cos(radians), centerY + Math.sin(radians));
+      const degrees = (Math.atan2(heading.y - center.y, heading.x - center.x) * 180) / Math.PI;
+      const rotation = Math.round((degrees + 360) % 360 * 10) / 10;
+      return { id: item.id, center, rotation };
+    });
+
+    equipmentStore.updateItemDimensions(pixelsPerFoot);
+    placements.forEach(({ id, center, rotation }) => {
+      const item = useEquipmentStore.getState().items.find(i => i.id === id);
+      if (!item) return;
+      useEquipmentStore.getState().updateItem(id, {
+        x: center.x - item.width / 2,
+        y: center.y - item.height / 2,
+        rotation
+      });
+    });
+  }
+
+  private static drawProjective(ctx: CanvasRenderingContext2D, image: HTMLImageElement, inverse: TransformMatrix): void {
+    const source = document.createElement('canvas');
+    source.width = image.width;
+    source.height = image.height;
+    const sourceCtx = source.getContext('2d');
+    if (!sourceCtx) {
+      throw new Error('Could not read the image for rectification');
+    }
+    sourceCtx.drawImage(image, 0, 0);
+    const input = sourceCtx.getImageData(0, 0, source.width, source.height).data;
+
+    const { width, height } = ctx.canvas;
+    const output = ctx.createImageData(width, height);
+    const out = output.data;
+    const sourceWidth = source.width;
+    const sourceHeight = source.height;
+
+    for (let v = 0; v < height; v++) {
+      for (let u = 0; u < width; u++) {
+        const w = inverse[6] * u + inverse[7] * v + inverse[8];
+        const x = (inverse[0] * u + inverse[1] * v + inverse[2]) / w - 0.5;
+        const y = (inverse[3] * u + inverse[4] * v + inverse[5]) / w - 0.5;
+        if (x < -0.5 || y < -0.5 || x > sourceWidth - 0.5 || y > sourceHeight - 0.5) continue;
+
+        // Bilinear sample of the four surrounding source pixels
+        const x0 = Math.max(0, Math.floor(x));
+        const y0 = Math.max(0, Math.floor(y));
+        const x1 = Math.min(sourceWidth - 1, x0 + 1);
+        const y1 = Math.min(sourceHeight - 1, y0 + 1);
+        const fx = Math.min(1, Math.max(0, x - x0));
+        const fy = Math.min(1, Math.max(0, y - y0));
+        const i00 = (y0 * sourceWidth + x0) * 4;
+        const i10 = (y0 * sourceWidth + x1) * 4;
+        const i01 = (y1 * sourceWidth + x0) * 4;
+        const i11 = (y1 * sourceWidth + x1) * 4;
+        const o = (v * width + u) * 4;
+        for (let c = 0; c < 4; c++) {
+          const top = input[i00 + c] * (1 - fx) + input[i10 + c] * fx;
+          const bottom = input[i01 + c] * (1 - fx) + input[i11 + c] * fx;
+          out[o + c] = top * (1 - fy) + bottom * fy;
+        }
+      }
+    }
+
+    ctx.putImageData(output, 0, 0);
+  }
+
+  /**
+   * Check whether a transform has no perspective, so it maps straight lines evenly
+   */
+  private static isAffine(matrix: TransformMatrix): boolean {
+    return Math.abs(matrix[6] / matrix[8]) < 1e-12 && Math.abs(matrix[7] / matrix[8]) < 1e-12;
+  }
+
+  private static getJacobianDeterminant(matrix: TransformMatrix, x: number, y: number): number {
+    const origin = this.apply(matrix, x, y);
+    const alongX = this.apply(matrix, x + 1, y);
+    const alongY = this.apply(matrix, x, y + 1);
+    return (alongX.x - origin.x) * (alongY.y - origin.y) - (alongX.y - origin.y) * (alongY.x - origin.x);
+  }
+
+  /**
+   * Similarity transform moving the points' centroid to the origin with an average distance of √2
+   */
+  private static getNormalization(points: Point2D[]): TransformMatrix {
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const meanDistance = points.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.y - cy), 0) / points.length;
+    if (meanDistance === 0) return IDENTITY;
+
+    const s = Math.SQRT2 / meanDistance;
+    return [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+  }
+
+  /**
+   * Solve an overdetermined linear system through its normal equations
+   */
+  private static solveLeastSquares(rows: number[][], values: number[]): number[] {
+    const n = rows[0].length;
+    const a = Array.from({ length: n }, () => new Array(n + 1).fill(0));
+    rows.forEach((row, r) => {
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          a[i][j] += row[i] * row[j];
+        }
+        a[i][n] += row[i] * values[r];
+      }
+    });
+
+    // Gaussian elimination with partial pivoting
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let r = col + 1; r < n; r++) {
+        if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+      }
+      if (Math.abs(a[pivot][col]) < 1e-10) {
+        throw new Error('The reference points are too close together or in a straight line. Spread them across the lot.');
+      }
+      [a[col], a[pivot]] = [a[pivot], a[col]];
+
+      for (let r = 0; r < n; r++) {
+        if (r === col) continue;
+        const factor = a[r][col] / a[col][col];
+        for (let c = col; c <= n; c++) {
+          a[r][c] -= factor * a[col][c];
+        }
+      }
+    }
+
+    return a.map((row, i) => row[n] / row[i]);
+  }
+
+  private static multiply(a: TransformMatrix, b: TransformMatrix): TransformMatrix {
+    const result = new Array(9).fill(0);
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) {
+        for (let k = 0; k < 3; k++) {
+          result[r * 3 + c] += a[r * 3 + k] * b[k * 3 + c];
+        }
+      }
+    }
+    return result;
+  }
+
+  private static invert(m: TransformMatrix): TransformMatrix {
+    const [a, b, c, d, e, f, g, h, i] = m;
+    const A = e * i - f * h;
+    const B = -(d * i - f * g);
+    const C = d * h - e * g;
+    const det = a * A + b * B + c * C;
+    if (Math.abs(det) < 1e-12) {
+      throw new Error('The transform cannot be inverted');
+    }
+    return [
+      A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+      B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+      C / det, -(a * h - b * g) / det, (a * e - b * d) / det
+    ];
+  }
+
+  private static loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Failed to load the background image'));
+      image.src = url;
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import { LotAxisService } from './lotAxisService';
+import { ImageTransformService, RectifiedImage } from './imageTransformService';
+import { GeoService } from './geoService';
+import { useMapStore } from '../stores/mapStore';
+import { useEquipmentStore, EquipmentItem } from '../stores/equipmentStore';
+import { useUndoRedoStore } from '../stores/undoRedoStore';
+
+describe('LotAxisService', () => {
+  test('takes the axis angle from two clicks, folded into -90 to 90 degrees', () => {
+    expect(LotAxisService.fromPoints({ x: 0, y: 0 }, { x: 10, y: 10 })).toEqual({ x: 0, y: 0, angle: 45 });
+    expect(LotAxisService.fromPoints({ x: 10, y: 10 }, { x: 0, y: 0 }).angle).toBeCloseTo(45, 10);
+    expect(LotAxisService.fromPoints({ x: 0, y: 0 }, { x: -10, y: 10 }).angle).toBeCloseTo(-45, 10);
+    expect(LotAxisService.normalizeAngle(270)).toBe(90);
+  });
+
+  test('gives new items the axis rotation', () => {
+    expect(LotAxisService.getDefaultRotation(null)).toBe(0);
+    expect(LotAxisService.getDefaultRotation({ x: 0, y: 0, angle: -20 })).toBe(340);
+  });
+
+  test('snaps rotations to 45 degree steps from the axis', () => {
+    const axis = { x: 0, y: 0, angle: 12 };
+
+    expect(LotAxisService.snapRotation(15, axis, 5)).toBe(12);
+    expect(LotAxisService.snapRotation(100, axis, 5)).toBe(102);
+    expect(LotAxisService.snapRotation(-30, axis, 5)).toBe(327);
+    expect(LotAxisService.snapRotation(30, axis, 5)).toBe(30);
+    expect(LotAxisService.snapRotation(2, null, 5)).toBe(0);
+  });
+
+  test('snaps points to a grid laid along the axis through its origin', () => {
+    const axis = { x: 100, y: 50, angle: 30 };
+    const crossing = LotAxisService.fromAxis(axis, { x: 20, y: -10 });
+    const snapped = LotAxisService.snapToGrid(axis, { x: crossing.x + 2, y: crossing.y - 3 }, 10);
+
+    expect(snapped.x).toBeCloseTo(crossing.x, 9);
+    expect(snapped.y).toBeCloseTo(crossing.y, 9);
+    expect(LotAxisService.snapToGrid(null, { x: 14, y: 26 }, 10)).toEqual({ x: 10, y: 30 });
+  });
+});
+
+describe('Background rotation', () => {
+  // A 400 × 200 image turned a quarter turn clockwise into 200 × 400
+  const rotated: RectifiedImage = {
+    url: 'blob:rotated',
+    width: 200,
+    height: 400,
+    pixelsPerFoot: 4,
+    matrix: [0, -1, 200, 1, 0, 0, 0, 0, 1]
+  };
+  const item: EquipmentItem = {
+    id: 'item-1',
+    name: 'Food trailer',
+    x: 100,
+    y: 50,
+    width: 40,
+    height: 20,
+    rotation: 0,
+    color: '#ff0000',
+    type: 'food',
+    templateId: 'food-trailer',
+    shape: 'rectangle',
+    realWorldWidth: 10,
+    realWorldHeight: 5
+  };
+
+  beforeEach(() => {
+    const calibrationLine = {
+      id: 'cal-1',
+      startPoint: { id: 'a', x: 0, y: 0 },
+      endPoint: { id: 'b', x: 40, y: 0 },
+      pixelDistance: 40,
+      realWorldDistance: 10,
+      pixelsPerFoot: 4
+    };
+    useMapStore.setState({
+      imageUrl: 'blob:original',
+      geoTransform: GeoService.fromStaticMap({ lat: 37.7749, lng: -122.4194, zoom: 19 }, { width: 200, height: 100, scale: 2 }),
+      pixelsPerFoot: 4,
+      calibrationLines: [calibrationLine],
+      activeCalibrationLine: calibrationLine,
+      lotAxis: { x: 0, y: 100, angle: -90 },
+      underlays: []
+    });
+    useEquipmentStore.setState({ items: [item] });
+    useUndoRedoStore.getState().clearHistory();
+  });
+
+  test('turns the layout with the image and keeps the scale', () => {
+    ImageTransformService.applyRotation(rotated, 90);
+
+    const map = useMapStore.getState();
+    expect(map.pixelsPerFoot).toBe(4);
+    expect(map.calibrationLines[0].endPoint).toMatchObject({ x: 200, y: 40 });
+    expect(map.calibrationLines[0].pixelsPerFoot).toBeCloseTo(4, 10);
+    expect(map.lotAxis?.angle).toBeCloseTo(0, 10);
+    expect(map.lotAxis).toMatchObject({ x: 100, y: 0 });
+
+    const moved = useEquipmentStore.getState().items[0];
+    expect(moved.rotation).toBe(90);
+    expect(moved.x + moved.width / 2).toBeCloseTo(140, 10);
+    expect(moved.y + moved.height / 2).toBeCloseTo(120, 10);
+    expect(useUndoRedoStore.getState().undoStack).toHaveLength(1);
+  });
+
+  test('keeps GPS coordinates on the same ground', () => {
+    const before = GeoService.canvasToLatLng(useMapStore.getState().geoTransform!, 300, 20);
+    ImageTransformService.applyRotation(rotated, 90);
+    const after = GeoService.canvasToLatLng(useMapStore.getState().geoTransform!, 180, 300);
+
+    expect(after.lat).toBeCloseTo(before.lat, 9);
+    expect(after.lng).toBeCloseTo(before.lng, 9);
+  });
+});
@@ -0,0 +1,81 @@
+import { LotAxis } from '../stores/mapStore';
+import { Point2D } from './collisionService';
+
+// Rotations snap to every 45° from the lot axis
+const ROTATION_SNAP_STEP = 45;
+
+export class LotAxisService {
+  /**
+   * Build the axis through the first point, along the line to the second
+   */
+  static fromPoints(start: Point2D, end: Point2D): LotAxis {
+    const degrees = (Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI;
+    return { x: start.x, y: start.y, angle: this.normalizeAngle(degrees) };
+  }
+
+  /**
+   * Fold an angle into -90 to 90 degrees. An axis has no direction, and
+   * items turned less than a quarter turn keep their labels upright.
+   */
+  static normalizeAngle(degrees: number): number {
+    const angle = ((degrees % 180) + 180) % 180;
+    return angle > 90 ? angle - 180 : angle;
+  }
+
+  /**
+   * Get the rotation, from 0 to 360 degrees, that squares a new item to the axis
+   */
+  static getDefaultRotation(axis: LotAxis | null): number {
+    return axis ? ((axis.angle % 360) + 360) % 360 : 0;
+  }
+
+  /**
+   * Snap a rotation to the nearest 45° step from the axis, or from the canvas
+   * without one, when it is within the threshold
+   */
+  static snapRotation(rotation: number, axis: LotAxis | null, threshold: number): number {
+    const offset = axis ? axis.angle : 0;
+    const relative = rotation - offset;
+    const nearest = Math.round(relative / ROTATION_SNAP_STEP) * ROTATION_SNAP_STEP;
+    if (Math.abs(relative - nearest) >= threshold) return rotation;
+    return (((nearest + offset) % 360) + 360) % 360;
+  }
+
+  /**
+   * Convert a canvas point to distances along and across the axis from its origin
+   */
+  static toAxis(axis: LotAxis | null, point: Point2D): Point2D {
+    if (!axis) return { x: point.x, y: point.y };
+    const radians = (axis.angle * Math.PI) / 180;
+    const dx = point.x - axis.x;
+    const dy = point.y - axis.y;
+    return {
+      x: dx * Math.cos(radians) + dy * Math.sin(radians),
+      y: -dx * Math.sin(radians) + dy * Math.cos(radians)
+    };
+  }
+
+  /**
+   * Convert distances along and across the axis back to a canvas point
+   */
+  static fromAxis(axis: LotAxis | null, point: Point2D): Point2D {
+    if (!axis) return { x: point.x, y: point.y };
+    const radians = (axis.angle * Math.PI) / 180;
+    return {
+      x: axis.x + point.x * Math.cos(radians) - point.y * Math.sin(radians),
+      y: axis.y + point.x * Math.sin(radians) + point.y * Math.cos(radians)
+    };
+  }
+
+  /**
+   * Snap a canvas point to the nearest crossing of a grid laid along the axis
+   */
+  static snapToGrid(axis: LotAxis | null, point: Point2D, spacing: number): Point2D {
+    if (spacing <= 0) return { x: point.x, y: point.y };
+    const local = this.toAxis(axis, point);
+    return this.fromAxis(axis, {
+      x: Math.round(local.x / spacing) * spacing,
+      y: Math.round(local.y / spacing) * spacing
+    });
+  }
+}
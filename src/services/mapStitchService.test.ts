@@ -0,0 +1,107 @@
+import { MapStitchService, StitchTile, LatLngBounds } from './mapStitchService';
+import { GeoService } from './geoService';
+import { GoogleMapsService } from './googleMapsService';
+
+// A fairground roughly 1,800 × 1,300 ft
+const FAIRGROUND: LatLngBounds = {
+  north: 38.4425,
+  south: 38.4390,
+  east: -122.7040,
+  west: -122.7103
+};
+
+// Stands in for a local tile server and remembers which image it served for each tile
+const localTileServer = (served: Map<Blob, StitchTile>) => async (tile: StitchTile): Promise<Blob> => {
+  const blob = new Blob([`${tile.location.lat},${tile.location.lng},${tile.location.zoom}`], { type: 'text/plain' });
+  served.set(blob, tile);
+  return blob;
+};
+
+describe('MapStitchService.planTiles', () => {
+  test('covers the bounds with a grid of tiles', () => {
+    const plan = MapStitchService.planTiles(FAIRGROUND, 18);
+    const northWest = GeoService.latLngToCanvas(plan.geoTransform, FAIRGROUND.north, FAIRGROUND.west);
+    const southEast = GeoService.latLngToCanvas(plan.geoTransform, FAIRGROUND.south, FAIRGROUND.east);
+
+    expect(plan.tiles).toHaveLength(plan.rows * plan.cols);
+    expect(plan.cols).toBeGreaterThan(1);
+    expect(northWest.x).toBeGreaterThanOrEqual(0);
+    expect(northWest.y).toBeGreaterThanOrEqual(0);
+    expect(southEast.x).toBeLessThanOrEqual(plan.imageWidth);
+    expect(southEast.y).toBeLessThanOrEqual(plan.imageHeight);
+  });
+
+  test('uses the fewest tiles that cover the bounds', () => {
+    const plan = MapStitchService.planTiles(FAIRGROUND, 18);
+    const northWest = GeoService.latLngToWorld(FAIRGROUND.north, FAIRGROUND.west, 18);
+    const southEast = GeoService.latLngToWorld(FAIRGROUND.south, FAIRGROUND.east, 18);
+
+    expect(plan.cols).toBe(Math.ceil((southEast.x - northWest.x) / plan.stepX));
+    expect(plan.rows).toBe(Math.ceil((southEast.y - northWest.y) / plan.stepY));
+  });
+
+  test('places each tile center where it lands in the stitched image', () => {
+    const plan = MapStitchService.planTiles(FAIRGROUND, 18, { scale: 2 });
+
+    plan.tiles.forEach(tile => {
+      const point = GeoService.latLngToCanvas(plan.geoTransform, tile.location.lat, tile.location.lng);
+      expect(point.x).toBeCloseTo((tile.col + 0.5) * plan.stepX * plan.scale, 6);
+      expect(point.y).toBeCloseTo((tile.row + 0.5) * plan.stepY * plan.scale, 6);
+    });
+  });
+
+  test('calibrates the stitched image from the zoom, scale and latitude', () => {
+    const plan = MapStitchService.planTiles(FAIRGROUND, 18, { scale: 1 });
+
+    expect(plan.pixelsPerFoot).toBeCloseTo(GoogleMapsService.calculatePixelsPerFoot(plan.center.lat, 18, 1), 10);
+    expect(plan.imageWidth).toBe(plan.cols * plan.stepX);
+    expect(plan.geoTransform.imageWidth).toBe(plan.imageWidth);
+    expect(plan.geoTransform.imageHeight).toBe(plan.imageHeight);
+  });
+
+  test('requests every tile at the planned zoom and scale', () => {
+    const plan = MapStitchService.planTiles(FAIRGROUND, 18, { mapType: 'hybrid', scale: 2 });
+
+    plan.tiles.forEach(tile => {
+      const params = new URL(tile.url).searchParams;
+      expect(params.get('zoom')).toBe('18');
+      expect(params.get('scale')).toBe('2');
+      expect(params.get('size')).toBe(`${plan.tileSize}x${plan.tileSize}`);
+      expect(params.get('maptype')).toBe('hybrid');
+    });
+  });
+
+  test('rejects areas that need too many tiles', () => {
+    expect(() => MapStitchService.planTiles(FAIRGROUND, 21)).toThrow(/lower zoom/);
+  });
+
+  test('rejects empty bounds', () => {
+    expect(() => MapStitchService.planTiles({ ...FAIRGROUND, south: FAIRGROUND.north }, 18)).toThrow(/Draw a box/);
+  });
+});
+
+describe('MapStitchService.fetchTiles', () => {
+  test('fetches every tile through the pluggable fetcher, in plan order', async () => {
+    const plan = MapStitchService.planTiles(FAIRGROUND, 18);
+    const served = new Map<Blob, StitchTile>();
+    const progress: number[] = [];
+
+    const blobs = await MapStitchService.fetchTiles(plan, localTileServer(served), fetched => progress.push(fetched));
+
+    expect(served.size).toBe(plan.tiles.length);
+    expect(progress).toEqual(plan.tiles.map((_, index) => index + 1));
+    blobs.forEach((blob, index) => {
+      expect(served.get(blob)).toBe(plan.tiles[index]);
+    });
+  });
+
+  test('reports which tile failed', async () => {
+    const plan = MapStitchService.planTiles(FAIRGROUND, 18);
+    const failingServer = async (tile: StitchTile): Promise<Blob> => {
+      if (tile.row === 0 && tile.col === 1) throw new Error('Not Found');
+      return new Blob([]);
+    };
+
+    await expect(MapStitchService.fetchTiles(plan, failingServer)).rejects.toThrow('Map tile 1, 2 could not be loaded: Not Found');
+  });
+});
@@ -0,0 +1,245 @@
+import { GoogleMapsService, GoogleMapsLocation, GoogleMapsOptions } from './googleMapsService';
+import { GeoService, GeoTransform, LatLng } from './geoService';
+
+export interface LatLngBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * One static map request in a stitched import
+ */
+export interface StitchTile {
+  row: number;
+  col: number;
+  location: GoogleMapsLocation; // Tile center and zoom
+  url: string;
+}
+
+export interface StitchPlan {
+  tiles: StitchTile[];
+  rows: number;
+  cols: number;
+  zoom: number;
+  scale: number; // Image pixels per map point
+  tileSize: number; // Requested tile width and height, in map points
+  stepX: number; // Distance between neighbouring tile centers, in map points
+  stepY: number;
+  center: LatLng;
+  imageWidth: number; // Stitched image size in image pixels
+  imageHeight: number;
+  pixelsPerFoot: number;
+  geoTransform: GeoTransform;
+}
+
+export interface StitchedImage {
+  url: string;
+  width: number;
+  height: number;
+  pixelsPerFoot: number;
+  geoTransform: GeoTransform;
+}
+
+/**
+ * Loads the image for one tile. The default asks Google; tests and offline
+ * setups can point this at a local tile server instead.
+ */
+export type TileFetcher = (tile: StitchTile) => Promise<Blob>;
+
+// Largest size a Static Maps request accepts on the standard plan
+const MAX_TILE_SIZE = 640;
+// Rows of each tile cropped top and bottom to hide the Google logo and attribution
+const ATTRIBUTION_MARGIN = 24;
+const MAX_STITCH_TILES = 36;
+const FETCH_CONCURRENCY = 4;
+
+// Canvas size limits for the stitched image
+const MAX_STITCHED_SIDE = 8192;
+const MAX_STITCHED_AREA = 32 * 1024 * 1024;
+
+export class MapStitchService {
+  /**
+   * Lay out a grid of static map tiles covering the bounds at a zoom level.
+   * Tiles overlap by the cropped attribution rows, and the grid is centered
+   * on the bounds so any spare coverage is split evenly around them.
+   */
+  static planTiles(
+    bounds: LatLngBounds,
+    zoom: number,
+    options: Partial<Omit<GoogleMapsOptions, 'apiKey' | 'width' | 'height'>> = {}
+  ): StitchPlan {
+    const { mapType = 'satellite', scale = 2 } = options;
+    const northWest = GeoService.latLngToWorld(bounds.north, bounds.west, zoom);
+    const southEast = GeoService.latLngToWorld(bounds.south, bounds.east, zoom);
+    const width = southEast.x - northWest.x;
+    const height = southEast.y - northWest.y;
+
+    if (!(width > 0) || !(height > 0)) {
+      throw new Error('Draw a box around the area to import');
+    }
+
+    const tileSize = MAX_TILE_SIZE;
+    const stepX = tileSize;
+    const stepY = tileSize - 2 * ATTRIBUTION_MARGIN;
+    const cols = Math.max(1, Math.ceil(width / stepX));
+    const rows = Math.max(1, Math.ceil(height / stepY));
+
+    if (rows * cols > MAX_STITCH_TILES) {
+      throw new Error(`This area needs ${rows * cols} map tiles at zoom ${zoom}; the limit is ${MAX_STITCH_TILES}. Choose a lower zoom or a smaller area.`);
+    }
+
+    const imageWidth = cols * stepX * scale;
+    const imageHeight = rows * stepY * scale;
+    if (imageWidth > MAX_STITCHED_SIDE || imageHeight > MAX_STITCHED_SIDE || imageWidth * imageHeight > MAX_STITCHED_AREA) {
+      throw new Error(`The stitched image would be ${imageWidth} × ${imageHeight} pixels, too large to draw. Choose a lower zoom or a smaller area.`);
+    }
+
+    const centerX = (northWest.x + southEast.x) / 2;
+    const centerY = (northWest.y + southEast.y) / 2;
+    const originX = centerX - (cols * stepX) / 2;
+    const originY = centerY - (rows * stepY) / 2;
+
+    const tiles: StitchTile[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const { lat, lng } = GeoService.worldToLatLng(originX + (col + 0.5) * stepX, originY + (row + 0.5) * stepY, zoom);
+        const location: GoogleMapsLocation = { lat, lng, zoom };
+        tiles.push({
+          row,
+          col,
+          location,
+          url: GoogleMapsService.getStaticMapUrl(location, { mapType, width: tileSize, height: tileSize, scale })
+        });
+      }
+    }
+
+    const center = GeoService.worldToLatLng(centerX, centerY, zoom);
+    return {
+      tiles,
+      rows,
+      cols,
+      zoom,
+      scale,
+      tileSize,
+      stepX,
+      stepY,
+      center,
+      imageWidth,
+      imageHeight,
+      pixelsPerFoot: GoogleMapsService.calculatePixelsPerFoot(center.lat, zoom, scale),
+      geoTransform: GeoService.fromStaticMap({ ...center, zoom }, { width: cols * stepX, height: rows * stepY, scale })
+    };
+  }
+
+  /**
+   * Fetch every tile in the plan, a few at a time
+   * @returns Tile images in the same order as `plan.tiles`
+   */
+  static async fetchTiles(
+    plan: StitchPlan,
+    fetcher: TileFetcher = this.fetchTile,
+    onProgress?: (fetched: number, total: number) => void
+  ): Promise<Blob[]> {
+    const blobs: Blob[] = new Array(plan.tiles.length);
+    let nextIndex = 0;
+    let fetched = 0;
+
+    const worker = async () => {
+      while (nextIndex < plan.tiles.length) {
+        const index = nextIndex++;
+        const tile = plan.tiles[index];
+        try {
+          blobs[index] = await fetcher(tile);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new Error(`Map tile ${tile.row + 1}, ${tile.col + 1} could not be loaded: ${reason}`);
+        }
+        fetched++;
+        onProgress?.(fetched, plan.tiles.length);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, plan.tiles.length) }, worker));
+    return blobs;
+  }
+
+  /**
+   * Fetch the tiles and draw them into one image, cropping the attribution
+   * rows where neighbouring tiles overlap
+   */
+  static async stitch(
+    plan: StitchPlan,
+    fetcher: TileFetcher = this.fetchTile,
+    onProgress?: (fetched: number, total: number) => void
+  ): Promise<StitchedImage> {
+    const blobs = await this.fetchTiles(plan, fetcher, onProgress);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = plan.imageWidth;
+    canvas.height = plan.imageHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to stitch the map');
+    }
+
+    for (let i = 0; i < plan.tiles.length; i++) {
+      const tile = plan.tiles[i];
+      const image = await this.loadBlob(blobs[i]);
+      // Measure from the image itself in case the service returned a different resolution
+      const pixelsPerPoint = image.width / plan.tileSize;
+      ctx.drawImage(
+        image,
+        0,
+        ((plan.tileSize - plan.stepY) / 2) * pixelsPerPoint,
+        plan.stepX * pixelsPerPoint,
+        plan.stepY * pixelsPerPoint,
+        tile.col * plan.stepX * plan.scale,
+        tile.row * plan.stepY * plan.scale,
+        plan.stepX * plan.scale,
+        plan.stepY * plan.scale
+      );
+    }
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('Could not encode the stitched map');
+    }
+
+    return {
+      url: URL.createObjectURL(blob),
+      width: canvas.width,
+      height: canvas.height,
+      pixelsPerFoot: plan.pixelsPerFoot,
+      geoTransform: plan.geoTransform
+    };
+  }
+
+  /**
+   * Default tile fetcher: requests the tile from the Google Static Maps API
+   */
+  static async fetchTile(tile: StitchTile): Promise<Blob> {
+    const response = await fetch(tile.url);
+    if (!response.ok) {
+      throw new Error(response.statusText || `HTTP ${response.status}`);
+    }
+    return response.blob();
+  }
+
+  private static loadBlob(blob: Blob): Promise<HTMLImageElement> {
+    const url = URL.createObjectURL(blob);
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('A map tile is not a valid image'));
+      };
+      image.src = url;
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
+import { PerimeterStatus } from './collisionService';
 
 export interface PDFExportOptions {
   title?: string;
@@ -38,9 +39,22 @@ export interface EquipmentItemData {
   powerGen?: number;
   ticketCount?: number;
   color?: string;
+  perimeterStatus?: PerimeterStatus;
 }
 
+// 4096x4096; larger canvases are captured at a lower scale
+const MAX_CAPTURE_PIXELS = 16777216;
+
 export class PDFExportService {
+  /**
+   * Get the html2canvas scale that keeps a capture within the pixel budget
+   */
+  static getCaptureScale(width: number, height: number, quality: number): number {
+    const area = width * height;
+    if (area <= 0) return quality;
+    return Math.min(quality, Math.sqrt(MAX_CAPTURE_PIXELS / area));
+  }
+
   /**
    * Export the map canvas to PDF
    */
@@ -98,10 +112,10 @@ export class PDFExportService {
         currentY += 10;
       }
 
-      // Capture canvas as image with enhanced options
+      // Capture canvas as image with enhanced options, scaled down to the pixel budget
       const canvas = await html2canvas(canvasElement, {
         backgroundColor: '#121212',
-        scale: quality,
+        scale: this.getCaptureScale(canvasElement.width, canvasElement.height, quality),
         useCORS: true,
         allowTaint: true,
         logging: false,
@@ -124,9 +138,8 @@ export class PDFExportService {
         throw new Error('html2canvas failed to capture valid image');
       }
 
-      // Check for reasonable size limits
-      const maxPixels = 16777216; // 4096x4096 max
-      if (canvas.width * canvas.height > maxPixels) {
+      // Check for reasonable size limits, allowing for rounding in the capture
+      if (canvas.width * canvas.height > MAX_CAPTURE_PIXELS * 1.01) {
         throw new Error('Captured image too large for PDF export');
       }
 
@@ -280,6 +293,14 @@ export class PDFExportService {
     pdf.text(`Equipment Items: ${metadata.itemCount}`, margin, currentY);
     currentY += 6;
 
+    const outsideCount = metadata.equipmentItems?.filter(
+      item => item.perimeterStatus && item.perimeterStatus !== 'inside'
+    ).length || 0;
+    if (outsideCount > 0) {
+      pdf.text(`Outside Lot Perimeter: ${outsideCount}`, margin, currentY);
+      currentY += 6;
+    }
+
     if (metadata.calibrationInfo) {
       pdf.text(`Calibration: ${metadata.calibrationInfo}`, margin, currentY);
       currentY += 6;
@@ -322,7 +343,8 @@ export class PDFExportService {
       { header: 'Height (ft)', key: 'verticalHeight', width: 15 },
       { header: 'Power Load', key: 'powerLoad', width: 18 },
       { header: 'Power Gen', key: 'powerGen', width: 17 },
-      { header: 'Tickets', key: 'ticketCount', width: 12 }
+      { header: 'Tickets', key: 'ticketCount', width: 12 },
+      { header: 'Lot', key: 'perimeterStatus', width: 14 }
     ];
     
     // Calculate column widths based on content width
@@ -377,7 +399,10 @@ export class PDFExportService {
         verticalHeight: (item.verticalHeight || 0).toString(),
         powerLoad: (item.powerLoad || 0).toString(),
         powerGen: (item.powerGen || 0).toString(),
-        ticketCount: (item.ticketCount || 0).toString()
+        ticketCount: (item.ticketCount || 0).toString(),
+        perimeterStatus: item.perimeterStatus === 'outside' ? 'Outside'
+          : item.perimeterStatus === 'straddling' ? 'Crosses'
+          : item.perimeterStatus === 'inside' ? 'Inside' : '-'
       };
       
       // Draw cell data
@@ -476,10 +501,6 @@ export class PDFExportService {
       issues.push('Canvas has no content to export');
     }
 
-    if (canvasElement.width > 10000 || canvasElement.height > 10000) {
-      issues.push('Canvas size too large for PDF export (max 10000x10000)');
-    }
-
     // Check if canvas is empty/blank
     try {
       const ctx = canvasElement.getContext('2d');
@@ -0,0 +1,122 @@
+import { PROJECT_SCHEMA_VERSION, ProjectMigrationService, ProjectSchemaError } from './projectMigrationService';
+
+const referenceLine = {
+  id: 'line-1',
+  startPoint: { x: 0, y: 0, id: 'a' },
+  endPoint: { x: 100, y: 0, id: 'b' },
+  realWorldDistance: 20,
+  pixelDistance: 100
+};
+
+// A project as the first release saved it
+const createLegacyProject = (version: string, overrides: Record<string, unknown> = {}) => ({
+  id: 'project-1',
+  name: 'County fair',
+  createdAt: 1000,
+  updatedAt: 2000,
+  version,
+  mapState: {
+    scale: 1,
+    position: { x: 0, y: 0 },
+    imageUrl: 'data:image/png;base64,AAAA',
+    pixelsPerFoot: 5,
+    activeCalibrationLine: referenceLine,
+    showGrid: true,
+    gridSpacing: 10
+  },
+  equipmentState: {
+    items: [{ name: 'Ferris Wheel', x: 10, y: 20, width: 50, height: 50 }]
+  },
+  ...overrides
+});
+
+describe('ProjectMigrationService upgrades', () => {
+  test('upgrades a 1.0.0 file all the way to the current schema', () => {
+    const project = ProjectMigrationService.migrate(createLegacyProject('1.0.0'));
+
+    expect(project.version).toBe(PROJECT_SCHEMA_VERSION);
+    expect(project.mapState).toMatchObject({
+      imageUrl: 'data:image/png;base64,AAAA',
+      imageId: null,
+      pixelsPerFoot: 5,
+      calibrationPoints: [],
+      calibrationLines: [referenceLine],
+      measurementLines: [],
+      activePerimeter: null,
+      corridors: [],
+      geoTransform: null,
+      underlays: [],
+      lotAxis: null
+    });
+    expect(project.equipmentState.items).toEqual([
+      expect.objectContaining({ name: 'Ferris Wheel', rotation: 0, shape: 'rectangle', templateId: '', id: expect.any(String) })
+    ]);
+    expect(project.equipmentState.selectedIds).toEqual([]);
+    expect(project.equipmentState.spacingRules).toEqual([]);
+    expect(project.metadata).toEqual({ lastSaved: 2000, autoSave: false, tags: [] });
+  });
+
+  test.each([
+    ['1.1.0', { calibrationLines: [referenceLine], geoTransform: null, underlays: [], lotAxis: null }],
+    ['1.2.0', { calibrationLines: [referenceLine], geoTransform: null, underlays: [], lotAxis: null }],
+    ['1.3.0', { geoTransform: null, underlays: [], lotAxis: null }],
+    ['1.4.0', { underlays: [], lotAxis: null }],
+    ['1.5.0', { lotAxis: null }]
+  ])('upgrades a %s file with the fields added since', (version, added) => {
+    const project = ProjectMigrationService.migrate(createLegacyProject(version));
+
+    expect(project.version).toBe(PROJECT_SCHEMA_VERSION);
+    expect(project.mapState).toMatchObject(added);
+    // Later steps don't touch what earlier ones set up
+    expect(project.equipmentState.items).toEqual(createLegacyProject(version).equipmentState.items);
+  });
+
+  test('keeps what a later step would otherwise default', () => {
+    const lotAxis = { x: 5, y: 5, angle: 30 };
+    const original = createLegacyProject('1.5.0');
+    const project = ProjectMigrationService.migrate({ ...original, mapState: { ...original.mapState, lotAxis } });
+
+    expect(project.mapState.lotAxis).toEqual(lotAxis);
+  });
+
+  test('leaves current projects as they are', () => {
+    const current = createLegacyProject(PROJECT_SCHEMA_VERSION);
+
+    expect(ProjectMigrationService.needsMigration(current)).toBe(false);
+    expect(ProjectMigrationService.migrate(current)).toEqual(current);
+  });
+});
+
+describe('ProjectMigrationService rejections', () => {
+  test('rejects files from a newer version', () => {
+    expect(() => ProjectMigrationService.migrate(createLegacyProject('2.0.0'))).toThrow(ProjectSchemaError);
+    expect(() => ProjectMigrationService.migrate(createLegacyProject('1.7.0'))).toThrow(/newer version/);
+  });
+
+  test('rejects unknown older versions', () => {
+    expect(() => ProjectMigrationService.migrate(createLegacyProject('1.0.5'))).toThrow(/Unknown project schema version 1\.0\.5/);
+  });
+
+  test('rejects malformed or missing version strings', () => {
+    ['1.x', '', 'v1.6.0', '1..0'].forEach(version => {
+      expect(() => ProjectMigrationService.migrate(createLegacyProject(version))).toThrow(/no recognizable schema version/);
+    });
+    expect(() => ProjectMigrationService.migrate(createLegacyProject('1.6.0', { version: 16 }))).toThrow(ProjectSchemaError);
+  });
+
+  test('rejects data that is not a project', () => {
+    expect(() => ProjectMigrationService.migrate(null)).toThrow(ProjectSchemaError);
+    expect(() => ProjectMigrationService.migrate('{}')).toThrow(ProjectSchemaError);
+    expect(() => ProjectMigrationService.migrate(createLegacyProject('1.6.0', { mapState: undefined }))).toThrow(/missing its map or equipment data/);
+  });
+
+  test('rejects a current project without an equipment list', () => {
+    const damaged = createLegacyProject(PROJECT_SCHEMA_VERSION, { equipmentState: { selectedIds: [] } });
+    expect(() => ProjectMigrationService.migrate(damaged)).toThrow(/equipment list could not be read/);
+  });
+
+  test('gives a 1.0.0 project without an equipment list an empty one', () => {
+    const project = ProjectMigrationService.migrate(createLegacyProject('1.0.0', { equipmentState: {} }));
+    expect(project.equipmentState.items).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+import { Project } from './projectService';
+
+/**
+ * Schema version written by this build. Bump it and add a migration below
+ * whenever the saved project format changes.
+ */
+export const PROJECT_SCHEMA_VERSION = '1.6.0';
+
+/**
+ * Thrown when a project file can't be upgraded to the current schema
+ */
+export class ProjectSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectSchemaError';
+  }
+}
+
+/**
+ * Project data part way through the migration chain. Only the sections every
+ * schema version has are typed; what is inside them depends on the version.
+ */
+interface ProjectData extends Record<string, unknown> {
+  id?: unknown;
+  version?: unknown;
+  updatedAt?: number;
+  mapState: Record<string, unknown>;
+  equipmentState: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Upgrades a project from one schema version to the next
+ */
+interface ProjectMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (project: ProjectData) => ProjectData;
+}
+
+/**
+ * Ordered chain of migrations. Each step only has to understand the version
+ * directly before it, so files from any older release are upgraded one step at a time.
+ */
+const MIGRATIONS: ProjectMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Add measurement lines, lot perimeter, fire lanes, spacing rules and stored image references',
+    migrate: (project: ProjectData) => ({
+      ...project,
+      mapState: {
+        ...project.mapState,
+        imageUrl: project.mapState.imageUrl ?? null,
+        imageId: project.mapState.imageId ?? null,
+        calibrationPoints: project.mapState.calibrationPoints || [],
+        activeCalibrationLine: project.mapState.activeCalibrationLine ?? null,
+        measurementLines: project.mapState.measurementLines || [],
+        activePerimeter: project.mapState.activePerimeter ?? null,
+        perimeterColor: project.mapState.perimeterColor || '#9c27b0',
+        showPerimeter: project.mapState.showPerimeter ?? true,
+        corridors: project.mapState.corridors || []
+      },
+      equipmentState: {
+        ...project.equipmentState,
+        items: ((project.equipmentState.items as Record<string, unknown>[] | undefined) || []).map((item, index) => ({
+          ...item,
+          id: item.id || `restored-${Date.now()}-${index}`,
+          rotation: item.rotation ?? 0,
+          shape: item.shape || 'rectangle',
+          templateId: item.templateId || ''
+        })),
+        selectedIds: project.equipmentState.selectedIds || [],
+        spacingRules: project.equipmentState.spacingRules || []
+      },
+      metadata: {
+        lastSaved: project.updatedAt || Date.now(),
+        autoSave: false,
+        tags: [],
+        ...project.metadata
+      }
+    })
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Allow the undo history to be saved with the project',
+    // The history is optional, so older projects simply open without one
+    migrate: (project: ProjectData) => project
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Keep several calibration reference lines',
+    migrate: (project: ProjectData) => ({
+      ...project,
+      mapState: {
+        ...project.mapState,
+        calibrationLines: project.mapState.calibrationLines ||
+          (project.mapState.activeCalibrationLine ? [project.mapState.activeCalibrationLine] : [])
+      }
+    })
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Add the geotransform of the background image',
+    migrate: (project: ProjectData) => ({
+      ...project,
+      mapState: {
+        ...project.mapState,
+        geoTransform: project.mapState.geoTransform ?? null
+      }
+    })
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    description: 'Add site plan underlays',
+    migrate: (project: ProjectData) => ({
+      ...project,
+      mapState: {
+        ...project.mapState,
+        underlays: project.mapState.underlays || []
+      }
+    })
+  },
+  {
+    from: '1.5.0',
+    to: '1.6.0',
+    description: 'Add the lot axis',
+    migrate: (project: ProjectData) => ({
+      ...project,
+      mapState: {
+        ...project.mapState,
+        lotAxis: project.mapState.lotAxis ?? null
+      }
+    })
+  }
+];
+
+export class ProjectMigrationService {
+  /**
+   * Get every schema version this build can read, oldest first
+   */
+  static getSupportedVersions(): string[] {
+    return [...MIGRATIONS.map(migration => migration.from), PROJECT_SCHEMA_VERSION];
+  }
+
+  /**
+   * Compare two dotted version strings; negative when a is older than b
+   */
+  static compareVersions(a: string, b: string): number {
+    const aParts = a.split('.').map(Number);
+    const bParts = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+      const difference = (aParts[i] || 0) - (bParts[i] || 0);
+      if (difference !== 0) return difference;
+    }
+    return 0;
+  }
+
+  /**
+   * Check whether a project needs upgrading before use
+   */
+  static needsMigration(project: { version?: unknown }): boolean {
+    return project.version !== PROJECT_SCHEMA_VERSION;
+  }
+
+  /**
+   * Upgrade parsed project data to the current schema version.
+   * Throws a ProjectSchemaError for malformed data and for unknown or newer versions.
+   */
+  static migrate(data: unknown): Project {
+    if (!data || typeof data !== 'object') {
+      throw new ProjectSchemaError('This file is not a LotLizard project.');
+    }
+
+    const candidate = data as Partial<ProjectData>;
+    if (!candidate.id || !candidate.mapState || !candidate.equipmentState) {
+      throw new ProjectSchemaError('This file is not a LotLizard project: it is missing its map or equipment data.');
+    }
+    let project = candidate as ProjectData;
+
+    const version = project.version;
+    if (typeof version !== 'string' || !/^\d+(\.\d+)*$/.test(version)) {
+      throw new ProjectSchemaError('This project has no recognizable schema version and cannot be opened.');
+    }
+
+    if (this.compareVersions(version, PROJECT_SCHEMA_VERSION) > 0) {
+      throw new ProjectSchemaError(
+        `This project was saved by a newer version of LotLizard (schema ${version}). ` +
+        `This version can open projects up to schema ${PROJECT_SCHEMA_VERSION}; update the app to open it.`
+      );
+    }
+
+    if (!this.getSupportedVersions().includes(version)) {
+      throw new ProjectSchemaError(
+        `Unknown project schema version ${version}. ` +
+        `Supported versions are ${this.getSupportedVersions().join(', ')}.`
+      );
+    }
+
+    // Apply each step in order, starting from the file's own version
+    const start = MIGRATIONS.findIndex(migration => migration.from === version);
+    if (start >= 0) {
+      for (const migration of MIGRATIONS.slice(start)) {
+        project = { ...migration.migrate(project), version: migration.to };
+      }
+    }
+
+    if (!Array.isArray(project.equipmentState.items)) {
+      throw new ProjectSchemaError('This project is damaged: its equipment list could not be read.');
+    }
+
+    return project as unknown as Project;
+  }
+}
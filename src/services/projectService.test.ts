@@ -0,0 +1,152 @@
+import { ProjectService, Project } from './projectService';
+import { ProjectStorageService, RecoverySnapshot } from './projectStorageService';
+import { GoogleMapsService } from './googleMapsService';
+import { GeoService, GeoTransform } from './geoService';
+import { GeoreferenceService } from './georeferenceService';
+import { useMapStore, Underlay } from '../stores/mapStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useUndoRedoStore, createUnderlayChangeAction } from '../stores/undoRedoStore';
+
+// Set the image's geotransform and scale in place of any reference lines, as an import does
+const importMapImage = (geoTransform: GeoTransform, pixelsPerFoot: number) => {
+  const mapStore = useMapStore.getState();
+  mapStore.setImageUrl(null, geoTransform);
+  mapStore.clearCalibration();
+  mapStore.setPixelsPerFoot(pixelsPerFoot);
+};
+
+const sitePlan: Underlay = {
+  id: 'underlay-1',
+  name: 'Site plan',
+  source: 'pdf',
+  imageUrl: 'blob:site-plan',
+  imageWidth: 3600,
+  imageHeight: 5400,
+  pixelsPerInch: 150,
+  x: 0,
+  y: 0,
+  rotation: 0,
+  scale: 1,
+  opacity: 0.7,
+  visible: true,
+  calibrationLines: [],
+  pixelsPerFoot: null
+};
+
+describe('ProjectService save and load', () => {
+  const projects = new Map<string, Project>();
+  let snapshot: RecoverySnapshot | null = null;
+
+  beforeEach(() => {
+    projects.clear();
+    snapshot = null;
+    localStorage.clear();
+
+    jest.spyOn(ProjectStorageService, 'getProject').mockImplementation(async id => projects.get(id) || null);
+    jest.spyOn(ProjectStorageService, 'putProject').mockImplementation(async project => {
+      projects.set(project.id, project);
+    });
+    jest.spyOn(ProjectStorageService, 'getRecoverySnapshot').mockImplementation(async () => snapshot);
+    jest.spyOn(ProjectStorageService, 'putRecoverySnapshot').mockImplementation(async project => {
+      snapshot = { id: 'recovery', project, savedAt: Date.now() };
+    });
+    jest.spyOn(ProjectStorageService, 'deleteRecoverySnapshot').mockImplementation(async () => {
+      snapshot = null;
+    });
+
+    useMapStore.getState().clearCalibration();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('keeps a scale set without reference lines, as a rectified image has', async () => {
+    useMapStore.getState().setPixelsPerFoot(7.5);
+    const project = await ProjectService.saveCurrentState('Rectified lot');
+
+    useMapStore.getState().clearCalibration();
+    expect(await ProjectService.loadProject(project.id)).toBe(true);
+
+    expect(useMapStore.getState().pixelsPerFoot).toBe(7.5);
+    expect(useMapStore.getState().calibrationLines).toEqual([]);
+    expect(useMapStore.getState().activeCalibrationLine).toBeNull();
+  });
+
+  test('keeps the scale through crash recovery', async () => {
+    useMapStore.getState().setPixelsPerFoot(3.25);
+    await ProjectService.saveRecoverySnapshot();
+
+    useMapStore.getState().clearCalibration();
+    expect(await ProjectService.restoreRecoverySnapshot()).toBe(true);
+
+    expect(useMapStore.getState().pixelsPerFoot).toBe(3.25);
+  });
+
+  test('keeps the scale worked out for a Google Maps image', async () => {
+    const location = { lat: 39.74, lng: -104.99, zoom: 19 };
+    const pixelsPerFoot = GoogleMapsService.calculatePixelsPerFoot(location.lat, location.zoom, 2);
+    importMapImage(GeoService.fromStaticMap(location, { scale: 2 }), pixelsPerFoot);
+    const project = await ProjectService.saveCurrentState('Fairgrounds');
+
+    useMapStore.getState().clearCalibration();
+    await ProjectService.loadProject(project.id);
+
+    expect(useMapStore.getState().pixelsPerFoot).toBe(pixelsPerFoot);
+  });
+
+  test('keeps both the geotransform and the scale of a georeferenced image', async () => {
+    // A UTM orthomosaic at 5 cm per pixel
+    const matrix = [0.05, 0, 500000, 0, -0.05, 4400000];
+    const georeference = GeoreferenceService.create('world-file', matrix, GeoreferenceService.fromEpsg(32613), 2000, 2000);
+    importMapImage(georeference.geoTransform as GeoTransform, georeference.pixelsPerFoot);
+    const project = await ProjectService.saveCurrentState('Orthomosaic');
+
+    useMapStore.getState().setImageUrl(null, null);
+    useMapStore.getState().clearCalibration();
+    await ProjectService.loadProject(project.id);
+
+    expect(useMapStore.getState().geoTransform).toEqual(georeference.geoTransform);
+    expect(useMapStore.getState().pixelsPerFoot).toBeCloseTo(0.3048 / 0.05, 1);
+  });
+
+  test('keeps the images on the canvas when a deleted project frees them', async () => {
+    jest.spyOn(ProjectStorageService, 'deleteProject').mockImplementation(async id => {
+      projects.delete(id);
+    });
+    const deleteUnusedImages = jest.spyOn(ProjectStorageService, 'deleteUnusedImages').mockResolvedValue();
+    const project = await ProjectService.saveCurrentState('Old layout');
+
+    // A background and site plan that haven't been saved with any project yet
+    useMapStore.setState({ imageUrl: 'blob:background', underlays: [sitePlan] });
+    expect(await ProjectService.deleteProject(project.id)).toBe(true);
+
+    expect(deleteUnusedImages).toHaveBeenCalledWith(['blob:site-plan', 'blob:background']);
+    useMapStore.setState({ imageUrl: null, underlays: [] });
+  });
+
+  test('keeps underlay edits in saved history and points them at the reopened image', async () => {
+    jest.spyOn(ProjectStorageService, 'storeImage').mockResolvedValue('site-plan-image');
+    jest.spyOn(ProjectStorageService, 'getImageUrl').mockResolvedValue('blob:reopened');
+    useSettingsStore.getState().setPersistHistory(true);
+    const undoRedo = useUndoRedoStore.getState();
+    undoRedo.clearHistory();
+
+    const faded = { ...sitePlan, opacity: 0.4 };
+    undoRedo.addAction(createUnderlayChangeAction('Add site plan', [], [sitePlan]));
+    undoRedo.addAction(createUnderlayChangeAction('Change site plan opacity', [sitePlan], [faded]));
+    useMapStore.setState({ underlays: [faded] });
+    const project = await ProjectService.saveCurrentState('Site plan');
+
+    useMapStore.setState({ underlays: [] });
+    await ProjectService.loadProject(project.id);
+
+    // Adding the drawing cuts the history; the opacity change after it is kept
+    const { undoStack } = useUndoRedoStore.getState();
+    expect(undoStack.map(action => action.description)).toEqual(['Change site plan opacity']);
+    expect(undoStack[0].undoData.underlays).toEqual([{ ...sitePlan, imageUrl: 'blob:reopened' }]);
+
+    useSettingsStore.getState().setPersistHistory(false);
+    useMapStore.setState({ underlays: [] });
+  });
+});
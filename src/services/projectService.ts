@@ -1,5 +1,17 @@
-import { useMapStore } from '../stores/mapStore';
+import { useMapStore, Corridor, LotAxis, MeasurementLine, Perimeter, Underlay } from '../stores/mapStore';
 import { useEquipmentStore } from '../stores/equipmentStore';
+import { useUndoRedoStore, PersistedHistory, UndoRedoAction } from '../stores/undoRedoStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { SpacingRule } from './spacingRuleService';
+import { CalibrationLine, CalibrationService } from './calibrationService';
+import { GeoTransform } from './geoService';
+import { ProjectStorageService, RecoverySnapshot, StorageQuotaError } from './projectStorageService';
+import { PROJECT_SCHEMA_VERSION, ProjectMigrationService, ProjectSchemaError } from './projectMigrationService';
+
+/**
+ * Site plan underlay as saved; stored projects reference its image by imageId, like the background
+ */
+export type SavedUnderlay = Omit<Underlay, 'imageUrl'> & { imageUrl: string | null; imageId?: string | null };
 
 /**
  * Project structure represents the serializable format of a project
@@ -10,13 +22,16 @@ export interface Project {
   description?: string;
   createdAt: number;
   updatedAt: number;
-  version: string;
+  version: string; // Schema version, upgraded on load by ProjectMigrationService
   mapState: {
     scale: number;
     position: { x: number; y: number };
-    imageUrl: string | null;
+    imageUrl: string | null; // Inline or remote image; stored projects reference images by imageId instead
+    imageId?: string | null;
+    geoTransform?: GeoTransform | null;
     pixelsPerFoot: number;
     calibrationPoints: any[];
+    calibrationLines?: CalibrationLine[];
     activeCalibrationLine: any | null;
     showGrid: boolean;
     gridSpacing: number;
@@ -25,25 +40,38 @@ export interface Project {
     showCalibrationLine: boolean;
     showEquipmentLabels: boolean;
     showClearanceZones: boolean;
+    measurementLines?: MeasurementLine[];
+    activePerimeter?: Perimeter | null;
+    perimeterColor?: string;
+    showPerimeter?: boolean;
+    corridors?: Corridor[];
+    underlays?: SavedUnderlay[];
+    lotAxis?: LotAxis | null;
   };
   equipmentState: {
     items: any[];
     selectedIds: string[];
+    spacingRules?: SpacingRule[];
   };
   metadata: {
     lastSaved: number;
     autoSave: boolean;
     tags: string[];
   };
+  history?: PersistedHistory; // Undo history, saved only when enabled in the History panel
 }
 
 /**
- * Service for handling project operations such as create, save, load, export, import
+ * Service for handling project operations such as create, save, load, export, import.
+ * Projects are kept in IndexedDB through ProjectStorageService.
  */
 export class ProjectService {
-  private static readonly STORAGE_KEY = 'lot-lizard-projects';
+  private static readonly STORAGE_KEY = 'lot-lizard-projects'; // Legacy localStorage array, migrated to IndexedDB
   private static readonly CURRENT_PROJECT_KEY = 'lot-lizard-current-project';
-  private static readonly PROJECT_VERSION = '1.0.0';
+  private static readonly PROJECT_VERSION = PROJECT_SCHEMA_VERSION;
+  private static migration: Promise<void> | null = null;
+  private static restoring = false;
+  private static saveListeners = new Set<(project: Project) => void>();
 
   /**
    * Create a new project with default settings
@@ -60,8 +88,11 @@ export class ProjectService {
         scale: 1.0,
         position: { x: 0, y: 0 },
         imageUrl: null,
+        imageId: null,
+        geoTransform: null,
         pixelsPerFoot: 1,
         calibrationPoints: [],
+        calibrationLines: [],
         activeCalibrationLine: null,
         showGrid: true,
         gridSpacing: 10,
@@ -70,10 +101,18 @@ export class ProjectService {
         showCalibrationLine: true,
         showEquipmentLabels: true,
         showClearanceZones: true,
+        measurementLines: [],
+        activePerimeter: null,
+        perimeterColor: '#9c27b0',
+        showPerimeter: true,
+        corridors: [],
+        underlays: [],
+        lotAxis: null,
       },
       equipmentState: {
         items: [],
         selectedIds: [],
+        spacingRules: [],
       },
       metadata: {
         lastSaved: Date.now(),
@@ -88,27 +127,54 @@ export class ProjectService {
   /**
    * Save the current state of map and equipment stores to a project
    */
-  static saveCurrentState(name?: string): Project {
-    // Get the current map and equipment state
-    const mapState = useMapStore.getState();
-    const equipmentState = useEquipmentStore.getState();
-    
+  static async saveCurrentState(name?: string): Promise<Project> {
     // Get the current project or create a new one
-    let project = this.getCurrentProject();
+    let project = await this.getCurrentProject();
     if (!project) {
       project = this.createNewProject(name);
     } else if (name) {
       project.name = name;
     }
 
-    // Update the project data
+    // Save the project to storage
+    const savedProject = await this.saveProject(this.captureState(project));
+    this.setCurrentProject(project.id);
+
+    // Everything is saved, so there is nothing left to recover
+    await this.discardRecoverySnapshot();
+    this.saveListeners.forEach(listener => listener(savedProject));
+
+    return savedProject;
+  }
+
+  /**
+   * Listen for the current state being saved to a project. Returns an unsubscribe function.
+   */
+  static subscribeToSaves(listener: (project: Project) => void): () => void {
+    this.saveListeners.add(listener);
+    return () => {
+      this.saveListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Copy the current map and equipment store state into a project
+   */
+  private static captureState(project: Project): Project {
+    const mapState = useMapStore.getState();
+    const equipmentState = useEquipmentStore.getState();
+
     project.updatedAt = Date.now();
+    project.version = this.PROJECT_VERSION;
     project.mapState = {
       scale: mapState.scale,
       position: mapState.position,
       imageUrl: mapState.imageUrl,
+      imageId: null,
+      geoTransform: mapState.geoTransform,
       pixelsPerFoot: mapState.pixelsPerFoot,
       calibrationPoints: mapState.calibrationPoints,
+      calibrationLines: mapState.calibrationLines,
       activeCalibrationLine: mapState.activeCalibrationLine,
       showGrid: mapState.showGrid,
       gridSpacing: mapState.gridSpacing,
@@ -117,19 +183,26 @@ export class ProjectService {
       showCalibrationLine: mapState.showCalibrationLine,
       showEquipmentLabels: mapState.showEquipmentLabels,
       showClearanceZones: mapState.showClearanceZones,
+      measurementLines: mapState.measurementLines,
+      activePerimeter: mapState.activePerimeter,
+      perimeterColor: mapState.perimeterColor,
+      showPerimeter: mapState.showPerimeter,
+      corridors: mapState.corridors,
+      underlays: mapState.underlays,
+      lotAxis: mapState.lotAxis,
     };
     project.equipmentState = {
       items: equipmentState.items,
       selectedIds: equipmentState.selectedIds,
+      spacingRules: equipmentState.spacingRules,
     };
     project.metadata = {
       ...project.metadata,
       lastSaved: Date.now(),
     };
-
-    // Save the project to local storage
-    this.saveProject(project);
-    this.setCurrentProject(project.id);
+    project.history = useSettingsStore.getState().persistHistory
+      ? useUndoRedoStore.getState().getPersistableHistory()
+      : undefined;
 
     return project;
   }
@@ -137,22 +210,83 @@ export class ProjectService {
   /**
    * Load a project and update the map and equipment stores
    */
-  static loadProject(projectId: string): boolean {
-    const project = this.getProject(projectId);
+  static async loadProject(projectId: string): Promise<boolean> {
+    const project = await this.getProject(projectId);
     
     if (!project) {
       console.error(`Project with ID ${projectId} not found`);
       return false;
     }
 
+    await this.applyProject(project);
+    return true;
+  }
+
+  /**
+   * Check whether a project is being applied to the stores, so store changes
+   * can be told apart from user edits
+   */
+  static isRestoring(): boolean {
+    return this.restoring;
+  }
+
+  /**
+   * Replace the map and equipment store state with a project's state
+   */
+  private static async applyProject(project: Project): Promise<void> {
+    this.restoring = true;
+    try {
+      await this.restoreStores(project);
+    } finally {
+      this.restoring = false;
+      // A freshly opened project starts with an empty undo history, unless it was saved with one
+      useUndoRedoStore.getState().clearHistory();
+      if (project.history) {
+        useUndoRedoStore.getState().restoreHistory(this.relinkUnderlayImages(project.history));
+      }
+    }
+  }
+
+  /**
+   * Point underlays in saved history at the images opened in this session.
+   * Saved history never adds or removes an underlay, so each one is still on the map.
+   */
+  private static relinkUnderlayImages(history: PersistedHistory): PersistedHistory {
+    const imageUrls = new Map(useMapStore.getState().underlays.map(underlay => [underlay.id, underlay.imageUrl]));
+    const relinkUnderlays = (underlays: Underlay[]) =>
+      underlays.map(underlay => ({ ...underlay, imageUrl: imageUrls.get(underlay.id) ?? underlay.imageUrl }));
+    const relink = (action: UndoRedoAction): UndoRedoAction => {
+      if (action.type === 'UNDERLAY_CHANGE') {
+        return {
+          ...action,
+          undoData: { underlays: relinkUnderlays(action.undoData.underlays) },
+          redoData: { underlays: relinkUnderlays(action.redoData.underlays) }
+        };
+      }
+      if (action.type === 'BATCH') {
+        const actions = action.undoData.actions.map(relink);
+        return { ...action, undoData: { actions }, redoData: { actions } };
+      }
+      return action;
+    };
+
+    return {
+      undoStack: (history.undoStack || []).map(relink),
+      redoStack: (history.redoStack || []).map(relink)
+    };
+  }
+
+  private static async restoreStores(project: Project): Promise<void> {
     // Update the map store
     const mapStore = useMapStore.getState();
 
     // Set basic map state
     mapStore.setScale(project.mapState.scale || 1.0);
     mapStore.setPosition(project.mapState.position || { x: 0, y: 0 });
-    mapStore.setImageUrl(project.mapState.imageUrl);
-    mapStore.setPixelsPerFoot(project.mapState.pixelsPerFoot || 1);
+    const imageUrl = project.mapState.imageId
+      ? await ProjectStorageService.getImageUrl(project.mapState.imageId)
+      : project.mapState.imageUrl;
+    mapStore.setImageUrl(imageUrl, project.mapState.geoTransform || null);
 
     // Clear and restore calibration
     mapStore.clearCalibration();
@@ -161,13 +295,17 @@ export class ProjectService {
         mapStore.addCalibrationPoint(point);
       });
     }
-    if (project.mapState.activeCalibrationLine) {
-      // Restore active calibration line and update pixels per foot
-      useMapStore.setState({
-        activeCalibrationLine: project.mapState.activeCalibrationLine,
-        pixelsPerFoot: project.mapState.activeCalibrationLine.pixelsPerFoot || 1
-      });
-    }
+    // Clearing resets the scale, so the saved one goes back after it. Rectified,
+    // map service and georeferenced images have a scale but no reference lines.
+    const calibrationLines = project.mapState.calibrationLines || [];
+    useMapStore.setState({
+      calibrationLines,
+      activeCalibrationLine: calibrationLines.length > 0
+        ? project.mapState.activeCalibrationLine || calibrationLines[calibrationLines.length - 1]
+        : null,
+      pixelsPerFoot: project.mapState.pixelsPerFoot ||
+        (calibrationLines.length > 0 ? CalibrationService.calculateImageScale(calibrationLines) : 1)
+    });
 
     // Restore display settings
     if (project.mapState.showGrid !== mapStore.showGrid) {
@@ -195,6 +333,45 @@ export class ProjectService {
       mapStore.toggleClearanceZones();
     }
 
+    // Restore measurement lines, replacing any drawn in the previous project
+    useMapStore.setState({
+      measurementLines: project.mapState.measurementLines || [],
+      currentMeasurementLine: null,
+      selectedMeasurementId: null
+    });
+
+    // Restore the lot perimeter
+    useMapStore.setState({
+      activePerimeter: project.mapState.activePerimeter || null,
+      currentPerimeter: []
+    });
+
+    if (project.mapState.perimeterColor) {
+      mapStore.setPerimeterColor(project.mapState.perimeterColor);
+    }
+
+    if (project.mapState.showPerimeter !== undefined && project.mapState.showPerimeter !== mapStore.showPerimeter) {
+      mapStore.togglePerimeter();
+    }
+
+    // Restore fire lane corridors
+    mapStore.setCorridors(project.mapState.corridors || []);
+
+    // Restore site plan underlays, dropping any whose image is missing from storage
+    const underlays: Underlay[] = [];
+    for (const { imageId, ...underlay } of project.mapState.underlays || []) {
+      const imageUrl = imageId ? await ProjectStorageService.getImageUrl(imageId) : underlay.imageUrl;
+      if (imageUrl) {
+        underlays.push({ ...underlay, imageUrl });
+      } else {
+        console.warn(`Site plan layer "${underlay.name}" is missing its image and was not restored`);
+      }
+    }
+    mapStore.setUnderlays(underlays);
+
+    // Restore the lot axis the grid and new items follow
+    mapStore.setLotAxis(project.mapState.lotAxis || null);
+
     // Update the equipment store
     const equipmentStore = useEquipmentStore.getState();
     equipmentStore.clearAll();
@@ -211,51 +388,187 @@ export class ProjectService {
       useEquipmentStore.setState({ selectedIds: project.equipmentState.selectedIds });
     }
 
+    // Restore project spacing rules
+    equipmentStore.setSpacingRules(project.equipmentState.spacingRules || []);
+
     // Set as current project
     this.setCurrentProject(project.id);
+  }
 
-    return true;
+  /**
+   * Save a project to storage, moving its image into the image store.
+   * Returns the project as stored, with the image referenced by ID.
+   */
+  static async saveProject(project: Project): Promise<Project> {
+    await this.ensureMigrated();
+    return this.writeProject(project);
+  }
+
+  private static async writeProject(project: Project): Promise<Project> {
+    const storedProject = await this.externalizeImages(project);
+    await ProjectStorageService.putProject(storedProject);
+    return storedProject;
   }
 
   /**
-   * Save a project to local storage
+   * Get a copy of a project with its inline background and underlay images moved into the image store
    */
-  static saveProject(project: Project): void {
-    const projects = this.getAllProjects();
-    const index = projects.findIndex(p => p.id === project.id);
-    
-    if (index >= 0) {
-      projects[index] = project;
-    } else {
-      projects.push(project);
+  private static async externalizeImages(project: Project): Promise<Project> {
+    const storedProject: Project = { ...project, mapState: { ...project.mapState } };
+
+    if (storedProject.mapState.imageUrl) {
+      try {
+        storedProject.mapState.imageId = await ProjectStorageService.storeImage(storedProject.mapState.imageUrl);
+        storedProject.mapState.imageUrl = null;
+      } catch (error) {
+        if (error instanceof StorageQuotaError) throw error;
+        // Remote images that can't be fetched are kept as plain URLs
+        console.warn('Could not store project image, keeping its URL:', error);
+      }
+    }
+
+    if (storedProject.mapState.underlays) {
+      const storedUnderlays: SavedUnderlay[] = [];
+      for (const underlay of storedProject.mapState.underlays) {
+        storedUnderlays.push(underlay.imageUrl
+          ? { ...underlay, imageId: await ProjectStorageService.storeImage(underlay.imageUrl), imageUrl: null }
+          : underlay);
+      }
+      storedProject.mapState.underlays = storedUnderlays;
     }
 
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(projects));
+    return storedProject;
   }
 
   /**
-   * Get all projects from local storage
+   * Capture the current, possibly unsaved, state as the recovery snapshot
    */
-  static getAllProjects(): Project[] {
-    const projectsJson = localStorage.getItem(this.STORAGE_KEY);
-    if (!projectsJson) {
-      return [];
+  static async saveRecoverySnapshot(): Promise<void> {
+    const project = (await this.getCurrentProject()) || this.createNewProject();
+    const snapshot = await this.externalizeImages(this.captureState(project));
+    await ProjectStorageService.putRecoverySnapshot(snapshot);
+  }
+
+  /**
+   * Get the recovery snapshot left by a session that ended without saving
+   */
+  static async getRecoverySnapshot(): Promise<RecoverySnapshot | null> {
+    const snapshot = await ProjectStorageService.getRecoverySnapshot();
+    if (!snapshot) return null;
+
+    try {
+      return { ...snapshot, project: ProjectMigrationService.migrate(snapshot.project) };
+    } catch (error) {
+      if (!(error instanceof ProjectSchemaError)) throw error;
+      console.warn('Ignoring recovery snapshot that could not be upgraded:', error.message);
+      return null;
     }
-    
+  }
+
+  /**
+   * Load the recovery snapshot into the stores. The snapshot is kept until the project is saved.
+   */
+  static async restoreRecoverySnapshot(): Promise<boolean> {
+    const snapshot = await this.getRecoverySnapshot();
+    if (!snapshot) return false;
+
+    await this.applyProject(snapshot.project);
+    return true;
+  }
+
+  /**
+   * Delete the recovery snapshot
+   */
+  static async discardRecoverySnapshot(): Promise<void> {
     try {
-      return JSON.parse(projectsJson);
+      await ProjectStorageService.deleteRecoverySnapshot();
+    } catch (error) {
+      console.warn('Could not clear recovery snapshot:', error);
+    }
+  }
+
+  /**
+   * Move projects saved by earlier versions from localStorage into IndexedDB, once per session
+   */
+  private static ensureMigrated(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.migrateFromLocalStorage().catch(error => {
+        this.migration = null;
+        throw error;
+      });
+    }
+    return this.migration;
+  }
+
+  private static async migrateFromLocalStorage(): Promise<void> {
+    const projectsJson = localStorage.getItem(this.STORAGE_KEY);
+    if (!projectsJson) return;
+
+    let legacyProjects: Project[];
+    try {
+      legacyProjects = JSON.parse(projectsJson);
     } catch (error) {
       console.error('Error parsing projects from local storage:', error);
-      return [];
+      return;
+    }
+
+    let skipped = 0;
+    for (const legacyProject of legacyProjects) {
+      try {
+        await this.writeProject(ProjectMigrationService.migrate(legacyProject));
+      } catch (error) {
+        if (!(error instanceof ProjectSchemaError)) throw error;
+        console.warn('Skipping project that could not be upgraded:', error.message);
+        skipped++;
+      }
+    }
+
+    // Only drop the old copy once every project has been written
+    if (skipped === 0) {
+      localStorage.removeItem(this.STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Get all projects from storage
+   */
+  static async getAllProjects(): Promise<Project[]> {
+    await this.ensureMigrated();
+    const storedProjects = await ProjectStorageService.getAllProjects();
+
+    const projects: Project[] = [];
+    for (const storedProject of storedProjects) {
+      try {
+        projects.push(await this.upgradeStoredProject(storedProject));
+      } catch (error) {
+        if (!(error instanceof ProjectSchemaError)) throw error;
+        // Leave projects written by a newer build untouched, just hide them
+        console.warn(`Skipping project "${storedProject.name}":`, error.message);
+      }
     }
+    return projects;
   }
 
   /**
-   * Get a project by ID
+   * Get a project by ID, upgraded to the current schema
    */
-  static getProject(id: string): Project | null {
-    const projects = this.getAllProjects();
-    return projects.find(project => project.id === id) || null;
+  static async getProject(id: string): Promise<Project | null> {
+    await this.ensureMigrated();
+    const storedProject = await ProjectStorageService.getProject(id);
+    return storedProject ? this.upgradeStoredProject(storedProject) : null;
+  }
+
+  /**
+   * Upgrade a stored project to the current schema and write the upgraded copy back
+   */
+  private static async upgradeStoredProject(storedProject: Project): Promise<Project> {
+    if (!ProjectMigrationService.needsMigration(storedProject)) {
+      return storedProject;
+    }
+
+    const project = ProjectMigrationService.migrate(storedProject);
+    await ProjectStorageService.putProject(project);
+    return project;
   }
 
   /**
@@ -268,7 +581,7 @@ export class ProjectService {
   /**
    * Get the current project
    */
-  static getCurrentProject(): Project | null {
+  static async getCurrentProject(): Promise<Project | null> {
     const currentProjectId = this.getCurrentProjectId();
     if (!currentProjectId) {
       return null;
@@ -288,17 +601,39 @@ export class ProjectService {
     }
   }
 
+  /**
+   * Get a self-contained copy of a project with its images inlined, for writing to a file
+   */
+  private static async toPortableProject(project: Project): Promise<Project> {
+    const portableProject: Project = { ...project, mapState: { ...project.mapState } };
+
+    if (portableProject.mapState.imageId) {
+      portableProject.mapState.imageUrl = await ProjectStorageService.getImageDataUrl(portableProject.mapState.imageId);
+      delete portableProject.mapState.imageId;
+    }
+
+    if (portableProject.mapState.underlays) {
+      const portableUnderlays: SavedUnderlay[] = [];
+      for (const { imageId, ...underlay } of portableProject.mapState.underlays) {
+        portableUnderlays.push(imageId ? { ...underlay, imageUrl: await ProjectStorageService.getImageDataUrl(imageId) } : underlay);
+      }
+      portableProject.mapState.underlays = portableUnderlays;
+    }
+
+    return portableProject;
+  }
+
   /**
    * Export a project to a JSON file
    */
-  static exportProject(projectId: string): string {
-    const project = this.getProject(projectId) || this.getCurrentProject();
+  static async exportProject(projectId: string): Promise<string> {
+    const project = (await this.getProject(projectId)) || (await this.getCurrentProject());
 
     if (!project) {
       throw new Error('No project to export');
     }
 
-    const jsonData = JSON.stringify(project, null, 2);
+    const jsonData = JSON.stringify(await this.toPortableProject(project), null, 2);
     const dataUri = `data:application/json;charset=utf-8,${encodeURIComponent(jsonData)}`;
 
     return dataUri;
@@ -308,7 +643,7 @@ export class ProjectService {
    * Save project to file system using File System Access API
    */
   static async saveProjectToFile(projectId?: string): Promise<void> {
-    const project = projectId ? this.getProject(projectId) : this.getCurrentProject();
+    const project = projectId ? await this.getProject(projectId) : await this.getCurrentProject();
 
     if (!project) {
       throw new Error('No project to save');
@@ -330,7 +665,7 @@ export class ProjectService {
         });
 
         const writable = await fileHandle.createWritable();
-        await writable.write(JSON.stringify(project, null, 2));
+        await writable.write(JSON.stringify(await this.toPortableProject(project), null, 2));
         await writable.close();
       } catch (error) {
         if ((error as Error).name !== 'AbortError') {
@@ -339,7 +674,7 @@ export class ProjectService {
       }
     } else {
       // Fallback to download method
-      const dataUri = this.exportProject(projectId || project.id);
+      const dataUri = await this.exportProject(projectId || project.id);
       const link = document.createElement('a');
       link.href = dataUri;
       link.download = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}.lotlizard`;
@@ -370,9 +705,10 @@ export class ProjectService {
 
         const file = await fileHandle.getFile();
         const content = await file.text();
-        const project = this.importProject(content);
+        const project = await this.importProject(content);
         return project;
       } catch (error) {
+        if (error instanceof StorageQuotaError || error instanceof ProjectSchemaError) throw error;
         if ((error as Error).name !== 'AbortError') {
           throw new Error('Failed to open project from file system');
         }
@@ -394,13 +730,8 @@ export class ProjectService {
 
           const reader = new FileReader();
           reader.onload = (e) => {
-            try {
-              const content = e.target?.result as string;
-              const project = this.importProject(content);
-              resolve(project);
-            } catch (error) {
-              reject(new Error('Failed to import project: Invalid format'));
-            }
+            const content = e.target?.result as string;
+            this.importProject(content).then(resolve, reject);
           };
           reader.onerror = () => reject(new Error('Failed to read file'));
           reader.readAsText(file);
@@ -413,36 +744,33 @@ export class ProjectService {
   }
 
   /**
-   * Import a project from JSON data
+   * Import a project from JSON data, upgrading files saved by older versions
    */
-  static importProject(jsonData: string): Project {
+  static async importProject(jsonData: string): Promise<Project> {
+    let data: unknown;
     try {
-      const project: Project = JSON.parse(jsonData);
-      
-      // Validate project structure
-      if (!project.id || !project.mapState || !project.equipmentState) {
-        throw new Error('Invalid project format');
-      }
-
-      // Generate a new ID to prevent overwriting existing projects
-      project.id = `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      project.updatedAt = Date.now();
-      
-      // Save the imported project
-      this.saveProject(project);
-      
-      return project;
+      data = JSON.parse(jsonData);
     } catch (error) {
       console.error('Error importing project:', error);
       throw new Error('Failed to import project: Invalid format');
     }
+
+    // Validate the structure and upgrade it to the current schema
+    const project = ProjectMigrationService.migrate(data);
+
+    // Generate a new ID to prevent overwriting existing projects
+    project.id = `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    project.updatedAt = Date.now();
+    
+    // Save the imported project
+    return this.saveProject(project);
   }
   
   /**
    * Get recent projects (last 5)
    */
-  static getRecentProjects(): Project[] {
-    const projects = this.getAllProjects();
+  static async getRecentProjects(): Promise<Project[]> {
+    const projects = await this.getAllProjects();
     return projects
       .sort((a, b) => b.updatedAt - a.updatedAt)
       .slice(0, 5);
@@ -451,15 +779,19 @@ export class ProjectService {
   /**
    * Delete a project by ID
    */
-  static deleteProject(projectId: string): boolean {
-    const projects = this.getAllProjects();
-    const filteredProjects = projects.filter(p => p.id !== projectId);
-
-    if (filteredProjects.length === projects.length) {
+  static async deleteProject(projectId: string): Promise<boolean> {
+    const project = await this.getProject(projectId);
+    if (!project) {
       return false; // Project not found
     }
 
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filteredProjects));
+    await ProjectStorageService.deleteProject(projectId);
+
+    // The background and underlays on the canvas may not be saved anywhere yet
+    const { imageUrl, underlays } = useMapStore.getState();
+    const urlsInUse = underlays.map(underlay => underlay.imageUrl);
+    if (imageUrl) urlsInUse.push(imageUrl);
+    await ProjectStorageService.deleteUnusedImages(urlsInUse);
 
     // Clear current project if it was the deleted one
     if (this.getCurrentProjectId() === projectId) {
@@ -472,8 +804,8 @@ export class ProjectService {
   /**
    * Duplicate a project
    */
-  static duplicateProject(projectId: string, newName?: string): Project | null {
-    const originalProject = this.getProject(projectId);
+  static async duplicateProject(projectId: string, newName?: string): Promise<Project | null> {
+    const originalProject = await this.getProject(projectId);
     if (!originalProject) {
       return null;
     }
@@ -490,30 +822,33 @@ export class ProjectService {
       }
     };
 
-    this.saveProject(duplicatedProject);
-    return duplicatedProject;
+    // The copy references the same stored images rather than duplicating them
+    return this.saveProject(duplicatedProject);
   }
 
   /**
-   * Auto-save current state if auto-save is enabled
+   * Auto-save the current state into the open project. Unsaved new work has no
+   * project to save into and is only kept in the recovery snapshot.
    */
-  static autoSave(): void {
-    const currentProject = this.getCurrentProject();
-    if (currentProject && currentProject.metadata.autoSave) {
-      this.saveCurrentState();
+  static async autoSave(): Promise<Project | null> {
+    const currentProject = await this.getCurrentProject();
+    if (!currentProject) {
+      return null;
     }
+
+    return this.saveCurrentState();
   }
 
   /**
    * Get project statistics
    */
-  static getProjectStats(projectId: string): {
+  static async getProjectStats(projectId: string): Promise<{
     equipmentCount: number;
     totalArea: number;
     lastModified: string;
     hasCalibration: boolean;
-  } | null {
-    const project = this.getProject(projectId);
+  } | null> {
+    const project = await this.getProject(projectId);
     if (!project) {
       return null;
     }
@@ -529,8 +864,8 @@ export class ProjectService {
   /**
    * Search projects by name or description
    */
-  static searchProjects(query: string): Project[] {
-    const projects = this.getAllProjects();
+  static async searchProjects(query: string): Promise<Project[]> {
+    const projects = await this.getAllProjects();
     const searchTerm = query.toLowerCase();
 
     return projects.filter(project =>
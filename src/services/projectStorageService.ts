@@ -0,0 +1,282 @@
+import { Project } from './projectService';
+
+const DB_NAME = 'lot-lizard';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const IMAGE_STORE = 'images';
+const RECOVERY_STORE = 'recovery';
+const RECOVERY_ID = 'current';
+
+/**
+ * A background image stored once and shared by every project that references it
+ */
+interface StoredImage {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+/**
+ * Unsaved work captured while editing, kept apart from the saved projects
+ */
+export interface RecoverySnapshot {
+  id: string;
+  project: Project;
+  savedAt: number;
+}
+
+/**
+ * Thrown when the browser refuses to store more data for the app
+ */
+export class StorageQuotaError extends Error {
+  constructor(message: string = 'Browser storage is full. Delete unused projects or save them to files, then try again.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * IndexedDB-backed storage for projects and their background images.
+ * Images are kept as Blobs keyed by a content hash, so the same image is only stored once.
+ */
+export class ProjectStorageService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static objectUrls = new Map<string, string>(); // image id -> object URL
+  private static imageIdsByUrl = new Map<string, string>(); // object or data URL -> image id
+
+  /**
+   * Check whether IndexedDB is available in this browser
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Open (and create or upgrade) the database once per session
+   */
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!this.isAvailable()) {
+        reject(new Error('Project storage is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECOVERY_STORE)) {
+          db.createObjectStore(RECOVERY_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error || new Error('Failed to open project storage'));
+      request.onblocked = () => reject(new Error('Project storage is blocked by another open tab'));
+    });
+
+    // Allow a later retry if opening failed
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a single request against an object store and resolve once its transaction commits
+   */
+  private static async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(this.toStorageError(transaction.error || request.error));
+      transaction.onabort = () => reject(this.toStorageError(transaction.error || request.error));
+    });
+  }
+
+  private static toStorageError(error: DOMException | null): Error {
+    if (error?.name === 'QuotaExceededError') {
+      return new StorageQuotaError();
+    }
+    return error ? new Error(`Project storage error: ${error.message}`) : new Error('Project storage error');
+  }
+
+  /**
+   * Get all stored projects
+   */
+  static getAllProjects(): Promise<Project[]> {
+    return this.run<Project[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  }
+
+  /**
+   * Get a stored project by ID
+   */
+  static async getProject(id: string): Promise<Project | null> {
+    const project = await this.run<Project | undefined>(PROJECT_STORE, 'readonly', store => store.get(id));
+    return project || null;
+  }
+
+  /**
+   * Insert or replace a stored project
+   */
+  static async putProject(project: Project): Promise<void> {
+    await this.run(PROJECT_STORE, 'readwrite', store => store.put(project));
+  }
+
+  /**
+   * Delete a stored project
+   */
+  static async deleteProject(id: string): Promise<void> {
+    await this.run(PROJECT_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  /**
+   * Get the recovery snapshot left by the last session, if any
+   */
+  static async getRecoverySnapshot(): Promise<RecoverySnapshot | null> {
+    const snapshot = await this.run<RecoverySnapshot | undefined>(RECOVERY_STORE, 'readonly', store => store.get(RECOVERY_ID));
+    return snapshot || null;
+  }
+
+  /**
+   * Replace the recovery snapshot with the given project state
+   */
+  static async putRecoverySnapshot(project: Project): Promise<void> {
+    const snapshot: RecoverySnapshot = { id: RECOVERY_ID, project, savedAt: Date.now() };
+    await this.run(RECOVERY_STORE, 'readwrite', store => store.put(snapshot));
+  }
+
+  /**
+   * Delete the recovery snapshot
+   */
+  static async deleteRecoverySnapshot(): Promise<void> {
+    await this.run(RECOVERY_STORE, 'readwrite', store => store.delete(RECOVERY_ID));
+  }
+
+  /**
+   * Store an image from a data, object or remote URL and return its image ID.
+   * Images already in storage are not written again.
+   */
+  static async storeImage(url: string): Promise<string> {
+    const knownId = this.imageIdsByUrl.get(url);
+    if (knownId) return knownId;
+
+    const response = await fetch(url);
+    const blob = await response.blob();
+    const id = await this.getImageId(blob);
+
+    const existing = await this.run<IDBValidKey | undefined>(IMAGE_STORE, 'readonly', store => store.getKey(id));
+    if (existing === undefined) {
+      const image: StoredImage = { id, blob, createdAt: Date.now() };
+      await this.run(IMAGE_STORE, 'readwrite', store => store.put(image));
+    }
+
+    this.imageIdsByUrl.set(url, id);
+    return id;
+  }
+
+  /**
+   * Get an object URL for a stored image, creating it once per session
+   */
+  static async getImageUrl(id: string): Promise<string | null> {
+    const cached = this.objectUrls.get(id);
+    if (cached) return cached;
+
+    const image = await this.run<StoredImage | undefined>(IMAGE_STORE, 'readonly', store => store.get(id));
+    if (!image) return null;
+
+    const url = URL.createObjectURL(image.blob);
+    this.objectUrls.set(id, url);
+    this.imageIdsByUrl.set(url, id);
+    return url;
+  }
+
+  /**
+   * Get a stored image as a data URL, for writing self-contained project files
+   */
+  static async getImageDataUrl(id: string): Promise<string | null> {
+    const image = await this.run<StoredImage | undefined>(IMAGE_STORE, 'readonly', store => store.get(id));
+    if (!image) return null;
+
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('Failed to read stored image'));
+      reader.readAsDataURL(image.blob);
+    });
+  }
+
+  /**
+   * Delete images that no stored project or recovery snapshot references any more.
+   * Images behind the given URLs are still on the canvas, so they and their URLs are kept.
+   */
+  static async deleteUnusedImages(urlsInUse: string[] = []): Promise<void> {
+    const projects = await this.getAllProjects();
+    const snapshot = await this.getRecoverySnapshot();
+    if (snapshot) projects.push(snapshot.project);
+    const referenced = new Set(projects.flatMap(project => [
+      project.mapState.imageId,
+      ...(project.mapState.underlays || []).map(underlay => underlay.imageId)
+    ]).filter(Boolean));
+    urlsInUse.forEach(url => {
+      const id = this.imageIdsByUrl.get(url);
+      if (id) referenced.add(id);
+    });
+    const imageIds = await this.run<IDBValidKey[]>(IMAGE_STORE, 'readonly', store => store.getAllKeys());
+
+    for (const key of imageIds) {
+      const id = key as string;
+      if (referenced.has(id)) continue;
+
+      await this.run(IMAGE_STORE, 'readwrite', store => store.delete(id));
+      const url = this.objectUrls.get(id);
+      if (url) {
+        URL.revokeObjectURL(url);
+        this.objectUrls.delete(id);
+      }
+      // Forget every URL of the image, so saving one of them again stores it again
+      this.imageIdsByUrl.forEach((imageId, knownUrl) => {
+        if (imageId === id) this.imageIdsByUrl.delete(knownUrl);
+      });
+    }
+  }
+
+  /**
+   * Get how much storage the app uses and how much the browser allows, in bytes
+   */
+  static async getUsage(): Promise<{ usage: number; quota: number } | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  }
+
+  /**
+   * Derive an image ID from its content so identical images share one record
+   */
+  private static async getImageId(blob: Blob): Promise<string> {
+    if (window.crypto?.subtle) {
+      const digest = await window.crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+      const hex = Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+      return `image-${hex}`;
+    }
+    // Without SubtleCrypto (insecure origins) images are still stored, just not de-duplicated
+    return `image-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,50 @@
+import { SelectionService } from './selectionService';
+import { PlacementFootprint } from './collisionService';
+
+const items: (PlacementFootprint & { id: string; visible?: boolean })[] = [
+  { id: 'inside', x: 10, y: 10, width: 40, height: 20 },
+  { id: 'crossing', x: 90, y: 10, width: 40, height: 20 },
+  // A 40 × 40 box turned 45° reaches about 28px from its center at (170, 70)
+  { id: 'turned', x: 150, y: 50, width: 40, height: 40, rotation: 45 },
+  { id: 'hidden', x: 20, y: 40, width: 10, height: 10, visible: false },
+  { id: 'circle', x: 40, y: 60, width: 20, height: 20, shape: 'circle' }
+];
+
+describe('SelectionService marquee', () => {
+  const bounds = { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+
+  test('picks only items entirely inside when dragged right', () => {
+    expect(SelectionService.getMarqueeMode({ x: 0 }, { x: 100 })).toBe('inside');
+
+    const picked = SelectionService.getItemsInMarquee(items, bounds, 'inside', 4);
+    expect(picked.map(item => item.id)).toEqual(['inside', 'circle']);
+  });
+
+  test('picks every item it touches when dragged left', () => {
+    expect(SelectionService.getMarqueeMode({ x: 100 }, { x: 0 })).toBe('touching');
+
+    const picked = SelectionService.getItemsInMarquee(items, bounds, 'touching', 4);
+    expect(picked.map(item => item.id)).toEqual(['inside', 'crossing', 'circle']);
+  });
+
+  test('tests rotated footprints, not their bounding boxes', () => {
+    // The corner of the turned box's bounding box, which the box itself doesn't reach
+    const corner = { minX: 140, minY: 40, maxX: 147, maxY: 47 };
+    expect(SelectionService.getItemsInMarquee(items, corner, 'touching', 4)).toEqual([]);
+  });
+});
+
+describe('SelectionService combining', () => {
+  test('replaces, adds to or subtracts from the selection', () => {
+    expect(SelectionService.combine(['a', 'b'], ['c'], 'replace')).toEqual(['c']);
+    expect(SelectionService.combine(['a', 'b'], ['b', 'c'], 'add')).toEqual(['a', 'b', 'c']);
+    expect(SelectionService.combine(['a', 'b', 'c'], ['b', 'd'], 'subtract')).toEqual(['a', 'c']);
+  });
+
+  test('reads the modifier keys', () => {
+    expect(SelectionService.getCombine({ shiftKey: false, ctrlKey: false, metaKey: false })).toBe('replace');
+    expect(SelectionService.getCombine({ shiftKey: true, ctrlKey: false, metaKey: false })).toBe('add');
+    expect(SelectionService.getCombine({ shiftKey: false, ctrlKey: true, metaKey: false })).toBe('subtract');
+    expect(SelectionService.getCombine({ shiftKey: false, ctrlKey: false, metaKey: true })).toBe('subtract');
+  });
+});
@@ -0,0 +1,73 @@
+import { CollisionService, PlacementFootprint, Shape2D } from './collisionService';
+import { Bounds } from './spatialIndexService';
+
+/**
+ * Which items a marquee picks: only those entirely inside it, or every item it touches
+ */
+export type MarqueeMode = 'inside' | 'touching';
+
+/**
+ * How a new pick combines with the current selection
+ */
+export type SelectionCombine = 'replace' | 'add' | 'subtract';
+
+export class SelectionService {
+  /**
+   * Choose the marquee mode from the drag direction, as CAD tools do:
+   * dragging right picks items fully inside, dragging left picks every item touched
+   */
+  static getMarqueeMode(start: { x: number }, end: { x: number }): MarqueeMode {
+    return end.x >= start.x ? 'inside' : 'touching';
+  }
+
+  /**
+   * Choose how a marquee or click combines with the selection from the held modifiers
+   */
+  static getCombine(event: { shiftKey: boolean; ctrlKey: boolean; metaKey: boolean }): SelectionCombine {
+    if (event.ctrlKey || event.metaKey) return 'subtract';
+    if (event.shiftKey) return 'add';
+    return 'replace';
+  }
+
+  /**
+   * Filter items down to those the marquee picks. Only footprints count, not clearance zones.
+   */
+  static getItemsInMarquee<T extends PlacementFootprint & { visible?: boolean }>(
+    items: T[],
+    bounds: Bounds,
+    mode: MarqueeMode,
+    pixelsPerFoot: number
+  ): T[] {
+    const marquee: Shape2D = {
+      kind: 'polygon',
+      points: [
+        { x: bounds.minX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.maxY },
+        { x: bounds.minX, y: bounds.maxY }
+      ]
+    };
+
+    return items.filter(item => {
+      if (item.visible === false) return false;
+
+      const shape = CollisionService.getShape(item, pixelsPerFoot);
+      if (mode === 'touching') {
+        return CollisionService.getSeparation(shape, marquee) <= 0;
+      }
+
+      const itemBounds = CollisionService.getShapeBounds(shape);
+      return itemBounds.minX >= bounds.minX && itemBounds.maxX <= bounds.maxX &&
+        itemBounds.minY >= bounds.minY && itemBounds.maxY <= bounds.maxY;
+    });
+  }
+
+  /**
+   * Combine picked ids with the current selection, keeping selection order
+   */
+  static combine(current: string[], picked: string[], combine: SelectionCombine): string[] {
+    if (combine === 'replace') return picked.slice();
+    if (combine === 'subtract') return current.filter(id => picked.indexOf(id) === -1);
+    return current.concat(picked.filter(id => current.indexOf(id) === -1));
+  }
+}
@@ -0,0 +1,41 @@
+import { SnapService, SnapOptions } from './snapService';
+
+const options: SnapOptions = { pixelsPerFoot: 1, axis: null, gridSpacing: null, snapToItems: true, threshold: 6 };
+
+describe('SnapService', () => {
+  test('snaps to the nearest grid line', () => {
+    const moving = [{ x: 3, y: 18, width: 10, height: 10 }];
+    const snap = SnapService.snapMove(moving, [], { ...options, gridSpacing: 10 });
+
+    expect(snap.x).toBeCloseTo(-3);
+    expect(snap.y).toBeCloseTo(2);
+    expect(snap.guides.every(guide => guide.kind === 'grid')).toBe(true);
+  });
+
+  test('lines edges up with a nearby item and shows a guide across both', () => {
+    const moving = [{ x: 22, y: 40, width: 10, height: 10 }];
+    const neighbour = { x: 0, y: 0, width: 20, height: 20 };
+    const snap = SnapService.snapMove(moving, [neighbour], options);
+
+    expect(snap.x).toBeCloseTo(-2);
+    expect(snap.y).toBe(0);
+    expect(snap.guides).toEqual([{ kind: 'edge', start: { x: 20, y: 0 }, end: { x: 20, y: 50 } }]);
+
+    expect(SnapService.snapMove(moving, [neighbour], { ...options, snapToItems: false }).guides).toEqual([]);
+  });
+
+  test('brings clearance zones together until they just touch', () => {
+    // The neighbour's zone ends at 30 and the dragged item's starts 5 ft left of it, at 35
+    const moving = [{ x: 40, y: 0, width: 10, height: 10, clearanceLeft: 5 }];
+    const neighbour = { x: 0, y: 0, width: 20, height: 10, clearanceRight: 10 };
+    const snap = SnapService.snapMove(moving, [neighbour], options);
+
+    expect(snap.x).toBeCloseTo(-5);
+    expect(snap.guides.filter(guide => guide.kind === 'clearance')).toHaveLength(1);
+  });
+
+  test('leaves the selection alone when nothing is close enough', () => {
+    const moving = [{ x: 100, y: 100, width: 10, height: 10 }];
+    expect(SnapService.snapMove(moving, [{ x: 0, y: 0, width: 20, height: 20 }], options)).toEqual({ x: 0, y: 0, guides: [] });
+  });
+});
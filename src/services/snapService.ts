@@ -0,0 +1,163 @@
+import { LotAxis } from '../stores/mapStore';
+import { CollisionService, PlacementFootprint, Point2D } from './collisionService';
+import { LotAxisService } from './lotAxisService';
+import { ArrangeService } from './arrangeService';
+import { Bounds, SpatialIndexService } from './spatialIndexService';
+
+/**
+ * What a dragged selection snapped to
+ */
+export type SnapKind = 'grid' | 'edge' | 'center' | 'clearance';
+
+/**
+ * A guide line drawn while dragging, in canvas coordinates
+ */
+export interface SnapGuide {
+  kind: SnapKind;
+  start: Point2D;
+  end: Point2D;
+}
+
+export interface SnapOptions {
+  pixelsPerFoot: number;
+  axis: LotAxis | null;
+  gridSpacing: number | null; // in feet, or null to skip the grid
+  snapToItems: boolean;
+  threshold: number; // Canvas pixels within which a snap takes hold
+}
+
+/**
+ * Extra canvas offset that snaps a dragged selection, with the guides to show for it
+ */
+export interface SnapResult {
+  x: number;
+  y: number;
+  guides: SnapGuide[];
+}
+
+interface SnapCandidate {
+  kind: SnapKind;
+  offset: number; // Shift that makes the edges meet
+  target: number; // Where they meet
+  from: number; // Extent of the guide across the snapped direction
+  to: number;
+}
+
+// How far around the dragged selection to look for items to snap to
+const SNAP_REACH_FEET = 100;
+
+// Offsets this close count as the same snap, so every guide it lines up with is shown
+const SAME_SNAP_EPSILON = 0.01;
+
+export class SnapService {
+  /**
+   * Get the canvas area to search for items the dragged selection could snap to
+   */
+  static getSearchBounds(moving: PlacementFootprint[], pixelsPerFoot: number): Bounds {
+    return SpatialIndexService.expand(CollisionService.getBounds(moving, pixelsPerFoot), SNAP_REACH_FEET * pixelsPerFoot);
+  }
+
+  /**
+   * Snap a dragged selection, already at its unsnapped position, to the grid and to
+   * the edges, centers and clearance zones of nearby items. Along and across follow
+   * the lot axis, and each direction snaps to its nearest candidate independently.
+   */
+  static snapMove(moving: PlacementFootprint[], neighbours: PlacementFootprint[], options: SnapOptions): SnapResult {
+    const { pixelsPerFoot, axis, threshold } = options;
+    if (moving.length === 0 || pixelsPerFoot <= 0) return { x: 0, y: 0, guides: [] };
+
+    const footprint = this.union(moving.map(item => ArrangeService.getAxisBounds(item, pixelsPerFoot, axis)));
+    const clearance = this.union(moving.map(item => ArrangeService.getAxisBounds(item, pixelsPerFoot, axis, true)));
+    const movingHasClearance = moving.some(item => CollisionService.hasClearance(item));
+
+    const candidates: { x: SnapCandidate[]; y: SnapCandidate[] } = { x: [], y: [] };
+    (['x', 'y'] as const).forEach(dimension => {
+      const across = dimension === 'x' ? 'y' : 'x';
+      const low = (bounds: Bounds) => dimension === 'x' ? bounds.minX : bounds.minY;
+      const high = (bounds: Bounds) => dimension === 'x' ? bounds.maxX : bounds.maxY;
+      const acrossLow = (bounds: Bounds) => across === 'x' ? bounds.minX : bounds.minY;
+      const acrossHigh = (bounds: Bounds) => across === 'x' ? bounds.maxX : bounds.maxY;
+      const list = candidates[dimension];
+
+      if (options.snapToItems) {
+        neighbours.forEach(neighbour => {
+          const other = ArrangeService.getAxisBounds(neighbour, pixelsPerFoot, axis);
+          const from = Math.min(acrossLow(footprint), acrossLow(other));
+          const to = Math.max(acrossHigh(footprint), acrossHigh(other));
+
+          [low(footprint), high(footprint)].forEach(edge => {
+            [low(other), high(other)].forEach(target => {
+              list.push({ kind: 'edge', offset: target - edge, target, from, to });
+            });
+          });
+          const center = (low(other) + high(other)) / 2;
+          list.push({ kind: 'center', offset: center - (low(footprint) + high(footprint)) / 2, target: center, from, to });
+
+          // Clearance zones just touching, when the two face each other
+          if (!movingHasClearance && !CollisionService.hasClearance(neighbour)) return;
+          const otherClearance = ArrangeService.getAxisBounds(neighbour, pixelsPerFoot, axis, true);
+          if (acrossHigh(otherClearance) <= acrossLow(clearance) || acrossLow(otherClearance) >= acrossHigh(clearance)) return;
+
+          const clearanceFrom = Math.max(acrossLow(clearance), acrossLow(otherClearance));
+          const clearanceTo = Math.min(acrossHigh(clearance), acrossHigh(otherClearance));
+          list.push({ kind: 'clearance', offset: high(otherClearance) - low(clearance), target: high(otherClearance), from: clearanceFrom, to: clearanceTo });
+          list.push({ kind: 'clearance', offset: low(otherClearance) - high(clearance), target: low(otherClearance), from: clearanceFrom, to: clearanceTo });
+        });
+      }
+
+      // Grid lines run from the lot axis origin, as drawn
+      const spacing = options.gridSpacing ? options.gridSpacing * pixelsPerFoot : 0;
+      if (spacing > 0) {
+        [low(footprint), high(footprint)].forEach(edge => {
+          const target = Math.round(edge / spacing) * spacing;
+          list.push({ kind: 'grid', offset: target - edge, target, from: acrossLow(footprint), to: acrossHigh(footprint) });
+        });
+      }
+    });
+
+    const snappedX = this.pick(candidates.x, threshold);
+    const snappedY = this.pick(candidates.y, threshold);
+    const guides: SnapGuide[] = [];
+    snappedX.forEach(candidate => guides.push({
+      kind: candidate.kind,
+      start: LotAxisService.fromAxis(axis, { x: candidate.target, y: candidate.from }),
+      end: LotAxisService.fromAxis(axis, { x: candidate.target, y: candidate.to })
+    }));
+    snappedY.forEach(candidate => guides.push({
+      kind: candidate.kind,
+      start: LotAxisService.fromAxis(axis, { x: candidate.from, y: candidate.target }),
+      end: LotAxisService.fromAxis(axis, { x: candidate.to, y: candidate.target })
+    }));
+
+    const offset = ArrangeService.toCanvasDelta(axis, {
+      x: snappedX.length > 0 ? snappedX[0].offset : 0,
+      y: snappedY.length > 0 ? snappedY[0].offset : 0
+    });
+    return { x: offset.x, y: offset.y, guides };
+  }
+
+  /**
+   * Pick the nearest candidate within the threshold, along with any others it also
+   * lines up with. Items come before the grid, so they win ties.
+   */
+  private static pick(candidates: SnapCandidate[], threshold: number): SnapCandidate[] {
+    let best: SnapCandidate | null = null;
+    candidates.forEach(candidate => {
+      if (Math.abs(candidate.offset) > threshold) return;
+      if (!best || Math.abs(candidate.offset) < Math.abs(best.offset)) best = candidate;
+    });
+    if (!best) return [];
+
+    const offset = (best as SnapCandidate).offset;
+    return candidates.filter(candidate => Math.abs(candidate.offset - offset) < SAME_SNAP_EPSILON);
+  }
+
+  private static union(bounds: Bounds[]): Bounds {
+    return bounds.reduce((acc, next) => ({
+      minX: Math.min(acc.minX, next.minX),
+      minY: Math.min(acc.minY, next.minY),
+      maxX: Math.max(acc.maxX, next.maxX),
+      maxY: Math.max(acc.maxY, next.maxY)
+    }));
+  }
+}
@@ -0,0 +1,85 @@
+import { SpacingRuleService, SpacingRule } from './spacingRuleService';
+import { PlacementFootprint } from './collisionService';
+
+const rule = (overrides: Partial<SpacingRule>): SpacingRule => ({
+  id: 'rule',
+  name: 'Rule',
+  from: { categories: [], templateIds: [] },
+  to: { categories: [], templateIds: [] },
+  minDistance: 10,
+  enabled: true,
+  ...overrides
+});
+
+const foodFromMegaRides = rule({
+  id: 'food-mega',
+  name: 'Food from mega-rides',
+  from: { categories: ['food'], templateIds: [] },
+  to: { categories: ['mega-rides'], templateIds: [] },
+  minDistance: 25
+});
+
+// Items are 20 px boxes in a row; at 2 px/ft the gaps are in half feet
+const stand: PlacementFootprint = { id: 'stand', name: 'Corn Dogs', category: 'food', templateId: 'corn-dogs', x: 0, y: 0, width: 20, height: 20 };
+const wheel: PlacementFootprint = { id: 'wheel', name: 'Giant Wheel', category: 'mega-rides', templateId: 'giant-wheel', x: 60, y: 0, width: 20, height: 20 };
+const office: PlacementFootprint = { id: 'office', name: 'Office', category: 'office', x: 120, y: 0, width: 20, height: 20 };
+
+describe('SpacingRuleService matching', () => {
+  test('matches items by category or template, and any item when a side is empty', () => {
+    expect(SpacingRuleService.matchesTarget(stand, { categories: ['food'], templateIds: [] })).toBe(true);
+    expect(SpacingRuleService.matchesTarget(stand, { categories: ['rides'], templateIds: ['corn-dogs'] })).toBe(true);
+    expect(SpacingRuleService.matchesTarget(stand, { categories: ['rides'], templateIds: ['giant-wheel'] })).toBe(false);
+    expect(SpacingRuleService.matchesTarget(office, { categories: [], templateIds: [] })).toBe(true);
+  });
+
+  test('applies a rule to a pair whichever way round it is written', () => {
+    const reversed = rule({ from: foodFromMegaRides.to, to: foodFromMegaRides.from });
+
+    expect(SpacingRuleService.appliesTo(foodFromMegaRides, stand, wheel)).toBe(true);
+    expect(SpacingRuleService.appliesTo(foodFromMegaRides, wheel, stand)).toBe(true);
+    expect(SpacingRuleService.appliesTo(reversed, stand, wheel)).toBe(true);
+    expect(SpacingRuleService.appliesTo(foodFromMegaRides, stand, office)).toBe(false);
+  });
+});
+
+describe('SpacingRuleService violations', () => {
+  test('measures the edge-to-edge gap in feet', () => {
+    // 40 px between the stand and the wheel
+    const [violation] = SpacingRuleService.getViolationsForItem(stand, [wheel], [foodFromMegaRides], 2);
+
+    expect(violation).toMatchObject({ ruleId: 'food-mega', itemId: 'stand', otherItemId: 'wheel', requiredFeet: 25, actualFeet: 20 });
+    expect(SpacingRuleService.getViolationsForItem(wheel, [stand], [foodFromMegaRides], 2)).toHaveLength(1);
+    expect(SpacingRuleService.getViolationsForItem(stand, [wheel], [foodFromMegaRides], 1)).toEqual([]);
+  });
+
+  test('checks every rule that applies, with no rule overriding another', () => {
+    const anyFromMegaRides = rule({ id: 'any-mega', to: { categories: ['mega-rides'], templateIds: [] }, minDistance: 15 });
+    const wheelTemplate = rule({ id: 'wheel-template', to: { categories: [], templateIds: ['giant-wheel'] }, minDistance: 30 });
+    const violations = SpacingRuleService.getViolationsForItem(stand, [wheel], [foodFromMegaRides, anyFromMegaRides, wheelTemplate], 2);
+
+    // 20 ft apart breaks the 25 and 30 ft rules but meets the 15 ft one
+    expect(violations.map(violation => violation.ruleId)).toEqual(['food-mega', 'wheel-template']);
+  });
+
+  test('skips disabled and zero-distance rules', () => {
+    const rules = [{ ...foodFromMegaRides, enabled: false }, { ...foodFromMegaRides, id: 'zero', minDistance: 0 }];
+    expect(SpacingRuleService.getViolationsForItem(stand, [wheel], rules, 2)).toEqual([]);
+  });
+
+  test('reports overlapping items as 0 ft apart', () => {
+    const [violation] = SpacingRuleService.getViolationsForItem(stand, [{ ...wheel, x: 10 }], [foodFromMegaRides], 2);
+    expect(violation.actualFeet).toBe(0);
+  });
+
+  test('finds each violating pair once per rule across the lot', () => {
+    const everything = rule({ id: 'everything', minDistance: 25 });
+    const violations = SpacingRuleService.findAllViolations([stand, wheel, office], [foodFromMegaRides, everything], 2);
+
+    // Neighbours are 20 ft apart; the stand and the office are 50 ft apart
+    expect(violations.map(violation => `${violation.ruleId}:${violation.itemId}-${violation.otherItemId}`).sort()).toEqual([
+      'everything:stand-wheel',
+      'everything:wheel-office',
+      'food-mega:stand-wheel'
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { CollisionService, PlacementFootprint } from './collisionService';
+import { EquipmentCategory } from './equipmentService';
+
+/**
+ * Which equipment a spacing rule applies to. An item matches when its category
+ * or template is listed; a target with no categories or templates matches any item.
+ */
+export interface SpacingRuleTarget {
+  categories: EquipmentCategory[];
+  templateIds: string[];
+}
+
+/**
+ * A venue requirement such as "food stands at least 25 ft from mega-rides"
+ */
+export interface SpacingRule {
+  id: string;
+  name: string;
+  from: SpacingRuleTarget;
+  to: SpacingRuleTarget;
+  minDistance: number; // Required edge-to-edge distance in feet
+  enabled: boolean;
+}
+
+export interface SpacingRuleViolation {
+  ruleId: string;
+  ruleName: string;
+  itemId: string;
+  itemName: string;
+  otherItemId: string;
+  otherItemName: string;
+  requiredFeet: number;
+  actualFeet: number; // Edge-to-edge gap between the footprints (0 when they overlap)
+}
+
+export class SpacingRuleService {
+  /**
+   * Create a new rule with a generated ID
+   */
+  static createRule(rule: Partial<Omit<SpacingRule, 'id'>> = {}): SpacingRule {
+    return {
+      id: `rule-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+      name: rule.name || 'New spacing rule',
+      from: rule.from || { categories: [], templateIds: [] },
+      to: rule.to || { categories: [], templateIds: [] },
+      minDistance: rule.minDistance ?? 10,
+      enabled: rule.enabled ?? true
+    };
+  }
+
+  /**
+   * Check whether an item is covered by one side of a rule
+   */
+  static matchesTarget(item: PlacementFootprint, target: SpacingRuleTarget): boolean {
+    if (target.categories.length === 0 && target.templateIds.length === 0) return true;
+
+    return (!!item.category && target.categories.includes(item.category as EquipmentCategory)) ||
+      (!!item.templateId && target.templateIds.includes(item.templateId));
+  }
+
+  /**
+   * Check whether a rule applies to a pair of items, in either direction
+   */
+  static appliesTo(rule: SpacingRule, a: PlacementFootprint, b: PlacementFootprint): boolean {
+    return (this.matchesTarget(a, rule.from) && this.matchesTarget(b, rule.to)) ||
+      (this.matchesTarget(a, rule.to) && this.matchesTarget(b, rule.from));
+  }
+
+  /**
+   * Get the edge-to-edge gap between two items' footprints in feet
+   */
+  static getGapFeet(a: PlacementFootprint, b: PlacementFootprint, pixelsPerFoot: number): number {
+    const separation = CollisionService.getSeparation(
+      CollisionService.getShape(a, pixelsPerFoot),
+      CollisionService.getShape(b, pixelsPerFoot)
+    );
+    return Math.max(0, separation) / pixelsPerFoot;
+  }
+
+  /**
+   * Get rule violations between one item and a set of other items
+   */
+  static getViolationsForItem(
+    item: PlacementFootprint,
+    others: PlacementFootprint[],
+    rules: SpacingRule[],
+    pixelsPerFoot: number
+  ): SpacingRuleViolation[] {
+    const activeRules = rules.filter(rule => rule.enabled && rule.minDistance > 0);
+    if (activeRules.length === 0 || pixelsPerFoot <= 0) return [];
+
+    const violations: SpacingRuleViolation[] = [];
+    others.forEach(other => {
+      if (other === item || (item.id && other.id === item.id)) return;
+
+      activeRules.forEach(rule => {
+        if (!this.appliesTo(rule, item, other)) return;
+
+        const gap = this.getGapFeet(item, other, pixelsPerFoot);
+        if (gap < rule.minDistance) {
+          violations.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            itemId: item.id || '',
+            itemName: item.name || 'New item',
+            otherItemId: other.id || '',
+            otherItemName: other.name || 'Unnamed item',
+            requiredFeet: rule.minDistance,
+            actualFeet: gap
+          });
+        }
+      });
+    });
+
+    return violations;
+  }
+
+  /**
+   * Find every rule violation between placed items, reporting each pair once per rule
+   */
+  static findAllViolations(items: PlacementFootprint[], rules: SpacingRule[], pixelsPerFoot: number): SpacingRuleViolation[] {
+    const reach = rules
+      .filter(rule => rule.enabled)
+      .reduce((max, rule) => Math.max(max, rule.minDistance), 0);
+    if (reach <= 0) return [];
+
+    const violations: SpacingRuleViolation[] = [];
+    CollisionService.findCandidatePairs(items, pixelsPerFoot, reach * pixelsPerFoot).forEach(([i, j]) => {
+      violations.push(...this.getViolationsForItem(items[i], [items[j]], rules, pixelsPerFoot));
+    });
+    return violations;
+  }
+
+  /**
+   * Describe one side of a rule for display
+   */
+  static describeTarget(target: SpacingRuleTarget, templateNames: Record<string, string> = {}): string {
+    const parts = [
+      ...target.categories,
+      ...target.templateIds.map(id => templateNames[id] || id)
+    ];
+    return parts.length > 0 ? parts.join(', ') : 'any equipment';
+  }
+
+  /**
+   * Describe a rule violation for display
+   */
+  static describeViolation(violation: SpacingRuleViolation): string {
+    const actual = violation.actualFeet < 10 ? violation.actualFeet.toFixed(1) : Math.round(violation.actualFeet).toString();
+    return `${violation.ruleName}: ${actual} ft apart, ${violation.requiredFeet} ft required`;
+  }
+}
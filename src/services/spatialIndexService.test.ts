@@ -0,0 +1,104 @@
+import { SpatialIndexService } from './spatialIndexService';
+import { CollisionService, PlacementFootprint } from './collisionService';
+import { useEquipmentStore, EquipmentItem } from '../stores/equipmentStore';
+
+const buildItem = (id: string, x: number, y: number, overrides: Partial<EquipmentItem> = {}): EquipmentItem => ({
+  id,
+  name: id,
+  x,
+  y,
+  width: 40,
+  height: 20,
+  rotation: 0,
+  color: '#ff0000',
+  type: 'food',
+  templateId: 'food-trailer',
+  shape: 'rectangle',
+  ...overrides
+});
+
+describe('SpatialIndexService', () => {
+  test('finds entries whose bounds touch the search rectangle', () => {
+    const index = SpatialIndexService.create(100);
+    SpatialIndexService.insert(index, 'a', { minX: 10, minY: 10, maxX: 50, maxY: 30 });
+    SpatialIndexService.insert(index, 'b', { minX: 450, minY: 10, maxX: 650, maxY: 30 });
+
+    expect(SpatialIndexService.search(index, { minX: 40, minY: 20, maxX: 40, maxY: 20 })).toEqual(['a']);
+    expect(SpatialIndexService.search(index, { minX: 60, minY: 0, maxX: 440, maxY: 100 })).toEqual([]);
+    expect(SpatialIndexService.search(index, { minX: 0, minY: 0, maxX: 1000, maxY: 1000 }).sort()).toEqual(['a', 'b']);
+  });
+
+  test('moves and removes entries', () => {
+    const index = SpatialIndexService.create(100);
+    SpatialIndexService.insert(index, 'a', { minX: 10, minY: 10, maxX: 50, maxY: 30 });
+    SpatialIndexService.insert(index, 'a', { minX: 510, minY: 10, maxX: 550, maxY: 30 });
+
+    expect(SpatialIndexService.search(index, { minX: 0, minY: 0, maxX: 100, maxY: 100 })).toEqual([]);
+    expect(SpatialIndexService.search(index, { minX: 500, minY: 0, maxX: 600, maxY: 100 })).toEqual(['a']);
+
+    SpatialIndexService.remove(index, 'a');
+    expect(SpatialIndexService.search(index, { minX: 500, minY: 0, maxX: 600, maxY: 100 })).toEqual([]);
+    expect(index.cells.size).toBe(0);
+  });
+
+  test('still finds entries far larger than a cell', () => {
+    const index = SpatialIndexService.create(10);
+    SpatialIndexService.insert(index, 'tent', { minX: 0, minY: 0, maxX: 5000, maxY: 5000 });
+
+    expect(SpatialIndexService.search(index, { minX: 2500, minY: 2500, maxX: 2500, maxY: 2500 })).toEqual(['tent']);
+  });
+});
+
+describe('Indexed conflict checks', () => {
+  test('match checking every pair', () => {
+    const items: PlacementFootprint[] = [];
+    for (let i = 0; i < 60; i++) {
+      items.push(buildItem(`item-${i}`, (i % 10) * 45 + (i % 3) * 7, Math.floor(i / 10) * 30, {
+        rotation: (i * 17) % 90,
+        clearanceLeft: i % 4 === 0 ? 3 : 0,
+        minSpacing: i % 5 === 0 ? 2 : 0
+      }));
+    }
+
+    const bruteForce = [];
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        const conflict = CollisionService.getConflictBetween(items[i], items[j], 2);
+        if (conflict) bruteForce.push({ itemId: items[i].id, otherItemId: items[j].id, ...conflict });
+      }
+    }
+
+    const indexed = CollisionService.findAllConflicts(items, 2).map(({ itemId, otherItemId, type, distanceFeet }) => ({
+      itemId,
+      otherItemId,
+      type,
+      distanceFeet
+    }));
+    expect(bruteForce.length).toBeGreaterThan(0);
+    expect(indexed).toEqual(bruteForce);
+  });
+});
+
+describe('Equipment store spatial queries', () => {
+  beforeEach(() => {
+    useEquipmentStore.setState({ items: [buildItem('bottom', 0, 0), buildItem('top', 20, 10), buildItem('far', 900, 900)] });
+  });
+
+  test('returns the items under a rectangle from bottom to top', () => {
+    const found = useEquipmentStore.getState().getItemsInRect({ minX: 30, minY: 15, maxX: 30, maxY: 15 }, 4);
+
+    expect(found.map(item => item.id)).toEqual(['bottom', 'top']);
+  });
+
+  test('follows items as they move and are removed', () => {
+    const { getItemsInRect, moveItem, removeItem } = useEquipmentStore.getState();
+    getItemsInRect({ minX: 0, minY: 0, maxX: 1, maxY: 1 }, 4);
+
+    moveItem('far', 0, 0);
+    expect(getItemsInRect({ minX: 0, minY: 0, maxX: 1, maxY: 1 }, 4).map(item => item.id)).toEqual(['bottom', 'far']);
+
+    removeItem('bottom');
+    expect(getItemsInRect({ minX: 0, minY: 0, maxX: 1, maxY: 1 }, 4).map(item => item.id)).toEqual(['far']);
+    expect(getItemsInRect({ minX: 900, minY: 900, maxX: 910, maxY: 910 }, 4)).toEqual([]);
+  });
+});
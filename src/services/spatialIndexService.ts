@@ -0,0 +1,184 @@
+/**
+ * An axis-aligned rectangle in canvas pixel coordinates
+ */
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * A uniform grid over the canvas. Each entry is listed in every cell its
+ * bounds touch, so a search only looks at the cells it covers.
+ */
+export interface SpatialIndex {
+  cellSize: number;
+  cells: Map<string, string[]>;
+  entries: Map<string, Bounds>;
+}
+
+// Cell size in feet, about the size of a booth with its clearance
+const CELL_FEET = 25;
+const MIN_CELL_SIZE = 16;
+// Entries spanning more cells than this are kept in one list checked by every search
+const MAX_CELLS_PER_ENTRY = 256;
+const OVERSIZED_CELL = 'oversized';
+
+export class SpatialIndexService {
+  /**
+   * Create an empty index with square cells of the given size in pixels
+   */
+  static create(cellSize: number): SpatialIndex {
+    return {
+      cellSize: cellSize > 0 ? cellSize : 1,
+      cells: new Map(),
+      entries: new Map()
+    };
+  }
+
+  /**
+   * Get the cell size in pixels for a map scale
+   */
+  static getCellSize(pixelsPerFoot: number): number {
+    return Math.max(MIN_CELL_SIZE, CELL_FEET * pixelsPerFoot);
+  }
+
+  /**
+   * Add an entry, or move it if the id is already indexed
+   */
+  static insert(index: SpatialIndex, id: string, bounds: Bounds): void {
+    if (index.entries.has(id)) this.remove(index, id);
+    index.entries.set(id, bounds);
+    this.getCellKeys(index, bounds).forEach(key => {
+      const cell = index.cells.get(key);
+      if (cell) {
+        cell.push(id);
+      } else {
+        index.cells.set(key, [id]);
+      }
+    });
+  }
+
+  /**
+   * Remove an entry if it is indexed
+   */
+  static remove(index: SpatialIndex, id: string): void {
+    const bounds = index.entries.get(id);
+    if (!bounds) return;
+
+    index.entries.delete(id);
+    this.getCellKeys(index, bounds).forEach(key => {
+      const cell = index.cells.get(key);
+      if (!cell) return;
+      const remaining = cell.filter(entry => entry !== id);
+      if (remaining.length > 0) {
+        index.cells.set(key, remaining);
+      } else {
+        index.cells.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Find the ids of every entry whose bounds touch the rectangle
+   */
+  static search(index: SpatialIndex, bounds: Bounds): string[] {
+    const found: string[] = [];
+    const keys = this.getCellKeys(index, bounds);
+
+    // Searches wider than the cell limit check every entry instead
+    if (keys[0] === OVERSIZED_CELL) {
+      index.entries.forEach((entry, id) => {
+        if (this.intersects(entry, bounds)) found.push(id);
+      });
+      return found;
+    }
+
+    const seen: Record<string, boolean> = {};
+    keys.concat(OVERSIZED_CELL).forEach(key => {
+      const cell = index.cells.get(key);
+      if (!cell) return;
+      cell.forEach(id => {
+        if (seen[id]) return;
+        seen[id] = true;
+        const entry = index.entries.get(id);
+        if (entry && this.intersects(entry, bounds)) found.push(id);
+      });
+    });
+
+    return found;
+  }
+
+  /**
+   * Find pairs of entries whose bounds come within the given reach of each
+   * other, each pair once with the ids in index order of the list given
+   */
+  static findNearbyPairs(index: SpatialIndex, ids: string[], reach: number): [number, number][] {
+    const positions = new Map<string, number>();
+    ids.forEach((id, position) => positions.set(id, position));
+
+    const pairs: [number, number][] = [];
+    ids.forEach((id, position) => {
+      const bounds = index.entries.get(id);
+      if (!bounds) return;
+
+      this.search(index, this.expand(bounds, reach))
+        .map(other => positions.get(other))
+        .filter((other): other is number => other !== undefined && other > position)
+        .sort((a, b) => a - b)
+        .forEach(other => pairs.push([position, other]));
+    });
+
+    return pairs;
+  }
+
+  /**
+   * Grow a rectangle by a margin on every side
+   */
+  static expand(bounds: Bounds, margin: number): Bounds {
+    return {
+      minX: bounds.minX - margin,
+      minY: bounds.minY - margin,
+      maxX: bounds.maxX + margin,
+      maxY: bounds.maxY + margin
+    };
+  }
+
+  /**
+   * Build the rectangle spanned by two corners in any order
+   */
+  static fromCorners(a: { x: number; y: number }, b: { x: number; y: number }): Bounds {
+    return {
+      minX: Math.min(a.x, b.x),
+      minY: Math.min(a.y, b.y),
+      maxX: Math.max(a.x, b.x),
+      maxY: Math.max(a.y, b.y)
+    };
+  }
+
+  /**
+   * Check whether two rectangles touch or overlap
+   */
+  static intersects(a: Bounds, b: Bounds): boolean {
+    return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+  }
+
+  private static getCellKeys(index: SpatialIndex, bounds: Bounds): string[] {
+    if (![bounds.minX, bounds.minY, bounds.maxX, bounds.maxY].every(isFinite)) return [OVERSIZED_CELL];
+
+    const firstColumn = Math.floor(bounds.minX / index.cellSize);
+    const lastColumn = Math.floor(bounds.maxX / index.cellSize);
+    const firstRow = Math.floor(bounds.minY / index.cellSize);
+    const lastRow = Math.floor(bounds.maxY / index.cellSize);
+    if ((lastColumn - firstColumn + 1) * (lastRow - firstRow + 1) > MAX_CELLS_PER_ENTRY) return [OVERSIZED_CELL];
+
+    const keys: string[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        keys.push(`${column},${row}`);
+      }
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,292 @@
+import { deflateSync } from 'zlib';
+import { TiffService, TIFF_TAGS } from './tiffService';
+
+type Entry = [number, number, number[]];
+
+const TYPE_SIZES: Record<number, number> = { 3: 2, 4: 4, 16: 8 };
+
+/**
+ * Build a little-endian TIFF holding the given strips, or tiles, and tags.
+ * The chunk offset and byte count tags are filled in from the chunks.
+ */
+const buildTiff = (entries: Entry[], chunks: Uint8Array[], { tiled = false, bigTiff = false } = {}): ArrayBuffer => {
+  const headerSize = bigTiff ? 16 : 8;
+  const entrySize = bigTiff ? 20 : 12;
+  const inlineSize = bigTiff ? 8 : 4;
+  const offsetType = bigTiff ? 16 : 4;
+
+  const chunkOffsets: number[] = [];
+  let ifdOffset = headerSize;
+  chunks.forEach(chunk => {
+    chunkOffsets.push(ifdOffset);
+    ifdOffset += chunk.length + (chunk.length % 2);
+  });
+
+  const chunkEntries: Entry[] = [
+    [tiled ? TIFF_TAGS.TILE_OFFSETS : TIFF_TAGS.STRIP_OFFSETS, offsetType, chunkOffsets],
+    [tiled ? TIFF_TAGS.TILE_BYTE_COUNTS : TIFF_TAGS.STRIP_BYTE_COUNTS, offsetType, chunks.map(chunk => chunk.length)]
+  ];
+  const allEntries = entries.concat(chunkEntries).sort((a, b) => a[0] - b[0]);
+
+  const dataStart = ifdOffset + (bigTiff ? 8 : 2) + allEntries.length * entrySize + inlineSize;
+  const dataSize = allEntries.reduce((total, [, type, values]) => {
+    const size = TYPE_SIZES[type] * values.length;
+    return total + (size > inlineSize ? size : 0);
+  }, 0);
+
+  const buffer = new ArrayBuffer(dataStart + dataSize);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const setUint64 = (offset: number, value: number) => {
+    view.setUint32(offset, value, true);
+    view.setUint32(offset + 4, 0, true);
+  };
+  const writeValues = (offset: number, type: number, values: number[]) => values.forEach((value, i) => {
+    if (type === 3) view.setUint16(offset + i * 2, value, true);
+    if (type === 4) view.setUint32(offset + i * 4, value, true);
+    if (type === 16) setUint64(offset + i * 8, value);
+  });
+
+  view.setUint16(0, 0x4949);
+  if (bigTiff) {
+    view.setUint16(2, 43, true);
+    view.setUint16(4, 8, true);
+    setUint64(8, ifdOffset);
+    setUint64(ifdOffset, allEntries.length);
+  } else {
+    view.setUint16(2, 42, true);
+    view.setUint32(4, ifdOffset, true);
+    view.setUint16(ifdOffset, allEntries.length, true);
+  }
+  chunks.forEach((chunk, i) => bytes.set(chunk, chunkOffsets[i]));
+
+  let dataOffset = dataStart;
+  allEntries.forEach(([tag, type, values], index) => {
+    const entry = ifdOffset + (bigTiff ? 8 : 2) + index * entrySize;
+    const valueField = entry + (bigTiff ? 12 : 8);
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    if (bigTiff) {
+      setUint64(entry + 4, values.length);
+    } else {
+      view.setUint32(entry + 4, values.length, true);
+    }
+
+    const size = TYPE_SIZES[type] * values.length;
+    if (size <= inlineSize) {
+      writeValues(valueField, type, values);
+    } else {
+      if (bigTiff) {
+        setUint64(valueField, dataOffset);
+      } else {
+        view.setUint32(valueField, dataOffset, true);
+      }
+      writeValues(dataOffset, type, values);
+      dataOffset += size;
+    }
+  });
+  return buffer;
+};
+
+// Tags for an uncompressed image in one strip; extra tags are added or replace these
+const imageTags = (width: number, height: number, photometric: number, bitsPerSample: number[], extra: Entry[] = []): Entry[] => {
+  const overridden = extra.map(([tag]) => tag);
+  return [
+    [TIFF_TAGS.IMAGE_WIDTH, 3, [width]],
+    [TIFF_TAGS.IMAGE_LENGTH, 3, [height]],
+    [TIFF_TAGS.BITS_PER_SAMPLE, 3, bitsPerSample],
+    [TIFF_TAGS.COMPRESSION, 3, [1]],
+    [TIFF_TAGS.PHOTOMETRIC, 3, [photometric]],
+    [TIFF_TAGS.SAMPLES_PER_PIXEL, 3, [bitsPerSample.length]],
+    [TIFF_TAGS.ROWS_PER_STRIP, 3, [height]]
+  ].filter(([tag]) => !overridden.includes(tag as number)).concat(extra) as Entry[];
+};
+
+/**
+ * TIFF LZW as libtiff writes it: MSB-first codes that widen one code early
+ */
+const encodeLzw = (data: Uint8Array): Uint8Array => {
+  const bits: number[] = [];
+  let codeWidth = 9;
+  const emit = (code: number) => {
+    for (let bit = codeWidth - 1; bit >= 0; bit--) bits.push((code >> bit) & 1);
+  };
+  const table = new Map<string, number>();
+  const codeFor = (key: string) => table.get(key) ?? Number(key);
+  let nextCode = 258;
+  const addCode = () => {
+    nextCode++;
+    if (nextCode > (1 << codeWidth) - 1) codeWidth++;
+  };
+
+  emit(256);
+  let current = String(data[0]);
+  for (let i = 1; i < data.length; i++) {
+    const key = `${current},${data[i]}`;
+    if (table.has(key)) {
+      current = key;
+    } else {
+      emit(codeFor(current));
+      table.set(key, nextCode);
+      addCode();
+      current = String(data[i]);
+    }
+  }
+  emit(codeFor(current));
+  addCode();
+  emit(257);
+
+  const output = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, i) => {
+    output[i >> 3] |= bit << (7 - (i & 7));
+  });
+  return output;
+};
+
+const opaqueGray = (values: number[]) => values.flatMap(value => [value, value, value, 255]);
+
+// Red, green, blue / white, black, gray
+const RGB_PIXELS = [255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255, 0, 0, 0, 128, 128, 128];
+const RGB_RGBA = [255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 255, 0, 0, 0, 255, 128, 128, 128, 255];
+
+describe('TiffService strip layouts', () => {
+  test('decodes an uncompressed RGB image split into strips', async () => {
+    const tags = imageTags(3, 2, 2, [8, 8, 8], [[TIFF_TAGS.ROWS_PER_STRIP, 3, [1]]]);
+    const raster = await TiffService.decode(buildTiff(tags, [
+      Uint8Array.from(RGB_PIXELS.slice(0, 9)),
+      Uint8Array.from(RGB_PIXELS.slice(9))
+    ]));
+
+    expect(raster).toMatchObject({ width: 3, height: 2, reduction: 1 });
+    expect(Array.from(raster.rgba)).toEqual(RGB_RGBA);
+  });
+
+  test('reads the same image from a BigTIFF file', async () => {
+    const raster = await TiffService.decode(buildTiff(imageTags(3, 2, 2, [8, 8, 8]), [Uint8Array.from(RGB_PIXELS)], { bigTiff: true }));
+
+    expect(Array.from(raster.rgba)).toEqual(RGB_RGBA);
+  });
+
+  test('puts each tile in place and drops the padding past the image edge', async () => {
+    // 3 × 3 grayscale in 2 × 2 tiles, numbered by row and column
+    const tags = imageTags(3, 3, 1, [8], [[TIFF_TAGS.TILE_WIDTH, 3, [2]], [TIFF_TAGS.TILE_LENGTH, 3, [2]]])
+      .filter(([tag]) => tag !== TIFF_TAGS.ROWS_PER_STRIP);
+    const raster = await TiffService.decode(buildTiff(tags, [
+      Uint8Array.from([0, 1, 10, 11]),
+      Uint8Array.from([2, 99, 12, 99]),
+      Uint8Array.from([20, 21, 99, 99]),
+      Uint8Array.from([22, 99, 99, 99])
+    ], { tiled: true }));
+
+    expect(Array.from(raster.rgba)).toEqual(opaqueGray([0, 1, 2, 10, 11, 12, 20, 21, 22]));
+  });
+});
+
+describe('TiffService compression', () => {
+  test('decodes PackBits runs', async () => {
+    // A run of four 10s, a no-op byte, then four literal bytes
+    const packed = Uint8Array.from([0xfd, 10, 0x80, 3, 1, 2, 3, 4]);
+    const tags = imageTags(4, 2, 1, [8], [[TIFF_TAGS.COMPRESSION, 3, [32773]]]);
+    const raster = await TiffService.decode(buildTiff(tags, [packed]));
+
+    expect(Array.from(raster.rgba)).toEqual(opaqueGray([10, 10, 10, 10, 1, 2, 3, 4]));
+  });
+
+  test('decodes LZW past the point where its codes widen to 10 bits', async () => {
+    // Varied enough that most bytes start a new string, so the table passes 511 entries
+    const pixels = Uint8Array.from({ length: 32 * 32 }, (_, i) => (i * 37 + (i >> 4) * 11) & 255);
+    const tags = imageTags(32, 32, 1, [8], [[TIFF_TAGS.COMPRESSION, 3, [5]]]);
+    const raster = await TiffService.decode(buildTiff(tags, [encodeLzw(pixels)]));
+
+    expect(Array.from(raster.rgba)).toEqual(opaqueGray(Array.from(pixels)));
+  });
+
+  describe('Deflate', () => {
+    const globals = global as unknown as Record<string, unknown>;
+
+    // Browsers have DecompressionStream but jsdom doesn't, so borrow Node's
+    beforeAll(() => {
+      globals.DecompressionStream = jest.requireActual<Record<string, unknown>>('stream/web').DecompressionStream;
+    });
+
+    afterAll(() => {
+      delete globals.DecompressionStream;
+    });
+
+    test.each([8, 32946])('decodes Deflate compression %i', async compression => {
+      const tags = imageTags(3, 2, 2, [8, 8, 8], [[TIFF_TAGS.COMPRESSION, 3, [compression]]]);
+      const raster = await TiffService.decode(buildTiff(tags, [Uint8Array.from(deflateSync(Uint8Array.from(RGB_PIXELS)))]));
+
+      expect(Array.from(raster.rgba)).toEqual(RGB_RGBA);
+    });
+  });
+});
+
+describe('TiffService sample formats', () => {
+  test('undoes the horizontal predictor, wrapping past 255', async () => {
+    // Each sample is stored as the difference from the one to its left in the same band
+    const differences = [255, 0, 0, 1, 255, 0, 0, 1, 255, 255, 255, 255, 1, 1, 1, 128, 128, 128];
+    const tags = imageTags(3, 2, 2, [8, 8, 8], [[TIFF_TAGS.PREDICTOR, 3, [2]]]);
+    const raster = await TiffService.decode(buildTiff(tags, [Uint8Array.from(differences)]));
+
+    expect(Array.from(raster.rgba)).toEqual(RGB_RGBA);
+  });
+
+  test('keeps the high byte of 16-bit samples', async () => {
+    const samples = new Uint8Array(8);
+    const view = new DataView(samples.buffer);
+    [0, 0x1234, 0xffff, 0x80ff].forEach((value, i) => view.setUint16(i * 2, value, true));
+    const raster = await TiffService.decode(buildTiff(imageTags(2, 2, 1, [16]), [samples]));
+
+    expect(Array.from(raster.rgba)).toEqual(opaqueGray([0, 0x12, 0xff, 0x80]));
+  });
+
+  test('looks up palette colors', async () => {
+    const colorMap = new Array(768).fill(0);
+    // Index 1 is orange and index 2 is teal, as 16-bit color map values
+    [[1, 0xffff, 0x8000, 0], [2, 0, 0x8080, 0x8080]].forEach(([index, red, green, blue]) => {
+      colorMap[index] = red;
+      colorMap[256 + index] = green;
+      colorMap[512 + index] = blue;
+    });
+    const tags = imageTags(3, 1, 3, [8], [[TIFF_TAGS.COLOR_MAP, 3, colorMap]]);
+    const raster = await TiffService.decode(buildTiff(tags, [Uint8Array.from([0, 1, 2])]));
+
+    expect(Array.from(raster.rgba)).toEqual([0, 0, 0, 255, 255, 128, 0, 255, 0, 128, 128, 255]);
+  });
+
+  test('inverts white-is-zero grayscale and keeps its alpha band', async () => {
+    const tags = imageTags(2, 1, 0, [8, 8], [[TIFF_TAGS.EXTRA_SAMPLES, 3, [2]]]);
+    const raster = await TiffService.decode(buildTiff(tags, [Uint8Array.from([0, 255, 200, 64])]));
+
+    expect(Array.from(raster.rgba)).toEqual([255, 255, 255, 255, 55, 55, 55, 64]);
+  });
+});
+
+describe('TiffService rejections', () => {
+  test('rejects YCbCr without JPEG compression', async () => {
+    const tags = imageTags(3, 2, 6, [8, 8, 8]);
+
+    await expect(TiffService.decode(buildTiff(tags, [Uint8Array.from(RGB_PIXELS)]))).rejects.toThrow(/YCbCr TIFF images are only supported with JPEG/);
+  });
+
+  test('rejects color spaces it cannot draw', async () => {
+    // CMYK
+    const tags = imageTags(1, 1, 5, [8, 8, 8, 8]);
+
+    await expect(TiffService.decode(buildTiff(tags, [Uint8Array.from([0, 0, 0, 0])]))).rejects.toThrow(/unsupported color space \(5\)/);
+  });
+
+  test('rejects compressions it cannot decode', async () => {
+    // CCITT fax
+    const tags = imageTags(1, 1, 1, [8], [[TIFF_TAGS.COMPRESSION, 3, [3]]]);
+
+    await expect(TiffService.decode(buildTiff(tags, [Uint8Array.from([0])]))).rejects.toThrow(/unsupported compression \(3\)/);
+  });
+
+  test('rejects palette images without a color map', async () => {
+    const tags = imageTags(1, 1, 3, [8]);
+
+    await expect(TiffService.decode(buildTiff(tags, [Uint8Array.from([0])]))).rejects.toThrow(/no color map/);
+  });
+});
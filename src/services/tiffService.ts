@@ -0,0 +1,552 @@
+// Reads baseline TIFF and GeoTIFF rasters, which browsers can't display themselves
+
+export type TiffTagValue = number[] | string;
+
+export interface TiffRaster {
+  width: number; // Decoded size, reduced from the file when it is too large to draw
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  reduction: number; // File pixels per decoded pixel
+  rgba: Uint8ClampedArray;
+  tags: Record<number, TiffTagValue>;
+}
+
+// Supported by current browsers but missing from the TypeScript DOM typings this project uses
+declare const DecompressionStream: new (format: 'deflate' | 'deflate-raw' | 'gzip') => {
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+};
+
+export const TIFF_TAGS = {
+  IMAGE_WIDTH: 256,
+  IMAGE_LENGTH: 257,
+  BITS_PER_SAMPLE: 258,
+  COMPRESSION: 259,
+  PHOTOMETRIC: 262,
+  STRIP_OFFSETS: 273,
+  SAMPLES_PER_PIXEL: 277,
+  ROWS_PER_STRIP: 278,
+  STRIP_BYTE_COUNTS: 279,
+  PLANAR_CONFIGURATION: 284,
+  PREDICTOR: 317,
+  COLOR_MAP: 320,
+  TILE_WIDTH: 322,
+  TILE_LENGTH: 323,
+  TILE_OFFSETS: 324,
+  TILE_BYTE_COUNTS: 325,
+  EXTRA_SAMPLES: 338,
+  SAMPLE_FORMAT: 339,
+  JPEG_TABLES: 347,
+  MODEL_PIXEL_SCALE: 33550,
+  MODEL_TIEPOINT: 33922,
+  MODEL_TRANSFORMATION: 34264,
+  GEO_KEY_DIRECTORY: 34735,
+  GEO_DOUBLE_PARAMS: 34736,
+  GEO_ASCII_PARAMS: 34737,
+  GDAL_NODATA: 42113
+};
+
+const COMPRESSION = {
+  NONE: 1,
+  LZW: 5,
+  JPEG: 7,
+  DEFLATE: 8,
+  PACKBITS: 32773,
+  ADOBE_DEFLATE: 32946
+};
+
+const PHOTOMETRIC = {
+  WHITE_IS_ZERO: 0,
+  BLACK_IS_ZERO: 1,
+  RGB: 2,
+  PALETTE: 3,
+  YCBCR: 6
+};
+
+// Bytes per value for each TIFF field type
+const FIELD_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8, 17: 8, 18: 8
+};
+
+// Canvas size limits for the decoded raster
+const MAX_DECODED_SIDE = 8192;
+const MAX_DECODED_AREA = 32 * 1024 * 1024;
+
+/**
+ * Where one strip or tile sits in the image, and its encoded bytes
+ */
+interface TiffChunk {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  bytes: Uint8Array;
+}
+
+export class TiffService {
+  /**
+   * Check a file's name and type for TIFF
+   */
+  static isTiff(file: File): boolean {
+    return file.type === 'image/tiff' || /\.tiff?$/i.test(file.name);
+  }
+
+  /**
+   * Read the tags of the first image in a TIFF or BigTIFF file
+   */
+  static readTags(buffer: ArrayBuffer): Record<number, TiffTagValue> {
+    const view = new DataView(buffer);
+    const byteOrder = view.getUint16(0, false);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+      throw new Error('This is not a TIFF file');
+    }
+    const littleEndian = byteOrder === 0x4949;
+    const version = view.getUint16(2, littleEndian);
+    if (version !== 42 && version !== 43) {
+      throw new Error('This is not a TIFF file');
+    }
+    const bigTiff = version === 43;
+
+    const readOffset = (offset: number) => bigTiff
+      ? this.readUint64(view, offset, littleEndian)
+      : view.getUint32(offset, littleEndian);
+
+    const ifdOffset = readOffset(bigTiff ? 8 : 4);
+    const entryCount = bigTiff ? this.readUint64(view, ifdOffset, littleEndian) : view.getUint16(ifdOffset, littleEndian);
+    const entrySize = bigTiff ? 20 : 12;
+    const firstEntry = ifdOffset + (bigTiff ? 8 : 2);
+    const inlineSize = bigTiff ? 8 : 4;
+
+    const tags: Record<number, TiffTagValue> = {};
+    for (let i = 0; i < entryCount; i++) {
+      const entry = firstEntry + i * entrySize;
+      const tag = view.getUint16(entry, littleEndian);
+      const type = view.getUint16(entry + 2, littleEndian);
+      const count = bigTiff ? this.readUint64(view, entry + 4, littleEndian) : view.getUint32(entry + 4, littleEndian);
+      const valueSize = FIELD_TYPE_SIZES[type];
+      if (!valueSize) continue;
+
+      const valueField = entry + (bigTiff ? 12 : 8);
+      const valueOffset = count * valueSize <= inlineSize ? valueField : readOffset(valueField);
+      tags[tag] = this.readValues(view, type, count, valueOffset, littleEndian);
+    }
+    return tags;
+  }
+
+  /**
+   * Decode the first image in a TIFF file to RGBA pixels. Images larger than
+   * the canvas limits are reduced by skipping pixels while decoding.
+   */
+  static async decode(buffer: ArrayBuffer): Promise<TiffRaster> {
+    const tags = this.readTags(buffer);
+    const view = new DataView(buffer);
+    const littleEndian = view.getUint16(0, false) === 0x4949;
+
+    const sourceWidth = this.getNumber(tags, TIFF_TAGS.IMAGE_WIDTH, 0);
+    const sourceHeight = this.getNumber(tags, TIFF_TAGS.IMAGE_LENGTH, 0);
+    const samplesPerPixel = this.getNumber(tags, TIFF_TAGS.SAMPLES_PER_PIXEL, 1);
+    const bitsPerSample = this.getNumber(tags, TIFF_TAGS.BITS_PER_SAMPLE, 1);
+    const compression = this.getNumber(tags, TIFF_TAGS.COMPRESSION, COMPRESSION.NONE);
+    const photometric = this.getNumber(tags, TIFF_TAGS.PHOTOMETRIC, PHOTOMETRIC.BLACK_IS_ZERO);
+    const predictor = this.getNumber(tags, TIFF_TAGS.PREDICTOR, 1);
+    const sampleFormat = this.getNumber(tags, TIFF_TAGS.SAMPLE_FORMAT, 1);
+
+    if (!sourceWidth || !sourceHeight) {
+      throw new Error('The TIFF file has no image');
+    }
+    if (this.getNumber(tags, TIFF_TAGS.PLANAR_CONFIGURATION, 1) !== 1) {
+      throw new Error('TIFF files with separate color planes are not supported. Export the image with pixel-interleaved bands.');
+    }
+    if (sampleFormat !== 1 || (bitsPerSample !== 8 && bitsPerSample !== 16)) {
+      throw new Error('Only 8-bit and 16-bit color TIFF images are supported, not elevation or other data rasters');
+    }
+    if (predictor !== 1 && predictor !== 2) {
+      throw new Error('This TIFF file uses an unsupported predictor');
+    }
+    if (![COMPRESSION.NONE, COMPRESSION.LZW, COMPRESSION.JPEG, COMPRESSION.DEFLATE, COMPRESSION.ADOBE_DEFLATE, COMPRESSION.PACKBITS].includes(compression)) {
+      throw new Error(`This TIFF file uses an unsupported compression (${compression})`);
+    }
+    if (photometric === PHOTOMETRIC.YCBCR && compression !== COMPRESSION.JPEG) {
+      throw new Error('YCbCr TIFF images are only supported with JPEG compression. Export the image as RGB.');
+    }
+    if (![PHOTOMETRIC.WHITE_IS_ZERO, PHOTOMETRIC.BLACK_IS_ZERO, PHOTOMETRIC.RGB, PHOTOMETRIC.PALETTE, PHOTOMETRIC.YCBCR].includes(photometric)) {
+      throw new Error(`This TIFF file uses an unsupported color space (${photometric}). Export the image as RGB or grayscale.`);
+    }
+    if (photometric === PHOTOMETRIC.RGB && samplesPerPixel < 3) {
+      throw new Error('The TIFF file is corrupt (an RGB image needs three bands)');
+    }
+    if (photometric === PHOTOMETRIC.PALETTE && !Array.isArray(tags[TIFF_TAGS.COLOR_MAP])) {
+      throw new Error('The TIFF file is corrupt (a palette image has no color map)');
+    }
+
+    const reduction = Math.max(
+      1,
+      Math.ceil(sourceWidth / MAX_DECODED_SIDE),
+      Math.ceil(sourceHeight / MAX_DECODED_SIDE),
+      Math.ceil(Math.sqrt((sourceWidth * sourceHeight) / MAX_DECODED_AREA))
+    );
+    const width = Math.ceil(sourceWidth / reduction);
+    const height = Math.ceil(sourceHeight / reduction);
+    const rgba = new Uint8ClampedArray(width * height * 4);
+
+    const nodataTag = tags[TIFF_TAGS.GDAL_NODATA];
+    const nodata = typeof nodataTag === 'string' && nodataTag.trim() !== '' ? parseFloat(nodataTag) : null;
+    const colorMap = tags[TIFF_TAGS.COLOR_MAP];
+    const extraSamples = tags[TIFF_TAGS.EXTRA_SAMPLES];
+    const colorSamples = photometric === PHOTOMETRIC.RGB || photometric === PHOTOMETRIC.YCBCR ? 3 : 1;
+    const hasAlpha = Array.isArray(extraSamples) && extraSamples.length > 0 && samplesPerPixel > colorSamples;
+
+    for (const chunk of this.getChunks(tags, buffer, sourceWidth, sourceHeight)) {
+      if (compression === COMPRESSION.JPEG) {
+        const pixels = await this.decodeJpeg(chunk, tags[TIFF_TAGS.JPEG_TABLES]);
+        this.copyRgba(pixels, chunk, rgba, width, reduction, sourceWidth, sourceHeight);
+        continue;
+      }
+
+      const bytes = await this.decompress(chunk.bytes, compression);
+      const samples = this.readSamples(bytes, bitsPerSample, littleEndian, chunk.width * chunk.height * samplesPerPixel);
+      if (predictor === 2) {
+        this.undoHorizontalPredictor(samples, chunk.width, chunk.height, samplesPerPixel);
+      }
+
+      const maxValue = bitsPerSample === 16 ? 65535 : 255;
+      const toByte = (value: number) => (bitsPerSample === 16 ? value >> 8 : value);
+
+      for (let row = 0; row < chunk.height; row++) {
+        const sourceY = chunk.y + row;
+        if (sourceY >= sourceHeight) break;
+        if (sourceY % reduction !== 0) continue;
+
+        for (let col = 0; col < chunk.width; col++) {
+          const sourceX = chunk.x + col;
+          if (sourceX >= sourceWidth) break;
+          if (sourceX % reduction !== 0) continue;
+
+          const sample = (row * chunk.width + col) * samplesPerPixel;
+          const target = ((sourceY / reduction) * width + sourceX / reduction) * 4;
+          let red: number;
+          let green: number;
+          let blue: number;
+
+          if (photometric === PHOTOMETRIC.RGB) {
+            red = toByte(samples[sample]);
+            green = toByte(samples[sample + 1]);
+            blue = toByte(samples[sample + 2]);
+          } else if (photometric === PHOTOMETRIC.PALETTE && Array.isArray(colorMap)) {
+            const entries = colorMap.length / 3;
+            const index = samples[sample];
+            red = colorMap[index] >> 8;
+            green = colorMap[entries + index] >> 8;
+            blue = colorMap[2 * entries + index] >> 8;
+          } else {
+            const value = photometric === PHOTOMETRIC.WHITE_IS_ZERO ? maxValue - samples[sample] : samples[sample];
+            red = green = blue = toByte(value);
+          }
+
+          let alpha = hasAlpha ? toByte(samples[sample + colorSamples]) : 255;
+          if (nodata !== null) {
+            let allNodata = true;
+            for (let band = 0; band < colorSamples; band++) {
+              if (samples[sample + band] !== nodata) allNodata = false;
+            }
+            if (allNodata) alpha = 0;
+          }
+
+          rgba[target] = red;
+          rgba[target + 1] = green;
+          rgba[target + 2] = blue;
+          rgba[target + 3] = alpha;
+        }
+      }
+    }
+
+    return { width, height, sourceWidth, sourceHeight, reduction, rgba, tags };
+  }
+
+  /**
+   * Read a numeric tag, falling back when it is missing
+   */
+  static getNumber(tags: Record<number, TiffTagValue>, tag: number, fallback: number): number {
+    const value = tags[tag];
+    return Array.isArray(value) && value.length > 0 ? value[0] : fallback;
+  }
+
+  private static readValues(view: DataView, type: number, count: number, offset: number, littleEndian: boolean): TiffTagValue {
+    if (type === 2) {
+      let text = '';
+      for (let i = 0; i < count; i++) {
+        text += String.fromCharCode(view.getUint8(offset + i));
+      }
+      return text;
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const position = offset + i * FIELD_TYPE_SIZES[type];
+      switch (type) {
+        case 1: case 7: values.push(view.getUint8(position)); break;
+        case 6: values.push(view.getInt8(position)); break;
+        case 3: values.push(view.getUint16(position, littleEndian)); break;
+        case 8: values.push(view.getInt16(position, littleEndian)); break;
+        case 4: values.push(view.getUint32(position, littleEndian)); break;
+        case 9: values.push(view.getInt32(position, littleEndian)); break;
+        case 5: values.push(view.getUint32(position, littleEndian) / view.getUint32(position + 4, littleEndian)); break;
+        case 10: values.push(view.getInt32(position, littleEndian) / view.getInt32(position + 4, littleEndian)); break;
+        case 11: values.push(view.getFloat32(position, littleEndian)); break;
+        case 12: values.push(view.getFloat64(position, littleEndian)); break;
+        default: values.push(this.readUint64(view, position, littleEndian)); break;
+      }
+    }
+    return values;
+  }
+
+  // 64-bit offsets fit in a double for any file a browser can load
+  private static readUint64(view: DataView, offset: number, littleEndian: boolean): number {
+    const low = view.getUint32(offset + (littleEndian ? 0 : 4), littleEndian);
+    const high = view.getUint32(offset + (littleEndian ? 4 : 0), littleEndian);
+    return high * 0x100000000 + low;
+  }
+
+  private static getChunks(tags: Record<number, TiffTagValue>, buffer: ArrayBuffer, width: number, height: number): TiffChunk[] {
+    const tileOffsets = tags[TIFF_TAGS.TILE_OFFSETS];
+    const tiled = Array.isArray(tileOffsets);
+    const offsets = (tiled ? tileOffsets : tags[TIFF_TAGS.STRIP_OFFSETS]) as number[] | undefined;
+    const byteCounts = tags[tiled ? TIFF_TAGS.TILE_BYTE_COUNTS : TIFF_TAGS.STRIP_BYTE_COUNTS] as number[] | undefined;
+    if (!Array.isArray(offsets) || !Array.isArray(byteCounts)) {
+      throw new Error('The TIFF file has no image data');
+    }
+
+    const chunkWidth = tiled ? this.getNumber(tags, TIFF_TAGS.TILE_WIDTH, width) : width;
+    const chunkHeight = tiled
+      ? this.getNumber(tags, TIFF_TAGS.TILE_LENGTH, height)
+      : Math.min(this.getNumber(tags, TIFF_TAGS.ROWS_PER_STRIP, height), height);
+    const chunksAcross = Math.ceil(width / chunkWidth);
+
+    return offsets.map((offset, index) => ({
+      x: (index % chunksAcross) * chunkWidth,
+      y: Math.floor(index / chunksAcross) * chunkHeight,
+      width: chunkWidth,
+      // The last strip may be short; tiles are always full size
+      height: tiled ? chunkHeight : Math.min(chunkHeight, height - Math.floor(index / chunksAcross) * chunkHeight),
+      bytes: new Uint8Array(buffer, offset, byteCounts[index])
+    }));
+  }
+
+  private static async decompress(bytes: Uint8Array, compression: number): Promise<Uint8Array> {
+    switch (compression) {
+      case COMPRESSION.LZW:
+        return this.decodeLzw(bytes);
+      case COMPRESSION.DEFLATE:
+      case COMPRESSION.ADOBE_DEFLATE:
+        return this.inflate(bytes);
+      case COMPRESSION.PACKBITS:
+        return this.decodePackBits(bytes);
+      default:
+        return bytes;
+    }
+  }
+
+  private static async inflate(input: Uint8Array): Promise<Uint8Array> {
+    const stream = new DecompressionStream('deflate');
+    const writer = stream.writable.getWriter();
+    const reader = stream.readable.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const read = async () => {
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        chunks.push(result.value);
+        length += result.value.length;
+      }
+    };
+    // Write and read together so a large strip can't stall on backpressure
+    await Promise.all([writer.write(input).then(() => writer.close()), read()]);
+
+    const output = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      output.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return output;
+  }
+
+  /**
+   * TIFF LZW: MSB-first codes growing from 9 to 12 bits, one code early
+   */
+  private static decodeLzw(input: Uint8Array): Uint8Array {
+    const CLEAR = 256;
+    const END = 257;
+    const prefix = new Int32Array(4096);
+    const suffix = new Uint8Array(4096);
+    const first = new Uint8Array(4096);
+    const length = new Int32Array(4096);
+    for (let i = 0; i < 256; i++) {
+      prefix[i] = -1;
+      suffix[i] = i;
+      first[i] = i;
+      length[i] = 1;
+    }
+
+    let output = new Uint8Array(Math.max(1024, input.length * 4));
+    let outputLength = 0;
+    const write = (code: number) => {
+      const size = length[code];
+      if (outputLength + size > output.length) {
+        const grown = new Uint8Array(Math.max(output.length * 2, outputLength + size));
+        grown.set(output);
+        output = grown;
+      }
+      let current = code;
+      for (let i = size - 1; i >= 0; i--) {
+        output[outputLength + i] = suffix[current];
+        current = prefix[current];
+      }
+      outputLength += size;
+    };
+
+    let bitPosition = 0;
+    let codeWidth = 9;
+    let nextCode = 258;
+    let previous = -1;
+    const totalBits = input.length * 8;
+
+    while (bitPosition + codeWidth <= totalBits) {
+      const byteIndex = bitPosition >> 3;
+      const window = (input[byteIndex] << 16) | ((input[byteIndex + 1] || 0) << 8) | (input[byteIndex + 2] || 0);
+      const code = (window >> (24 - (bitPosition & 7) - codeWidth)) & ((1 << codeWidth) - 1);
+      bitPosition += codeWidth;
+
+      if (code === END) break;
+      if (code === CLEAR) {
+        codeWidth = 9;
+        nextCode = 258;
+        previous = -1;
+        continue;
+      }
+
+      if (previous === -1) {
+        write(code);
+      } else if (nextCode < 4096) {
+        if (code > nextCode) {
+          throw new Error('The TIFF file is corrupt (invalid LZW code)');
+        }
+        // A code not in the table yet is the previous string plus its own first byte
+        const firstByte = code < nextCode ? first[code] : first[previous];
+        prefix[nextCode] = previous;
+        suffix[nextCode] = firstByte;
+        first[nextCode] = first[previous];
+        length[nextCode] = length[previous] + 1;
+        nextCode++;
+        write(code);
+      } else {
+        write(code);
+      }
+      previous = code;
+
+      if (nextCode >= (1 << codeWidth) - 1 && codeWidth < 12) {
+        codeWidth++;
+      }
+    }
+
+    return output.subarray(0, outputLength);
+  }
+
+  private static decodePackBits(input: Uint8Array): Uint8Array {
+    const output: number[] = [];
+    let i = 0;
+    while (i < input.length) {
+      const header = (input[i++] << 24) >> 24;
+      if (header >= 0) {
+        for (let j = 0; j <= header && i < input.length; j++) output.push(input[i++]);
+      } else if (header !== -128) {
+        const value = input[i++];
+        for (let j = 0; j < 1 - header; j++) output.push(value);
+      }
+    }
+    return Uint8Array.from(output);
+  }
+
+  private static readSamples(bytes: Uint8Array, bitsPerSample: number, littleEndian: boolean, count: number): Uint8Array | Uint16Array {
+    if (bitsPerSample === 8) {
+      const samples = new Uint8Array(count);
+      samples.set(bytes.subarray(0, Math.min(count, bytes.length)));
+      return samples;
+    }
+
+    const samples = new Uint16Array(count);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const available = Math.min(count, Math.floor(bytes.byteLength / 2));
+    for (let i = 0; i < available; i++) {
+      samples[i] = view.getUint16(i * 2, littleEndian);
+    }
+    return samples;
+  }
+
+  private static undoHorizontalPredictor(samples: Uint8Array | Uint16Array, width: number, height: number, samplesPerPixel: number): void {
+    const rowLength = width * samplesPerPixel;
+    for (let row = 0; row < height; row++) {
+      const start = row * rowLength;
+      for (let i = samplesPerPixel; i < rowLength; i++) {
+        // Typed arrays wrap the sum, matching the encoder's modular differences
+        samples[start + i] += samples[start + i - samplesPerPixel];
+      }
+    }
+  }
+
+  /**
+   * JPEG-compressed strips and tiles are plain JPEG streams once the shared
+   * quantization and Huffman tables are spliced in, so the browser decodes them
+   */
+  private static async decodeJpeg(chunk: TiffChunk, tables: TiffTagValue | undefined): Promise<Uint8ClampedArray> {
+    let jpeg = chunk.bytes;
+    if (Array.isArray(tables) && tables.length > 4) {
+      // Tables without their end marker, then the chunk without its start marker
+      const spliced = new Uint8Array(tables.length - 2 + chunk.bytes.length - 2);
+      spliced.set(tables.slice(0, -2));
+      spliced.set(chunk.bytes.subarray(2), tables.length - 2);
+      jpeg = spliced;
+    }
+
+    const bitmap = await createImageBitmap(new Blob([jpeg], { type: 'image/jpeg' }));
+    const canvas = document.createElement('canvas');
+    canvas.width = chunk.width;
+    canvas.height = chunk.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not create a canvas to decode the TIFF file');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, chunk.width, chunk.height).data;
+  }
+
+  private static copyRgba(
+    pixels: Uint8ClampedArray,
+    chunk: TiffChunk,
+    rgba: Uint8ClampedArray,
+    width: number,
+    reduction: number,
+    sourceWidth: number,
+    sourceHeight: number
+  ): void {
+    for (let row = 0; row < chunk.height; row++) {
+      const sourceY = chunk.y + row;
+      if (sourceY >= sourceHeight) break;
+      if (sourceY % reduction !== 0) continue;
+
+      for (let col = 0; col < chunk.width; col++) {
+        const sourceX = chunk.x + col;
+        if (sourceX >= sourceWidth) break;
+        if (sourceX % reduction !== 0) continue;
+
+        const source = (row * chunk.width + col) * 4;
+        const target = ((sourceY / reduction) * width + sourceX / reduction) * 4;
+        rgba[target] = pixels[source];
+        rgba[target + 1] = pixels[source + 1];
+        rgba[target + 2] = pixels[source + 2];
+        rgba[target + 3] = pixels[source + 3];
+      }
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { TilePyramidService } from './tilePyramidService';
+
+// A 20000 × 9000 drone orthomosaic in 512 pixel tiles
+const pyramid = TilePyramidService.create({} as CanvasImageSource, 20000, 9000);
+
+describe('TilePyramidService', () => {
+  test('tiles only images too large to draw whole', () => {
+    expect(TilePyramidService.needsTiling(4096, 4096)).toBe(false);
+    expect(TilePyramidService.needsTiling(20000, 9000)).toBe(true);
+  });
+
+  test('builds levels down to one that fits in a single tile', () => {
+    expect(pyramid.levelCount).toBe(7);
+    expect(TilePyramidService.getLevelCount(512, 300, 512)).toBe(1);
+    expect(TilePyramidService.getLevelCount(513, 300, 512)).toBe(2);
+  });
+
+  test('picks the coarsest level with a level pixel for every screen pixel', () => {
+    expect(TilePyramidService.selectLevel(pyramid, 2)).toBe(0);
+    expect(TilePyramidService.selectLevel(pyramid, 1)).toBe(0);
+    expect(TilePyramidService.selectLevel(pyramid, 0.6)).toBe(0);
+    expect(TilePyramidService.selectLevel(pyramid, 0.5)).toBe(1);
+    expect(TilePyramidService.selectLevel(pyramid, 0.2)).toBe(2);
+    expect(TilePyramidService.selectLevel(pyramid, 0.001)).toBe(6);
+  });
+
+  test('lists only the tiles under the viewport', () => {
+    const tiles = TilePyramidService.getVisibleTiles(pyramid, 0, { x: 1000, y: 600, width: 800, height: 500 });
+
+    expect(tiles.map(tile => [tile.column, tile.row])).toEqual([
+      [1, 1], [2, 1], [3, 1],
+      [1, 2], [2, 2], [3, 2]
+    ]);
+    expect(tiles[0]).toMatchObject({ x: 512, y: 512, width: 512, height: 512 });
+  });
+
+  test('clips tiles to the image and skips viewports beside it', () => {
+    const tiles = TilePyramidService.getVisibleTiles(pyramid, 3, { x: -5000, y: -5000, width: 40000, height: 20000 });
+
+    expect(tiles).toHaveLength(15);
+    expect(tiles[tiles.length - 1]).toMatchObject({ column: 4, row: 2, x: 16384, y: 8192, width: 3616, height: 808 });
+    expect(TilePyramidService.getVisibleTiles(pyramid, 0, { x: 21000, y: 0, width: 800, height: 600 })).toEqual([]);
+  });
+});
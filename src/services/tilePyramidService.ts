@@ -0,0 +1,177 @@
+/**
+ * A rectangle in background image pixels, which are also canvas coordinates
+ */
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One tile of one pyramid level. Level 0 is full resolution and each level
+ * above it halves the resolution of the one below.
+ */
+export interface TileRef extends TileRect {
+  level: number;
+  column: number;
+  row: number;
+}
+
+export interface TilePyramid {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  tileSize: number; // Tile width and height in level pixels
+  levelCount: number;
+  tiles: Map<string, HTMLCanvasElement>; // Rendered tiles, least recently used first
+}
+
+const TILE_SIZE = 512;
+// Images with no side longer than this are cheap enough to draw whole
+const TILING_THRESHOLD = 4096;
+// About 128 MB of tile pixels
+const MAX_CACHED_TILES = 128;
+
+export class TilePyramidService {
+  /**
+   * Check whether an image is large enough to be drawn from a tile pyramid
+   */
+  static needsTiling(width: number, height: number): boolean {
+    return Math.max(width, height) > TILING_THRESHOLD;
+  }
+
+  /**
+   * Set up a pyramid over a loaded image. Tiles are rendered on first use.
+   */
+  static create(source: CanvasImageSource, width: number, height: number, tileSize: number = TILE_SIZE): TilePyramid {
+    return {
+      source,
+      width,
+      height,
+      tileSize,
+      levelCount: this.getLevelCount(width, height, tileSize),
+      tiles: new Map()
+    };
+  }
+
+  /**
+   * Count the levels down to the one that fits in a single tile
+   */
+  static getLevelCount(width: number, height: number, tileSize: number): number {
+    const longestSide = Math.max(width, height, 1);
+    return Math.max(1, Math.ceil(Math.log2(longestSide / tileSize)) + 1);
+  }
+
+  /**
+   * Pick the coarsest level that still has at least one level pixel per screen pixel
+   */
+  static selectLevel(pyramid: TilePyramid, scale: number): number {
+    if (scale <= 0) return pyramid.levelCount - 1;
+    const level = Math.floor(Math.log2(1 / scale));
+    return Math.min(Math.max(level, 0), pyramid.levelCount - 1);
+  }
+
+  /**
+   * List the tiles of a level that overlap a canvas rectangle
+   */
+  static getVisibleTiles(pyramid: TilePyramid, level: number, viewport: TileRect): TileRef[] {
+    const span = pyramid.tileSize * Math.pow(2, level);
+    const columns = Math.ceil(pyramid.width / span);
+    const rows = Math.ceil(pyramid.height / span);
+
+    const firstColumn = Math.max(0, Math.floor(viewport.x / span));
+    const lastColumn = Math.min(columns - 1, Math.floor((viewport.x + viewport.width) / span));
+    const firstRow = Math.max(0, Math.floor(viewport.y / span));
+    const lastRow = Math.min(rows - 1, Math.floor((viewport.y + viewport.height) / span));
+
+    const tiles: TileRef[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const x = column * span;
+        const y = row * span;
+        tiles.push({
+          level,
+          column,
+          row,
+          x,
+          y,
+          width: Math.min(span, pyramid.width - x),
+          height: Math.min(span, pyramid.height - y)
+        });
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * Draw the part of the image inside the viewport at the resolution the
+   * scale calls for. The context must already map canvas coordinates.
+   */
+  static draw(ctx: CanvasRenderingContext2D, pyramid: TilePyramid, viewport: TileRect, scale: number): void {
+    const level = this.selectLevel(pyramid, scale);
+    const overlap = Math.pow(2, level);
+
+    this.getVisibleTiles(pyramid, level, viewport).forEach(ref => {
+      const tile = this.getTile(pyramid, ref);
+      if (!tile) return;
+
+      // Tiles carry one extra level pixel on the right and bottom, which the
+      // next tile covers, so no hairline seams show between them
+      const width = Math.min(ref.width + overlap, pyramid.width - ref.x);
+      const height = Math.min(ref.height + overlap, pyramid.height - ref.y);
+      ctx.drawImage(tile, ref.x, ref.y, width, height);
+    });
+  }
+
+  /**
+   * Drop the rendered tiles, e.g. when the image is replaced
+   */
+  static release(pyramid: TilePyramid): void {
+    pyramid.tiles.forEach(tile => {
+      tile.width = 0;
+      tile.height = 0;
+    });
+    pyramid.tiles.clear();
+  }
+
+  /**
+   * Get a rendered tile from the cache, or render it from the source image
+   */
+  private static getTile(pyramid: TilePyramid, ref: TileRef): HTMLCanvasElement | null {
+    const key = `${ref.level}/${ref.column}/${ref.row}`;
+    const cached = pyramid.tiles.get(key);
+    if (cached) {
+      // Move it to the back of the eviction order
+      pyramid.tiles.delete(key);
+      pyramid.tiles.set(key, cached);
+      return cached;
+    }
+
+    const factor = Math.pow(2, ref.level);
+    const sourceWidth = Math.min(ref.width + factor, pyramid.width - ref.x);
+    const sourceHeight = Math.min(ref.height + factor, pyramid.height - ref.y);
+
+    const tile = document.createElement('canvas');
+    tile.width = Math.max(1, Math.ceil(sourceWidth / factor));
+    tile.height = Math.max(1, Math.ceil(sourceHeight / factor));
+    const ctx = tile.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(pyramid.source, ref.x, ref.y, sourceWidth, sourceHeight, 0, 0, tile.width, tile.height);
+
+    pyramid.tiles.set(key, tile);
+    while (pyramid.tiles.size > MAX_CACHED_TILES) {
+      const oldest = pyramid.tiles.keys().next().value as string;
+      const evicted = pyramid.tiles.get(oldest);
+      if (evicted) {
+        evicted.width = 0;
+        evicted.height = 0;
+      }
+      pyramid.tiles.delete(oldest);
+    }
+    return tile;
+  }
+}
@@ -0,0 +1,129 @@
+import { UnderlayService } from './underlayService';
+import { useMapStore, Underlay } from '../stores/mapStore';
+import { useUndoRedoStore } from '../stores/undoRedoStore';
+
+// A 24" × 36" sheet rendered at 150 px per inch, centered at (1000, 500)
+const buildUnderlay = (overrides: Partial<Underlay> = {}): Underlay => ({
+  id: 'underlay-1',
+  name: 'Site plan',
+  source: 'pdf',
+  imageUrl: 'blob:site-plan',
+  imageWidth: 3600,
+  imageHeight: 5400,
+  pixelsPerInch: 150,
+  x: 1000,
+  y: 500,
+  rotation: 0,
+  scale: 1,
+  opacity: 0.7,
+  visible: true,
+  calibrationLines: [],
+  pixelsPerFoot: null,
+  ...overrides
+});
+
+describe('UnderlayService SVG sizes', () => {
+  test('reads physical units from width and height', () => {
+    const size = UnderlayService.parseSvgSize('<svg xmlns="http://www.w3.org/2000/svg" width="841mm" height="594mm" viewBox="0 0 841 594"/>');
+
+    expect(size).toEqual({ width: 841, height: 594, unitsPerInch: 25.4 });
+  });
+
+  test('falls back to the viewBox without a paper size', () => {
+    const size = UnderlayService.parseSvgSize('<svg xmlns="http://www.w3.org/2000/svg" width="100%" viewBox="0 0 1200 800"/>');
+
+    expect(size).toEqual({ width: 1200, height: 800, unitsPerInch: null });
+  });
+
+  test('keeps the viewBox proportions when only one length is given', () => {
+    const size = UnderlayService.parseSvgSize('<svg xmlns="http://www.w3.org/2000/svg" width="10in" viewBox="0 0 200 100"/>');
+
+    expect(size).toEqual({ width: 10, height: 5, unitsPerInch: 1 });
+  });
+
+  test('rejects SVGs without a drawing area', () => {
+    expect(() => UnderlayService.parseSvgSize('<svg xmlns="http://www.w3.org/2000/svg"/>')).toThrow(/no size or viewBox/);
+  });
+});
+
+describe('UnderlayService drawing scales', () => {
+  test('parses engineering, architectural and ratio scales to feet per inch', () => {
+    expect(UnderlayService.parseDrawingScale('1" = 40\'')).toBe(40);
+    expect(UnderlayService.parseDrawingScale('1 in = 20 ft')).toBe(20);
+    expect(UnderlayService.parseDrawingScale('1/8" = 1\'-0"')).toBe(8);
+    expect(UnderlayService.parseDrawingScale('1 1/2" = 1\'')).toBeCloseTo(2 / 3, 10);
+    expect(UnderlayService.parseDrawingScale('1:600')).toBe(50);
+    expect(UnderlayService.parseDrawingScale('30')).toBe(30);
+  });
+
+  test('rejects text that is not a scale', () => {
+    expect(UnderlayService.parseDrawingScale('')).toBeNull();
+    expect(UnderlayService.parseDrawingScale('scale')).toBeNull();
+    expect(UnderlayService.parseDrawingScale('0" = 10\'')).toBeNull();
+  });
+
+  test('calibrates from the printed scale using the paper resolution', () => {
+    const calibration = UnderlayService.calibrationFromDrawingScale(buildUnderlay(), 40);
+
+    expect(calibration.pixelsPerFoot).toBeCloseTo(3.75, 10);
+    expect(() => UnderlayService.calibrationFromDrawingScale(buildUnderlay({ pixelsPerInch: null }), 40)).toThrow(/reference line/);
+  });
+});
+
+describe('UnderlayService placement', () => {
+  test('follows the map scale once calibrated', () => {
+    expect(UnderlayService.getDisplayScale(buildUnderlay({ scale: 0.5 }), 10)).toBe(0.5);
+    expect(UnderlayService.getDisplayScale(buildUnderlay({ pixelsPerFoot: 3.75 }), 7.5)).toBe(2);
+  });
+
+  test('maps drawing pixels to the canvas and back through rotation and scale', () => {
+    const underlay = buildUnderlay({ rotation: 30, pixelsPerFoot: 3.75 });
+    const point = { x: 120, y: 4800 };
+    const canvasPoint = UnderlayService.drawingToCanvas(underlay, 5, point);
+    const back = UnderlayService.canvasToDrawing(underlay, 5, canvasPoint);
+
+    expect(back.x).toBeCloseTo(point.x, 9);
+    expect(back.y).toBeCloseTo(point.y, 9);
+  });
+
+  test('puts the drawing center on the underlay position and turns clockwise', () => {
+    const underlay = buildUnderlay({ rotation: 90 });
+
+    expect(UnderlayService.drawingToCanvas(underlay, 1, { x: 1800, y: 2700 })).toEqual({ x: 1000, y: 500 });
+    const topLeft = UnderlayService.drawingToCanvas(underlay, 1, { x: 0, y: 0 });
+    expect(topLeft.x).toBeCloseTo(1000 + 2700, 9);
+    expect(topLeft.y).toBeCloseTo(500 - 1800, 9);
+  });
+
+  test('bounds the rotated drawing', () => {
+    const bounds = UnderlayService.getBounds(buildUnderlay({ rotation: 90 }), 1);
+
+    expect(bounds.minX).toBeCloseTo(1000 - 2700, 9);
+    expect(bounds.maxX).toBeCloseTo(1000 + 2700, 9);
+    expect(bounds.minY).toBeCloseTo(500 - 1800, 9);
+    expect(bounds.maxY).toBeCloseTo(500 + 1800, 9);
+  });
+});
+
+describe('UnderlayService calibration', () => {
+  beforeEach(() => {
+    useMapStore.setState({ imageUrl: null, calibrationLines: [], pixelsPerFoot: 1, underlays: [buildUnderlay()] });
+    useUndoRedoStore.getState().clearHistory();
+  });
+
+  test('gives an uncalibrated map without a background the drawing scale, as one undo step', () => {
+    UnderlayService.applyCalibration('underlay-1', { pixelsPerFoot: 3.75, calibrationLines: [] }, 'Set Site plan scale');
+
+    expect(useMapStore.getState().pixelsPerFoot).toBe(3.75);
+    expect(useMapStore.getState().underlays[0].pixelsPerFoot).toBe(3.75);
+    expect(useUndoRedoStore.getState().undoStack).toHaveLength(1);
+  });
+
+  test('leaves a calibrated map at its own scale', () => {
+    useMapStore.setState({ pixelsPerFoot: 6 });
+    UnderlayService.applyCalibration('underlay-1', { pixelsPerFoot: 3.75, calibrationLines: [] }, 'Set Site plan scale');
+
+    expect(useMapStore.getState().pixelsPerFoot).toBe(6);
+    expect(UnderlayService.getDisplayScale(useMapStore.getState().underlays[0], 6)).toBeCloseTo(1.6, 10);
+  });
+});
@@ -0,0 +1,404 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { useMapStore, Underlay } from '../stores/mapStore';
+import { useEquipmentStore } from '../stores/equipmentStore';
+import { useUndoRedoStore } from '../stores/undoRedoStore';
+import { CalibrationLine } from './calibrationService';
+import { Point2D } from './collisionService';
+
+/**
+ * A site plan page rendered to an image, ready to become an underlay
+ */
+export interface RenderedPlan {
+  blob: Blob;
+  width: number; // in pixels
+  height: number;
+  pixelsPerInch: number | null; // Pixels per inch of paper, when the drawing has a paper size
+}
+
+export interface RenderOptions {
+  pixelsPerInch?: number; // Rendering resolution for drawings with a paper size
+  transparent?: boolean; // Leave the paper clear so the background shows between the lines
+}
+
+/**
+ * Drawing size read from an SVG's width, height and viewBox
+ */
+export interface SvgSize {
+  width: number;
+  height: number;
+  unitsPerInch: number | null; // null when the size is in screen pixels or user units
+}
+
+/**
+ * A drawing's own scale, from reference lines drawn on it or from the scale printed on it
+ */
+export interface UnderlayCalibration {
+  pixelsPerFoot: number | null;
+  calibrationLines: CalibrationLine[];
+}
+
+const POINTS_PER_INCH = 72;
+const CSS_PIXELS_PER_INCH = 96;
+const DEFAULT_PIXELS_PER_INCH = 150;
+const UNSIZED_SVG_SIDE = 4096; // Longest side for SVGs without a paper size
+const MAX_RENDER_SIDE = 8192; // Canvas limits shared by current browsers
+const MAX_RENDER_AREA = 32 * 1024 * 1024;
+
+const SVG_UNITS_PER_INCH: Record<string, number> = {
+  in: 1,
+  cm: 2.54,
+  mm: 25.4,
+  pt: 72,
+  pc: 6
+};
+
+export class UnderlayService {
+  /**
+   * Check whether a file is a PDF site plan
+   */
+  static isPdf(file: File): boolean {
+    return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+  }
+
+  /**
+   * Check whether a file is an SVG site plan
+   */
+  static isSvg(file: File): boolean {
+    return file.type === 'image/svg+xml' || /\.svg$/i.test(file.name);
+  }
+
+  /**
+   * Count the pages of a PDF
+   */
+  static async getPdfPageCount(file: File): Promise<number> {
+    const pdf = await this.openPdf(file);
+    try {
+      return pdf.numPages;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Render one page of a PDF (numbered from 1) at a paper resolution, reduced
+   * if the page would be too large for a canvas
+   */
+  static async renderPdfPage(file: File, pageNumber: number, options: RenderOptions = {}): Promise<RenderedPlan> {
+    const pdf = await this.openPdf(file);
+    try {
+      if (pageNumber < 1 || pageNumber > pdf.numPages) {
+        throw new Error(`This PDF has no page ${pageNumber}`);
+      }
+
+      const page = await pdf.getPage(pageNumber);
+      const paper = page.getViewport({ scale: 1 }); // in points
+      const pixelsPerInch = this.getRenderResolution(
+        paper.width / POINTS_PER_INCH,
+        paper.height / POINTS_PER_INCH,
+        options.pixelsPerInch || DEFAULT_PIXELS_PER_INCH
+      );
+      const viewport = page.getViewport({ scale: pixelsPerInch / POINTS_PER_INCH });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Could not create a canvas to render the PDF');
+      }
+
+      await page.render({
+        canvasContext: context,
+        viewport,
+        background: options.transparent ? 'rgba(0, 0, 0, 0)' : 'white'
+      }).promise;
+
+      return { blob: await this.toBlob(canvas), width: canvas.width, height: canvas.height, pixelsPerInch };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Render an SVG drawing to an image. Drawings sized in paper units (mm, in...)
+   * are rendered at a paper resolution; others at a fixed size.
+   */
+  static async renderSvg(file: File, options: RenderOptions = {}): Promise<RenderedPlan> {
+    const text = await file.text();
+    const size = this.parseSvgSize(text);
+
+    let pixelsPerInch: number | null = null;
+    let pixelsPerUnit: number;
+    if (size.unitsPerInch) {
+      pixelsPerInch = this.getRenderResolution(
+        size.width / size.unitsPerInch,
+        size.height / size.unitsPerInch,
+        options.pixelsPerInch || DEFAULT_PIXELS_PER_INCH
+      );
+      pixelsPerUnit = pixelsPerInch / size.unitsPerInch;
+    } else {
+      pixelsPerUnit = this.getRenderResolution(size.width, size.height, UNSIZED_SVG_SIDE / Math.max(size.width, size.height));
+    }
+
+    const width = Math.max(1, Math.round(size.width * pixelsPerUnit));
+    const height = Math.max(1, Math.round(size.height * pixelsPerUnit));
+
+    // Give the image an explicit pixel size so browsers rasterize it sharply at that size
+    const svgDocument = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const root = svgDocument.documentElement;
+    if (!root.getAttribute('viewBox')) {
+      // Without a viewBox, drawing coordinates are CSS pixels
+      const cssPixelsPerUnit = size.unitsPerInch ? CSS_PIXELS_PER_INCH / size.unitsPerInch : 1;
+      root.setAttribute('viewBox', `0 0 ${size.width * cssPixelsPerUnit} ${size.height * cssPixelsPerUnit}`);
+    }
+    root.setAttribute('width', String(width));
+    root.setAttribute('height', String(height));
+    const sizedSvg = new Blob([new XMLSerializer().serializeToString(svgDocument)], { type: 'image/svg+xml' });
+
+    const image = await this.loadImage(sizedSvg);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not create a canvas to render the SVG');
+    }
+    if (!options.transparent) {
+      context.fillStyle = 'white';
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(image, 0, 0, width, height);
+
+    return { blob: await this.toBlob(canvas), width, height, pixelsPerInch };
+  }
+
+  /**
+   * Read the drawing size of an SVG from its width and height, falling back
+   * to its viewBox for missing or relative sizes
+   */
+  static parseSvgSize(svgText: string): SvgSize {
+    const root = new DOMParser().parseFromString(svgText, 'image/svg+xml').documentElement;
+    if (!root || root.nodeName.toLowerCase() !== 'svg') {
+      throw new Error('This file is not an SVG drawing');
+    }
+
+    const viewBox = (root.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+    const hasViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+    const parseLength = (value: string | null) => {
+      const match = (value || '').trim().match(/^([\d.]+(?:e[+-]?\d+)?)\s*(in|cm|mm|pt|pc|px)?$/i);
+      return match && parseFloat(match[1]) > 0 ? { value: parseFloat(match[1]), unit: (match[2] || '').toLowerCase() } : null;
+    };
+
+    const width = parseLength(root.getAttribute('width'));
+    const height = parseLength(root.getAttribute('height'));
+    if (width && height) {
+      const unitsPerInch = width.unit === height.unit ? SVG_UNITS_PER_INCH[width.unit] || null : null;
+      return { width: width.value, height: height.value, unitsPerInch };
+    }
+
+    if (hasViewBox) {
+      const aspect = viewBox[3] / viewBox[2];
+      // A single given length keeps the viewBox proportions
+      if (width) return { width: width.value, height: width.value * aspect, unitsPerInch: SVG_UNITS_PER_INCH[width.unit] || null };
+      if (height) return { width: height.value / aspect, height: height.value, unitsPerInch: SVG_UNITS_PER_INCH[height.unit] || null };
+      return { width: viewBox[2], height: viewBox[3], unitsPerInch: null };
+    }
+
+    throw new Error('This SVG has no size or viewBox, so its drawing area is unknown');
+  }
+
+  /**
+   * Parse a drawing scale as printed on a site plan and return feet per inch of
+   * paper. Accepts engineering scales (1" = 40'), architectural scales
+   * (1/8" = 1'-0"), ratios (1:500) and plain feet per inch (40).
+   */
+  static parseDrawingScale(text: string): number | null {
+    const value = text.trim().toLowerCase();
+    if (!value) return null;
+
+    const parseNumber = (part: string): number => {
+      const trimmed = part.trim();
+      const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+      if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+      const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+      if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+      return /^\d*\.?\d+$/.test(trimmed) ? Number(trimmed) : NaN;
+    };
+
+    const ratio = value.match(/^1\s*:\s*([\d.]+)$/);
+    if (ratio) {
+      const feetPerInch = Number(ratio[1]) / 12;
+      return feetPerInch > 0 ? feetPerInch : null;
+    }
+
+    const plain = parseNumber(value);
+    if (!isNaN(plain)) return plain > 0 ? plain : null;
+
+    // Paper length in inches = ground length in feet (and inches)
+    const equation = value.match(/^([\d./\s]+)\s*(?:"|''|in(?:ch(?:es)?)?)\s*=\s*([\d./\s]+)\s*(?:'|ft|feet|foot)\s*(?:-?\s*([\d./\s]+)\s*(?:"|in(?:ch(?:es)?)?))?$/);
+    if (!equation) return null;
+
+    const paperInches = parseNumber(equation[1]);
+    const groundFeet = parseNumber(equation[2]) + (equation[3] ? parseNumber(equation[3]) / 12 : 0);
+    if (isNaN(paperInches) || isNaN(groundFeet) || paperInches <= 0 || groundFeet <= 0) return null;
+
+    return groundFeet / paperInches;
+  }
+
+  /**
+   * Build an underlay for a rendered drawing, centered on a canvas point
+   */
+  static createUnderlay(name: string, source: Underlay['source'], plan: RenderedPlan, center: Point2D): Underlay {
+    return {
+      id: `underlay-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      source,
+      imageUrl: URL.createObjectURL(plan.blob),
+      imageWidth: plan.width,
+      imageHeight: plan.height,
+      pixelsPerInch: plan.pixelsPerInch,
+      x: center.x,
+      y: center.y,
+      rotation: 0,
+      scale: 1,
+      opacity: 0.7,
+      visible: true,
+      calibrationLines: [],
+      pixelsPerFoot: null
+    };
+  }
+
+  /**
+   * Get the canvas pixels per drawing pixel. Calibrated drawings follow the
+   * map's own scale, so they stay true to size when the map is recalibrated.
+   */
+  static getDisplayScale(underlay: Underlay, mapPixelsPerFoot: number): number {
+    return underlay.pixelsPerFoot ? mapPixelsPerFoot / underlay.pixelsPerFoot : underlay.scale;
+  }
+
+  /**
+   * Convert a point on the drawing, in drawing pixels, to the canvas
+   */
+  static drawingToCanvas(underlay: Underlay, mapPixelsPerFoot: number, point: Point2D): Point2D {
+    const scale = this.getDisplayScale(underlay, mapPixelsPerFoot);
+    const radians = (underlay.rotation * Math.PI) / 180;
+    const dx = (point.x - underlay.imageWidth / 2) * scale;
+    const dy = (point.y - underlay.imageHeight / 2) * scale;
+    return {
+      x: underlay.x + dx * Math.cos(radians) - dy * Math.sin(radians),
+      y: underlay.y + dx * Math.sin(radians) + dy * Math.cos(radians)
+    };
+  }
+
+  /**
+   * Convert a canvas point to drawing pixels
+   */
+  static canvasToDrawing(underlay: Underlay, mapPixelsPerFoot: number, point: Point2D): Point2D {
+    const scale = this.getDisplayScale(underlay, mapPixelsPerFoot);
+    const radians = (underlay.rotation * Math.PI) / 180;
+    const dx = point.x - underlay.x;
+    const dy = point.y - underlay.y;
+    return {
+      x: (dx * Math.cos(radians) + dy * Math.sin(radians)) / scale + underlay.imageWidth / 2,
+      y: (-dx * Math.sin(radians) + dy * Math.cos(radians)) / scale + underlay.imageHeight / 2
+    };
+  }
+
+  /**
+   * Get the canvas area an underlay covers
+   */
+  static getBounds(underlay: Underlay, mapPixelsPerFoot: number): { minX: number; minY: number; maxX: number; maxY: number } {
+    const corners = [
+      { x: 0, y: 0 },
+      { x: underlay.imageWidth, y: 0 },
+      { x: underlay.imageWidth, y: underlay.imageHeight },
+      { x: 0, y: underlay.imageHeight }
+    ].map(corner => this.drawingToCanvas(underlay, mapPixelsPerFoot, corner));
+
+    return {
+      minX: Math.min(...corners.map(corner => corner.x)),
+      minY: Math.min(...corners.map(corner => corner.y)),
+      maxX: Math.max(...corners.map(corner => corner.x)),
+      maxY: Math.max(...corners.map(corner => corner.y))
+    };
+  }
+
+  /**
+   * Calibrate an underlay from the drawing scale printed on it
+   */
+  static calibrationFromDrawingScale(underlay: Underlay, feetPerInch: number): UnderlayCalibration {
+    if (!underlay.pixelsPerInch) {
+      throw new Error(`${underlay.name} has no paper size; calibrate it with a reference line instead`);
+    }
+    return { pixelsPerFoot: underlay.pixelsPerInch / feetPerInch, calibrationLines: [] };
+  }
+
+  /**
+   * Set an underlay's own calibration as one undo step. A map without a
+   * background image or calibration of its own takes its scale from the
+   * first calibrated drawing, so that drawing shows at full resolution.
+   */
+  static applyCalibration(underlayId: string, calibration: UnderlayCalibration, description: string): void {
+    const { beginBatch, endBatch } = useUndoRedoStore.getState();
+
+    beginBatch(description);
+    try {
+      const mapStore = useMapStore.getState();
+      mapStore.updateUnderlay(underlayId, calibration, description);
+
+      const hasOwnScale = mapStore.imageUrl || mapStore.calibrationLines.length > 0 || mapStore.pixelsPerFoot !== 1;
+      if (!hasOwnScale && calibration.pixelsPerFoot) {
+        mapStore.setPixelsPerFoot(calibration.pixelsPerFoot);
+        useEquipmentStore.getState().updateItemDimensions(calibration.pixelsPerFoot);
+      }
+    } finally {
+      endBatch();
+    }
+  }
+
+  /**
+   * Get the paper resolution to render at, reduced to stay within canvas limits
+   */
+  private static getRenderResolution(width: number, height: number, pixelsPerUnit: number): number {
+    return Math.min(
+      pixelsPerUnit,
+      MAX_RENDER_SIDE / Math.max(width, height),
+      Math.sqrt(MAX_RENDER_AREA / (width * height))
+    );
+  }
+
+  private static async openPdf(file: File): Promise<PDFDocumentProxy> {
+    // Loaded on first use; the library is large and only needed for PDF imports
+    const pdfjs = await import('pdfjs-dist');
+    await import('pdfjs-dist/build/pdf.worker.entry');
+
+    try {
+      return await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    } catch (error) {
+      const reason = (error as Error).name === 'PasswordException' ? 'it is password protected' : 'it is damaged or not a PDF';
+      throw new Error(`${file.name} could not be opened: ${reason}`);
+    }
+  }
+
+  private static toBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the rendered drawing')), 'image/png');
+    });
+  }
+
+  private static loadImage(blob: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const url = URL.createObjectURL(blob);
+      const image = new Image();
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('The SVG could not be drawn; it may use features browsers can\'t render as an image'));
+      };
+      image.src = url;
+    });
+  }
+}
@@ -1,10 +1,27 @@
 import { create } from 'zustand';
 import { EquipmentService, EquipmentTemplate, EquipmentCategory } from '../services/equipmentService';
+import { CollisionService, PlacementConflict } from '../services/collisionService';
+import { SpatialIndexService, SpatialIndex, Bounds } from '../services/spatialIndexService';
+import { SelectionService, SelectionCombine } from '../services/selectionService';
+import { ArrangeService, ArrangeCommand } from '../services/arrangeService';
+import { SpacingRule, SpacingRuleViolation } from '../services/spacingRuleService';
+import { useMapStore } from './mapStore';
+import { LotAxisService } from '../services/lotAxisService';
 import {
   useUndoRedoStore,
+  UndoRedoAction,
   createEquipmentAddAction,
   createEquipmentRemoveAction,
-  createEquipmentBulkMoveAction
+  createEquipmentMoveAction,
+  createEquipmentBulkMoveAction,
+  createEquipmentArrangeAction,
+  createEquipmentRotateAction,
+  createEquipmentResizeAction,
+  createEquipmentUpdateAction,
+  createEquipmentRescaleAction,
+  createEquipmentPasteAction,
+  createEquipmentClearAllAction,
+  createSpacingRulesChangeAction
 } from './undoRedoStore';
 
 // Define equipment item structure
@@ -50,6 +67,7 @@ interface EquipmentState {
   selectedIds: string[];
   clipboardItems: EquipmentItem[];
   equipmentLibrary: EquipmentTemplate[];
+  spacingRules: SpacingRule[];
   
   // Actions
   addItem: (item: Omit<EquipmentItem, 'id'>) => void;
@@ -62,10 +80,12 @@ interface EquipmentState {
   removeSelectedItems: () => void;
   selectItem: (id: string | null) => void;
   selectMultiple: (id: string, append: boolean) => void;
+  selectItems: (ids: string[], combine: SelectionCombine) => void; // Replace, add to or subtract from the selection
   selectAll: () => void;
   deselectAll: () => void;
   moveItem: (id: string, x: number, y: number) => void;
   moveSelectedItems: (deltaX: number, deltaY: number) => void;
+  arrangeSelected: (command: ArrangeCommand, pixelsPerFoot: number) => void; // Align, distribute or space the selection as one undo step
   rotateItem: (id: string, rotation: number) => void;
   resizeItem: (id: string, width: number, height: number) => void;
   updateItemDimensions: (pixelsPerFoot: number) => void;
@@ -74,26 +94,79 @@ interface EquipmentState {
   pasteItems: (x?: number, y?: number) => void;
   clearAll: () => void;
 
+  // Spacing rule actions
+  addSpacingRule: (rule: SpacingRule) => void;
+  updateSpacingRule: (id: string, updates: Partial<SpacingRule>) => void;
+  removeSpacingRule: (id: string) => void;
+  setSpacingRules: (rules: SpacingRule[]) => void;
+
   // Undo/Redo actions
   undoLastAction: () => void;
   redoLastAction: () => void;
+  jumpToHistory: (appliedCount: number) => void; // Undo or redo until this many actions are applied
 
   // Helpers
   getSelectedItems: () => EquipmentItem[];
   isSelected: (id: string) => boolean;
+  getPlacementConflicts: (id: string, pixelsPerFoot: number) => PlacementConflict[];
+  getRuleViolations: (id: string, pixelsPerFoot: number) => SpacingRuleViolation[];
+  getItemsInRect: (bounds: Bounds, pixelsPerFoot: number) => EquipmentItem[]; // Bottom to top, clearance zones included
 }
 
+// Spatial index over the placed items, brought up to date on the first query after they change
+const itemIndex: {
+  index: SpatialIndex;
+  items: EquipmentItem[];
+  pixelsPerFoot: number;
+  order: Map<string, number>;
+} = {
+  index: SpatialIndexService.create(1),
+  items: [],
+  pixelsPerFoot: 0,
+  order: new Map()
+};
+
+const syncItemIndex = (items: EquipmentItem[], pixelsPerFoot: number) => {
+  if (items === itemIndex.items && pixelsPerFoot === itemIndex.pixelsPerFoot) return;
+
+  // Clearance zones are in feet, so a new scale moves every bound
+  if (pixelsPerFoot !== itemIndex.pixelsPerFoot) {
+    itemIndex.index = SpatialIndexService.create(SpatialIndexService.getCellSize(pixelsPerFoot));
+    itemIndex.items = [];
+    itemIndex.pixelsPerFoot = pixelsPerFoot;
+  }
+
+  // Store updates replace only the items they change, so unchanged objects keep their entries
+  const previous = new Map<string, EquipmentItem>();
+  itemIndex.items.forEach(item => previous.set(item.id, item));
+  itemIndex.order = new Map();
+  items.forEach((item, position) => {
+    itemIndex.order.set(item.id, position);
+    if (previous.get(item.id) !== item) {
+      SpatialIndexService.insert(itemIndex.index, item.id, CollisionService.getItemBounds(item, pixelsPerFoot));
+    }
+    previous.delete(item.id);
+  });
+  previous.forEach((item, id) => SpatialIndexService.remove(itemIndex.index, id));
+  itemIndex.items = items;
+};
+
 // Create the store
 export const useEquipmentStore = create<EquipmentState>((set, get) => ({
   items: [],
   selectedIds: [],
   clipboardItems: [],
   equipmentLibrary: EquipmentService.getEquipmentTemplates(),
+  spacingRules: [],
   
   // Implement actions
-  addItem: (item) => set((state) => ({
-    items: [...state.items, { ...item, id: `item-${Date.now()}` }]
-  })),
+  addItem: (item) => {
+    const newItem: EquipmentItem = { ...item, id: `item-${Date.now()}` };
+    set((state) => ({
+      items: [...state.items, newItem]
+    }));
+    useUndoRedoStore.getState().addAction(createEquipmentAddAction(newItem));
+  },
   
   addItemFromTemplate: (templateId, x, y, pixelsPerFoot) => {
     const template = get().equipmentLibrary.find(t => t.id === templateId);
@@ -103,30 +176,42 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
     }
     
     const pixelDimensions = EquipmentService.getPixelDimensions(template, pixelsPerFoot);
+    // New items line up with the lot axis
+    const rotation = LotAxisService.getDefaultRotation(useMapStore.getState().lotAxis);
     
     // Validate placement
     const validation = EquipmentService.validatePlacement(
       {
+        name: template.name,
+        category: template.category,
+        templateId: template.id,
         x,
         y,
         width: pixelDimensions.width,
         height: pixelDimensions.height,
+        rotation,
+        shape: template.shape,
+        clearanceLeft: template.clearanceLeft,
+        clearanceRight: template.clearanceRight,
+        clearanceTop: template.clearanceTop,
+        clearanceBottom: template.clearanceBottom,
+        clearanceRadius: template.clearanceRadius,
         minSpacing: template.minSpacing
       },
-      get().items.map(item => ({
-        x: item.x,
-        y: item.y,
-        width: item.width,
-        height: item.height,
-        minSpacing: item.minSpacing
-      })),
-      pixelsPerFoot
+      get().items,
+      pixelsPerFoot,
+      get().spacingRules
     );
     
-    if (!validation.valid) {
+    if (validation.outOfBounds) {
       console.warn('Equipment placement validation failed:', validation.error);
       return null;
     }
+    // Conflicts and rule violations are reported but don't block placement,
+    // so a layout can be roughed in and then resolved
+    if (validation.conflicts.length > 0 || validation.ruleViolations.length > 0) {
+      console.warn(`${template.name} placement conflicts:`, validation.error);
+    }
     
     const newItem: EquipmentItem = {
       id: `equipment-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -136,7 +221,7 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
       y,
       width: pixelDimensions.width,
       height: pixelDimensions.height,
-      rotation: 0,
+      rotation,
       color: template.color,
       type: template.category,
       templateId: template.id,
@@ -168,43 +253,65 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
 
     return newItem.id;
   },
-  updateItem: (id, updates) => set((state) => ({
-    items: state.items.map(item => 
-      item.id === id ? { ...item, ...updates } : item
-    )
-  })),
+  updateItem: (id, updates) => {
+    const item = get().items.find(i => i.id === id);
+    if (!item) return;
+
+    set((state) => ({
+      items: state.items.map(item => 
+        item.id === id ? { ...item, ...updates } : item
+      )
+    }));
+    useUndoRedoStore.getState().addAction(
+      createEquipmentUpdateAction(id, item.name, pickFields(item, Object.keys(updates)), updates)
+    );
+  },
   
-  updateItemWithDimensions: (id: string, updates: Partial<EquipmentItem>, pixelsPerFoot: number) => set((state) => ({
-    items: state.items.map(item => {
-      if (item.id !== id) return item;
-      
-      const updatedItem = { ...item, ...updates };
-      
-      // Recalculate pixel dimensions if real-world dimensions changed
-      if (updates.realWorldWidth || updates.realWorldHeight || updates.realWorldRadius || updates.shape) {
-        let pixelDimensions;
-        if (updatedItem.shape === 'circle' && updatedItem.realWorldRadius) {
-          pixelDimensions = EquipmentService.convertCircleToPixelDimensions(
-            updatedItem.realWorldRadius,
-            pixelsPerFoot
-          );
-        } else if (updatedItem.realWorldWidth && updatedItem.realWorldHeight) {
-          pixelDimensions = EquipmentService.convertToPixelDimensions(
-            updatedItem.realWorldWidth,
-            updatedItem.realWorldHeight,
-            pixelsPerFoot
-          );
-        }
+  updateItemWithDimensions: (id: string, updates: Partial<EquipmentItem>, pixelsPerFoot: number) => {
+    const previousItem = get().items.find(i => i.id === id);
+    if (!previousItem) return;
+
+    set((state) => ({
+      items: state.items.map(item => {
+        if (item.id !== id) return item;
+        
+        const updatedItem = { ...item, ...updates };
         
-        if (pixelDimensions) {
-          updatedItem.width = pixelDimensions.width;
-          updatedItem.height = pixelDimensions.height;
+        // Recalculate pixel dimensions if real-world dimensions changed
+        if (updates.realWorldWidth || updates.realWorldHeight || updates.realWorldRadius || updates.shape) {
+          let pixelDimensions;
+          if (updatedItem.shape === 'circle' && updatedItem.realWorldRadius) {
+            pixelDimensions = EquipmentService.convertCircleToPixelDimensions(
+              updatedItem.realWorldRadius,
+              pixelsPerFoot
+            );
+          } else if (updatedItem.realWorldWidth && updatedItem.realWorldHeight) {
+            pixelDimensions = EquipmentService.convertToPixelDimensions(
+              updatedItem.realWorldWidth,
+              updatedItem.realWorldHeight,
+              pixelsPerFoot
+            );
+          }
+          
+          if (pixelDimensions) {
+            updatedItem.width = pixelDimensions.width;
+            updatedItem.height = pixelDimensions.height;
+          }
         }
-      }
-      
-      return updatedItem;
-    })
-  })),
+        
+        return updatedItem;
+      })
+    }));
+
+    // Record the edited fields plus any pixel size they changed
+    const newItem = get().items.find(i => i.id === id);
+    if (newItem) {
+      const fields = Array.from(new Set([...Object.keys(updates), 'width', 'height']));
+      useUndoRedoStore.getState().addAction(
+        createEquipmentUpdateAction(id, previousItem.name, pickFields(previousItem, fields), pickFields(newItem, fields))
+      );
+    }
+  },
   
   updateTemplate: (templateId, updates) => set((state) => ({
     equipmentLibrary: state.equipmentLibrary.map(template => 
@@ -212,10 +319,18 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
     )
   })),
   
-  removeItem: (id) => set((state) => ({
-    items: state.items.filter(item => item.id !== id),
-    selectedIds: state.selectedIds.filter(selectedId => selectedId !== id)
-  })),
+  removeItem: (id) => {
+    const state = get();
+    const item = state.items.find(i => i.id === id);
+    if (!item) return;
+
+    useUndoRedoStore.getState().addAction(createEquipmentRemoveAction([item], state.selectedIds));
+
+    set((state) => ({
+      items: state.items.filter(item => item.id !== id),
+      selectedIds: state.selectedIds.filter(selectedId => selectedId !== id)
+    }));
+  },
   
   removeSelectedItems: () => {
     const state = get();
@@ -251,16 +366,26 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
     }
   }),
   
+  selectItems: (ids, combine) => set((state) => ({
+    selectedIds: SelectionService.combine(state.selectedIds, ids, combine)
+  })),
+
   selectAll: () => set((state) => ({
     selectedIds: state.items.map(item => item.id)
   })),
   
   deselectAll: () => set({ selectedIds: [] }),
-  moveItem: (id, x, y) => set((state) => ({
-    items: state.items.map(item =>
-      item.id === id ? { ...item, x, y } : item
-    )
-  })),
+  moveItem: (id, x, y) => {
+    const item = get().items.find(i => i.id === id);
+    if (!item || (item.x === x && item.y === y)) return;
+
+    set((state) => ({
+      items: state.items.map(item =>
+        item.id === id ? { ...item, x, y } : item
+      )
+    }));
+    useUndoRedoStore.getState().addAction(createEquipmentMoveAction(id, item.name, item.x, item.y, x, y));
+  },
   
   moveSelectedItems: (deltaX, deltaY) => {
     const state = get();
@@ -290,57 +415,162 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
       )
     }));
   },
-  rotateItem: (id, rotation) => set((state) => ({
-    items: state.items.map(item =>
-      item.id === id ? { ...item, rotation } : item
-    )
-  })),
-  resizeItem: (id, width, height) => set((state) => ({
-    items: state.items.map(item => 
-      item.id === id ? { ...item, width, height } : item
-    )
-  })),
+  arrangeSelected: (command, pixelsPerFoot) => {
+    const state = get();
+    const selectedItems = state.items.filter(item => state.selectedIds.includes(item.id));
+    const moves = ArrangeService.arrange(selectedItems, command, pixelsPerFoot, useMapStore.getState().lotAxis);
+
+    if (moves.length === 0) return;
+
+    const positions = new Map(moves.map(move => [move.id, move]));
+    const moveData: Array<{ id: string; previousX: number; previousY: number; newX: number; newY: number }> = [];
+    selectedItems.forEach(item => {
+      const move = positions.get(item.id);
+      if (move) moveData.push({ id: item.id, previousX: item.x, previousY: item.y, newX: move.x, newY: move.y });
+    });
+
+    useUndoRedoStore.getState().addAction(
+      createEquipmentArrangeAction(ArrangeService.describe(command, selectedItems.length), moveData)
+    );
+
+    set((state) => ({
+      items: state.items.map(item => {
+        const move = positions.get(item.id);
+        return move ? { ...item, x: move.x, y: move.y } : item;
+      })
+    }));
+  },
+  rotateItem: (id, rotation) => {
+    const item = get().items.find(i => i.id === id);
+    if (!item || item.rotation === rotation) return;
+
+    set((state) => ({
+      items: state.items.map(item =>
+        item.id === id ? { ...item, rotation } : item
+      )
+    }));
+    useUndoRedoStore.getState().addAction(createEquipmentRotateAction(id, item.name, item.rotation, rotation));
+  },
+  resizeItem: (id, width, height) => {
+    const item = get().items.find(i => i.id === id);
+    if (!item) return;
+
+    set((state) => ({
+      items: state.items.map(item => 
+        item.id === id ? { ...item, width, height } : item
+      )
+    }));
+    useUndoRedoStore.getState().addAction(createEquipmentResizeAction(id, item.name, item.width, item.height, width, height));
+  },
   
-  updateItemDimensions: (pixelsPerFoot) => set((state) => ({
-    items: state.items.map(item => {
-      // Skip items without valid dimensions
-      if (item.shape === 'rectangle' && (!item.realWorldWidth || !item.realWorldHeight)) {
-        return item;
-      }
-      if (item.shape === 'circle' && !item.realWorldRadius) {
-        return item;
-      }
-      
-      let pixelDimensions;
-      if (item.shape === 'circle' && item.realWorldRadius) {
-        pixelDimensions = EquipmentService.convertCircleToPixelDimensions(
-          item.realWorldRadius,
-          pixelsPerFoot
-        );
-      } else if (item.realWorldWidth && item.realWorldHeight) {
-        pixelDimensions = EquipmentService.convertToPixelDimensions(
-          item.realWorldWidth,
-          item.realWorldHeight,
-          pixelsPerFoot
-        );
-      } else {
-        return item;
-      }
-      return {
-        ...item,
-        width: pixelDimensions.width,
-        height: pixelDimensions.height
-      };
-    })
-  })),
+  updateItemDimensions: (pixelsPerFoot) => {
+    const previousItems = get().items;
+
+    set((state) => ({
+      items: state.items.map(item => {
+        // Skip items without valid dimensions
+        if (item.shape === 'rectangle' && (!item.realWorldWidth || !item.realWorldHeight)) {
+          return item;
+        }
+        if (item.shape === 'circle' && !item.realWorldRadius) {
+          return item;
+        }
+        
+        let pixelDimensions;
+        if (item.shape === 'circle' && item.realWorldRadius) {
+          pixelDimensions = EquipmentService.convertCircleToPixelDimensions(
+            item.realWorldRadius,
+            pixelsPerFoot
+          );
+        } else if (item.realWorldWidth && item.realWorldHeight) {
+          pixelDimensions = EquipmentService.convertToPixelDimensions(
+            item.realWorldWidth,
+            item.realWorldHeight,
+            pixelsPerFoot
+          );
+        } else {
+          return item;
+        }
+        return {
+          ...item,
+          width: pixelDimensions.width,
+          height: pixelDimensions.height
+        };
+      })
+    }));
+
+    // Only items whose size changed are part of the undo step
+    const newItems = get().items;
+    const changed = newItems.filter((item, index) => item !== previousItems[index]);
+    if (changed.length > 0) {
+      const changedIds = new Set(changed.map(item => item.id));
+      useUndoRedoStore.getState().addAction(
+        createEquipmentRescaleAction(previousItems.filter(item => changedIds.has(item.id)), changed)
+      );
+    }
+  },
   
-  toggleItemVisibility: (id: string) => set((state) => ({
-    items: state.items.map(item =>
-      item.id === id ? { ...item, visible: !(item.visible ?? true) } : item
-    )
-  })),
+  toggleItemVisibility: (id: string) => {
+    const item = get().items.find(i => i.id === id);
+    if (!item) return;
+
+    const visible = !(item.visible ?? true);
+    set((state) => ({
+      items: state.items.map(item =>
+        item.id === id ? { ...item, visible } : item
+      )
+    }));
+    useUndoRedoStore.getState().addAction(
+      createEquipmentUpdateAction(id, item.name, { visible: item.visible ?? true }, { visible })
+    );
+  },
   
-  clearAll: () => set({ items: [], selectedIds: [], clipboardItems: [] }),
+  clearAll: () => {
+    const { items, selectedIds } = get();
+    set({ items: [], selectedIds: [], clipboardItems: [] });
+
+    if (items.length > 0) {
+      useUndoRedoStore.getState().addAction(createEquipmentClearAllAction(items, selectedIds));
+    }
+  },
+
+  addSpacingRule: (rule) => {
+    const previousRules = get().spacingRules;
+    set({ spacingRules: [...previousRules, rule] });
+    useUndoRedoStore.getState().addAction(createSpacingRulesChangeAction(`Add ${rule.name}`, previousRules, get().spacingRules));
+  },
+
+  updateSpacingRule: (id, updates) => {
+    const previousRules = get().spacingRules;
+    const rule = previousRules.find(r => r.id === id);
+    if (!rule) return;
+
+    set({
+      spacingRules: previousRules.map(rule =>
+        rule.id === id ? { ...rule, ...updates } : rule
+      )
+    });
+    useUndoRedoStore.getState().addAction(
+      createSpacingRulesChangeAction(`Edit ${rule.name}`, previousRules, get().spacingRules, `edit-rule:${id}`)
+    );
+  },
+
+  removeSpacingRule: (id) => {
+    const previousRules = get().spacingRules;
+    const rule = previousRules.find(r => r.id === id);
+    if (!rule) return;
+
+    set({ spacingRules: previousRules.filter(rule => rule.id !== id) });
+    useUndoRedoStore.getState().addAction(createSpacingRulesChangeAction(`Remove ${rule.name}`, previousRules, get().spacingRules));
+  },
+
+  setSpacingRules: (rules) => {
+    const previousRules = get().spacingRules;
+    if (previousRules === rules) return;
+
+    set({ spacingRules: rules });
+    useUndoRedoStore.getState().addAction(createSpacingRulesChangeAction('Replace spacing rules', previousRules, rules));
+  },
   
   copySelectedItems: () => {
     const state = get();
@@ -388,6 +618,7 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
       items: [...state.items, ...newItems],
       selectedIds: newIds
     }));
+    useUndoRedoStore.getState().addAction(createEquipmentPasteAction(newItems, state.selectedIds));
   },
   
   // Helper methods
@@ -402,6 +633,30 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
     return get().selectedIds.includes(id);
   },
 
+  getPlacementConflicts: (id, pixelsPerFoot) => {
+    const items = get().items;
+    const item = items.find(i => i.id === id);
+    if (!item) return [];
+    return EquipmentService.validatePlacement(item, items, pixelsPerFoot).conflicts;
+  },
+
+  getRuleViolations: (id, pixelsPerFoot) => {
+    const items = get().items;
+    const item = items.find(i => i.id === id);
+    if (!item) return [];
+    return EquipmentService.validatePlacement(item, items, pixelsPerFoot, get().spacingRules).ruleViolations;
+  },
+
+  getItemsInRect: (bounds, pixelsPerFoot) => {
+    const items = get().items;
+    syncItemIndex(items, pixelsPerFoot);
+    return SpatialIndexService.search(itemIndex.index, bounds)
+      .map(id => itemIndex.order.get(id))
+      .filter((position): position is number => position !== undefined)
+      .sort((a, b) => a - b)
+      .map(position => items[position]);
+  },
+
   // Undo/Redo implementation
   undoLastAction: () => {
     const { undo, setUndoing } = useUndoRedoStore.getState();
@@ -409,79 +664,7 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
 
     if (!actionToUndo) return;
 
-    switch (actionToUndo.type) {
-      case 'EQUIPMENT_ADD':
-        // Undo add: remove the item
-        set((state) => ({
-          items: state.items.filter(item => item.id !== actionToUndo.undoData.itemId),
-          selectedIds: state.selectedIds.filter(id => id !== actionToUndo.undoData.itemId)
-        }));
-        break;
-
-      case 'EQUIPMENT_REMOVE':
-        // Undo remove: restore the items
-        set((state) => ({
-          items: [...state.items, ...actionToUndo.undoData.items],
-          selectedIds: actionToUndo.undoData.selectedIds
-        }));
-        break;
-
-      case 'EQUIPMENT_MOVE':
-        // Undo move: restore previous positions
-        if (actionToUndo.undoData.items) {
-          // Bulk move
-          set((state) => ({
-            items: state.items.map(item => {
-              const undoItem = actionToUndo.undoData.items.find((u: any) => u.id === item.id);
-              return undoItem ? { ...item, x: undoItem.x, y: undoItem.y } : item;
-            })
-          }));
-        } else {
-          // Single move
-          set((state) => ({
-            items: state.items.map(item =>
-              item.id === actionToUndo.undoData.itemId
-                ? { ...item, x: actionToUndo.undoData.previousX, y: actionToUndo.undoData.previousY }
-                : item
-            )
-          }));
-        }
-        break;
-
-      case 'EQUIPMENT_ROTATE':
-        // Undo rotate: restore previous rotation
-        set((state) => ({
-          items: state.items.map(item =>
-            item.id === actionToUndo.undoData.itemId
-              ? { ...item, rotation: actionToUndo.undoData.previousRotation }
-              : item
-          )
-        }));
-        break;
-
-      case 'EQUIPMENT_RESIZE':
-        // Undo resize: restore previous dimensions
-        set((state) => ({
-          items: state.items.map(item =>
-            item.id === actionToUndo.undoData.itemId
-              ? { ...item, width: actionToUndo.undoData.previousWidth, height: actionToUndo.undoData.previousHeight }
-              : item
-          )
-        }));
-        break;
-
-      case 'EQUIPMENT_UPDATE':
-        // Undo update: restore previous data
-        set((state) => ({
-          items: state.items.map(item =>
-            item.id === actionToUndo.undoData.itemId
-              ? { ...item, ...actionToUndo.undoData.previousData }
-              : item
-          )
-        }));
-        break;
-    }
-
+    applyUndo(actionToUndo);
     setUndoing(false);
   },
 
@@ -491,78 +674,377 @@ export const useEquipmentStore = create<EquipmentState>((set, get) => ({
 
     if (!actionToRedo) return;
 
-    switch (actionToRedo.type) {
-      case 'EQUIPMENT_ADD':
-        // Redo add: add the item back
-        set((state) => ({
-          items: [...state.items, actionToRedo.redoData.item]
-        }));
-        break;
+    applyRedo(actionToRedo);
+    setRedoing(false);
+  },
 
-      case 'EQUIPMENT_REMOVE':
-        // Redo remove: remove the items again
+  jumpToHistory: (appliedCount) => {
+    const undoRedo = useUndoRedoStore.getState();
+    const total = undoRedo.undoStack.length + undoRedo.redoStack.length;
+    const target = Math.min(total, Math.max(0, appliedCount));
+
+    // Each step goes through the normal undo/redo path, so the stacks stay consistent
+    let applied = undoRedo.undoStack.length;
+    while (applied > target && useUndoRedoStore.getState().canUndo()) {
+      get().undoLastAction();
+      applied--;
+    }
+    while (applied < target && useUndoRedoStore.getState().canRedo()) {
+      get().redoLastAction();
+      applied++;
+    }
+  }
+}));
+
+// Copy the given fields of an item, for recording what an update replaced
+const pickFields = (item: EquipmentItem, fields: string[]): Partial<EquipmentItem> => {
+  const picked: Record<string, unknown> = {};
+  fields.forEach(field => {
+    picked[field] = item[field as keyof EquipmentItem];
+  });
+  return picked as Partial<EquipmentItem>;
+};
+
+const setItemSizes = (sizes: Array<{ id: string; width: number; height: number }>) => {
+  useEquipmentStore.setState((state) => ({
+    items: state.items.map(item => {
+      const size = sizes.find(s => s.id === item.id);
+      return size ? { ...item, width: size.width, height: size.height } : item;
+    })
+  }));
+};
+
+// Reverse a recorded action
+const applyUndo = (action: UndoRedoAction) => {
+  const set = useEquipmentStore.setState;
+
+  switch (action.type) {
+    case 'EQUIPMENT_ADD':
+      // Undo add: remove the item
+      set((state) => ({
+        items: state.items.filter(item => item.id !== action.undoData.itemId),
+        selectedIds: state.selectedIds.filter(id => id !== action.undoData.itemId)
+      }));
+      break;
+
+    case 'EQUIPMENT_REMOVE':
+    case 'EQUIPMENT_CLEAR_ALL':
+      // Undo remove: restore the items
+      set((state) => ({
+        items: [...state.items, ...action.undoData.items],
+        selectedIds: action.undoData.selectedIds
+      }));
+      break;
+
+    case 'EQUIPMENT_PASTE':
+      // Undo paste: remove the pasted items and restore the previous selection
+      set((state) => ({
+        items: state.items.filter(item => !action.undoData.itemIds.includes(item.id)),
+        selectedIds: action.undoData.selectedIds
+      }));
+      break;
+
+    case 'EQUIPMENT_MOVE':
+      // Undo move: restore previous positions
+      if (action.undoData.items) {
+        // Bulk move
         set((state) => ({
-          items: state.items.filter(item => !actionToRedo.redoData.itemIds.includes(item.id)),
-          selectedIds: []
+          items: state.items.map(item => {
+            const undoItem = action.undoData.items.find((u: any) => u.id === item.id);
+            return undoItem ? { ...item, x: undoItem.x, y: undoItem.y } : item;
+          })
         }));
-        break;
-
-      case 'EQUIPMENT_MOVE':
-        // Redo move: apply new positions
-        if (actionToRedo.redoData.items) {
-          // Bulk move
-          set((state) => ({
-            items: state.items.map(item => {
-              const redoItem = actionToRedo.redoData.items.find((r: any) => r.id === item.id);
-              return redoItem ? { ...item, x: redoItem.x, y: redoItem.y } : item;
-            })
-          }));
-        } else {
-          // Single move
-          set((state) => ({
-            items: state.items.map(item =>
-              item.id === actionToRedo.redoData.itemId
-                ? { ...item, x: actionToRedo.redoData.newX, y: actionToRedo.redoData.newY }
-                : item
-            )
-          }));
-        }
-        break;
-
-      case 'EQUIPMENT_ROTATE':
-        // Redo rotate: apply new rotation
+      } else {
+        // Single move
         set((state) => ({
           items: state.items.map(item =>
-            item.id === actionToRedo.redoData.itemId
-              ? { ...item, rotation: actionToRedo.redoData.newRotation }
+            item.id === action.undoData.itemId
+              ? { ...item, x: action.undoData.previousX, y: action.undoData.previousY }
               : item
           )
         }));
-        break;
+      }
+      break;
+
+    case 'EQUIPMENT_ROTATE':
+      // Undo rotate: restore previous rotation
+      set((state) => ({
+        items: state.items.map(item =>
+          item.id === action.undoData.itemId
+            ? { ...item, rotation: action.undoData.previousRotation }
+            : item
+        )
+      }));
+      break;
+
+    case 'EQUIPMENT_RESIZE':
+      // Undo resize: restore previous dimensions
+      set((state) => ({
+        items: state.items.map(item =>
+          item.id === action.undoData.itemId
+            ? { ...item, width: action.undoData.previousWidth, height: action.undoData.previousHeight }
+            : item
+        )
+      }));
+      break;
+
+    case 'EQUIPMENT_RESCALE':
+      // Undo rescale: restore previous pixel sizes
+      setItemSizes(action.undoData.items);
+      break;
+
+    case 'EQUIPMENT_UPDATE':
+      // Undo update: restore previous data
+      set((state) => ({
+        items: state.items.map(item =>
+          item.id === action.undoData.itemId
+            ? { ...item, ...action.undoData.previousData }
+            : item
+        )
+      }));
+      break;
+
+    case 'SPACING_RULES_CHANGE':
+      set({ spacingRules: action.undoData.spacingRules });
+      break;
+
+    case 'MEASUREMENT_ADD':
+      useMapStore.setState((state) => ({
+        measurementLines: state.measurementLines.filter(line => line.id !== action.undoData.lineId),
+        selectedMeasurementId: state.selectedMeasurementId === action.undoData.lineId ? null : state.selectedMeasurementId
+      }));
+      break;
+
+    case 'MEASUREMENT_REMOVE':
+      useMapStore.setState((state) => ({
+        measurementLines: [...state.measurementLines, action.undoData.line]
+      }));
+      break;
+
+    case 'MEASUREMENT_UPDATE':
+      useMapStore.setState((state) => ({
+        measurementLines: state.measurementLines.map(line =>
+          line.id === action.undoData.line.id ? action.undoData.line : line
+        )
+      }));
+      break;
+
+    case 'MEASUREMENT_CLEAR_ALL':
+      useMapStore.setState({ measurementLines: action.undoData.lines });
+      break;
+
+    case 'PERIMETER_ADD_POINT':
+      useMapStore.setState((state) => ({
+        currentPerimeter: state.currentPerimeter.slice(0, action.undoData.pointCount)
+      }));
+      break;
+
+    case 'PERIMETER_CLOSE':
+      useMapStore.setState({
+        activePerimeter: action.undoData.previousPerimeter ?? null,
+        currentPerimeter: action.undoData.currentPerimeter
+      });
+      break;
+
+    case 'PERIMETER_CLEAR':
+      useMapStore.setState({
+        activePerimeter: action.undoData.activePerimeter,
+        currentPerimeter: action.undoData.currentPerimeter
+      });
+      break;
+
+    case 'CALIBRATION_SET':
+    case 'CALIBRATION_CLEAR':
+      useMapStore.setState({ ...action.undoData.calibration, currentCalibrationLine: null });
+      break;
+
+    case 'CORRIDOR_CHANGE':
+      useMapStore.setState({ corridors: action.undoData.corridors });
+      break;
+
+    case 'IMAGE_SET':
+      useMapStore.setState({ imageUrl: action.undoData.imageUrl, geoTransform: action.undoData.geoTransform ?? null });
+      break;
+
+    case 'UNDERLAY_CHANGE':
+      useMapStore.setState({ underlays: action.undoData.underlays });
+      break;
+
+    case 'LOT_AXIS_CHANGE':
+      useMapStore.setState({ lotAxis: action.undoData.lotAxis });
+      break;
+
+    case 'BATCH':
+      // Undo the grouped actions in reverse order
+      [...action.undoData.actions].reverse().forEach((child: UndoRedoAction) => applyUndo(child));
+      break;
+  }
+};
+
+// Re-apply a recorded action
+const applyRedo = (action: UndoRedoAction) => {
+  const set = useEquipmentStore.setState;
 
-      case 'EQUIPMENT_RESIZE':
-        // Redo resize: apply new dimensions
+  switch (action.type) {
+    case 'EQUIPMENT_ADD':
+      // Redo add: add the item back
+      set((state) => ({
+        items: [...state.items, action.redoData.item]
+      }));
+      break;
+
+    case 'EQUIPMENT_REMOVE':
+      // Redo remove: remove the items again
+      set((state) => ({
+        items: state.items.filter(item => !action.redoData.itemIds.includes(item.id)),
+        selectedIds: []
+      }));
+      break;
+
+    case 'EQUIPMENT_CLEAR_ALL':
+      set({ items: [], selectedIds: [] });
+      break;
+
+    case 'EQUIPMENT_PASTE':
+      // Redo paste: add the pasted items back and select them
+      set((state) => ({
+        items: [...state.items, ...action.redoData.items],
+        selectedIds: action.redoData.items.map((item: EquipmentItem) => item.id)
+      }));
+      break;
+
+    case 'EQUIPMENT_MOVE':
+      // Redo move: apply new positions
+      if (action.redoData.items) {
+        // Bulk move
         set((state) => ({
-          items: state.items.map(item =>
-            item.id === actionToRedo.redoData.itemId
-              ? { ...item, width: actionToRedo.redoData.newWidth, height: actionToRedo.redoData.newHeight }
-              : item
-          )
+          items: state.items.map(item => {
+            const redoItem = action.redoData.items.find((r: any) => r.id === item.id);
+            return redoItem ? { ...item, x: redoItem.x, y: redoItem.y } : item;
+          })
         }));
-        break;
-
-      case 'EQUIPMENT_UPDATE':
-        // Redo update: apply new data
+      } else {
+        // Single move
         set((state) => ({
           items: state.items.map(item =>
-            item.id === actionToRedo.redoData.itemId
-              ? { ...item, ...actionToRedo.redoData.newData }
+            item.id === action.redoData.itemId
+              ? { ...item, x: action.redoData.newX, y: action.redoData.newY }
               : item
           )
         }));
-        break;
-    }
+      }
+      break;
 
-    setRedoing(false);
+    case 'EQUIPMENT_ROTATE':
+      // Redo rotate: apply new rotation
+      set((state) => ({
+        items: state.items.map(item =>
+          item.id === action.redoData.itemId
+            ? { ...item, rotation: action.redoData.newRotation }
+            : item
+        )
+      }));
+      break;
+
+    case 'EQUIPMENT_RESIZE':
+      // Redo resize: apply new dimensions
+      set((state) => ({
+        items: state.items.map(item =>
+          item.id === action.redoData.itemId
+            ? { ...item, width: action.redoData.newWidth, height: action.redoData.newHeight }
+            : item
+        )
+      }));
+      break;
+
+    case 'EQUIPMENT_RESCALE':
+      // Redo rescale: apply new pixel sizes
+      setItemSizes(action.redoData.items);
+      break;
+
+    case 'EQUIPMENT_UPDATE':
+      // Redo update: apply new data
+      set((state) => ({
+        items: state.items.map(item =>
+          item.id === action.redoData.itemId
+            ? { ...item, ...action.redoData.newData }
+            : item
+        )
+      }));
+      break;
+
+    case 'SPACING_RULES_CHANGE':
+      set({ spacingRules: action.redoData.spacingRules });
+      break;
+
+    case 'MEASUREMENT_ADD':
+      useMapStore.setState((state) => ({
+        measurementLines: [...state.measurementLines, action.redoData.line]
+      }));
+      break;
+
+    case 'MEASUREMENT_REMOVE':
+      useMapStore.setState((state) => ({
+        measurementLines: state.measurementLines.filter(line => line.id !== action.redoData.lineId),
+        selectedMeasurementId: state.selectedMeasurementId === action.redoData.lineId ? null : state.selectedMeasurementId
+      }));
+      break;
+
+    case 'MEASUREMENT_UPDATE':
+      useMapStore.setState((state) => ({
+        measurementLines: state.measurementLines.map(line =>
+          line.id === action.redoData.line.id ? action.redoData.line : line
+        )
+      }));
+      break;
+
+    case 'MEASUREMENT_CLEAR_ALL':
+      useMapStore.setState({ measurementLines: [], selectedMeasurementId: null });
+      break;
+
+    case 'PERIMETER_ADD_POINT':
+      useMapStore.setState((state) => ({
+        currentPerimeter: [...state.currentPerimeter, action.redoData.point]
+      }));
+      break;
+
+    case 'PERIMETER_CLOSE':
+      useMapStore.setState({
+        activePerimeter: action.redoData.perimeter,
+        currentPerimeter: []
+      });
+      break;
+
+    case 'PERIMETER_CLEAR':
+      useMapStore.setState({
+        activePerimeter: action.redoData.activePerimeter,
+        currentPerimeter: action.redoData.currentPerimeter
+      });
+      break;
+
+    case 'CALIBRATION_SET':
+    case 'CALIBRATION_CLEAR':
+      useMapStore.setState({ ...action.redoData.calibration, currentCalibrationLine: null });
+      break;
+
+    case 'CORRIDOR_CHANGE':
+      useMapStore.setState({ corridors: action.redoData.corridors });
+      break;
+
+    case 'IMAGE_SET':
+      useMapStore.setState({ imageUrl: action.redoData.imageUrl, geoTransform: action.redoData.geoTransform ?? null });
+      break;
+
+    case 'UNDERLAY_CHANGE':
+      useMapStore.setState({ underlays: action.redoData.underlays });
+      break;
+
+    case 'LOT_AXIS_CHANGE':
+      useMapStore.setState({ lotAxis: action.redoData.lotAxis });
+      break;
+
+    case 'BATCH':
+      action.redoData.actions.forEach((child: UndoRedoAction) => applyRedo(child));
+      break;
   }
-}));
+};
@@ -1,5 +1,24 @@
 import { create } from 'zustand';
 import { CalibrationPoint, CalibrationLine, CalibrationService } from '../services/calibrationService';
+import { GeoTransform } from '../services/geoService';
+import { LotAxisService } from '../services/lotAxisService';
+import { SpatialIndexService, Bounds } from '../services/spatialIndexService';
+import {
+  useUndoRedoStore,
+  CalibrationSnapshot,
+  createCalibrationAction,
+  createCorridorChangeAction,
+  createImageSetAction,
+  createMeasurementAddAction,
+  createMeasurementClearAllAction,
+  createMeasurementRemoveAction,
+  createMeasurementUpdateAction,
+  createPerimeterAddPointAction,
+  createPerimeterClearAction,
+  createPerimeterCloseAction,
+  createUnderlayChangeAction,
+  createLotAxisChangeAction
+} from './undoRedoStore';
 
 // Define measurement line interface
 export interface MeasurementPoint {
@@ -30,18 +49,60 @@ export interface Perimeter {
   closed: boolean;
 }
 
+// Define fire lane / emergency access corridor interface
+export interface Corridor {
+  id: string;
+  name: string;
+  points: MeasurementPoint[]; // Centerline
+  width: number; // Required clear width in feet
+}
+
+// Define site plan underlay interface: a PDF or SVG drawing rendered to an image and laid over the background
+export interface Underlay {
+  id: string;
+  name: string;
+  source: 'pdf' | 'svg';
+  imageUrl: string; // The rendered drawing
+  imageWidth: number; // in drawing pixels
+  imageHeight: number;
+  pixelsPerInch: number | null; // Drawing pixels per inch of paper, when the drawing has a paper size
+  x: number; // Canvas position of the drawing's center
+  y: number;
+  rotation: number; // Degrees clockwise
+  scale: number; // Canvas pixels per drawing pixel, used until the drawing is calibrated
+  opacity: number; // 0.0 to 1.0
+  visible: boolean;
+  calibrationLines: CalibrationLine[]; // Reference lines in drawing pixels
+  pixelsPerFoot: number | null; // Drawing pixels per foot, from the reference lines or the drawing scale
+}
+
+// Define lot axis interface: the direction the midway runs, which the grid and new items follow
+export interface LotAxis {
+  x: number; // Canvas point the axis passes through, where the grid lines cross
+  y: number;
+  angle: number; // Degrees clockwise from the canvas X axis, between -90 and 90
+}
+
 // Define the state structure
-interface MapState {
+export interface MapState {
   scale: number;
   position: { x: number; y: number };
   imageUrl: string | null;
+  geoTransform: GeoTransform | null; // Locates the background image on the ground, when known
+  underlays: Underlay[]; // Site plan drawings, drawn over the background image in order
+  calibrationUnderlayId: string | null; // Underlay that calibration mode measures, instead of the background
+  movingUnderlayId: string | null; // Underlay that dragging on the map moves
+  lotAxis: LotAxis | null; // null keeps the grid square to the canvas
 
   isCalibrationMode: boolean;
   isPanningMode: boolean; // Added state for pan/move tool mode
   isRulerMode: boolean; // Added state for ruler/measurement tool mode
   isPerimeterMode: boolean; // Added state for perimeter drawing tool mode
+  isCorridorMode: boolean; // State for fire lane corridor drawing tool mode
+  isLotAxisMode: boolean; // State for picking the lot axis from two clicks
   calibrationPoints: CalibrationPoint[];
-  activeCalibrationLine: CalibrationLine | null;
+  calibrationLines: CalibrationLine[]; // Reference lines averaged into pixelsPerFoot
+  activeCalibrationLine: CalibrationLine | null; // Most recently drawn reference line
   currentCalibrationLine: { startPoint: CalibrationPoint | null; endPoint: CalibrationPoint | null } | null;
   pixelsPerFoot: number;
 
@@ -61,6 +122,12 @@ interface MapState {
   showPerimeter: boolean;
   perimeterColor: string;
 
+  // Corridor settings
+  currentCorridor: MeasurementPoint[];
+  corridors: Corridor[];
+  corridorWidth: number; // Clear width in feet for the next corridor drawn
+  showCorridors: boolean;
+
   // Grid settings
   showGrid: boolean;
   gridSpacing: number; // in feet
@@ -77,14 +144,15 @@ interface MapState {
   // Actions
   setScale: (scale: number) => void;
   setPosition: (position: { x: number; y: number }) => void;
-  setImageUrl: (url: string | null) => void;
+  setImageUrl: (url: string | null, geoTransform?: GeoTransform | null) => void; // The geotransform belongs to the image and is replaced with it
 
   setPixelsPerFoot: (pixelsPerFoot: number) => void;
   toggleCalibrationMode: () => void;
   addCalibrationPoint: (point: CalibrationPoint) => void;
   clearCalibrationPoints: () => void;
   startCalibrationLine: (point: CalibrationPoint) => void;
-  completeCalibrationLine: (endPoint: CalibrationPoint, realWorldDistance: number) => void;
+  completeCalibrationLine: (endPoint: CalibrationPoint, realWorldDistance: number, replaceExisting?: boolean) => void;
+  removeCalibrationLine: (id: string) => void;
   clearCalibration: () => void;
   updatePixelsPerFoot: () => void;
   
@@ -111,6 +179,7 @@ interface MapState {
   toggleMeasurementLines: () => void;
   selectMeasurementLine: (id: string | null) => void;
   updateMeasurementLine: (id: string, updates: Partial<MeasurementLine>) => void;
+  getMeasurementLinesInRect: (bounds: Bounds) => MeasurementLine[]; // Lines whose bounds touch the rectangle
 
   // Perimeter actions
   togglePerimeterMode: () => void;
@@ -120,6 +189,33 @@ interface MapState {
   togglePerimeter: () => void;
   setPerimeterColor: (color: string) => void;
 
+  // Corridor actions
+  toggleCorridorMode: () => void;
+  addCorridorPoint: (point: MeasurementPoint) => void;
+  clearCurrentCorridor: () => void;
+  completeCorridor: () => void;
+  updateCorridor: (id: string, updates: Partial<Corridor>) => void;
+  removeCorridor: (id: string) => void;
+  setCorridors: (corridors: Corridor[]) => void;
+  setCorridorWidth: (width: number) => void;
+  toggleCorridors: () => void;
+
+  // Underlay actions
+  addUnderlay: (underlay: Underlay) => void;
+  updateUnderlay: (id: string, updates: Partial<Underlay>, description?: string) => void;
+  removeUnderlay: (id: string) => void;
+  reorderUnderlay: (id: string, offset: number) => void; // Positive offsets draw it later, over the others
+  setUnderlays: (underlays: Underlay[]) => void;
+  startUnderlayCalibration: (id: string) => void;
+  setMovingUnderlay: (id: string | null) => void;
+
+  // Lot axis actions
+  toggleLotAxisMode: () => void;
+  setLotAxis: (lotAxis: LotAxis | null) => void;
+
+  // Move calibration, measurements, the perimeter, fire lanes, underlays and the lot axis onto a resampled background image
+  remapGeometry: (mapPoint: (x: number, y: number) => { x: number; y: number }) => void;
+
   // Drag actions for moving measurement points
   startDragging: (lineId: string, pointType: 'start' | 'end') => void;
   updateDragging: (x: number, y: number) => void;
@@ -129,20 +225,44 @@ interface MapState {
   zoomIn: () => void;
   zoomOut: () => void;
   zoomToFit: () => void;
+  zoomToBounds: (bounds: { minX: number; minY: number; maxX: number; maxY: number }, padding?: number) => void;
   resetZoom: () => void;
 }
 
+const getCalibrationSnapshot = (state: MapState): CalibrationSnapshot => ({
+  calibrationPoints: state.calibrationPoints,
+  calibrationLines: state.calibrationLines,
+  activeCalibrationLine: state.activeCalibrationLine,
+  pixelsPerFoot: state.pixelsPerFoot
+});
+
+// Measurement line as it was when a point drag started, recorded as one edit when the drag ends
+let measurementDragOrigin: MeasurementLine | null = null;
+
+// Spatial index over the measurement lines, rebuilt on the first query after they change
+const MEASUREMENT_CELL_SIZE = 256;
+let measurementIndex = SpatialIndexService.create(MEASUREMENT_CELL_SIZE);
+let indexedMeasurementLines: MeasurementLine[] = [];
+
 // Create the store
 export const useMapStore = create<MapState>((set, get) => ({
   scale: 1.0,
   position: { x: 0, y: 0 },
   imageUrl: null,
+  geoTransform: null,
+  underlays: [],
+  calibrationUnderlayId: null,
+  movingUnderlayId: null,
+  lotAxis: null,
 
   isCalibrationMode: false,
   isPanningMode: false,
   isRulerMode: false,
   isPerimeterMode: false,
+  isCorridorMode: false,
+  isLotAxisMode: false,
   calibrationPoints: [],
+  calibrationLines: [],
   activeCalibrationLine: null,
   currentCalibrationLine: null,
   pixelsPerFoot: 1,
@@ -163,6 +283,12 @@ export const useMapStore = create<MapState>((set, get) => ({
   showPerimeter: true,
   perimeterColor: '#9c27b0',
 
+  // Corridor settings
+  currentCorridor: [],
+  corridors: [],
+  corridorWidth: 20, // 20 ft fire lane
+  showCorridors: true,
+
   // Grid settings
   showGrid: true,
   gridSpacing: 10, // 10 feet
@@ -179,25 +305,52 @@ export const useMapStore = create<MapState>((set, get) => ({
   // Implement actions
   setScale: (scale) => set({ scale }),
   setPosition: (position) => set({ position }),
-  setImageUrl: (imageUrl) => set({ imageUrl }),
+  setImageUrl: (imageUrl, geoTransform = null) => {
+    const { imageUrl: previousUrl, geoTransform: previousGeoTransform } = get();
+    if (previousUrl === imageUrl && previousGeoTransform === geoTransform) return;
 
-  setPixelsPerFoot: (pixelsPerFoot) => set({ pixelsPerFoot }),
+    set({ imageUrl, geoTransform });
+    useUndoRedoStore.getState().addAction(createImageSetAction(previousUrl, imageUrl, previousGeoTransform, geoTransform));
+  },
+
+  setPixelsPerFoot: (pixelsPerFoot) => {
+    const previous = getCalibrationSnapshot(get());
+    if (previous.pixelsPerFoot === pixelsPerFoot) return;
+
+    set({ pixelsPerFoot });
+    useUndoRedoStore.getState().addAction(createCalibrationAction('CALIBRATION_SET', previous, getCalibrationSnapshot(get())));
+  },
   toggleCalibrationMode: () => set((state) => ({ 
     isCalibrationMode: !state.isCalibrationMode,
-    currentCalibrationLine: null // Reset current line when toggling mode
+    currentCalibrationLine: null, // Reset current line when toggling mode
+    calibrationUnderlayId: null // Calibration mode measures the background unless an underlay asks for it
   })),
   
-  addCalibrationPoint: (point) => set((state) => ({
-    calibrationPoints: [...state.calibrationPoints, point]
-  })),
+  addCalibrationPoint: (point) => {
+    const previous = getCalibrationSnapshot(get());
+    set((state) => ({
+      calibrationPoints: [...state.calibrationPoints, point]
+    }));
+    useUndoRedoStore.getState().addAction(
+      createCalibrationAction('CALIBRATION_SET', previous, getCalibrationSnapshot(get()), 'Add calibration point')
+    );
+  },
   
-  clearCalibrationPoints: () => set({ calibrationPoints: [] }),
+  clearCalibrationPoints: () => {
+    const previous = getCalibrationSnapshot(get());
+    if (previous.calibrationPoints.length === 0) return;
+
+    set({ calibrationPoints: [] });
+    useUndoRedoStore.getState().addAction(
+      createCalibrationAction('CALIBRATION_CLEAR', previous, getCalibrationSnapshot(get()), 'Clear calibration points')
+    );
+  },
   
   startCalibrationLine: (point) => set({
     currentCalibrationLine: { startPoint: point, endPoint: null }
   }),
   
-  completeCalibrationLine: (endPoint, realWorldDistance) => {
+  completeCalibrationLine: (endPoint, realWorldDistance, replaceExisting = false) => {
     const state = get();
     if (!state.currentCalibrationLine?.startPoint) return;
     
@@ -208,32 +361,57 @@ export const useMapStore = create<MapState>((set, get) => ({
         realWorldDistance
       );
       
-      // Replace any existing calibration with the new one
+      // Add the line to the reference set and use the averaged scale
+      const previous = getCalibrationSnapshot(state);
+      const calibrationLines = replaceExisting ? [calibrationLine] : [...state.calibrationLines, calibrationLine];
       set({
+        calibrationLines,
         activeCalibrationLine: calibrationLine,
         currentCalibrationLine: null,
-        pixelsPerFoot: calibrationLine.pixelsPerFoot
+        pixelsPerFoot: CalibrationService.calculateImageScale(calibrationLines)
       });
+      useUndoRedoStore.getState().addAction(createCalibrationAction('CALIBRATION_SET', previous, getCalibrationSnapshot(get())));
     } catch (error) {
       console.error('Failed to create calibration line:', error);
       set({ currentCalibrationLine: null });
     }
   },
   
-  clearCalibration: () => set({
-    calibrationPoints: [],
-    activeCalibrationLine: null,
-    currentCalibrationLine: null,
-    pixelsPerFoot: 1
-  }),
+  removeCalibrationLine: (id) => {
+    const state = get();
+    const calibrationLines = state.calibrationLines.filter(line => line.id !== id);
+    if (calibrationLines.length === state.calibrationLines.length) return;
+
+    // The remaining lines set the scale; without any, the current scale is kept
+    const previous = getCalibrationSnapshot(state);
+    set({
+      calibrationLines,
+      activeCalibrationLine: calibrationLines[calibrationLines.length - 1] || null,
+      pixelsPerFoot: calibrationLines.length > 0 ? CalibrationService.calculateImageScale(calibrationLines) : state.pixelsPerFoot
+    });
+    useUndoRedoStore.getState().addAction(
+      createCalibrationAction('CALIBRATION_SET', previous, getCalibrationSnapshot(get()), 'Remove calibration line')
+    );
+  },
+
+  clearCalibration: () => {
+    const previous = getCalibrationSnapshot(get());
+    set({
+      calibrationPoints: [],
+      calibrationLines: [],
+      activeCalibrationLine: null,
+      currentCalibrationLine: null,
+      pixelsPerFoot: 1
+    });
+
+    if (previous.activeCalibrationLine || previous.calibrationPoints.length > 0 || previous.pixelsPerFoot !== 1) {
+      useUndoRedoStore.getState().addAction(createCalibrationAction('CALIBRATION_CLEAR', previous, getCalibrationSnapshot(get())));
+    }
+  },
   
   updatePixelsPerFoot: () => {
     const state = get();
-    if (state.activeCalibrationLine) {
-      set({ pixelsPerFoot: state.activeCalibrationLine.pixelsPerFoot });
-    } else {
-      set({ pixelsPerFoot: 1 });
-    }
+    get().setPixelsPerFoot(state.calibrationLines.length > 0 ? CalibrationService.calculateImageScale(state.calibrationLines) : 1);
   },
   
   // Grid actions
@@ -283,30 +461,70 @@ export const useMapStore = create<MapState>((set, get) => ({
       measurementLines: [...state.measurementLines, measurementLine],
       currentMeasurementLine: null
     }));
+    useUndoRedoStore.getState().addAction(createMeasurementAddAction(measurementLine));
   },
 
-  clearMeasurementLines: () => set({ measurementLines: [], selectedMeasurementId: null }),
+  clearMeasurementLines: () => {
+    const lines = get().measurementLines;
+    set({ measurementLines: [], selectedMeasurementId: null });
 
-  removeMeasurementLine: (id) => set((state) => ({
-    measurementLines: state.measurementLines.filter(line => line.id !== id),
-    selectedMeasurementId: state.selectedMeasurementId === id ? null : state.selectedMeasurementId
-  })),
+    if (lines.length > 0) {
+      useUndoRedoStore.getState().addAction(createMeasurementClearAllAction(lines));
+    }
+  },
+
+  removeMeasurementLine: (id) => {
+    const line = get().measurementLines.find(l => l.id === id);
+    if (!line) return;
+
+    set((state) => ({
+      measurementLines: state.measurementLines.filter(line => line.id !== id),
+      selectedMeasurementId: state.selectedMeasurementId === id ? null : state.selectedMeasurementId
+    }));
+    useUndoRedoStore.getState().addAction(createMeasurementRemoveAction(line));
+  },
 
   toggleMeasurementLines: () => set((state) => ({ showMeasurementLines: !state.showMeasurementLines })),
 
   selectMeasurementLine: (id) => set({ selectedMeasurementId: id }),
 
-  updateMeasurementLine: (id, updates) => set((state) => ({
-    measurementLines: state.measurementLines.map(line =>
-      line.id === id ? { ...line, ...updates } : line
-    )
-  })),
+  updateMeasurementLine: (id, updates) => {
+    const line = get().measurementLines.find(l => l.id === id);
+    if (!line) return;
+
+    const updatedLine = { ...line, ...updates };
+    set((state) => ({
+      measurementLines: state.measurementLines.map(line =>
+        line.id === id ? updatedLine : line
+      )
+    }));
+    useUndoRedoStore.getState().addAction(createMeasurementUpdateAction(line, updatedLine));
+  },
+
+  getMeasurementLinesInRect: (bounds) => {
+    const lines = get().measurementLines;
+    if (lines !== indexedMeasurementLines) {
+      measurementIndex = SpatialIndexService.create(MEASUREMENT_CELL_SIZE);
+      lines.forEach((line, position) => {
+        SpatialIndexService.insert(measurementIndex, String(position), SpatialIndexService.fromCorners(line.startPoint, line.endPoint));
+      });
+      indexedMeasurementLines = lines;
+    }
+
+    return SpatialIndexService.search(measurementIndex, bounds)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map(position => lines[position]);
+  },
 
   // Drag actions for moving measurement points
-  startDragging: (lineId, pointType) => set({
-    isDragging: true,
-    dragTarget: { lineId, pointType }
-  }),
+  startDragging: (lineId, pointType) => {
+    measurementDragOrigin = get().measurementLines.find(line => line.id === lineId) || null;
+    set({
+      isDragging: true,
+      dragTarget: { lineId, pointType }
+    });
+  },
 
   updateDragging: (x, y) => {
     const state = get();
@@ -345,10 +563,20 @@ export const useMapStore = create<MapState>((set, get) => ({
     }));
   },
 
-  stopDragging: () => set({
-    isDragging: false,
-    dragTarget: null
-  }),
+  stopDragging: () => {
+    const origin = measurementDragOrigin;
+    measurementDragOrigin = null;
+    set({
+      isDragging: false,
+      dragTarget: null
+    });
+
+    // Record the whole drag as one edit
+    const line = origin && get().measurementLines.find(l => l.id === origin.id);
+    if (origin && line && line !== origin) {
+      useUndoRedoStore.getState().addAction(createMeasurementUpdateAction(origin, line));
+    }
+  },
 
   // Perimeter actions
   togglePerimeterMode: () => set((state) => ({
@@ -356,18 +584,28 @@ export const useMapStore = create<MapState>((set, get) => ({
     currentPerimeter: !state.isPerimeterMode ? [] : state.currentPerimeter // Clear when entering mode
   })),
 
-  addPerimeterPoint: (point) => set((state) => {
+  addPerimeterPoint: (point) => {
+    const pointCount = get().currentPerimeter.length;
     // Limit to 33 points as specified
-    if (state.currentPerimeter.length >= 33) return state;
+    if (pointCount >= 33) return;
 
-    return {
+    set((state) => ({
       currentPerimeter: [...state.currentPerimeter, point]
-    };
-  }),
+    }));
+    useUndoRedoStore.getState().addAction(createPerimeterAddPointAction(point, pointCount));
+  },
 
-  clearCurrentPerimeter: () => set({
-    currentPerimeter: []
-  }),
+  clearCurrentPerimeter: () => {
+    const { currentPerimeter, activePerimeter } = get();
+    if (currentPerimeter.length === 0) return;
+
+    set({
+      currentPerimeter: []
+    });
+    useUndoRedoStore.getState().addAction(
+      createPerimeterClearAction({ currentPerimeter, activePerimeter }, { currentPerimeter: [], activePerimeter })
+    );
+  },
 
   closePerimeter: () => {
     const state = get();
@@ -384,11 +622,249 @@ export const useMapStore = create<MapState>((set, get) => ({
       currentPerimeter: [],
       isPerimeterMode: false
     });
+    useUndoRedoStore.getState().addAction(createPerimeterCloseAction(state.currentPerimeter, perimeter, state.activePerimeter));
   },
 
   togglePerimeter: () => set((state) => ({ showPerimeter: !state.showPerimeter })),
   setPerimeterColor: (color) => set({ perimeterColor: color }),
 
+  // Corridor actions
+  toggleCorridorMode: () => set((state) => ({
+    isCorridorMode: !state.isCorridorMode,
+    currentCorridor: [] // Discard an unfinished corridor when toggling mode
+  })),
+
+  addCorridorPoint: (point) => set((state) => ({
+    currentCorridor: [...state.currentCorridor, point]
+  })),
+
+  clearCurrentCorridor: () => set({
+    currentCorridor: []
+  }),
+
+  completeCorridor: () => {
+    const state = get();
+    if (state.currentCorridor.length < 2) return; // Need at least 2 points for a corridor
+
+    const corridor: Corridor = {
+      id: `corridor-${Date.now()}`,
+      name: `Fire Lane ${state.corridors.length + 1}`,
+      points: state.currentCorridor,
+      width: state.corridorWidth
+    };
+
+    set({
+      corridors: [...state.corridors, corridor],
+      currentCorridor: [],
+      isCorridorMode: false
+    });
+    useUndoRedoStore.getState().addAction(createCorridorChangeAction(`Add ${corridor.name}`, state.corridors, get().corridors));
+  },
+
+  updateCorridor: (id, updates) => {
+    const previousCorridors = get().corridors;
+    const corridor = previousCorridors.find(c => c.id === id);
+    if (!corridor) return;
+
+    set((state) => ({
+      corridors: state.corridors.map(corridor =>
+        corridor.id === id ? { ...corridor, ...updates } : corridor
+      )
+    }));
+    useUndoRedoStore.getState().addAction(
+      createCorridorChangeAction(`Edit ${corridor.name}`, previousCorridors, get().corridors, `edit-corridor:${id}`)
+    );
+  },
+
+  removeCorridor: (id) => {
+    const previousCorridors = get().corridors;
+    const corridor = previousCorridors.find(c => c.id === id);
+    if (!corridor) return;
+
+    set((state) => ({
+      corridors: state.corridors.filter(corridor => corridor.id !== id)
+    }));
+    useUndoRedoStore.getState().addAction(createCorridorChangeAction(`Remove ${corridor.name}`, previousCorridors, get().corridors));
+  },
+
+  setCorridors: (corridors) => {
+    const previousCorridors = get().corridors;
+    if (previousCorridors === corridors) return;
+
+    set({ corridors });
+    useUndoRedoStore.getState().addAction(createCorridorChangeAction('Replace fire lanes', previousCorridors, corridors));
+  },
+  setCorridorWidth: (width) => set({ corridorWidth: width }),
+  toggleCorridors: () => set((state) => ({ showCorridors: !state.showCorridors })),
+
+  // Underlay actions
+  addUnderlay: (underlay) => {
+    const previousUnderlays = get().underlays;
+    set({ underlays: [...previousUnderlays, underlay] });
+    useUndoRedoStore.getState().addAction(createUnderlayChangeAction(`Add ${underlay.name}`, previousUnderlays, get().underlays));
+  },
+
+  updateUnderlay: (id, updates, description) => {
+    const previousUnderlays = get().underlays;
+    const underlay = previousUnderlays.find(u => u.id === id);
+    if (!underlay) return;
+
+    set((state) => ({
+      underlays: state.underlays.map(u => u.id === id ? { ...u, ...updates } : u)
+    }));
+    useUndoRedoStore.getState().addAction(
+      createUnderlayChangeAction(description || `Edit ${underlay.name}`, previousUnderlays, get().underlays, `edit-underlay:${id}`)
+    );
+  },
+
+  removeUnderlay: (id) => {
+    const previousUnderlays = get().underlays;
+    const underlay = previousUnderlays.find(u => u.id === id);
+    if (!underlay) return;
+
+    set((state) => ({
+      underlays: state.underlays.filter(u => u.id !== id),
+      calibrationUnderlayId: state.calibrationUnderlayId === id ? null : state.calibrationUnderlayId,
+      movingUnderlayId: state.movingUnderlayId === id ? null : state.movingUnderlayId
+    }));
+    useUndoRedoStore.getState().addAction(createUnderlayChangeAction(`Remove ${underlay.name}`, previousUnderlays, get().underlays));
+  },
+
+  reorderUnderlay: (id, offset) => {
+    const previousUnderlays = get().underlays;
+    const index = previousUnderlays.findIndex(u => u.id === id);
+    const newIndex = Math.max(0, Math.min(previousUnderlays.length - 1, index + offset));
+    if (index < 0 || newIndex === index) return;
+
+    const underlays = [...previousUnderlays];
+    const [underlay] = underlays.splice(index, 1);
+    underlays.splice(newIndex, 0, underlay);
+    set({ underlays });
+    useUndoRedoStore.getState().addAction(createUnderlayChangeAction(`Reorder ${underlay.name}`, previousUnderlays, underlays));
+  },
+
+  setUnderlays: (underlays) => {
+    const previousUnderlays = get().underlays;
+    if (previousUnderlays === underlays) return;
+
+    set((state) => ({
+      underlays,
+      calibrationUnderlayId: underlays.some(u => u.id === state.calibrationUnderlayId) ? state.calibrationUnderlayId : null,
+      movingUnderlayId: underlays.some(u => u.id === state.movingUnderlayId) ? state.movingUnderlayId : null
+    }));
+    useUndoRedoStore.getState().addAction(createUnderlayChangeAction('Replace site plan layers', previousUnderlays, underlays));
+  },
+
+  startUnderlayCalibration: (id) => set({
+    isCalibrationMode: true,
+    isRulerMode: false,
+    isPerimeterMode: false,
+    isCorridorMode: false,
+    isPanningMode: false,
+    currentCalibrationLine: null,
+    calibrationUnderlayId: id,
+    movingUnderlayId: null
+  }),
+
+  setMovingUnderlay: (id) => set({ movingUnderlayId: id }),
+
+  // Lot axis actions
+  toggleLotAxisMode: () => set((state) => ({ isLotAxisMode: !state.isLotAxisMode })),
+
+  setLotAxis: (lotAxis) => {
+    const previousAxis = get().lotAxis;
+    if (previousAxis === lotAxis) return;
+
+    set({ lotAxis });
+    useUndoRedoStore.getState().addAction(createLotAxisChangeAction(previousAxis, lotAxis));
+  },
+
+  remapGeometry: (mapPoint) => {
+    const remap = <T extends { x: number; y: number }>(point: T): T => ({ ...point, ...mapPoint(point.x, point.y) });
+    const { pixelsPerFoot } = get();
+
+    // Reference lines keep their ground length, so each is measured again; the caller sets the scale
+    const previousCalibration = getCalibrationSnapshot(get());
+    if (previousCalibration.calibrationPoints.length > 0 || previousCalibration.calibrationLines.length > 0) {
+      const calibrationLines = previousCalibration.calibrationLines.map(line => {
+        const startPoint = remap(line.startPoint);
+        const endPoint = remap(line.endPoint);
+        const pixelDistance = CalibrationService.calculatePixelDistance(startPoint, endPoint);
+        return {
+          ...line,
+          startPoint,
+          endPoint,
+          pixelDistance,
+          pixelsPerFoot: CalibrationService.calculatePixelsPerFoot(pixelDistance, line.realWorldDistance)
+        };
+      });
+      set({
+        calibrationPoints: previousCalibration.calibrationPoints.map(remap),
+        calibrationLines,
+        activeCalibrationLine: calibrationLines.find(line => line.id === previousCalibration.activeCalibrationLine?.id) || null
+      });
+      useUndoRedoStore.getState().addAction(
+        createCalibrationAction('CALIBRATION_SET', previousCalibration, getCalibrationSnapshot(get()), 'Move calibration lines')
+      );
+    }
+
+    // Measurement lines keep their endpoints on the ground and are measured again
+    get().measurementLines.forEach(line => {
+      const startPoint = remap(line.startPoint);
+      const endPoint = remap(line.endPoint);
+      const pixelDistance = CalibrationService.calculatePixelDistance(startPoint, endPoint);
+      get().updateMeasurementLine(line.id, {
+        startPoint,
+        endPoint,
+        pixelDistance,
+        realWorldDistance: CalibrationService.pixelsToFeet(pixelDistance, pixelsPerFoot)
+      });
+    });
+
+    const previousPerimeter = { currentPerimeter: get().currentPerimeter, activePerimeter: get().activePerimeter };
+    if (previousPerimeter.activePerimeter || previousPerimeter.currentPerimeter.length > 0) {
+      const nextPerimeter = {
+        currentPerimeter: previousPerimeter.currentPerimeter.map(remap),
+        activePerimeter: previousPerimeter.activePerimeter
+          ? { ...previousPerimeter.activePerimeter, points: previousPerimeter.activePerimeter.points.map(remap) }
+          : null
+      };
+      set(nextPerimeter);
+      useUndoRedoStore.getState().addAction(createPerimeterClearAction(previousPerimeter, nextPerimeter));
+    }
+
+    if (get().corridors.length > 0) {
+      get().setCorridors(get().corridors.map(corridor => ({ ...corridor, points: corridor.points.map(remap) })));
+    }
+
+    // Underlays stay centered on the same ground and turn with it. Calibrated
+    // ones follow the new scale by themselves; the others are resized here.
+    if (get().underlays.length > 0) {
+      get().setUnderlays(get().underlays.map(underlay => {
+        const radians = (underlay.rotation * Math.PI) / 180;
+        const center = mapPoint(underlay.x, underlay.y);
+        const heading = mapPoint(underlay.x + Math.cos(radians), underlay.y + Math.sin(radians));
+        const degrees = (Math.atan2(heading.y - center.y, heading.x - center.x) * 180) / Math.PI;
+        const stretch = Math.hypot(heading.x - center.x, heading.y - center.y);
+        return {
+          ...underlay,
+          ...center,
+          rotation: (degrees + 360) % 360,
+          scale: underlay.pixelsPerFoot ? underlay.scale : underlay.scale * stretch
+        };
+      }));
+    }
+
+    // The axis turns with the ground around the point it passes through
+    const lotAxis = get().lotAxis;
+    if (lotAxis) {
+      const radians = (lotAxis.angle * Math.PI) / 180;
+      const origin = mapPoint(lotAxis.x, lotAxis.y);
+      const heading = mapPoint(lotAxis.x + Math.cos(radians), lotAxis.y + Math.sin(radians));
+      get().setLotAxis(LotAxisService.fromPoints(origin, heading));
+    }
+  },
+
   // Zoom actions
   zoomIn: () => set((state) => ({ scale: Math.min(5, state.scale * 1.2) })),
   zoomOut: () => set((state) => ({ scale: Math.max(0.1, state.scale / 1.2) })),
@@ -433,5 +909,30 @@ export const useMapStore = create<MapState>((set, get) => ({
     });
   },
   
+  // Center the view on a region of the canvas, scaling so it fills the visible area
+  zoomToBounds: (bounds, padding = 40) => {
+    const canvas = document.querySelector('canvas');
+    const canvasWidth = canvas ? canvas.width : 800;
+    const canvasHeight = canvas ? canvas.height : 600;
+
+    const contentWidth = Math.max(bounds.maxX - bounds.minX, 1);
+    const contentHeight = Math.max(bounds.maxY - bounds.minY, 1);
+
+    const newScale = Math.max(0.1, Math.min(5,
+      Math.min((canvasWidth - padding * 2) / contentWidth, (canvasHeight - padding * 2) / contentHeight)
+    ));
+
+    const centerX = (bounds.minX + bounds.maxX) / 2;
+    const centerY = (bounds.minY + bounds.maxY) / 2;
+
+    set({
+      scale: newScale,
+      position: {
+        x: canvasWidth / 2 - centerX * newScale,
+        y: canvasHeight / 2 - centerY * newScale
+      }
+    });
+  },
+  
   resetZoom: () => set({ scale: 1 })
 }));
@@ -0,0 +1,113 @@
+import { create } from 'zustand';
+
+const STORAGE_KEY = 'lotlizard-settings';
+
+/**
+ * User preferences that apply across projects
+ */
+interface Settings {
+  autoSave: boolean;
+  autoSaveInterval: number; // in minutes
+  persistHistory: boolean; // Save the undo history with the project
+  showCoordinates: boolean; // Show the cursor position on the map
+  showFrameTimes: boolean; // Show how long the map takes to draw
+  arrangeSpacingFeet: number; // Edge-to-edge gap used by the space commands
+  snapToGrid: boolean; // Snap dragged items to the grid
+  snapToItems: boolean; // Snap dragged items to the edges, centers and clearance zones of nearby items
+}
+
+interface SettingsState extends Settings {
+  // Actions
+  setAutoSave: (enabled: boolean) => void;
+  setAutoSaveInterval: (minutes: number) => void;
+  setPersistHistory: (enabled: boolean) => void;
+  setShowCoordinates: (enabled: boolean) => void;
+  setShowFrameTimes: (enabled: boolean) => void;
+  setArrangeSpacingFeet: (feet: number) => void;
+  setSnapToGrid: (enabled: boolean) => void;
+  setSnapToItems: (enabled: boolean) => void;
+}
+
+const DEFAULT_SETTINGS: Settings = {
+  autoSave: true,
+  autoSaveInterval: 5,
+  persistHistory: false,
+  showCoordinates: false,
+  showFrameTimes: false,
+  arrangeSpacingFeet: 10,
+  snapToGrid: true,
+  snapToItems: true
+};
+
+const loadSettings = (): Settings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('Failed to load settings from local storage:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const saveSettings = (state: SettingsState) => {
+  const settings: Settings = {
+    autoSave: state.autoSave,
+    autoSaveInterval: state.autoSaveInterval,
+    persistHistory: state.persistHistory,
+    showCoordinates: state.showCoordinates,
+    showFrameTimes: state.showFrameTimes,
+    arrangeSpacingFeet: state.arrangeSpacingFeet,
+    snapToGrid: state.snapToGrid,
+    snapToItems: state.snapToItems
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save settings to local storage:', error);
+  }
+};
+
+export const useSettingsStore = create<SettingsState>((set, get) => ({
+  ...loadSettings(),
+
+  setAutoSave: (enabled) => {
+    set({ autoSave: enabled });
+    saveSettings(get());
+  },
+
+  setAutoSaveInterval: (minutes) => {
+    const autoSaveInterval = Math.min(60, Math.max(1, Math.round(minutes) || 1));
+    set({ autoSaveInterval });
+    saveSettings(get());
+  },
+
+  setPersistHistory: (enabled) => {
+    set({ persistHistory: enabled });
+    saveSettings(get());
+  },
+
+  setShowCoordinates: (enabled) => {
+    set({ showCoordinates: enabled });
+    saveSettings(get());
+  },
+
+  setShowFrameTimes: (enabled) => {
+    set({ showFrameTimes: enabled });
+    saveSettings(get());
+  },
+
+  setArrangeSpacingFeet: (feet) => {
+    set({ arrangeSpacingFeet: Math.max(0, feet) || 0 });
+    saveSettings(get());
+  },
+
+  setSnapToGrid: (enabled) => {
+    set({ snapToGrid: enabled });
+    saveSettings(get());
+  },
+
+  setSnapToItems: (enabled) => {
+    set({ snapToItems: enabled });
+    saveSettings(get());
+  }
+}));
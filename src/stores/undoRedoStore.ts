@@ -1,8 +1,12 @@
 import { create } from 'zustand';
 import { EquipmentItem } from './equipmentStore';
-import { MeasurementLine, PerimeterPoint, Perimeter } from './mapStore';
+import { MeasurementLine, PerimeterPoint, Perimeter, Corridor, Underlay, LotAxis } from './mapStore';
+import { CalibrationPoint, CalibrationLine } from '../services/calibrationService';
+import { SpacingRule } from '../services/spacingRuleService';
+import { GeoTransform } from '../services/geoService';
 
-// Define action types for undo/redo system
+// Define action types for undo/redo system.
+// Layout changes are recorded; view state (zoom, pan, tool modes, display toggles) is not.
 export type ActionType =
   | 'EQUIPMENT_ADD'
   | 'EQUIPMENT_REMOVE'
@@ -10,16 +14,24 @@ export type ActionType =
   | 'EQUIPMENT_ROTATE'
   | 'EQUIPMENT_RESIZE'
   | 'EQUIPMENT_UPDATE'
+  | 'EQUIPMENT_RESCALE'
   | 'EQUIPMENT_PASTE'
   | 'EQUIPMENT_CLEAR_ALL'
   | 'MEASUREMENT_ADD'
   | 'MEASUREMENT_REMOVE'
+  | 'MEASUREMENT_UPDATE'
   | 'MEASUREMENT_CLEAR_ALL'
   | 'PERIMETER_ADD_POINT'
   | 'PERIMETER_CLOSE'
   | 'PERIMETER_CLEAR'
   | 'CALIBRATION_SET'
-  | 'CALIBRATION_CLEAR';
+  | 'CALIBRATION_CLEAR'
+  | 'CORRIDOR_CHANGE'
+  | 'SPACING_RULES_CHANGE'
+  | 'IMAGE_SET'
+  | 'UNDERLAY_CHANGE'
+  | 'LOT_AXIS_CHANGE'
+  | 'BATCH';
 
 // Define the data structure for each action
 export interface UndoRedoAction {
@@ -29,6 +41,16 @@ export interface UndoRedoAction {
   description: string;
   undoData: any;
   redoData: any;
+  coalesceKey?: string; // Consecutive actions with the same key merge into one history entry
+}
+
+// How long after one action a matching action still counts as the same interaction
+const COALESCE_WINDOW = 1000; // ms
+
+// Undo history saved with a project
+export interface PersistedHistory {
+  undoStack: UndoRedoAction[];
+  redoStack: UndoRedoAction[];
 }
 
 // Equipment-specific action data interfaces
@@ -74,6 +96,24 @@ export interface EquipmentUpdateAction {
   redoData: { itemId: string; newData: Partial<EquipmentItem> };
 }
 
+export interface EquipmentRescaleAction {
+  type: 'EQUIPMENT_RESCALE';
+  undoData: { items: Array<{ id: string; width: number; height: number }> };
+  redoData: { items: Array<{ id: string; width: number; height: number }> };
+}
+
+export interface EquipmentPasteAction {
+  type: 'EQUIPMENT_PASTE';
+  undoData: { itemIds: string[]; selectedIds: string[] };
+  redoData: { items: EquipmentItem[] };
+}
+
+export interface EquipmentClearAllAction {
+  type: 'EQUIPMENT_CLEAR_ALL';
+  undoData: { items: EquipmentItem[]; selectedIds: string[] };
+  redoData: {};
+}
+
 // Measurement-specific action data interfaces
 export interface MeasurementAddAction {
   type: 'MEASUREMENT_ADD';
@@ -87,6 +127,18 @@ export interface MeasurementRemoveAction {
   redoData: { lineId: string };
 }
 
+export interface MeasurementUpdateAction {
+  type: 'MEASUREMENT_UPDATE';
+  undoData: { line: MeasurementLine };
+  redoData: { line: MeasurementLine };
+}
+
+export interface MeasurementClearAllAction {
+  type: 'MEASUREMENT_CLEAR_ALL';
+  undoData: { lines: MeasurementLine[] };
+  redoData: {};
+}
+
 // Perimeter-specific action data interfaces
 export interface PerimeterAddPointAction {
   type: 'PERIMETER_ADD_POINT';
@@ -96,10 +148,100 @@ export interface PerimeterAddPointAction {
 
 export interface PerimeterCloseAction {
   type: 'PERIMETER_CLOSE';
-  undoData: { currentPerimeter: PerimeterPoint[] };
+  undoData: { currentPerimeter: PerimeterPoint[]; previousPerimeter: Perimeter | null };
   redoData: { perimeter: Perimeter };
 }
 
+export interface PerimeterClearAction {
+  type: 'PERIMETER_CLEAR';
+  undoData: { currentPerimeter: PerimeterPoint[]; activePerimeter: Perimeter | null };
+  redoData: { currentPerimeter: PerimeterPoint[]; activePerimeter: Perimeter | null };
+}
+
+// Calibration state restored as a whole on undo/redo
+export interface CalibrationSnapshot {
+  calibrationPoints: CalibrationPoint[];
+  calibrationLines: CalibrationLine[];
+  activeCalibrationLine: CalibrationLine | null;
+  pixelsPerFoot: number;
+}
+
+export interface CalibrationSetAction {
+  type: 'CALIBRATION_SET' | 'CALIBRATION_CLEAR';
+  undoData: { calibration: CalibrationSnapshot };
+  redoData: { calibration: CalibrationSnapshot };
+}
+
+export interface CorridorChangeAction {
+  type: 'CORRIDOR_CHANGE';
+  undoData: { corridors: Corridor[] };
+  redoData: { corridors: Corridor[] };
+}
+
+export interface SpacingRulesChangeAction {
+  type: 'SPACING_RULES_CHANGE';
+  undoData: { spacingRules: SpacingRule[] };
+  redoData: { spacingRules: SpacingRule[] };
+}
+
+export interface ImageSetAction {
+  type: 'IMAGE_SET';
+  undoData: { imageUrl: string | null; geoTransform: GeoTransform | null };
+  redoData: { imageUrl: string | null; geoTransform: GeoTransform | null };
+}
+
+export interface UnderlayChangeAction {
+  type: 'UNDERLAY_CHANGE';
+  undoData: { underlays: Underlay[] };
+  redoData: { underlays: Underlay[] };
+}
+
+export interface LotAxisChangeAction {
+  type: 'LOT_AXIS_CHANGE';
+  undoData: { lotAxis: LotAxis | null };
+  redoData: { lotAxis: LotAxis | null };
+}
+
+// Several actions undone and redone as one step, such as a drag or a calibration that rescales equipment
+export interface BatchAction {
+  type: 'BATCH';
+  undoData: { actions: UndoRedoAction[] };
+  redoData: { actions: UndoRedoAction[] };
+}
+
+// Append an action, merging it into the last one when it continues the same interaction
+const appendAction = (actions: UndoRedoAction[], action: UndoRedoAction): UndoRedoAction[] => {
+  const last = actions[actions.length - 1];
+  if (
+    last &&
+    action.coalesceKey &&
+    last.coalesceKey === action.coalesceKey &&
+    action.timestamp - last.timestamp <= COALESCE_WINDOW
+  ) {
+    // Keep the state from before the interaction started, take the latest state as the result
+    return [...actions.slice(0, -1), { ...action, id: last.id, undoData: last.undoData }];
+  }
+  return [...actions, action];
+};
+
+// The drawings an underlay list shows, ignoring their order and placement
+const underlayImages = (underlays: Underlay[]): string =>
+  underlays.map(underlay => underlay.imageUrl).sort().join('\n');
+
+// Check whether an action changes the background image or adds or removes an underlay drawing,
+// which are too large to save in history. Moving or restyling an underlay keeps its drawing.
+const changesImage = (action: UndoRedoAction): boolean =>
+  action.type === 'IMAGE_SET' ||
+  (action.type === 'UNDERLAY_CHANGE' && underlayImages(action.undoData.underlays) !== underlayImages(action.redoData.underlays)) ||
+  (action.type === 'BATCH' && action.undoData.actions.some(changesImage));
+
+// Actions recorded while a batch is open
+interface OpenBatch {
+  description: string;
+  actions: UndoRedoAction[];
+  depth: number;
+}
+
 // Define the undo/redo state structure
 interface UndoRedoState {
   undoStack: UndoRedoAction[];
@@ -107,9 +249,12 @@ interface UndoRedoState {
   maxHistorySize: number;
   isUndoing: boolean;
   isRedoing: boolean;
+  openBatch: OpenBatch | null;
 
   // Actions
   addAction: (action: Omit<UndoRedoAction, 'id' | 'timestamp'>) => void;
+  beginBatch: (description: string, gesture?: boolean) => boolean; // False when a gesture would start inside an open batch
+  endBatch: () => void;
   undo: () => UndoRedoAction | null;
   redo: () => UndoRedoAction | null;
   canUndo: () => boolean;
@@ -117,6 +262,8 @@ interface UndoRedoState {
   clearHistory: () => void;
   getUndoDescription: () => string | null;
   getRedoDescription: () => string | null;
+  getPersistableHistory: () => PersistedHistory;
+  restoreHistory: (history: PersistedHistory) => void;
 
   // Internal state management
   setUndoing: (isUndoing: boolean) => void;
@@ -130,6 +277,7 @@ export const useUndoRedoStore = create<UndoRedoState>((set, get) => ({
   maxHistorySize: 50, // Limit history to prevent memory issues
   isUndoing: false,
   isRedoing: false,
+  openBatch: null,
 
   addAction: (action) => {
     const state = get();
@@ -145,18 +293,62 @@ export const useUndoRedoStore = create<UndoRedoState>((set, get) => ({
       timestamp: Date.now(),
     };
 
+    // Collect actions into the open batch instead of the history
+    if (state.openBatch) {
+      set({ openBatch: { ...state.openBatch, actions: appendAction(state.openBatch.actions, newAction) } });
+      return;
+    }
+
     set((state) => ({
-      undoStack: [
-        ...state.undoStack.slice(-(state.maxHistorySize - 1)), // Keep within size limit
-        newAction
-      ],
+      undoStack: appendAction(state.undoStack, newAction).slice(-state.maxHistorySize), // Keep within size limit
       redoStack: [] // Clear redo stack when new action is added
     }));
   },
 
+  beginBatch: (description, gesture = false) => {
+    const { openBatch } = get();
+
+    // A drag can't start while another is still open, or its batch would never close
+    if (openBatch && gesture) {
+      return false;
+    }
+
+    // Nested batches are folded into the outermost one
+    if (openBatch) {
+      set({ openBatch: { ...openBatch, depth: openBatch.depth + 1 } });
+      return true;
+    }
+
+    set({ openBatch: { description, actions: [], depth: 1 } });
+    return true;
+  },
+
+  endBatch: () => {
+    const { openBatch, addAction } = get();
+    if (!openBatch) return;
+
+    if (openBatch.depth > 1) {
+      set({ openBatch: { ...openBatch, depth: openBatch.depth - 1 } });
+      return;
+    }
+
+    set({ openBatch: null });
+
+    // Empty batches leave no history entry; a single action needs no wrapper.
+    // The coalesce key is dropped because the batch already covers the whole gesture.
+    if (openBatch.actions.length === 0) return;
+    if (openBatch.actions.length === 1) {
+      const [action] = openBatch.actions;
+      addAction({ type: action.type, description: action.description, undoData: action.undoData, redoData: action.redoData });
+      return;
+    }
+
+    addAction(createBatchAction(openBatch.description, openBatch.actions));
+  },
+
   undo: () => {
     const state = get();
-    if (state.undoStack.length === 0) {
+    if (state.undoStack.length === 0 || state.openBatch) {
       return null;
     }
 
@@ -173,7 +365,7 @@ export const useUndoRedoStore = create<UndoRedoState>((set, get) => ({
 
   redo: () => {
     const state = get();
-    if (state.redoStack.length === 0) {
+    if (state.redoStack.length === 0 || state.openBatch) {
       return null;
     }
 
@@ -199,7 +391,8 @@ export const useUndoRedoStore = create<UndoRedoState>((set, get) => ({
   clearHistory: () => {
     set({
       undoStack: [],
-      redoStack: []
+      redoStack: [],
+      openBatch: null
     });
   },
 
@@ -219,6 +412,28 @@ export const useUndoRedoStore = create<UndoRedoState>((set, get) => ({
     return state.redoStack[state.redoStack.length - 1].description;
   },
 
+  getPersistableHistory: () => {
+    const { undoStack, redoStack } = get();
+
+    // Image changes hold whole images or session-only URLs, so history is cut off at them
+    const lastImageChange = undoStack.map(changesImage).lastIndexOf(true);
+    const firstImageRedo = redoStack.map(changesImage).lastIndexOf(true);
+
+    return {
+      undoStack: undoStack.slice(lastImageChange + 1),
+      redoStack: redoStack.slice(firstImageRedo + 1)
+    };
+  },
+
+  restoreHistory: (history) => {
+    const { maxHistorySize } = get();
+    set({
+      undoStack: (history.undoStack || []).slice(-maxHistorySize),
+      redoStack: (history.redoStack || []).slice(-maxHistorySize),
+      openBatch: null
+    });
+  },
+
   setUndoing: (isUndoing) => {
     set({ isUndoing });
   },
@@ -247,7 +462,8 @@ export const createEquipmentMoveAction = (itemId: string, itemName: string, prev
   type: 'EQUIPMENT_MOVE',
   description: `Move ${itemName}`,
   undoData: { itemId, previousX, previousY },
-  redoData: { itemId, newX, newY }
+  redoData: { itemId, newX, newY },
+  coalesceKey: `move:${itemId}`
 });
 
 export const createEquipmentBulkMoveAction = (items: Array<{ id: string; name: string; previousX: number; previousY: number; newX: number; newY: number }>): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
@@ -256,6 +472,18 @@ export const createEquipmentBulkMoveAction = (items: Array<{ id: string; name: s
   undoData: {
     items: items.map(item => ({ id: item.id, x: item.previousX, y: item.previousY }))
   },
+  redoData: {
+    items: items.map(item => ({ id: item.id, x: item.newX, y: item.newY }))
+  },
+  coalesceKey: `move-selected:${items.map(item => item.id).join(',')}`
+});
+
+export const createEquipmentArrangeAction = (description: string, items: Array<{ id: string; previousX: number; previousY: number; newX: number; newY: number }>): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'EQUIPMENT_MOVE',
+  description,
+  undoData: {
+    items: items.map(item => ({ id: item.id, x: item.previousX, y: item.previousY }))
+  },
   redoData: {
     items: items.map(item => ({ id: item.id, x: item.newX, y: item.newY }))
   }
@@ -265,7 +493,8 @@ export const createEquipmentRotateAction = (itemId: string, itemName: string, pr
   type: 'EQUIPMENT_ROTATE',
   description: `Rotate ${itemName}`,
   undoData: { itemId, previousRotation },
-  redoData: { itemId, newRotation }
+  redoData: { itemId, newRotation },
+  coalesceKey: `rotate:${itemId}`
 });
 
 export const createEquipmentResizeAction = (itemId: string, itemName: string, previousWidth: number, previousHeight: number, newWidth: number, newHeight: number): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
@@ -303,9 +532,111 @@ export const createPerimeterAddPointAction = (point: PerimeterPoint, pointCount:
   redoData: { point }
 });
 
-export const createPerimeterCloseAction = (currentPerimeter: PerimeterPoint[], perimeter: Perimeter): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+export const createPerimeterCloseAction = (currentPerimeter: PerimeterPoint[], perimeter: Perimeter, previousPerimeter: Perimeter | null = null): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
   type: 'PERIMETER_CLOSE',
   description: `Close perimeter`,
-  undoData: { currentPerimeter: [...currentPerimeter] },
+  undoData: { currentPerimeter: [...currentPerimeter], previousPerimeter },
   redoData: { perimeter }
+});
+
+export const createEquipmentRescaleAction = (previousItems: EquipmentItem[], newItems: EquipmentItem[]): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'EQUIPMENT_RESCALE',
+  description: `Rescale ${newItems.length} items`,
+  undoData: { items: previousItems.map(item => ({ id: item.id, width: item.width, height: item.height })) },
+  redoData: { items: newItems.map(item => ({ id: item.id, width: item.width, height: item.height })) }
+});
+
+export const createEquipmentPasteAction = (items: EquipmentItem[], previousSelectedIds: string[]): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'EQUIPMENT_PASTE',
+  description: items.length === 1 ? `Paste ${items[0].name}` : `Paste ${items.length} items`,
+  undoData: { itemIds: items.map(item => item.id), selectedIds: [...previousSelectedIds] },
+  redoData: { items }
+});
+
+export const createEquipmentClearAllAction = (items: EquipmentItem[], selectedIds: string[]): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'EQUIPMENT_CLEAR_ALL',
+  description: `Clear all equipment`,
+  undoData: { items: [...items], selectedIds: [...selectedIds] },
+  redoData: {}
+});
+
+export const createMeasurementUpdateAction = (previousLine: MeasurementLine, newLine: MeasurementLine): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'MEASUREMENT_UPDATE',
+  description: `Edit measurement line`,
+  undoData: { line: previousLine },
+  redoData: { line: newLine }
+});
+
+export const createMeasurementClearAllAction = (lines: MeasurementLine[]): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'MEASUREMENT_CLEAR_ALL',
+  description: `Clear measurement lines`,
+  undoData: { lines: [...lines] },
+  redoData: {}
+});
+
+export const createPerimeterClearAction = (
+  previous: { currentPerimeter: PerimeterPoint[]; activePerimeter: Perimeter | null },
+  next: { currentPerimeter: PerimeterPoint[]; activePerimeter: Perimeter | null }
+): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'PERIMETER_CLEAR',
+  description: previous.activePerimeter && !next.activePerimeter ? `Remove perimeter` : `Clear perimeter points`,
+  undoData: previous,
+  redoData: next
+});
+
+export const createCalibrationAction = (type: 'CALIBRATION_SET' | 'CALIBRATION_CLEAR', previous: CalibrationSnapshot, next: CalibrationSnapshot, description?: string): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type,
+  description: description || (type === 'CALIBRATION_SET' ? `Set scale to ${next.pixelsPerFoot.toFixed(2)} px/ft` : `Clear calibration`),
+  undoData: { calibration: previous },
+  redoData: { calibration: next }
+});
+
+export const createCorridorChangeAction = (description: string, previousCorridors: Corridor[], newCorridors: Corridor[], coalesceKey?: string): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'CORRIDOR_CHANGE',
+  description,
+  undoData: { corridors: previousCorridors },
+  redoData: { corridors: newCorridors },
+  coalesceKey
+});
+
+export const createSpacingRulesChangeAction = (description: string, previousRules: SpacingRule[], newRules: SpacingRule[], coalesceKey?: string): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'SPACING_RULES_CHANGE',
+  description,
+  undoData: { spacingRules: previousRules },
+  redoData: { spacingRules: newRules },
+  coalesceKey
+});
+
+export const createImageSetAction = (
+  previousUrl: string | null,
+  newUrl: string | null,
+  previousGeoTransform: GeoTransform | null = null,
+  newGeoTransform: GeoTransform | null = null
+): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'IMAGE_SET',
+  description: newUrl ? `Set background image` : `Remove background image`,
+  undoData: { imageUrl: previousUrl, geoTransform: previousGeoTransform },
+  redoData: { imageUrl: newUrl, geoTransform: newGeoTransform }
+});
+
+export const createUnderlayChangeAction = (description: string, previousUnderlays: Underlay[], newUnderlays: Underlay[], coalesceKey?: string): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'UNDERLAY_CHANGE',
+  description,
+  undoData: { underlays: previousUnderlays },
+  redoData: { underlays: newUnderlays },
+  coalesceKey
+});
+
+export const createLotAxisChangeAction = (previousAxis: LotAxis | null, newAxis: LotAxis | null): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'LOT_AXIS_CHANGE',
+  description: newAxis ? 'Set lot axis' : 'Clear lot axis',
+  undoData: { lotAxis: previousAxis },
+  redoData: { lotAxis: newAxis }
+});
+
+export const createBatchAction = (description: string, actions: UndoRedoAction[]): Omit<UndoRedoAction, 'id' | 'timestamp'> => ({
+  type: 'BATCH',
+  description,
+  undoData: { actions },
+  redoData: { actions }
 });
\ No newline at end of file